@@ -27,6 +27,9 @@ const QCPage = lazy(() => import('./pages/QCPage'));
 const ProfilePage = lazy(() => import('./pages/ProfilePage'));
 const BillingPage = lazy(() => import('./pages/BillingPage'));
 const PrinterTestPage = lazy(() => import('./pages/PrinterTestPage'));
+const ReportsPage = lazy(() => import('./pages/ReportsPage'));
+const ScanStationPage = lazy(() => import('./pages/ScanStationPage'));
+const MachineBoardPage = lazy(() => import('./pages/MachineBoardPage'));
 
 // Create a client
 const queryClient = new QueryClient({
@@ -95,11 +98,14 @@ function App() {
                   <Route path="orders/:orderId/records" element={<OrderRecordsPage />} />
                   <Route path="production" element={<WorkFlowPage />} />
                   <Route path="complete-order" element={<CompleteOrderPage />} />
+                  <Route path="scan" element={<ScanStationPage />} />
+                  <Route path="machine-board" element={<MachineBoardPage />} />
                   <Route path="production/record/:recordId" element={<RecordAssignmentsPage />} />
                   <Route path="management" element={<ManagementPage />} />
                   <Route path="management/orders/:orderId" element={<OrderDetailsPage />} />
                   <Route path="qc" element={<QCPage />} />
                   <Route path="billing" element={<BillingPage />} />
+                  <Route path="reports" element={<ReportsPage />} />
                   <Route path="printer-test" element={<PrinterTestPage />} />
                   <Route path="users" element={<UserPage />} />
                   <Route path="employees" element={
@@ -0,0 +1,193 @@
+import { Box, Typography, IconButton, Tooltip, CircularProgress } from '@mui/material';
+import {
+    NotificationsActive as ReminderIcon,
+    History as HistoryIcon,
+    Payment as PaymentIcon,
+} from '@mui/icons-material';
+import type { GridColDef } from '@mui/x-data-grid';
+import PrimaryTable from '../common/PrimaryTable';
+import colors from '../../styles/colors';
+import { type Invoice } from '../../services/billingService';
+import { useOverdueInvoices, useSendInvoiceReminder } from '../../hooks/useBilling';
+import { getDaysOverdue, getDunningStage, isReminderDue } from '../../utils/invoiceStatusUtils';
+import { formatCurrency, isForeignCurrency, toBaseCurrency } from '../../utils/currencyUtils';
+
+interface OverdueInvoicesPanelProps {
+    onShowReminders: (invoice: Invoice) => void;
+    onRecordPayment: (invoice: Invoice) => void;
+}
+
+// Overdue invoices with what they owe, ordered most overdue first
+interface DunningRow extends Invoice {
+    daysOverdue: number;
+    outstanding: number;
+    reminderDue: boolean;
+}
+
+export default function OverdueInvoicesPanel({ onShowReminders, onRecordPayment }: OverdueInvoicesPanelProps) {
+    const { data: overdueInvoices = [], isLoading } = useOverdueInvoices();
+    const sendReminderMutation = useSendInvoiceReminder();
+
+    const rows: DunningRow[] = overdueInvoices
+        .map(invoice => ({
+            ...invoice,
+            daysOverdue: getDaysOverdue(invoice.dueDate),
+            outstanding: Math.round((invoice.total - (invoice.payment ?? invoice.paymentAmount ?? 0)) * 100) / 100,
+            reminderDue: isReminderDue(invoice.lastReminderAt),
+        }))
+        .sort((a, b) => b.daysOverdue - a.daysOverdue);
+
+    // Foreign currency invoices are totalled in LKR at the rate they were raised at
+    const totalOutstanding = rows.reduce((sum, row) =>
+        sum + (isForeignCurrency(row.currency) ? toBaseCurrency(row.outstanding, row.exchangeRate) : row.outstanding), 0
+    );
+    const remindersDue = rows.filter(row => row.reminderDue).length;
+
+    const handleSendReminder = async (invoiceId: number) => {
+        try {
+            await sendReminderMutation.mutateAsync(invoiceId);
+        } catch (error) {
+            console.error('Error sending reminder:', error);
+        }
+    };
+
+    const columns: GridColDef[] = [
+        { field: 'invoiceNumber', headerName: 'Invoice #', flex: 1, minWidth: 120 },
+        { field: 'customerName', headerName: 'Customer', flex: 1.5, minWidth: 150 },
+        {
+            field: 'dueDate',
+            headerName: 'Due Date',
+            flex: 1,
+            minWidth: 110,
+            renderCell: (params) => params.row.dueDate ? new Date(params.row.dueDate).toLocaleDateString() : 'N/A'
+        },
+        {
+            field: 'daysOverdue',
+            headerName: 'Days Overdue',
+            flex: 0.8,
+            minWidth: 110,
+            type: 'number',
+            renderCell: (params) => (
+                <span style={{ fontWeight: 600, color: params.value > 60 ? colors.error : '#f57c00' }}>
+                    {params.value}
+                </span>
+            )
+        },
+        {
+            field: 'outstanding',
+            headerName: 'Outstanding',
+            flex: 1,
+            minWidth: 130,
+            type: 'number',
+            renderCell: (params) => formatCurrency(params.value, params.row.currency)
+        },
+        {
+            field: 'reminderCount',
+            headerName: 'Reminders',
+            flex: 0.7,
+            minWidth: 90,
+            type: 'number',
+            renderCell: (params) => params.value || 0
+        },
+        {
+            field: 'lastReminderAt',
+            headerName: 'Last Reminder',
+            flex: 1,
+            minWidth: 120,
+            renderCell: (params) => params.value ? new Date(params.value).toLocaleDateString() : 'Never'
+        },
+        {
+            field: 'nextStage',
+            headerName: 'Next Step',
+            flex: 1.2,
+            minWidth: 150,
+            sortable: false,
+            renderCell: (params) => (
+                <span style={{ color: params.row.reminderDue ? colors.text.primary : colors.text.muted }}>
+                    {getDunningStage(params.row.reminderCount)}
+                    {!params.row.reminderDue && ' (waiting)'}
+                </span>
+            )
+        },
+        {
+            field: 'actions',
+            headerName: 'Actions',
+            flex: 1,
+            minWidth: 130,
+            sortable: false,
+            renderCell: (params) => (
+                <div className="flex gap-1">
+                    <Tooltip title={`Send ${getDunningStage(params.row.reminderCount)}`}>
+                        <span>
+                            <IconButton
+                                size="small"
+                                onClick={() => handleSendReminder(params.row.id)}
+                                disabled={sendReminderMutation.isPending}
+                                sx={{ color: '#000000' }}
+                            >
+                                <ReminderIcon />
+                            </IconButton>
+                        </span>
+                    </Tooltip>
+                    <Tooltip title="Reminder History">
+                        <IconButton size="small" onClick={() => onShowReminders(params.row)} sx={{ color: '#000000' }}>
+                            <HistoryIcon />
+                        </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Record Payment">
+                        <IconButton size="small" onClick={() => onRecordPayment(params.row)} sx={{ color: '#000000' }}>
+                            <PaymentIcon />
+                        </IconButton>
+                    </Tooltip>
+                </div>
+            )
+        },
+    ];
+
+    if (isLoading) {
+        return (
+            <div className="flex justify-center items-center py-12">
+                <div className="flex flex-col items-center gap-3">
+                    <CircularProgress size={40} />
+                    <span className="text-sm text-gray-500">Loading overdue invoices...</span>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex flex-col gap-4">
+            <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+                {[
+                    { label: 'Overdue Invoices', value: rows.length.toString() },
+                    { label: 'Total Outstanding', value: formatCurrency(totalOutstanding) },
+                    { label: 'Reminders Due', value: remindersDue.toString() },
+                ].map(card => (
+                    <Box
+                        key={card.label}
+                        sx={{ p: 2, minWidth: 180, border: `1px solid ${colors.border.light}`, borderRadius: '8px', backgroundColor: 'white' }}
+                    >
+                        <Typography variant="body2" color={colors.text.secondary}>{card.label}</Typography>
+                        <Typography variant="h6" fontWeight={600} color={colors.text.primary}>{card.value}</Typography>
+                    </Box>
+                ))}
+            </Box>
+
+            {rows.length === 0 ? (
+                <div className="text-center py-16">
+                    <h3 className="text-lg font-semibold text-gray-700 mb-2">No overdue invoices</h3>
+                    <p className="text-sm text-gray-500">Every issued invoice is within its payment terms.</p>
+                </div>
+            ) : (
+                <div className="bg-white rounded-lg shadow-sm border" style={{ borderColor: colors.border.light }}>
+                    <PrimaryTable
+                        columns={columns}
+                        rows={rows}
+                        pageSizeOptions={[10, 20, 50]}
+                        height="auto"
+                    />
+                </div>
+            )}
+        </div>
+    );
+}
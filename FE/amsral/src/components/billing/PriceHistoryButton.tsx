@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import {
+    Box,
+    Typography,
+    IconButton,
+    Tooltip,
+    Popover,
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableRow,
+    CircularProgress,
+    Button
+} from '@mui/material';
+import { History as HistoryIcon } from '@mui/icons-material';
+import colors from '../../styles/colors';
+import { useCustomerPriceHistory } from '../../hooks/useBilling';
+import { formatCurrency } from '../../utils/currencyUtils';
+
+// How many earlier prices to show for an item and wash type
+const PRICE_HISTORY_LIMIT = 5;
+
+interface PriceHistoryButtonProps {
+    customerId: string | number;
+    itemName: string;
+    washType: string;
+    onUsePrice: (unitPrice: number) => void;
+}
+
+export default function PriceHistoryButton({ customerId, itemName, washType, onUsePrice }: PriceHistoryButtonProps) {
+    const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+    const { data: history = [], isLoading } = useCustomerPriceHistory(
+        anchorEl ? String(customerId) : null,
+        itemName,
+        washType,
+        PRICE_HISTORY_LIMIT
+    );
+
+    const handleUsePrice = (unitPrice: number) => {
+        onUsePrice(unitPrice);
+        setAnchorEl(null);
+    };
+
+    return (
+        <>
+            <Tooltip title="Earlier prices for this customer">
+                <IconButton size="small" onClick={(e) => setAnchorEl(e.currentTarget)} sx={{ color: colors.text.secondary }}>
+                    <HistoryIcon fontSize="small" />
+                </IconButton>
+            </Tooltip>
+            <Popover
+                open={!!anchorEl}
+                anchorEl={anchorEl}
+                onClose={() => setAnchorEl(null)}
+                anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+                transformOrigin={{ vertical: 'top', horizontal: 'right' }}
+                PaperProps={{ sx: { borderRadius: '12px', p: 2, minWidth: 380 } }}
+            >
+                <Typography variant="subtitle2" fontWeight={600} color={colors.text.primary}>
+                    Last {PRICE_HISTORY_LIMIT} prices
+                </Typography>
+                <Typography variant="caption" color={colors.text.secondary}>
+                    {itemName} - {washType}
+                </Typography>
+
+                {isLoading ? (
+                    <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+                        <CircularProgress size={20} />
+                    </Box>
+                ) : history.length === 0 ? (
+                    <Typography variant="body2" color={colors.text.muted} sx={{ py: 2 }}>
+                        Not invoiced to this customer before
+                    </Typography>
+                ) : (
+                    <Table size="small" sx={{ mt: 1 }}>
+                        <TableHead>
+                            <TableRow>
+                                <TableCell>Date</TableCell>
+                                <TableCell>Invoice #</TableCell>
+                                <TableCell align="right">Qty</TableCell>
+                                <TableCell align="right">Unit Price</TableCell>
+                                <TableCell />
+                            </TableRow>
+                        </TableHead>
+                        <TableBody>
+                            {history.map(entry => (
+                                <TableRow key={`${entry.invoiceId}-${entry.orderId}`}>
+                                    <TableCell>{new Date(entry.invoiceDate).toLocaleDateString()}</TableCell>
+                                    <TableCell>{entry.invoiceNumber}</TableCell>
+                                    <TableCell align="right">{entry.quantity}</TableCell>
+                                    <TableCell align="right">{formatCurrency(entry.unitPrice, entry.currency)}</TableCell>
+                                    <TableCell align="right">
+                                        <Button size="small" onClick={() => handleUsePrice(entry.unitPrice)}>
+                                            Use
+                                        </Button>
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                )}
+            </Popover>
+        </>
+    );
+}
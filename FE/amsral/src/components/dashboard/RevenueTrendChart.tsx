@@ -1,6 +1,7 @@
 import { Box, Typography, Card, CardContent } from '@mui/material';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import colors from '../../styles/colors';
+import { BASE_CURRENCY, formatCurrency, getCurrencySymbol } from '../../utils/currencyUtils';
 
 // Local type definitions to avoid import issues
 interface DailyOrderData {
@@ -12,9 +13,10 @@ interface DailyOrderData {
 interface RevenueTrendChartProps {
     data: DailyOrderData[];
     loading?: boolean;
+    currency?: string; // Revenue is reported in this currency, LKR by default
 }
 
-export function RevenueTrendChart({ data, loading = false }: RevenueTrendChartProps) {
+export function RevenueTrendChart({ data, loading = false, currency = BASE_CURRENCY }: RevenueTrendChartProps) {
     if (loading) {
         return (
             <Card sx={{ height: 400, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
@@ -46,7 +48,7 @@ export function RevenueTrendChart({ data, loading = false }: RevenueTrendChartPr
         <Card sx={{ height: 400, p: 0 }}>
             <CardContent sx={{ height: '100%', p: 3 }}>
                 <Typography variant="h6" sx={{ mb: 3, fontWeight: 600, color: colors.text.primary }}>
-                    Revenue Trend
+                    Revenue Trend ({currency})
                 </Typography>
                 <Box sx={{ height: 'calc(100% - 60px)' }}>
                     <ResponsiveContainer width="100%" height="100%">
@@ -71,7 +73,7 @@ export function RevenueTrendChart({ data, loading = false }: RevenueTrendChartPr
                             <YAxis
                                 stroke={colors.text.secondary}
                                 fontSize={12}
-                                tickFormatter={(value) => `Rs. ${value.toLocaleString()}`}
+                                tickFormatter={(value) => `${getCurrencySymbol(currency)} ${value.toLocaleString()}`}
                             />
                             <Tooltip
                                 contentStyle={{
@@ -81,7 +83,7 @@ export function RevenueTrendChart({ data, loading = false }: RevenueTrendChartPr
                                     boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
                                 }}
                                 labelFormatter={(value) => new Date(value).toLocaleDateString()}
-                                formatter={(value: any) => [`Rs. ${value.toLocaleString()}`, 'Revenue']}
+                                formatter={(value: number | string) => [formatCurrency(Number(value), currency), 'Revenue']}
                             />
                             <Line
                                 type="monotone"
@@ -3,6 +3,7 @@ import { Box, Typography, Paper, Avatar, List, ListItem, ListItemAvatar, ListIte
 import { Person, AttachMoney, Receipt } from '@mui/icons-material';
 import colors from '../../styles/colors';
 import type { TopCustomer } from '../../services/incomeService';
+import { formatCurrency } from '../../utils/currencyUtils';
 
 interface TopCustomersWidgetProps {
     customers: TopCustomer[];
@@ -102,7 +103,7 @@ const TopCustomersWidget: React.FC<TopCustomersWidgetProps> = ({ customers, load
                                             <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
                                                 <AttachMoney sx={{ fontSize: 16, color: colors.success[500] }} />
                                                 <Typography variant="body2" sx={{ color: colors.success[600], fontWeight: 500 }}>
-                                                    Rs. {(customer.totalPaid || customer.totalInvoiced || 0).toLocaleString()}
+                                                    {formatCurrency(customer.totalPaid || customer.totalInvoiced || 0)}
                                                 </Typography>
                                             </Box>
                                             <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
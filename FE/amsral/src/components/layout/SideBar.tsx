@@ -18,6 +18,9 @@ import ReceiptIcon from '@mui/icons-material/Receipt';
 import PrintIcon from '@mui/icons-material/Print';
 import AssessmentIcon from '@mui/icons-material/Assessment';
 import CheckCircleIcon from '@mui/icons-material/CheckCircle';
+import BarChartIcon from '@mui/icons-material/BarChart';
+import QrCodeScannerIcon from '@mui/icons-material/QrCodeScanner';
+import ViewKanbanIcon from '@mui/icons-material/ViewKanban';
 import toast from 'react-hot-toast';
 import colors from '../../styles/colors';
 import { useState, useMemo } from 'react';
@@ -32,9 +35,12 @@ const NAVIGATION: NavigationItem[] = [
     { segment: 'orders', title: 'Orders', icon: <ShoppingCartIcon /> },
     { segment: 'production', title: 'Production Flow', icon: <SettingsApplicationsIcon /> },
     { segment: 'complete-order', title: 'Complete Order', icon: <CheckCircleIcon /> },
+    { segment: 'scan', title: 'Scan Station', icon: <QrCodeScannerIcon /> },
+    { segment: 'machine-board', title: 'Machine Board', icon: <ViewKanbanIcon /> },
     { segment: 'management', title: 'Delivery', icon: <ManageAccountsIcon /> },
     { segment: 'qc', title: 'QC', icon: <AssessmentIcon /> },
     { segment: 'billing', title: 'Billing', icon: <ReceiptIcon /> },
+    { segment: 'reports', title: 'Reports', icon: <BarChartIcon /> },
     { segment: 'printer-test', title: 'Printer', icon: <PrintIcon /> },
     { kind: 'divider' },
     { segment: 'users', title: 'Users', icon: <PeopleIcon /> },
@@ -65,12 +71,18 @@ function SideBarNavigation({ navigation, expanded, onToggle }: { navigation: Nav
                     return permissions.canViewOrders;
                 case 'production':
                     return permissions.canViewProduction;
+                case 'scan':
+                    return permissions.canViewProduction;
+                case 'machine-board':
+                    return permissions.canViewProduction;
                 case 'management':
                     return permissions.canViewManagement;
                 case 'qc':
                     return permissions.canViewQC;
                 case 'billing':
                     return permissions.canViewBilling;
+                case 'reports':
+                    return permissions.canViewReports;
                 case 'printer-test':
                     return permissions.canViewPrinter;
                 case 'users':
@@ -0,0 +1,611 @@
+import React, { useState, useEffect } from 'react';
+import {
+    Dialog,
+    DialogTitle,
+    DialogContent,
+    DialogActions,
+    Box,
+    Typography,
+    TextField,
+    Stepper,
+    Step,
+    StepLabel,
+    Table,
+    TableBody,
+    TableCell,
+    TableContainer,
+    TableHead,
+    TableRow,
+    Checkbox,
+    Chip,
+    IconButton,
+    Tooltip,
+    CircularProgress
+} from '@mui/material';
+import { PictureAsPdf as PdfIcon } from '@mui/icons-material';
+import { useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import PrimaryButton from '../common/PrimaryButton';
+import colors from '../../styles/colors';
+import { orderService } from '../../services/orderService';
+import { BillingService, type Invoice } from '../../services/billingService';
+import { PriceListService } from '../../services/priceListService';
+import { taxService, type TaxComponent } from '../../services/taxService';
+import CustomerService from '../../services/customerService';
+import { billingKeys, useBillPeriodCustomers, useFinalizeInvoices } from '../../hooks/useBilling';
+import { fetchOrderReconciliations } from '../../hooks/useOrders';
+import { useDocumentSettings } from '../../hooks/useSystemData';
+import { generateAmsralInvoice, getOrderPoNumbers, withInvoiceTotals, type InvoiceData } from '../../utils/invoiceUtils';
+import { getBillableRecords } from '../../utils/reworkUtils';
+import { resolveLastUsedPrice, toInvoiceCurrency } from '../../utils/priceListUtils';
+import { getPreviousBillPeriod, type BillPeriodCustomer } from '../../utils/billPeriodUtils';
+import { isQuantityCheckBlocked, type OrderReconciliation } from '../../utils/reconciliationUtils';
+import { BASE_CURRENCY, formatCurrency, isForeignCurrency } from '../../utils/currencyUtils';
+import { config } from '../../config/environment';
+
+interface BillPeriodModalProps {
+    open: boolean;
+    onClose: () => void;
+}
+
+// The outcome of drafting one customer's invoice
+interface DraftResult {
+    customerKey: string;
+    customerName: string;
+    orderCount: number;
+    invoice?: Invoice;
+    invoiceData?: InvoiceData;
+    unpricedCount: number;
+    finalized?: boolean;
+    error?: string;
+}
+
+const STEPS = ['Choose Month', 'Select Customers', 'Review & Finalize'];
+
+const getCustomerKey = (customer: BillPeriodCustomer) => customer.customerId || customer.customerName;
+
+/**
+ * Raises one draft invoice for a customer's orders, priced at what they were last invoiced
+ * Customers with records that have no previous or list price are skipped so nobody is billed at 0,
+ * as are customers with an order whose quantities don't reconcile or whose VAT details can't be loaded
+ */
+const createDraftInvoice = async (
+    customer: BillPeriodCustomer,
+    period: string,
+    taxComponents: TaxComponent[]
+): Promise<DraftResult> => {
+    const result: DraftResult = {
+        customerKey: getCustomerKey(customer),
+        customerName: customer.customerName,
+        orderCount: customer.orders.length,
+        unpricedCount: 0,
+    };
+
+    // Billing only the orders that loaded would leave the rest out of the period unnoticed
+    const summaries = await Promise.all(customer.orders.map(order => orderService.getOrderSummary(order.id).catch(() => null)));
+    const failedIds = customer.orders.filter((_order, index) => !summaries[index]?.success).map(order => `#${order.id}`);
+    if (failedIds.length > 0) {
+        return { ...result, error: `Could not load order ${failedIds.join(', ')}` };
+    }
+    const orders = summaries.map(response => ({
+        ...response!.data,
+        records: getBillableRecords(response!.data.records, config.billReworkPieces),
+    }));
+    const customerId = Number(customer.customerId) || orders[0]?.customerId;
+    if (!customerId) {
+        return { ...result, error: 'Could not load the orders' };
+    }
+
+    // An order whose quantities can't be checked is held back like one that doesn't add up
+    const reconciliations = await fetchOrderReconciliations(orders.map(order => order.id))
+        .catch(() => new Map<number, OrderReconciliation>());
+    const uncheckedIds = orders.filter(order => !reconciliations.has(order.id)).map(order => `#${order.id}`);
+    if (uncheckedIds.length > 0) {
+        return { ...result, error: `Could not check quantities on order ${uncheckedIds.join(', ')}` };
+    }
+    const unreconciledIds = Array.from(reconciliations.values())
+        .filter(isQuantityCheckBlocked)
+        .map(reconciliation => `#${reconciliation.orderId}`);
+    if (unreconciledIds.length > 0) {
+        return { ...result, error: `Quantities don't add up on order ${unreconciledIds.join(', ')}` };
+    }
+
+    const [lastUsedPrices, customerPriceList, defaultPriceList, customerDetails, invoicePreview] = await Promise.all([
+        PriceListService.getCustomerLastUsedPrices(customerId).catch(() => null),
+        PriceListService.getCustomerPriceList(customerId).catch(() => null),
+        PriceListService.getDefaultPriceList().catch(() => null),
+        CustomerService.getCustomer(customerId).catch(() => null),
+        orderService.getInvoicePreview(customerId),
+    ]);
+    if (!customerDetails) {
+        return { ...result, error: 'Could not load the customer\'s VAT details' };
+    }
+    const lastUsedEntries = lastUsedPrices?.success ? lastUsedPrices.data.entries : [];
+    const customerEntries = customerPriceList?.success ? customerPriceList.data.entries : [];
+    const defaultEntries = defaultPriceList?.success ? defaultPriceList.data.entries : [];
+
+    // Foreign currency invoices reuse the last rate; with none on record the invoice is raised by hand
+    const currency = customerDetails.currency || BASE_CURRENCY;
+    let exchangeRate: number | undefined;
+    if (isForeignCurrency(currency)) {
+        const latestRate = await BillingService.getLatestExchangeRate(currency).catch(() => null);
+        exchangeRate = latestRate?.success && latestRate.data ? latestRate.data.rate : undefined;
+        if (!exchangeRate) {
+            return { ...result, error: `No ${currency} exchange rate on record` };
+        }
+    }
+
+    const today = new Date().toISOString().split('T')[0];
+    const invoiceData: InvoiceData = withInvoiceTotals({
+        invoiceNumber: invoicePreview.success ? invoicePreview.data.nextInvoiceNo : `INV-${Date.now()}`,
+        customerName: customer.customerName,
+        customerAddress: customerDetails.address || '',
+        customerPhone: customerDetails.phone || '',
+        isTaxInvoice: !!customerDetails.isVatRegistered,
+        customerVatNumber: customerDetails.vatNumber || '',
+        currency,
+        exchangeRate,
+        invoiceDate: today,
+        dueDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0], // 30 days default
+        poNumber: getOrderPoNumbers(orders) || undefined,
+        includeStyleNo: orders.some(order => order.records.some(record => !!record.styleNo)),
+        customerBalance: customer.balance,
+        orders: orders.map(order => ({
+            id: order.id,
+            referenceNo: order.referenceNo,
+            orderDate: order.orderDate,
+            gpNumber: order.gpNo || '',
+            records: order.records.map(record => {
+                const resolvedPrice = resolveLastUsedPrice(record, lastUsedEntries, customerEntries, defaultEntries);
+                const unitPrice = toInvoiceCurrency(resolvedPrice, currency, exchangeRate || 0)?.unitPrice || 0;
+                if (unitPrice <= 0) result.unpricedCount += 1;
+                return {
+                    id: record.id,
+                    orderId: order.id,
+                    itemName: record.itemName,
+                    quantity: record.quantity,
+                    unitPrice,
+                    totalPrice: record.quantity * unitPrice,
+                    washType: record.washType,
+                    processTypes: record.processTypes,
+                    styleNo: record.styleNo || undefined,
+                    colour: record.colour || undefined,
+                };
+            }),
+        })),
+        subtotal: 0,
+        taxRate: 0,
+        taxAmount: 0,
+        total: 0,
+    }, taxComponents, customer.balance || 0);
+
+    if (result.unpricedCount > 0) {
+        return { ...result, invoiceData };
+    }
+
+    await BillingService.saveOrderPricing({
+        orderPricing: invoiceData.orders.map(order => ({
+            orderId: order.id,
+            totalPrice: order.records.reduce((sum, record) => sum + record.totalPrice, 0),
+            records: order.records.map(record => ({
+                recordId: record.id,
+                unitPrice: record.unitPrice,
+                totalPrice: record.totalPrice,
+                listPrice: record.unitPrice,
+                isPriceOverride: false,
+            })),
+        })),
+    });
+
+    const response = await BillingService.createInvoice({
+        invoiceNumber: invoiceData.invoiceNumber,
+        customerName: invoiceData.customerName,
+        orderIds: invoiceData.orders.map(order => order.id),
+        records: invoiceData.orders.flatMap(order =>
+            order.records.map(record => ({
+                orderId: order.id,
+                recordId: record.id,
+                unitPrice: record.unitPrice,
+                totalPrice: record.totalPrice,
+                styleNo: invoiceData.includeStyleNo ? record.styleNo || '' : undefined,
+            }))
+        ),
+        orderTotals: invoiceData.orders.map(order => ({
+            orderId: order.id,
+            totalPrice: order.records.reduce((sum, record) => sum + record.totalPrice, 0),
+        })),
+        taxRate: invoiceData.taxRate,
+        taxLines: invoiceData.taxLines,
+        paymentTerms: 30,
+        poNumber: invoiceData.poNumber,
+        includeStyleNo: invoiceData.includeStyleNo,
+        status: 'draft',
+        billingPeriod: period,
+        currency,
+        exchangeRate,
+    });
+
+    if (!response.success) {
+        return { ...result, invoiceData, error: response.message || 'Failed to create invoice' };
+    }
+    return { ...result, invoice: response.data, invoiceData: { ...invoiceData, invoiceNumber: response.data.invoiceNumber } };
+};
+
+const BillPeriodModal: React.FC<BillPeriodModalProps> = ({
+    open,
+    onClose
+}) => {
+    const queryClient = useQueryClient();
+    const finalizeInvoicesMutation = useFinalizeInvoices();
+    const documentSettings = useDocumentSettings();
+    const [activeStep, setActiveStep] = useState(0);
+    const [period, setPeriod] = useState(getPreviousBillPeriod());
+    const [selectedCustomers, setSelectedCustomers] = useState<string[]>([]);
+    const [drafts, setDrafts] = useState<DraftResult[]>([]);
+    const [selectedDrafts, setSelectedDrafts] = useState<number[]>([]);
+    const [generating, setGenerating] = useState(false);
+    const [progress, setProgress] = useState('');
+
+    const {
+        data: customersData,
+        isLoading: customersLoading,
+        error: customersError
+    } = useBillPeriodCustomers(activeStep >= 1 ? period : null);
+    const customers = customersData || [];
+
+    // Start a fresh run each time the modal opens
+    useEffect(() => {
+        if (!open) return;
+
+        setActiveStep(0);
+        setPeriod(getPreviousBillPeriod());
+        setDrafts([]);
+        setSelectedDrafts([]);
+    }, [open]);
+
+    // Every customer is billed unless unticked
+    useEffect(() => {
+        setSelectedCustomers((customersData || []).map(getCustomerKey));
+    }, [customersData]);
+
+    const toggleCustomer = (key: string) => {
+        setSelectedCustomers(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+    };
+
+    const toggleDraft = (invoiceId: number) => {
+        setSelectedDrafts(prev => prev.includes(invoiceId) ? prev.filter(id => id !== invoiceId) : [...prev, invoiceId]);
+    };
+
+    const handleGenerateDrafts = async () => {
+        const toBill = customers.filter(customer => selectedCustomers.includes(getCustomerKey(customer)));
+        if (toBill.length === 0) {
+            toast.error('Select at least one customer to bill');
+            return;
+        }
+
+        setGenerating(true);
+        try {
+            // Drafts without the tax setup would bill every customer with the wrong tax, so none are raised
+            let taxComponents: TaxComponent[];
+            try {
+                const taxComponentsResponse = await taxService.getTaxComponents({ limit: 100 });
+                if (!taxComponentsResponse.success) {
+                    throw new Error('Failed to fetch tax components');
+                }
+                taxComponents = taxComponentsResponse.data.taxComponents;
+            } catch (error) {
+                console.error('Failed to fetch tax components:', error);
+                toast.error('Tax components could not be loaded - no drafts were created. Please try again.');
+                return;
+            }
+
+            // One customer at a time so invoice numbers are handed out in order
+            const results: DraftResult[] = [];
+            for (const [index, customer] of toBill.entries()) {
+                setProgress(`Drafting ${index + 1} of ${toBill.length}: ${customer.customerName}`);
+                try {
+                    results.push(await createDraftInvoice(customer, period, taxComponents));
+                } catch (error) {
+                    console.error(`Error drafting invoice for ${customer.customerName}:`, error);
+                    results.push({
+                        customerKey: getCustomerKey(customer),
+                        customerName: customer.customerName,
+                        orderCount: customer.orders.length,
+                        unpricedCount: 0,
+                        error: 'Failed to create draft invoice',
+                    });
+                }
+            }
+
+            setDrafts(results);
+            setSelectedDrafts(results.filter(result => result.invoice).map(result => result.invoice!.id));
+            queryClient.invalidateQueries({ queryKey: billingKeys.all });
+            setActiveStep(2);
+
+            const created = results.filter(result => result.invoice).length;
+            toast.success(`${created} draft invoice${created !== 1 ? 's' : ''} created`);
+        } finally {
+            setGenerating(false);
+            setProgress('');
+        }
+    };
+
+    const handleFinalize = async () => {
+        if (selectedDrafts.length === 0) return;
+
+        try {
+            await finalizeInvoicesMutation.mutateAsync(selectedDrafts);
+            setDrafts(prev => prev.map(draft =>
+                draft.invoice && selectedDrafts.includes(draft.invoice.id) ? { ...draft, finalized: true } : draft
+            ));
+            setSelectedDrafts([]);
+        } catch (error) {
+            console.error('Error finalizing invoices:', error);
+        }
+    };
+
+    const getDraftStatus = (draft: DraftResult) => {
+        if (draft.finalized) return <Chip label="Finalized" size="small" color="success" />;
+        if (draft.invoice) return <Chip label="Draft" size="small" />;
+        if (draft.unpricedCount > 0) {
+            return (
+                <Tooltip title="Bill these orders from the Orders tab and enter the missing prices">
+                    <Chip label={`Skipped: ${draft.unpricedCount} unpriced`} size="small" color="warning" />
+                </Tooltip>
+            );
+        }
+        return <Chip label={draft.error || 'Failed'} size="small" color="error" />;
+    };
+
+    const renderStep = () => {
+        if (activeStep === 0) {
+            return (
+                <Box sx={{ maxWidth: 320, mt: 2 }}>
+                    <TextField
+                        label="Bill Period"
+                        type="month"
+                        value={period}
+                        onChange={(e) => setPeriod(e.target.value)}
+                        InputLabelProps={{ shrink: true }}
+                        size="small"
+                        fullWidth
+                    />
+                    <Typography variant="body2" color={colors.text.secondary} sx={{ mt: 2 }}>
+                        Uninvoiced orders in QC, Complete or Delivered status dated in this month will be billed.
+                    </Typography>
+                </Box>
+            );
+        }
+
+        if (activeStep === 1) {
+            if (customersLoading || generating) {
+                return (
+                    <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 2, py: 4 }}>
+                        <CircularProgress size={24} />
+                        {progress && (
+                            <Typography variant="body2" color={colors.text.secondary}>{progress}</Typography>
+                        )}
+                    </Box>
+                );
+            }
+            if (customersError) {
+                return <Typography variant="body2" color="error">Failed to load orders for this period</Typography>;
+            }
+            if (customers.length === 0) {
+                return (
+                    <Typography variant="body2" color={colors.text.secondary}>
+                        No uninvoiced orders for this period.
+                    </Typography>
+                );
+            }
+
+            return (
+                <TableContainer sx={{ border: `1px solid ${colors.border.light}`, borderRadius: '8px', maxHeight: 400 }}>
+                    <Table size="small" stickyHeader>
+                        <TableHead>
+                            <TableRow>
+                                <TableCell padding="checkbox">
+                                    <Checkbox
+                                        checked={selectedCustomers.length === customers.length}
+                                        indeterminate={selectedCustomers.length > 0 && selectedCustomers.length < customers.length}
+                                        onChange={(e) => setSelectedCustomers(e.target.checked ? customers.map(getCustomerKey) : [])}
+                                    />
+                                </TableCell>
+                                <TableCell>Customer</TableCell>
+                                <TableCell>Orders</TableCell>
+                                <TableCell align="right">Total Qty</TableCell>
+                            </TableRow>
+                        </TableHead>
+                        <TableBody>
+                            {customers.map(customer => {
+                                const key = getCustomerKey(customer);
+                                return (
+                                    <TableRow key={key} hover onClick={() => toggleCustomer(key)} sx={{ cursor: 'pointer' }}>
+                                        <TableCell padding="checkbox">
+                                            <Checkbox checked={selectedCustomers.includes(key)} />
+                                        </TableCell>
+                                        <TableCell>{customer.customerName}</TableCell>
+                                        <TableCell>
+                                            {customer.orders.map(order => `#${order.id}`).join(', ')}
+                                        </TableCell>
+                                        <TableCell align="right">{customer.totalQuantity}</TableCell>
+                                    </TableRow>
+                                );
+                            })}
+                        </TableBody>
+                    </Table>
+                </TableContainer>
+            );
+        }
+
+        return (
+            <TableContainer sx={{ border: `1px solid ${colors.border.light}`, borderRadius: '8px', maxHeight: 400 }}>
+                <Table size="small" stickyHeader>
+                    <TableHead>
+                        <TableRow>
+                            <TableCell padding="checkbox" />
+                            <TableCell>Customer</TableCell>
+                            <TableCell>Invoice #</TableCell>
+                            <TableCell align="right">Orders</TableCell>
+                            <TableCell align="right">Subtotal</TableCell>
+                            <TableCell align="right">Tax</TableCell>
+                            <TableCell>Status</TableCell>
+                            <TableCell align="right">Preview</TableCell>
+                        </TableRow>
+                    </TableHead>
+                    <TableBody>
+                        {drafts.map(draft => (
+                            <TableRow key={draft.customerKey}>
+                                <TableCell padding="checkbox">
+                                    {draft.invoice && !draft.finalized && (
+                                        <Checkbox
+                                            checked={selectedDrafts.includes(draft.invoice.id)}
+                                            onChange={() => toggleDraft(draft.invoice!.id)}
+                                        />
+                                    )}
+                                </TableCell>
+                                <TableCell>{draft.customerName}</TableCell>
+                                <TableCell>{draft.invoice?.invoiceNumber || '-'}</TableCell>
+                                <TableCell align="right">{draft.orderCount}</TableCell>
+                                <TableCell align="right">{draft.invoiceData ? formatCurrency(draft.invoiceData.subtotal, draft.invoiceData.currency) : '-'}</TableCell>
+                                <TableCell align="right">{draft.invoiceData ? formatCurrency(draft.invoiceData.taxAmount, draft.invoiceData.currency) : '-'}</TableCell>
+                                <TableCell>{getDraftStatus(draft)}</TableCell>
+                                <TableCell align="right">
+                                    {draft.invoice && draft.invoiceData && (
+                                        <Tooltip title="Preview Invoice PDF">
+                                            <span>
+                                                <IconButton
+                                                    size="small"
+                                                    disabled={!documentSettings}
+                                                    onClick={() => generateAmsralInvoice(draft.invoiceData!, documentSettings!)}
+                                                >
+                                                    <PdfIcon fontSize="small" />
+                                                </IconButton>
+                                            </span>
+                                        </Tooltip>
+                                    )}
+                                </TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            </TableContainer>
+        );
+    };
+
+    return (
+        <Dialog
+            open={open}
+            onClose={generating ? undefined : onClose}
+            maxWidth="md"
+            fullWidth
+            PaperProps={{
+                sx: {
+                    borderRadius: '12px',
+                    boxShadow: '0 10px 25px rgba(0, 0, 0, 0.1)'
+                }
+            }}
+        >
+            <DialogTitle sx={{
+                pb: 1,
+                borderBottom: `1px solid ${colors.border.light}`,
+                backgroundColor: colors.background.card
+            }}>
+                <Typography variant="h6" fontWeight={600} color={colors.text.primary}>
+                    Bill Period
+                </Typography>
+                <Typography variant="body2" color={colors.text.secondary} sx={{ mt: 0.5 }}>
+                    One invoice per customer for all their uninvoiced orders in a month
+                </Typography>
+            </DialogTitle>
+
+            <DialogContent sx={{ py: 3 }}>
+                <Stepper activeStep={activeStep} sx={{ mt: 2, mb: 3 }}>
+                    {STEPS.map(label => (
+                        <Step key={label}>
+                            <StepLabel>{label}</StepLabel>
+                        </Step>
+                    ))}
+                </Stepper>
+                {renderStep()}
+            </DialogContent>
+
+            <DialogActions sx={{
+                p: 3,
+                borderTop: `1px solid ${colors.border.light}`,
+                backgroundColor: colors.background.card
+            }}>
+                <PrimaryButton
+                    onClick={onClose}
+                    disabled={generating || finalizeInvoicesMutation.isPending}
+                    style={{
+                        backgroundColor: colors.text.muted,
+                        color: colors.text.white,
+                        width: 'auto',
+                        minWidth: 100
+                    }}
+                >
+                    {activeStep === 2 ? 'Done' : 'Cancel'}
+                </PrimaryButton>
+                {activeStep === 1 && (
+                    <PrimaryButton
+                        onClick={() => setActiveStep(0)}
+                        disabled={generating}
+                        style={{
+                            backgroundColor: colors.primary[100],
+                            color: colors.text.primary,
+                            width: 'auto',
+                            minWidth: 100
+                        }}
+                    >
+                        Back
+                    </PrimaryButton>
+                )}
+                {activeStep === 0 && (
+                    <PrimaryButton
+                        onClick={() => setActiveStep(1)}
+                        disabled={!period}
+                        style={{
+                            backgroundColor: colors.button.primary,
+                            color: colors.text.white,
+                            width: 'auto',
+                            minWidth: 120
+                        }}
+                    >
+                        Next
+                    </PrimaryButton>
+                )}
+                {activeStep === 1 && (
+                    <PrimaryButton
+                        onClick={handleGenerateDrafts}
+                        disabled={generating || customersLoading || selectedCustomers.length === 0}
+                        style={{
+                            backgroundColor: colors.button.primary,
+                            color: colors.text.white,
+                            width: 'auto',
+                            minWidth: 180
+                        }}
+                    >
+                        {generating ? 'Drafting...' : `Draft ${selectedCustomers.length} Invoice${selectedCustomers.length !== 1 ? 's' : ''}`}
+                    </PrimaryButton>
+                )}
+                {activeStep === 2 && (
+                    <PrimaryButton
+                        onClick={handleFinalize}
+                        disabled={selectedDrafts.length === 0 || finalizeInvoicesMutation.isPending}
+                        style={{
+                            backgroundColor: colors.button.primary,
+                            color: colors.text.white,
+                            width: 'auto',
+                            minWidth: 180
+                        }}
+                    >
+                        {finalizeInvoicesMutation.isPending ? 'Finalizing...' : `Finalize ${selectedDrafts.length} Selected`}
+                    </PrimaryButton>
+                )}
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default BillPeriodModal;
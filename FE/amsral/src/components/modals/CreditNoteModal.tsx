@@ -0,0 +1,446 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+    Dialog,
+    DialogTitle,
+    DialogContent,
+    DialogActions,
+    Box,
+    Typography,
+    TextField,
+    Divider,
+    Table,
+    TableBody,
+    TableCell,
+    TableContainer,
+    TableHead,
+    TableRow,
+    IconButton,
+    Tooltip,
+    CircularProgress
+} from '@mui/material';
+import { PictureAsPdf as PdfIcon } from '@mui/icons-material';
+import PrimaryButton from '../common/PrimaryButton';
+import colors from '../../styles/colors';
+import {
+    BillingService,
+    type CreateCreditNoteRequest,
+    type CreditNote,
+    type Invoice,
+    type InvoiceLineItem
+} from '../../services/billingService';
+import { useDocumentSettings } from '../../hooks/useSystemData';
+import { generateCreditNote } from '../../utils/invoiceUtils';
+import { formatTaxLineLabel } from '../../utils/taxUtils';
+import {
+    calculateCreditNoteTotals,
+    describeInvoiceLine,
+    getCreditableAmount
+} from '../../utils/creditNoteUtils';
+import { getCurrencyLabel, getCurrencySymbol } from '../../utils/currencyUtils';
+
+interface CreditNoteModalProps {
+    open: boolean;
+    onClose: () => void;
+    invoice: Invoice | null;
+    onCreate: (invoiceId: number, creditNote: CreateCreditNoteRequest) => Promise<CreditNote>;
+}
+
+// What is being credited on one invoice line, keyed by record id
+interface LineCredit {
+    quantity: number;
+    amount: number;
+}
+
+const CreditNoteModal: React.FC<CreditNoteModalProps> = ({
+    open,
+    onClose,
+    invoice,
+    onCreate
+}) => {
+    const [lines, setLines] = useState<InvoiceLineItem[]>([]);
+    const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
+    const [nextCreditNoteNo, setNextCreditNoteNo] = useState('');
+    const [credits, setCredits] = useState<{ [recordId: number]: LineCredit }>({});
+    const [reason, setReason] = useState('');
+    const [issueDate, setIssueDate] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [errors, setErrors] = useState<{ [key: string]: string }>({});
+    const documentSettings = useDocumentSettings();
+
+    const loadData = useCallback(async () => {
+        if (!invoice) return;
+
+        setLoading(true);
+        try {
+            const [linesResponse, creditNotesResponse, previewResponse] = await Promise.all([
+                BillingService.getInvoiceLines(invoice.id),
+                BillingService.getInvoiceCreditNotes(invoice.id),
+                BillingService.getCreditNotePreview(),
+            ]);
+            setLines(linesResponse.success ? linesResponse.data : []);
+            setCreditNotes(creditNotesResponse.success ? creditNotesResponse.data : []);
+            setNextCreditNoteNo(previewResponse.success ? previewResponse.data.nextCreditNoteNo : '');
+            setCredits({});
+        } catch (error) {
+            console.error('Error loading invoice for credit note:', error);
+            setErrors({ general: 'Failed to load invoice lines' });
+        } finally {
+            setLoading(false);
+        }
+    }, [invoice]);
+
+    useEffect(() => {
+        if (!open || !invoice) return;
+
+        setReason('');
+        setIssueDate(new Date().toISOString().split('T')[0]);
+        setErrors({});
+        loadData();
+    }, [open, invoice, loadData]);
+
+    const handleQuantityChange = (line: InvoiceLineItem, value: string) => {
+        const quantity = Math.max(0, Number(value) || 0);
+        setCredits(prev => ({
+            ...prev,
+            [line.recordId]: {
+                quantity,
+                amount: Math.min(Math.round(quantity * line.unitPrice * 100) / 100, getCreditableAmount(line)),
+            }
+        }));
+    };
+
+    // The amount can be changed on its own for price corrections
+    const handleAmountChange = (line: InvoiceLineItem, value: string) => {
+        setCredits(prev => ({
+            ...prev,
+            [line.recordId]: {
+                quantity: prev[line.recordId]?.quantity || 0,
+                amount: Math.max(0, Number(value) || 0),
+            }
+        }));
+    };
+
+    const handleCreditAll = () => {
+        const fullCredits: { [recordId: number]: LineCredit } = {};
+        lines.forEach(line => {
+            const amount = getCreditableAmount(line);
+            if (amount > 0) {
+                fullCredits[line.recordId] = { quantity: line.quantity, amount };
+            }
+        });
+        setCredits(fullCredits);
+    };
+
+    const creditLines = lines
+        .filter(line => (credits[line.recordId]?.amount || 0) > 0)
+        .map(line => ({
+            orderId: line.orderId,
+            recordId: line.recordId,
+            itemName: line.itemName,
+            description: describeInvoiceLine(line),
+            quantity: credits[line.recordId].quantity,
+            unitPrice: line.unitPrice,
+            amount: credits[line.recordId].amount,
+        }));
+    const totals = invoice ? calculateCreditNoteTotals(creditLines, invoice) : null;
+    const currencySymbol = getCurrencySymbol(invoice?.currency);
+
+    const handleSubmit = async () => {
+        if (!invoice || !totals || !documentSettings) return;
+
+        // Validation
+        const newErrors: { [key: string]: string } = {};
+        if (!reason.trim()) newErrors.reason = 'Reason is required';
+        if (!issueDate) newErrors.issueDate = 'Date is required';
+        if (creditLines.length === 0) newErrors.general = 'Enter an amount to credit on at least one line';
+        lines.forEach(line => {
+            const credit = credits[line.recordId];
+            if (!credit) return;
+            if (credit.quantity > line.quantity) {
+                newErrors[`quantity-${line.recordId}`] = `Max ${line.quantity}`;
+            }
+            if (credit.amount > getCreditableAmount(line) + 0.001) {
+                newErrors[`amount-${line.recordId}`] = `Max ${getCreditableAmount(line).toFixed(2)}`;
+            }
+        });
+
+        if (Object.keys(newErrors).length > 0) {
+            setErrors(newErrors);
+            return;
+        }
+
+        setSaving(true);
+        try {
+            const creditNote = await onCreate(invoice.id, {
+                issueDate,
+                reason: reason.trim(),
+                lines: creditLines,
+                subtotal: totals.subtotal,
+                taxLines: totals.taxLines.length > 0 ? totals.taxLines : undefined,
+                taxAmount: totals.taxAmount,
+                total: totals.total,
+            });
+            generateCreditNote(creditNote, documentSettings);
+            setReason('');
+            setErrors({});
+            loadData();
+        } catch (error) {
+            console.error('Error creating credit note:', error);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    if (!invoice) return null;
+
+    return (
+        <Dialog
+            open={open}
+            onClose={onClose}
+            maxWidth="lg"
+            fullWidth
+            PaperProps={{
+                sx: {
+                    borderRadius: '12px',
+                    boxShadow: '0 10px 25px rgba(0, 0, 0, 0.1)'
+                }
+            }}
+        >
+            <DialogTitle sx={{
+                pb: 1,
+                borderBottom: `1px solid ${colors.border.light}`,
+                backgroundColor: colors.background.card
+            }}>
+                <Typography variant="h6" fontWeight={600} color={colors.text.primary}>
+                    Credit Notes
+                </Typography>
+                <Typography variant="body2" color={colors.text.secondary} sx={{ mt: 0.5 }}>
+                    Invoice #{invoice.invoiceNumber} - {invoice.customerName} - {currencySymbol} {invoice.total.toFixed(2)}
+                </Typography>
+            </DialogTitle>
+
+            <DialogContent sx={{ py: 3 }}>
+                {loading ? (
+                    <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+                        <CircularProgress size={24} />
+                    </Box>
+                ) : (
+                    <>
+                        {creditNotes.length > 0 && (
+                            <Box sx={{ mt: 2, mb: 3 }}>
+                                <Typography variant="subtitle2" color={colors.text.primary} sx={{ mb: 1, fontWeight: 600 }}>
+                                    Issued Credit Notes
+                                </Typography>
+                                <TableContainer sx={{ border: `1px solid ${colors.border.light}`, borderRadius: '8px' }}>
+                                    <Table size="small">
+                                        <TableHead>
+                                            <TableRow>
+                                                <TableCell>Credit Note No</TableCell>
+                                                <TableCell>Date</TableCell>
+                                                <TableCell>Reason</TableCell>
+                                                <TableCell align="right">Total ({getCurrencyLabel(invoice.currency)})</TableCell>
+                                                <TableCell align="right">PDF</TableCell>
+                                            </TableRow>
+                                        </TableHead>
+                                        <TableBody>
+                                            {creditNotes.map(creditNote => (
+                                                <TableRow key={creditNote.id}>
+                                                    <TableCell>{creditNote.creditNoteNumber}</TableCell>
+                                                    <TableCell>{new Date(creditNote.issueDate).toLocaleDateString()}</TableCell>
+                                                    <TableCell>{creditNote.reason}</TableCell>
+                                                    <TableCell align="right">{creditNote.total.toFixed(2)}</TableCell>
+                                                    <TableCell align="right">
+                                                        <Tooltip title="Download Credit Note">
+                                                            <span>
+                                                                <IconButton
+                                                                    size="small"
+                                                                    disabled={!documentSettings}
+                                                                    onClick={() => generateCreditNote(creditNote, documentSettings!)}
+                                                                >
+                                                                    <PdfIcon fontSize="small" />
+                                                                </IconButton>
+                                                            </span>
+                                                        </Tooltip>
+                                                    </TableCell>
+                                                </TableRow>
+                                            ))}
+                                        </TableBody>
+                                    </Table>
+                                </TableContainer>
+                            </Box>
+                        )}
+
+                        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mt: 2, mb: 1 }}>
+                            <Typography variant="subtitle2" color={colors.text.primary} sx={{ fontWeight: 600 }}>
+                                New Credit Note{nextCreditNoteNo ? ` - ${nextCreditNoteNo}` : ''}
+                            </Typography>
+                            <PrimaryButton
+                                onClick={handleCreditAll}
+                                disabled={saving || lines.length === 0}
+                                style={{
+                                    backgroundColor: colors.primary[100],
+                                    color: colors.text.primary,
+                                    width: 'auto',
+                                    minWidth: 160
+                                }}
+                            >
+                                Credit Full Invoice
+                            </PrimaryButton>
+                        </Box>
+
+                        <TableContainer sx={{ border: `1px solid ${colors.border.light}`, borderRadius: '8px' }}>
+                            <Table size="small">
+                                <TableHead>
+                                    <TableRow>
+                                        <TableCell>Order</TableCell>
+                                        <TableCell>Item</TableCell>
+                                        <TableCell>Description</TableCell>
+                                        <TableCell align="right">Qty</TableCell>
+                                        <TableCell align="right">Unit Price</TableCell>
+                                        <TableCell align="right">Amount</TableCell>
+                                        <TableCell align="right">Creditable</TableCell>
+                                        <TableCell align="right">Credit Qty</TableCell>
+                                        <TableCell align="right">Credit Amount</TableCell>
+                                    </TableRow>
+                                </TableHead>
+                                <TableBody>
+                                    {lines.map(line => {
+                                        const creditable = getCreditableAmount(line);
+                                        return (
+                                            <TableRow key={line.recordId}>
+                                                <TableCell>{line.orderId}</TableCell>
+                                                <TableCell>{line.itemName}</TableCell>
+                                                <TableCell>{describeInvoiceLine(line)}</TableCell>
+                                                <TableCell align="right">{line.quantity}</TableCell>
+                                                <TableCell align="right">{line.unitPrice.toFixed(2)}</TableCell>
+                                                <TableCell align="right">{line.totalPrice.toFixed(2)}</TableCell>
+                                                <TableCell align="right">{creditable.toFixed(2)}</TableCell>
+                                                <TableCell align="right" sx={{ width: 110 }}>
+                                                    <TextField
+                                                        type="number"
+                                                        size="small"
+                                                        value={credits[line.recordId]?.quantity || ''}
+                                                        onChange={(e) => handleQuantityChange(line, e.target.value)}
+                                                        error={!!errors[`quantity-${line.recordId}`]}
+                                                        helperText={errors[`quantity-${line.recordId}`]}
+                                                        disabled={creditable <= 0}
+                                                        inputProps={{ min: 0, max: line.quantity }}
+                                                    />
+                                                </TableCell>
+                                                <TableCell align="right" sx={{ width: 140 }}>
+                                                    <TextField
+                                                        type="number"
+                                                        size="small"
+                                                        value={credits[line.recordId]?.amount || ''}
+                                                        onChange={(e) => handleAmountChange(line, e.target.value)}
+                                                        error={!!errors[`amount-${line.recordId}`]}
+                                                        helperText={errors[`amount-${line.recordId}`]}
+                                                        disabled={creditable <= 0}
+                                                        inputProps={{ min: 0, max: creditable, step: 0.01 }}
+                                                    />
+                                                </TableCell>
+                                            </TableRow>
+                                        );
+                                    })}
+                                    {lines.length === 0 && (
+                                        <TableRow>
+                                            <TableCell colSpan={9} align="center">No billed records found on this invoice</TableCell>
+                                        </TableRow>
+                                    )}
+                                </TableBody>
+                            </Table>
+                        </TableContainer>
+
+                        <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 3fr' }, gap: 2, mt: 3 }}>
+                            <TextField
+                                label="Date"
+                                type="date"
+                                value={issueDate}
+                                onChange={(e) => setIssueDate(e.target.value)}
+                                error={!!errors.issueDate}
+                                helperText={errors.issueDate}
+                                InputLabelProps={{ shrink: true }}
+                                size="small"
+                                fullWidth
+                            />
+                            <TextField
+                                label="Reason"
+                                value={reason}
+                                onChange={(e) => setReason(e.target.value)}
+                                error={!!errors.reason}
+                                helperText={errors.reason}
+                                placeholder="e.g. Wrong unit price, damaged pieces returned"
+                                size="small"
+                                fullWidth
+                            />
+                        </Box>
+
+                        {totals && totals.subtotal > 0 && (
+                            <>
+                                <Divider sx={{ my: 2 }} />
+                                <Box sx={{ maxWidth: 360, ml: 'auto' }}>
+                                    <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
+                                        <Typography variant="body2" color={colors.text.secondary}>Subtotal:</Typography>
+                                        <Typography variant="body2" fontWeight={500}>{currencySymbol} {totals.subtotal.toFixed(2)}</Typography>
+                                    </Box>
+                                    {totals.taxLines.map(line => (
+                                        <Box key={line.code} sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
+                                            <Typography variant="body2" color={colors.text.secondary}>{formatTaxLineLabel(line)}:</Typography>
+                                            <Typography variant="body2" fontWeight={500}>{currencySymbol} {line.amount.toFixed(2)}</Typography>
+                                        </Box>
+                                    ))}
+                                    <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                                        <Typography variant="body2" fontWeight={600}>Total Credit:</Typography>
+                                        <Typography variant="body2" fontWeight={600} color={colors.button.primary}>
+                                            {currencySymbol} {totals.total.toFixed(2)}
+                                        </Typography>
+                                    </Box>
+                                </Box>
+                            </>
+                        )}
+                    </>
+                )}
+
+                {errors.general && (
+                    <Typography variant="body2" color="error" sx={{ mt: 2 }}>
+                        {errors.general}
+                    </Typography>
+                )}
+            </DialogContent>
+
+            <DialogActions sx={{
+                p: 3,
+                borderTop: `1px solid ${colors.border.light}`,
+                backgroundColor: colors.background.card
+            }}>
+                <PrimaryButton
+                    onClick={onClose}
+                    disabled={saving}
+                    style={{
+                        backgroundColor: colors.text.muted,
+                        color: colors.text.white,
+                        width: 'auto',
+                        minWidth: 100
+                    }}
+                >
+                    Close
+                </PrimaryButton>
+                <PrimaryButton
+                    onClick={handleSubmit}
+                    disabled={loading || saving || !documentSettings || creditLines.length === 0}
+                    style={{
+                        backgroundColor: colors.button.primary,
+                        color: colors.text.white,
+                        width: 'auto',
+                        minWidth: 160
+                    }}
+                >
+                    {saving ? 'Issuing...' : 'Issue Credit Note'}
+                </PrimaryButton>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default CreditNoteModal;
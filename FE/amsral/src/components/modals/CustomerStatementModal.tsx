@@ -0,0 +1,364 @@
+import React, { useState, useEffect } from 'react';
+import {
+    Dialog,
+    DialogTitle,
+    DialogContent,
+    DialogActions,
+    Box,
+    Typography,
+    TextField,
+    Table,
+    TableBody,
+    TableCell,
+    TableContainer,
+    TableHead,
+    TableRow,
+    CircularProgress
+} from '@mui/material';
+import toast from 'react-hot-toast';
+import PrimaryButton from '../common/PrimaryButton';
+import PrimaryDropdown from '../common/PrimaryDropdown';
+import { BillingService } from '../../services/billingService';
+import { type Customer } from '../../services/customerService';
+import { useDocumentSettings } from '../../hooks/useSystemData';
+import { AGING_BUCKETS, buildCustomerStatement, type CustomerStatement } from '../../utils/statementUtils';
+import { generateCustomerStatement, generateCustomerStatements } from '../../utils/invoiceUtils';
+import colors from '../../styles/colors';
+
+interface CustomerStatementModalProps {
+    open: boolean;
+    onClose: () => void;
+    customers: Customer[];
+}
+
+// Empty customer selection means every customer with a balance
+const ALL_WITH_BALANCE = '';
+
+const toDateInput = (date: Date) => {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// Statement dates are calendar days, so read them as local dates
+const formatDate = (date: string) => {
+    return new Date(`${date}T00:00:00`).toLocaleDateString();
+};
+
+const loadStatement = async (customer: Customer, dateFrom: string, dateTo: string): Promise<CustomerStatement> => {
+    const customerId = customer.id!.toString();
+    // Everything up to the end of the period, so earlier activity becomes the opening balance
+    const [historyResponse, paymentsResponse, creditNotesResponse] = await Promise.all([
+        BillingService.getCustomerBillingHistory(customerId, { dateTo, limit: 1000 }),
+        BillingService.getCustomerPayments(customerId, { dateTo }),
+        BillingService.getCustomerCreditNotes(customerId, { dateTo }),
+    ]);
+
+    return buildCustomerStatement(
+        {
+            id: customerId,
+            name: `${customer.firstName} ${customer.lastName}`.trim(),
+            code: customer.customerCode,
+            address: customer.address,
+            currency: customer.currency,
+        },
+        historyResponse.success ? historyResponse.data.invoices : [],
+        paymentsResponse.success ? paymentsResponse.data : [],
+        creditNotesResponse.success ? creditNotesResponse.data : [],
+        dateFrom,
+        dateTo
+    );
+};
+
+const CustomerStatementModal: React.FC<CustomerStatementModalProps> = ({
+    open,
+    onClose,
+    customers
+}) => {
+    const [customerId, setCustomerId] = useState(ALL_WITH_BALANCE);
+    const [dateFrom, setDateFrom] = useState('');
+    const [dateTo, setDateTo] = useState('');
+    const [statement, setStatement] = useState<CustomerStatement | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [progress, setProgress] = useState('');
+    const [errors, setErrors] = useState<{ [key: string]: string }>({});
+    const documentSettings = useDocumentSettings();
+
+    // Default to the current month each time the modal opens
+    useEffect(() => {
+        if (!open) return;
+
+        const today = new Date();
+        setDateFrom(toDateInput(new Date(today.getFullYear(), today.getMonth(), 1)));
+        setDateTo(toDateInput(today));
+        setCustomerId(ALL_WITH_BALANCE);
+        setStatement(null);
+        setErrors({});
+    }, [open]);
+
+    const validate = () => {
+        const newErrors: { [key: string]: string } = {};
+        if (!dateFrom) newErrors.dateFrom = 'From date is required';
+        if (!dateTo) newErrors.dateTo = 'To date is required';
+        if (dateFrom && dateTo && dateFrom > dateTo) newErrors.dateTo = 'To date must be on or after the from date';
+        setErrors(newErrors);
+        return Object.keys(newErrors).length === 0;
+    };
+
+    const selectedCustomer = customers.find(customer => customer.id?.toString() === customerId);
+
+    const handlePreview = async () => {
+        if (!selectedCustomer || !validate()) return;
+
+        setLoading(true);
+        try {
+            setStatement(await loadStatement(selectedCustomer, dateFrom, dateTo));
+        } catch (error) {
+            console.error('Error loading statement:', error);
+            toast.error('Failed to load customer statement');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleDownload = async () => {
+        if (!documentSettings || !validate()) return;
+
+        setLoading(true);
+        try {
+            if (selectedCustomer) {
+                const customerStatement = await loadStatement(selectedCustomer, dateFrom, dateTo);
+                setStatement(customerStatement);
+                generateCustomerStatement(customerStatement, documentSettings);
+                return;
+            }
+
+            // One customer at a time to keep the load on the server down
+            const statements: CustomerStatement[] = [];
+            const candidates = customers.filter(customer => customer.id);
+            for (const [index, customer] of candidates.entries()) {
+                setProgress(`Loading ${index + 1} of ${candidates.length}...`);
+                const customerStatement = await loadStatement(customer, dateFrom, dateTo);
+                if (Math.abs(customerStatement.closingBalance) >= 0.01) {
+                    statements.push(customerStatement);
+                }
+            }
+
+            if (statements.length === 0) {
+                toast.error('No customers have a balance for this period');
+                return;
+            }
+            generateCustomerStatements(statements, documentSettings);
+            toast.success(`Generated ${statements.length} statement${statements.length !== 1 ? 's' : ''}`);
+        } catch (error) {
+            console.error('Error generating statements:', error);
+            toast.error('Failed to generate customer statements');
+        } finally {
+            setLoading(false);
+            setProgress('');
+        }
+    };
+
+    return (
+        <Dialog
+            open={open}
+            onClose={onClose}
+            maxWidth="md"
+            fullWidth
+            PaperProps={{
+                sx: {
+                    borderRadius: '12px',
+                    boxShadow: '0 10px 25px rgba(0, 0, 0, 0.1)'
+                }
+            }}
+        >
+            <DialogTitle sx={{
+                pb: 1,
+                borderBottom: `1px solid ${colors.border.light}`,
+                backgroundColor: colors.background.card
+            }}>
+                <Typography variant="h6" fontWeight={600} color={colors.text.primary}>
+                    Customer Statements
+                </Typography>
+                <Typography variant="body2" color={colors.text.secondary} sx={{ mt: 0.5 }}>
+                    Opening balance, invoices, credit notes, payments and aging for a period
+                </Typography>
+            </DialogTitle>
+
+            <DialogContent sx={{ py: 3 }}>
+                <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '2fr 1fr 1fr' }, gap: 2, mt: 2, mb: 3 }}>
+                    <PrimaryDropdown
+                        value={customerId}
+                        onChange={(e) => {
+                            setCustomerId(e.target.value);
+                            setStatement(null);
+                        }}
+                        options={[
+                            { value: ALL_WITH_BALANCE, label: 'All customers with a balance' },
+                            ...customers.map(customer => ({
+                                value: customer.id?.toString() || '',
+                                label: `${customer.firstName} - ${customer.customerCode || 'N/A'}`
+                            }))
+                        ]}
+                        placeholder="Select Customer"
+                    />
+                    <TextField
+                        label="From"
+                        type="date"
+                        value={dateFrom}
+                        onChange={(e) => setDateFrom(e.target.value)}
+                        error={!!errors.dateFrom}
+                        helperText={errors.dateFrom}
+                        InputLabelProps={{ shrink: true }}
+                        size="small"
+                        fullWidth
+                    />
+                    <TextField
+                        label="To"
+                        type="date"
+                        value={dateTo}
+                        onChange={(e) => setDateTo(e.target.value)}
+                        error={!!errors.dateTo}
+                        helperText={errors.dateTo}
+                        InputLabelProps={{ shrink: true }}
+                        size="small"
+                        fullWidth
+                    />
+                </Box>
+
+                {loading && (
+                    <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 2, py: 3 }}>
+                        <CircularProgress size={24} />
+                        {progress && (
+                            <Typography variant="body2" color={colors.text.secondary}>{progress}</Typography>
+                        )}
+                    </Box>
+                )}
+
+                {!loading && statement && (
+                    <Box>
+                        <TableContainer sx={{ border: `1px solid ${colors.border.light}`, borderRadius: '8px', maxHeight: 320 }}>
+                            <Table size="small" stickyHeader>
+                                <TableHead>
+                                    <TableRow>
+                                        <TableCell>Date</TableCell>
+                                        <TableCell>Reference</TableCell>
+                                        <TableCell>Description</TableCell>
+                                        <TableCell align="right">Debit</TableCell>
+                                        <TableCell align="right">Credit</TableCell>
+                                        <TableCell align="right">Balance</TableCell>
+                                    </TableRow>
+                                </TableHead>
+                                <TableBody>
+                                    <TableRow>
+                                        <TableCell>{formatDate(statement.dateFrom)}</TableCell>
+                                        <TableCell />
+                                        <TableCell sx={{ fontWeight: 600 }}>Opening Balance</TableCell>
+                                        <TableCell />
+                                        <TableCell />
+                                        <TableCell align="right" sx={{ fontWeight: 600 }}>{statement.openingBalance.toFixed(2)}</TableCell>
+                                    </TableRow>
+                                    {statement.lines.map((line, index) => (
+                                        <TableRow key={`${line.type}-${line.reference}-${index}`}>
+                                            <TableCell>{formatDate(line.date)}</TableCell>
+                                            <TableCell>{line.reference}</TableCell>
+                                            <TableCell>{line.description}</TableCell>
+                                            <TableCell align="right">{line.debit ? line.debit.toFixed(2) : ''}</TableCell>
+                                            <TableCell align="right">{line.credit ? line.credit.toFixed(2) : ''}</TableCell>
+                                            <TableCell align="right">{line.balance.toFixed(2)}</TableCell>
+                                        </TableRow>
+                                    ))}
+                                    <TableRow>
+                                        <TableCell>{formatDate(statement.dateTo)}</TableCell>
+                                        <TableCell />
+                                        <TableCell sx={{ fontWeight: 600 }}>Closing Balance</TableCell>
+                                        <TableCell align="right" sx={{ fontWeight: 600 }}>{statement.totalInvoiced.toFixed(2)}</TableCell>
+                                        <TableCell align="right" sx={{ fontWeight: 600 }}>{(statement.totalPaid + statement.totalCredited).toFixed(2)}</TableCell>
+                                        <TableCell align="right" sx={{ fontWeight: 600 }}>{statement.closingBalance.toFixed(2)}</TableCell>
+                                    </TableRow>
+                                </TableBody>
+                            </Table>
+                        </TableContainer>
+
+                        <Typography variant="subtitle2" color={colors.text.primary} sx={{ mt: 3, mb: 1, fontWeight: 600 }}>
+                            Aging (Rs)
+                        </Typography>
+                        <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: 2 }}>
+                            {AGING_BUCKETS.map(bucket => (
+                                <Box
+                                    key={bucket.key}
+                                    sx={{
+                                        p: 2,
+                                        backgroundColor: colors.background.card,
+                                        borderRadius: '8px',
+                                        border: `1px solid ${colors.border.light}`
+                                    }}
+                                >
+                                    <Typography variant="body2" color={colors.text.secondary}>{bucket.label}</Typography>
+                                    <Typography
+                                        variant="body1"
+                                        fontWeight={600}
+                                        color={bucket.key !== 'current' && statement.aging[bucket.key] > 0 ? '#f57c00' : colors.text.primary}
+                                    >
+                                        {statement.aging[bucket.key].toFixed(2)}
+                                    </Typography>
+                                </Box>
+                            ))}
+                        </Box>
+                    </Box>
+                )}
+
+                {!loading && !statement && !selectedCustomer && (
+                    <Typography variant="body2" color={colors.text.secondary}>
+                        Downloads one PDF with a statement for every customer whose closing balance is not zero.
+                    </Typography>
+                )}
+            </DialogContent>
+
+            <DialogActions sx={{
+                p: 3,
+                borderTop: `1px solid ${colors.border.light}`,
+                backgroundColor: colors.background.card
+            }}>
+                <PrimaryButton
+                    onClick={onClose}
+                    disabled={loading}
+                    style={{
+                        backgroundColor: colors.text.muted,
+                        color: colors.text.white,
+                        width: 'auto',
+                        minWidth: 100
+                    }}
+                >
+                    Close
+                </PrimaryButton>
+                {selectedCustomer && (
+                    <PrimaryButton
+                        onClick={handlePreview}
+                        disabled={loading}
+                        style={{
+                            backgroundColor: colors.primary[100],
+                            color: colors.text.primary,
+                            width: 'auto',
+                            minWidth: 100
+                        }}
+                    >
+                        Preview
+                    </PrimaryButton>
+                )}
+                <PrimaryButton
+                    onClick={handleDownload}
+                    disabled={loading || !documentSettings}
+                    style={{
+                        backgroundColor: colors.button.primary,
+                        color: colors.text.white,
+                        width: 'auto',
+                        minWidth: 160
+                    }}
+                >
+                    {selectedCustomer ? 'Download PDF' : 'Download All Statements'}
+                </PrimaryButton>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default CustomerStatementModal;
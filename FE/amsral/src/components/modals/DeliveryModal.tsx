@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
     Dialog,
     DialogTitle,
@@ -6,13 +6,37 @@ import {
     DialogActions,
     Box,
     Typography,
-
-    FormControlLabel,
-    Checkbox,
-    Divider
+    Divider,
+    TextField,
+    Table,
+    TableBody,
+    TableCell,
+    TableContainer,
+    TableHead,
+    TableRow,
+    IconButton,
+    CircularProgress
 } from '@mui/material';
+import { Print } from '@mui/icons-material';
 import PrimaryButton from '../common/PrimaryButton';
-import PrimaryNumberInput from '../common/PrimaryNumberInput';
+import QuantityReconciliation from '../orders/QuantityReconciliation';
+import {
+    orderService,
+    type CreateDeliveryEntryRequest,
+    type DeliveryEntry,
+    type OrderSummaryData
+} from '../../services/orderService';
+import { generateGatepass } from '../../utils/pdfUtils';
+import { buildGatepassData } from '../../utils/gatepassUtils';
+import {
+    summarizeRecordDeliveries,
+    isFullyDelivered,
+    getDeliveryEntryTotal,
+    type RecordDeliveryStatus
+} from '../../utils/deliveryUtils';
+import { isQuantityCheckBlocked } from '../../utils/reconciliationUtils';
+import { useOrderReconciliation } from '../../hooks/useOrders';
+import { useDocumentSettings } from '../../hooks/useSystemData';
 import colors from '../../styles/colors';
 
 interface DeliveryModalProps {
@@ -26,7 +50,7 @@ interface DeliveryModalProps {
         deliveryQuantity?: number;
         status?: string;
     } | null;
-    onUpdate: (orderId: number, deliveryCount: number, isDelivered: boolean) => Promise<void>;
+    onDeliver: (orderId: number, entry: CreateDeliveryEntryRequest, deliveredTotal: number, fullyDelivered: boolean) => Promise<void>;
     loading?: boolean;
 }
 
@@ -34,46 +58,133 @@ const DeliveryModal: React.FC<DeliveryModalProps> = ({
     open,
     onClose,
     order,
-    onUpdate,
+    onDeliver,
     loading = false
 }) => {
-    const [deliveryCount, setDeliveryCount] = useState<number | null>(null);
-    const [isDelivered, setIsDelivered] = useState(true);
+    const [summary, setSummary] = useState<OrderSummaryData | null>(null);
+    const [deliveries, setDeliveries] = useState<DeliveryEntry[]>([]);
+    const [ledgerLoading, setLedgerLoading] = useState(false);
+    const [deliverNow, setDeliverNow] = useState<{ [recordId: number]: number }>({});
+    const [deliveryDate, setDeliveryDate] = useState('');
+    const [gpNo, setGpNo] = useState('');
+    const [vehicleNote, setVehicleNote] = useState('');
     const [errors, setErrors] = useState<{ [key: string]: string }>({});
+    const documentSettings = useDocumentSettings();
 
-    // Initialize form when order changes
-    useEffect(() => {
-        if (order) {
-            setDeliveryCount(null);
-            setIsDelivered(true); // Default to true (checked)
-            setErrors({});
+    // Orders whose pieces don't add up can't go out until they are corrected or a manager overrides;
+    // nothing goes out until the check has loaded
+    const { data: reconciliation, isError: reconciliationError } = useOrderReconciliation(open && order ? order.id : null);
+    const quantityBlocked = !reconciliation || isQuantityCheckBlocked(reconciliation);
+
+    // Load the order records and its delivery ledger
+    const loadLedger = useCallback(async () => {
+        if (!order) return;
+
+        setLedgerLoading(true);
+        try {
+            const [summaryResponse, deliveriesResponse] = await Promise.all([
+                orderService.getOrderSummary(order.id),
+                orderService.getDeliveries(order.id)
+            ]);
+
+            const entries = deliveriesResponse.success ? deliveriesResponse.data : [];
+            setDeliveries(entries);
+
+            if (summaryResponse.success) {
+                setSummary(summaryResponse.data);
+            }
+        } catch (error) {
+            console.error('Error loading delivery ledger:', error);
+            setErrors({ general: 'Failed to load order records' });
+        } finally {
+            setLedgerLoading(false);
         }
     }, [order]);
 
-    // Ensure isDelivered is always true when modal opens
+    // Initialize form when modal opens
     useEffect(() => {
-        if (open) {
-            setIsDelivered(true);
-        }
-    }, [open]);
+        if (!open || !order) return;
+
+        setSummary(null);
+        setDeliveries([]);
+        setDeliverNow({});
+        setDeliveryDate(new Date().toISOString().split('T')[0]);
+        setGpNo('');
+        setVehicleNote('');
+        setErrors({});
+        loadLedger();
+    }, [open, order, loadLedger]);
+
+    // Show the next gate pass number - the server allocates it when the delivery is saved
+    useEffect(() => {
+        if (!open || !order) return;
+
+        const fetchNextGpNo = async () => {
+            try {
+                const preview = await orderService.getGatepassPreview();
+                if (preview.success) {
+                    setGpNo(prev => prev || preview.data.nextGpNo.toString());
+                }
+            } catch (error) {
+                console.warn('Failed to fetch next gate pass number:', error);
+            }
+        };
+
+        fetchNextGpNo();
+    }, [open, order]);
+
+    // Only pieces that passed QC can go out, so outstanding quantities wait for the quantity check
+    const recordStatuses: RecordDeliveryStatus[] = summary && reconciliation
+        ? summarizeRecordDeliveries(summary.records, deliveries, reconciliation.records)
+        : [];
+    const deliveredSoFar = recordStatuses.reduce((sum, status) => sum + status.deliveredQuantity, 0);
+    const deliveringNow = recordStatuses.reduce((sum, status) => sum + (deliverNow[status.recordId] || 0), 0);
+    const stillToGo = recordStatuses.reduce((sum, status) => sum + status.outstandingQuantity + status.inProductionQuantity, 0);
+
+    // Default each record to whatever is still outstanding, once the ledger and the quantity check are in
+    useEffect(() => {
+        if (!summary || !reconciliation) return;
+
+        const defaults: { [recordId: number]: number } = {};
+        summarizeRecordDeliveries(summary.records, deliveries, reconciliation.records).forEach(status => {
+            defaults[status.recordId] = status.outstandingQuantity;
+        });
+        setDeliverNow(prev => Object.keys(prev).length > 0 ? prev : defaults);
+    }, [summary, deliveries, reconciliation]);
+
+    const handleDeliverNowChange = (recordId: number, value: string) => {
+        setDeliverNow(prev => ({
+            ...prev,
+            [recordId]: value === '' ? 0 : Number(value)
+        }));
+    };
+
+    const handleReprint = (entry: DeliveryEntry) => {
+        if (!summary || !documentSettings) return;
+        generateGatepass(buildGatepassData(summary, entry), documentSettings);
+    };
 
     const handleSubmit = async () => {
-        if (!order) return;
+        if (!order || !summary) return;
 
         // Validation
         const newErrors: { [key: string]: string } = {};
 
-        // Calculate the final delivery count for validation
-        const finalDeliveryCount = (deliveryCount === null || deliveryCount === 0)
-            ? availableQuantity
-            : deliveryCount;
+        recordStatuses.forEach(status => {
+            const quantity = deliverNow[status.recordId] || 0;
+            if (quantity < 0) {
+                newErrors[`record_${status.recordId}`] = 'Cannot be negative';
+            } else if (quantity > status.outstandingQuantity) {
+                newErrors[`record_${status.recordId}`] = `Max ${status.outstandingQuantity}`;
+            }
+        });
 
-        if (finalDeliveryCount < 0) {
-            newErrors.deliveryCount = 'Delivery count cannot be negative';
+        if (deliveringNow <= 0) {
+            newErrors.general = 'Enter a quantity for at least one record';
         }
 
-        if (finalDeliveryCount > availableQuantity) {
-            newErrors.deliveryCount = `Delivery count cannot exceed available quantity (${availableQuantity})`;
+        if (!deliveryDate) {
+            newErrors.deliveryDate = 'Delivery date is required';
         }
 
         if (Object.keys(newErrors).length > 0) {
@@ -81,16 +192,28 @@ const DeliveryModal: React.FC<DeliveryModalProps> = ({
             return;
         }
 
-        try {
-            // If delivery count is null/empty or 0, use available quantity as delivery count
-            const finalDeliveryCount = (deliveryCount === null || deliveryCount === 0)
-                ? availableQuantity
-                : deliveryCount;
+        const entry: CreateDeliveryEntryRequest = {
+            deliveryDate,
+            vehicleNote: vehicleNote.trim() || undefined,
+            records: recordStatuses
+                .filter(status => (deliverNow[status.recordId] || 0) > 0)
+                .map(status => ({
+                    recordId: status.recordId,
+                    trackingNumber: status.trackingNumber,
+                    quantity: deliverNow[status.recordId]
+                }))
+        };
+
+        // The order is done once this entry clears everything that passed QC and nothing is left in production
+        const fullyDelivered = isFullyDelivered(recordStatuses.map(status => ({
+            ...status,
+            outstandingQuantity: status.outstandingQuantity - (deliverNow[status.recordId] || 0)
+        })));
 
-            await onUpdate(order.id, finalDeliveryCount, isDelivered);
-            onClose();
+        try {
+            await onDeliver(order.id, entry, deliveredSoFar + deliveringNow, fullyDelivered);
         } catch (error) {
-            console.error('Error updating delivery status:', error);
+            console.error('Error recording delivery:', error);
         }
     };
 
@@ -101,13 +224,11 @@ const DeliveryModal: React.FC<DeliveryModalProps> = ({
 
     if (!order) return null;
 
-    const availableQuantity = (order.returnQuantity || 0) - (order.deliveryQuantity || 0);
-
     return (
         <Dialog
             open={open}
             onClose={handleClose}
-            maxWidth="sm"
+            maxWidth="md"
             fullWidth
             PaperProps={{
                 sx: {
@@ -122,7 +243,7 @@ const DeliveryModal: React.FC<DeliveryModalProps> = ({
                 backgroundColor: colors.background.card
             }}>
                 <Typography variant="h6" fontWeight={600} color={colors.text.primary}>
-                    Update Delivery Status
+                    Record Delivery
                 </Typography>
                 <Typography variant="body2" color={colors.text.secondary} sx={{ mt: 0.5 }}>
                     Order #{order.id} - {order.customerName}
@@ -130,7 +251,7 @@ const DeliveryModal: React.FC<DeliveryModalProps> = ({
             </DialogTitle>
 
             <DialogContent sx={{ py: 3 }}>
-                <Box sx={{ mb: 3 }}>
+                <Box sx={{ mb: 3, mt: 2 }}>
                     <Typography variant="subtitle2" color={colors.text.primary} sx={{ mb: 1, fontWeight: 600 }}>
                         Order Details
                     </Typography>
@@ -148,73 +269,178 @@ const DeliveryModal: React.FC<DeliveryModalProps> = ({
                             <Typography variant="body2" color={colors.text.secondary}>Return Quantity:</Typography>
                             <Typography variant="body2" fontWeight={500}>{order.returnQuantity || 0}</Typography>
                         </Box>
-                        <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
-                            <Typography variant="body2" color={colors.text.secondary}>Delivery Quantity:</Typography>
-                            <Typography variant="body2" fontWeight={500}>{order.deliveryQuantity || 0}</Typography>
-                        </Box>
                         <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
-                            <Typography variant="body2" color={colors.text.secondary}>Available for Delivery:</Typography>
+                            <Typography variant="body2" color={colors.text.secondary}>Delivered So Far:</Typography>
                             <Typography variant="body2" fontWeight={500} color={colors.button.primary}>
-                                {availableQuantity}
+                                {deliveredSoFar}
                             </Typography>
                         </Box>
                     </Box>
                 </Box>
 
+                <Typography variant="subtitle2" color={colors.text.primary} sx={{ mb: 1, fontWeight: 600 }}>
+                    Records
+                </Typography>
+                {ledgerLoading || (!reconciliation && !reconciliationError) ? (
+                    <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+                        <CircularProgress size={24} />
+                    </Box>
+                ) : (
+                    <TableContainer sx={{ border: `1px solid ${colors.border.light}`, borderRadius: '8px', mb: 2 }}>
+                        <Table size="small">
+                            <TableHead>
+                                <TableRow>
+                                    <TableCell>Tracking No</TableCell>
+                                    <TableCell>Item</TableCell>
+                                    <TableCell align="right">Quantity</TableCell>
+                                    <TableCell align="right">Passed QC</TableCell>
+                                    <TableCell align="right">Delivered</TableCell>
+                                    <TableCell align="right">Outstanding</TableCell>
+                                    <TableCell align="right" sx={{ width: 140 }}>Deliver Now</TableCell>
+                                </TableRow>
+                            </TableHead>
+                            <TableBody>
+                                {recordStatuses.map(status => (
+                                    <TableRow key={status.recordId}>
+                                        <TableCell>{status.trackingNumber}</TableCell>
+                                        <TableCell>{status.itemName || '-'}</TableCell>
+                                        <TableCell align="right">{status.quantity}</TableCell>
+                                        <TableCell align="right">{status.deliverableQuantity}</TableCell>
+                                        <TableCell align="right">{status.deliveredQuantity}</TableCell>
+                                        <TableCell align="right">{status.outstandingQuantity}</TableCell>
+                                        <TableCell align="right">
+                                            <TextField
+                                                type="number"
+                                                size="small"
+                                                value={deliverNow[status.recordId] ?? 0}
+                                                onChange={(e) => handleDeliverNowChange(status.recordId, e.target.value)}
+                                                error={!!errors[`record_${status.recordId}`]}
+                                                helperText={errors[`record_${status.recordId}`]}
+                                                disabled={status.outstandingQuantity === 0}
+                                                inputProps={{ min: 0, max: status.outstandingQuantity }}
+                                            />
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                                {recordStatuses.length === 0 && (
+                                    <TableRow>
+                                        <TableCell colSpan={7} align="center">No records found</TableCell>
+                                    </TableRow>
+                                )}
+                            </TableBody>
+                        </Table>
+                    </TableContainer>
+                )}
+
+                {(reconciliationError || (reconciliation && reconciliation.issues.length > 0)) && (
+                    <>
+                        <Typography variant="subtitle2" color={colors.text.primary} sx={{ mb: 1, fontWeight: 600 }}>
+                            Quantity Check
+                        </Typography>
+                        <QuantityReconciliation orderId={order.id} />
+                    </>
+                )}
+
                 <Divider sx={{ my: 2 }} />
 
-                <Box sx={{ mb: 2 }}>
-                    <Typography variant="subtitle2" color={colors.text.primary} sx={{ mb: 1, fontWeight: 600 }}>
-                        Delivery Information
-                    </Typography>
-                    <PrimaryNumberInput
-                        label="Delivery Count (Optional)"
-                        value={deliveryCount === null ? undefined : deliveryCount}
-                        onChange={(e) => {
-                            const value = e.target.value;
-                            setDeliveryCount(value === '' ? null : Number(value));
-                        }}
-                        error={!!errors.deliveryCount}
-                        helperText={errors.deliveryCount || "Leave empty to use available quantity as delivery count"}
-                        placeholder="Enter number of items to deliver (optional)"
-                        min={0}
-                        max={availableQuantity}
+                <Typography variant="subtitle2" color={colors.text.primary} sx={{ mb: 1, fontWeight: 600 }}>
+                    Delivery Information
+                </Typography>
+                <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2, mb: 2 }}>
+                    <TextField
+                        label="Delivery Date"
+                        type="date"
+                        value={deliveryDate}
+                        onChange={(e) => setDeliveryDate(e.target.value)}
+                        error={!!errors.deliveryDate}
+                        helperText={errors.deliveryDate}
+                        InputLabelProps={{ shrink: true }}
+                        size="small"
+                        fullWidth
+                    />
+                    <TextField
+                        label="Gate Pass No"
+                        value={gpNo}
+                        helperText="Expected number; the next free one is given when the delivery is saved"
+                        InputProps={{ readOnly: true }}
+                        size="small"
                         fullWidth
                     />
                 </Box>
+                <TextField
+                    label="Vehicle / Driver (Optional)"
+                    value={vehicleNote}
+                    onChange={(e) => setVehicleNote(e.target.value)}
+                    placeholder="e.g. WP LB-1234, Nimal"
+                    size="small"
+                    fullWidth
+                    sx={{ mb: 2 }}
+                />
 
-                <Box sx={{ mb: 2 }}>
-                    <FormControlLabel
-                        control={
-                            <Checkbox
-                                checked={isDelivered}
-                                onChange={(e) => setIsDelivered(e.target.checked)}
-                                color="primary"
-                            />
-                        }
-                        label="Mark as Delivered"
-                        sx={{ fontWeight: 500 }}
-                    />
+                <Box sx={{
+                    p: 2,
+                    backgroundColor: '#f0f9ff',
+                    borderRadius: '8px',
+                    border: '1px solid #0ea5e9'
+                }}>
+                    <Typography variant="body2" color="#0c4a6e" sx={{ fontWeight: 500 }}>
+                        <strong>Delivery Summary:</strong>
+                    </Typography>
+                    <Typography variant="body2" color="#0c4a6e" sx={{ mt: 0.5 }}>
+                        • Delivering now: {deliveringNow} items
+                    </Typography>
+                    <Typography variant="body2" color="#0c4a6e">
+                        • Outstanding after this delivery: {Math.max(0, stillToGo - deliveringNow)} items
+                    </Typography>
                 </Box>
 
-                {(deliveryCount !== null && deliveryCount > 0) || (deliveryCount === null || deliveryCount === 0) ? (
-                    <Box sx={{
-                        p: 2,
-                        backgroundColor: '#f0f9ff',
-                        borderRadius: '8px',
-                        border: '1px solid #0ea5e9'
-                    }}>
-                        <Typography variant="body2" color="#0c4a6e" sx={{ fontWeight: 500 }}>
-                            <strong>Delivery Summary:</strong>
-                        </Typography>
-                        <Typography variant="body2" color="#0c4a6e" sx={{ mt: 0.5 }}>
-                            • Delivering: {(deliveryCount === null || deliveryCount === 0) ? availableQuantity : deliveryCount} items
-                        </Typography>
-                        <Typography variant="body2" color="#0c4a6e">
-                            • Remaining: {typeof availableQuantity === 'number' ? availableQuantity - ((deliveryCount === null || deliveryCount === 0) ? availableQuantity : deliveryCount) : '-'} items
+                {errors.general && (
+                    <Typography variant="body2" color="error" sx={{ mt: 1 }}>
+                        {errors.general}
+                    </Typography>
+                )}
+
+                {deliveries.length > 0 && (
+                    <>
+                        <Divider sx={{ my: 2 }} />
+                        <Typography variant="subtitle2" color={colors.text.primary} sx={{ mb: 1, fontWeight: 600 }}>
+                            Previous Deliveries
                         </Typography>
-                    </Box>
-                ) : null}
+                        <TableContainer sx={{ border: `1px solid ${colors.border.light}`, borderRadius: '8px' }}>
+                            <Table size="small">
+                                <TableHead>
+                                    <TableRow>
+                                        <TableCell>Date</TableCell>
+                                        <TableCell>Gate Pass No</TableCell>
+                                        <TableCell>Vehicle / Driver</TableCell>
+                                        <TableCell align="right">Quantity</TableCell>
+                                        <TableCell align="center">Gate Pass</TableCell>
+                                    </TableRow>
+                                </TableHead>
+                                <TableBody>
+                                    {deliveries.map(entry => (
+                                        <TableRow key={entry.id}>
+                                            <TableCell>{new Date(entry.deliveryDate).toLocaleDateString()}</TableCell>
+                                            <TableCell>{entry.gpNo}</TableCell>
+                                            <TableCell>{entry.vehicleNote || '-'}</TableCell>
+                                            <TableCell align="right">{getDeliveryEntryTotal(entry)}</TableCell>
+                                            <TableCell align="center">
+                                                <IconButton
+                                                    size="small"
+                                                    disabled={!documentSettings}
+                                                    onClick={() => handleReprint(entry)}
+                                                    title="Reprint Gate Pass"
+                                                >
+                                                    <Print fontSize="small" />
+                                                </IconButton>
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </TableContainer>
+                    </>
+                )}
             </DialogContent>
 
             <DialogActions sx={{
@@ -235,10 +461,10 @@ const DeliveryModal: React.FC<DeliveryModalProps> = ({
                 </PrimaryButton>
                 <PrimaryButton
                     onClick={handleSubmit}
-                    disabled={loading}
+                    disabled={loading || ledgerLoading || !summary || !documentSettings || quantityBlocked}
                     style={{ minWidth: 140 }}
                 >
-                    {loading ? 'Updating...' : 'Update Delivery'}
+                    {loading ? 'Saving...' : 'Record Delivery'}
                 </PrimaryButton>
             </DialogActions>
         </Dialog>
@@ -246,4 +472,3 @@ const DeliveryModal: React.FC<DeliveryModalProps> = ({
 };
 
 export default DeliveryModal;
-
@@ -0,0 +1,413 @@
+import React, { useState, useEffect } from 'react';
+import {
+    Dialog,
+    DialogTitle,
+    DialogContent,
+    DialogActions,
+    Box,
+    Typography,
+    TextField,
+    Divider,
+    Checkbox,
+    FormControlLabel,
+    Table,
+    TableBody,
+    TableCell,
+    TableContainer,
+    TableHead,
+    TableRow,
+    CircularProgress
+} from '@mui/material';
+import PrimaryButton from '../common/PrimaryButton';
+import PriceHistoryButton from '../billing/PriceHistoryButton';
+import colors from '../../styles/colors';
+import { BillingService, type Invoice, type InvoiceLineItem } from '../../services/billingService';
+import { taxService, type TaxComponent } from '../../services/taxService';
+import { CustomerService, type Customer } from '../../services/customerService';
+import { useUpdateDraftInvoice, useFinalizeInvoices } from '../../hooks/useBilling';
+import { useDocumentSettings } from '../../hooks/useSystemData';
+import { generateAmsralInvoice, getCarriedBalance, type InvoiceData } from '../../utils/invoiceUtils';
+import { calculateTaxes, formatTaxLineLabel } from '../../utils/taxUtils';
+import { describeInvoiceLine } from '../../utils/creditNoteUtils';
+import { BASE_CURRENCY, getCurrencySymbol, isForeignCurrency } from '../../utils/currencyUtils';
+
+interface DraftInvoiceModalProps {
+    open: boolean;
+    onClose: () => void;
+    invoice: Invoice | null;
+}
+
+const DraftInvoiceModal: React.FC<DraftInvoiceModalProps> = ({
+    open,
+    onClose,
+    invoice
+}) => {
+    const [lines, setLines] = useState<InvoiceLineItem[]>([]);
+    const [taxComponents, setTaxComponents] = useState<TaxComponent[]>([]);
+    const [customer, setCustomer] = useState<Customer | null>(null);
+    const [unitPrices, setUnitPrices] = useState<{ [recordId: number]: number }>({});
+    const [styleNumbers, setStyleNumbers] = useState<{ [recordId: number]: string }>({});
+    const [poNumber, setPoNumber] = useState('');
+    const [includeStyleNo, setIncludeStyleNo] = useState(false);
+    const [exchangeRate, setExchangeRate] = useState(0);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState('');
+
+    const updateDraftMutation = useUpdateDraftInvoice();
+    const finalizeInvoicesMutation = useFinalizeInvoices();
+    const documentSettings = useDocumentSettings();
+    const saving = updateDraftMutation.isPending || finalizeInvoicesMutation.isPending;
+
+    useEffect(() => {
+        if (!open || !invoice) return;
+
+        const loadData = async () => {
+            setLoading(true);
+            setError('');
+            try {
+                const [linesResponse, taxComponentsResponse, customerDetails] = await Promise.all([
+                    BillingService.getInvoiceLines(invoice.id),
+                    taxService.getTaxComponents({ limit: 100 }).catch(() => null),
+                    invoice.customerId ? CustomerService.getCustomer(Number(invoice.customerId)).catch(() => null) : null,
+                ]);
+                const invoiceLines = linesResponse.success ? linesResponse.data : [];
+                setLines(invoiceLines);
+                setTaxComponents(taxComponentsResponse?.success ? taxComponentsResponse.data.taxComponents : []);
+                setCustomer(customerDetails);
+                setUnitPrices(Object.fromEntries(invoiceLines.map(line => [line.recordId, line.unitPrice])));
+                setStyleNumbers(Object.fromEntries(invoiceLines.map(line => [line.recordId, line.styleNo || ''])));
+                setPoNumber(invoice.poNumber || '');
+                setIncludeStyleNo(!!invoice.includeStyleNo);
+                setExchangeRate(invoice.exchangeRate || 0);
+            } catch (loadError) {
+                console.error('Error loading draft invoice:', loadError);
+                setError('Failed to load invoice lines');
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        loadData();
+    }, [open, invoice]);
+
+    const pricedLines = lines.map(line => {
+        const unitPrice = unitPrices[line.recordId] ?? line.unitPrice;
+        return { ...line, unitPrice, totalPrice: Math.round(line.quantity * unitPrice * 100) / 100 };
+    });
+    const subtotal = pricedLines.reduce((sum, line) => sum + line.totalPrice, 0);
+    const taxes = calculateTaxes(subtotal, taxComponents, invoice?.createdAt || new Date());
+    const unpricedCount = pricedLines.filter(line => line.unitPrice <= 0).length;
+    const isForeign = isForeignCurrency(invoice?.currency);
+    const currencySymbol = getCurrencySymbol(invoice?.currency);
+
+    const buildInvoiceData = (): InvoiceData | null => {
+        if (!invoice) return null;
+
+        const orderIds = Array.from(new Set(pricedLines.map(line => line.orderId)));
+        return {
+            invoiceNumber: invoice.invoiceNumber,
+            customerName: invoice.customerName,
+            customerAddress: customer?.address || '',
+            customerPhone: customer?.phone || '',
+            isTaxInvoice: !!customer?.isVatRegistered,
+            customerVatNumber: customer?.vatNumber || '',
+            currency: invoice.currency,
+            exchangeRate: isForeign && exchangeRate > 0 ? exchangeRate : undefined,
+            invoiceDate: invoice.createdAt.split('T')[0],
+            dueDate: invoice.dueDate,
+            poNumber,
+            includeStyleNo,
+            customerBalance: invoice.balance,
+            orders: orderIds.map(orderId => ({
+                id: orderId,
+                referenceNo: orderId.toString(),
+                orderDate: invoice.createdAt,
+                records: pricedLines
+                    .filter(line => line.orderId === orderId)
+                    .map(line => ({
+                        id: line.recordId,
+                        orderId,
+                        itemName: line.itemName,
+                        quantity: line.quantity,
+                        unitPrice: line.unitPrice,
+                        totalPrice: line.totalPrice,
+                        washType: line.washType,
+                        processTypes: line.processTypes,
+                        colour: line.colour || undefined,
+                        styleNo: includeStyleNo ? styleNumbers[line.recordId] || '' : undefined,
+                    })),
+            })),
+            subtotal,
+            taxRate: taxes.effectiveRate,
+            taxAmount: taxes.taxAmount,
+            taxLines: taxes.lines,
+            total: subtotal + taxes.taxAmount + getCarriedBalance(invoice.currency, invoice.balance || 0),
+        };
+    };
+
+    const handlePreview = () => {
+        const invoiceData = buildInvoiceData();
+        if (invoiceData && documentSettings) generateAmsralInvoice(invoiceData, documentSettings);
+    };
+
+    const handleSave = async (issue: boolean) => {
+        if (!invoice) return;
+
+        if (issue && unpricedCount > 0) {
+            setError(`${unpricedCount} line${unpricedCount !== 1 ? 's have' : ' has'} no price - price every line before issuing`);
+            return;
+        }
+        if (issue && isForeign && exchangeRate <= 0) {
+            setError(`Enter the ${invoice.currency} exchange rate before issuing`);
+            return;
+        }
+        setError('');
+
+        try {
+            await updateDraftMutation.mutateAsync({
+                invoiceId: invoice.id,
+                invoice: {
+                    poNumber: poNumber.trim() || undefined,
+                    includeStyleNo,
+                    records: pricedLines.map(line => ({
+                        orderId: line.orderId,
+                        recordId: line.recordId,
+                        unitPrice: line.unitPrice,
+                        totalPrice: line.totalPrice,
+                        styleNo: includeStyleNo ? styleNumbers[line.recordId] || '' : undefined,
+                    })),
+                    orderTotals: Array.from(new Set(pricedLines.map(line => line.orderId))).map(orderId => ({
+                        orderId,
+                        totalPrice: pricedLines
+                            .filter(line => line.orderId === orderId)
+                            .reduce((sum, line) => sum + line.totalPrice, 0),
+                    })),
+                    taxRate: taxes.effectiveRate,
+                    taxLines: taxes.lines.length > 0 ? taxes.lines : undefined,
+                    exchangeRate: isForeign && exchangeRate > 0 ? exchangeRate : undefined,
+                },
+            });
+            if (issue) {
+                await finalizeInvoicesMutation.mutateAsync([invoice.id]);
+            }
+            onClose();
+        } catch (saveError) {
+            console.error('Error saving draft invoice:', saveError);
+        }
+    };
+
+    if (!invoice) return null;
+
+    return (
+        <Dialog
+            open={open}
+            onClose={onClose}
+            maxWidth="lg"
+            fullWidth
+            PaperProps={{
+                sx: {
+                    borderRadius: '12px',
+                    boxShadow: '0 10px 25px rgba(0, 0, 0, 0.1)'
+                }
+            }}
+        >
+            <DialogTitle sx={{
+                pb: 1,
+                borderBottom: `1px solid ${colors.border.light}`,
+                backgroundColor: colors.background.card
+            }}>
+                <Typography variant="h6" fontWeight={600} color={colors.text.primary}>
+                    Edit Draft Invoice
+                </Typography>
+                <Typography variant="body2" color={colors.text.secondary} sx={{ mt: 0.5 }}>
+                    Invoice #{invoice.invoiceNumber} - {invoice.customerName} - locked once issued
+                </Typography>
+            </DialogTitle>
+
+            <DialogContent sx={{ py: 3 }}>
+                {loading ? (
+                    <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+                        <CircularProgress size={24} />
+                    </Box>
+                ) : (
+                    <>
+                        <Box sx={{ display: 'flex', gap: 2, mt: 2, mb: 2, flexWrap: 'wrap', alignItems: 'center' }}>
+                            <TextField
+                                label="P/O Number"
+                                value={poNumber}
+                                onChange={(e) => setPoNumber(e.target.value)}
+                                size="small"
+                                sx={{ width: 200 }}
+                            />
+                            <FormControlLabel
+                                control={
+                                    <Checkbox
+                                        checked={includeStyleNo}
+                                        onChange={(e) => setIncludeStyleNo(e.target.checked)}
+                                        color="primary"
+                                    />
+                                }
+                                label="Include Style Number (St No) in invoice"
+                            />
+                            {isForeign && (
+                                <TextField
+                                    label={`Exchange Rate (${BASE_CURRENCY} per 1 ${invoice.currency})`}
+                                    type="number"
+                                    value={exchangeRate || ''}
+                                    onChange={(e) => setExchangeRate(Math.max(0, Number(e.target.value) || 0))}
+                                    error={exchangeRate <= 0}
+                                    size="small"
+                                    sx={{ width: 260 }}
+                                    inputProps={{ min: 0, step: 0.0001 }}
+                                />
+                            )}
+                        </Box>
+
+                        <TableContainer sx={{ border: `1px solid ${colors.border.light}`, borderRadius: '8px' }}>
+                            <Table size="small">
+                                <TableHead>
+                                    <TableRow>
+                                        <TableCell>Order</TableCell>
+                                        <TableCell>Item</TableCell>
+                                        <TableCell>Description</TableCell>
+                                        {includeStyleNo && <TableCell>Style No</TableCell>}
+                                        <TableCell align="right">Qty</TableCell>
+                                        <TableCell align="right">Unit Price</TableCell>
+                                        <TableCell align="right">Amount</TableCell>
+                                    </TableRow>
+                                </TableHead>
+                                <TableBody>
+                                    {pricedLines.map(line => (
+                                        <TableRow key={line.recordId}>
+                                            <TableCell>{line.orderId}</TableCell>
+                                            <TableCell>{line.itemName}</TableCell>
+                                            <TableCell>{describeInvoiceLine(line)}</TableCell>
+                                            {includeStyleNo && (
+                                                <TableCell sx={{ width: 140 }}>
+                                                    <TextField
+                                                        size="small"
+                                                        value={styleNumbers[line.recordId] || ''}
+                                                        onChange={(e) => setStyleNumbers(prev => ({ ...prev, [line.recordId]: e.target.value }))}
+                                                        placeholder="St No"
+                                                    />
+                                                </TableCell>
+                                            )}
+                                            <TableCell align="right">{line.quantity}</TableCell>
+                                            <TableCell align="right" sx={{ width: 180 }}>
+                                                <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'flex-end', gap: 0.5 }}>
+                                                    <PriceHistoryButton
+                                                        customerId={invoice.customerId}
+                                                        itemName={line.itemName}
+                                                        washType={line.washType}
+                                                        onUsePrice={(price) => setUnitPrices(prev => ({ ...prev, [line.recordId]: price }))}
+                                                    />
+                                                    <TextField
+                                                        type="number"
+                                                        size="small"
+                                                        value={unitPrices[line.recordId] ?? ''}
+                                                        onChange={(e) => setUnitPrices(prev => ({ ...prev, [line.recordId]: Math.max(0, Number(e.target.value) || 0) }))}
+                                                        error={line.unitPrice <= 0}
+                                                        inputProps={{ min: 0, step: 0.01 }}
+                                                    />
+                                                </Box>
+                                            </TableCell>
+                                            <TableCell align="right">{line.totalPrice.toFixed(2)}</TableCell>
+                                        </TableRow>
+                                    ))}
+                                    {pricedLines.length === 0 && (
+                                        <TableRow>
+                                            <TableCell colSpan={includeStyleNo ? 7 : 6} align="center">No billed records found on this invoice</TableCell>
+                                        </TableRow>
+                                    )}
+                                </TableBody>
+                            </Table>
+                        </TableContainer>
+
+                        <Divider sx={{ my: 2 }} />
+                        <Box sx={{ maxWidth: 360, ml: 'auto' }}>
+                            <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
+                                <Typography variant="body2" color={colors.text.secondary}>Subtotal:</Typography>
+                                <Typography variant="body2" fontWeight={500}>{currencySymbol} {subtotal.toFixed(2)}</Typography>
+                            </Box>
+                            {taxes.lines.map(line => (
+                                <Box key={line.code} sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
+                                    <Typography variant="body2" color={colors.text.secondary}>{formatTaxLineLabel(line)}:</Typography>
+                                    <Typography variant="body2" fontWeight={500}>{currencySymbol} {line.amount.toFixed(2)}</Typography>
+                                </Box>
+                            ))}
+                            <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                                <Typography variant="body2" fontWeight={600}>Invoice Total:</Typography>
+                                <Typography variant="body2" fontWeight={600} color={colors.button.primary}>
+                                    {currencySymbol} {(subtotal + taxes.taxAmount).toFixed(2)}
+                                </Typography>
+                            </Box>
+                        </Box>
+                    </>
+                )}
+
+                {error && (
+                    <Typography variant="body2" color="error" sx={{ mt: 2 }}>
+                        {error}
+                    </Typography>
+                )}
+            </DialogContent>
+
+            <DialogActions sx={{
+                p: 3,
+                borderTop: `1px solid ${colors.border.light}`,
+                backgroundColor: colors.background.card
+            }}>
+                <PrimaryButton
+                    onClick={onClose}
+                    disabled={saving}
+                    style={{
+                        backgroundColor: colors.text.muted,
+                        color: colors.text.white,
+                        width: 'auto',
+                        minWidth: 100
+                    }}
+                >
+                    Close
+                </PrimaryButton>
+                <PrimaryButton
+                    onClick={handlePreview}
+                    disabled={loading || !documentSettings || pricedLines.length === 0}
+                    style={{
+                        backgroundColor: colors.primary[100],
+                        color: colors.text.primary,
+                        width: 'auto',
+                        minWidth: 130
+                    }}
+                >
+                    Preview PDF
+                </PrimaryButton>
+                <PrimaryButton
+                    onClick={() => handleSave(false)}
+                    disabled={loading || saving || pricedLines.length === 0}
+                    style={{
+                        backgroundColor: colors.primary[500],
+                        color: colors.text.white,
+                        width: 'auto',
+                        minWidth: 130
+                    }}
+                >
+                    Save Draft
+                </PrimaryButton>
+                <PrimaryButton
+                    onClick={() => handleSave(true)}
+                    disabled={loading || saving || pricedLines.length === 0}
+                    style={{
+                        backgroundColor: colors.button.primary,
+                        color: colors.text.white,
+                        width: 'auto',
+                        minWidth: 150
+                    }}
+                >
+                    {saving ? 'Saving...' : 'Save & Issue'}
+                </PrimaryButton>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default DraftInvoiceModal;
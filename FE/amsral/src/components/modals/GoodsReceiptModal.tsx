@@ -0,0 +1,271 @@
+import React, { useState, useEffect } from 'react';
+import {
+    Dialog,
+    DialogTitle,
+    DialogContent,
+    DialogActions,
+    Box,
+    Typography,
+    TextField,
+    Alert,
+    CircularProgress
+} from '@mui/material';
+import PrimaryButton from '../common/PrimaryButton';
+import PrimaryDropdown from '../common/PrimaryDropdown';
+import colors from '../../styles/colors';
+import { useGoodsReceipt, useSaveGoodsReceipt } from '../../hooks/useOrders';
+import { useEmployees } from '../../hooks/useRecordAssignments';
+import { useDocumentSettings } from '../../hooks/useSystemData';
+import { generateOrderReceipt, generateOrderReceiptA4, type OrderReceiptData } from '../../utils/pdfUtils';
+import { DEFAULT_INVOICE_TEMPLATE, RECEIPT_SIZE_OPTIONS } from '../../utils/documentTemplateUtils';
+import type { ReceiptSize } from '../../services/companyProfileService';
+
+// The order whose garments are being received
+export interface GoodsReceiptOrder {
+    id: number;
+    customerName: string;
+    quantity: number; // Pieces the customer declared, 0 when not given
+    date: string;
+    deliveryDate?: string;
+    referenceNo?: string;
+    poNumber?: string;
+}
+
+interface GoodsReceiptModalProps {
+    open: boolean;
+    onClose: () => void;
+    order: GoodsReceiptOrder | null;
+}
+
+const GoodsReceiptModal: React.FC<GoodsReceiptModalProps> = ({
+    open,
+    onClose,
+    order
+}) => {
+    const [deliveryNoteNo, setDeliveryNoteNo] = useState('');
+    const [bagsReceived, setBagsReceived] = useState('');
+    const [piecesCounted, setPiecesCounted] = useState('');
+    const [countedById, setCountedById] = useState('');
+    const [receiptSize, setReceiptSize] = useState<ReceiptSize>(DEFAULT_INVOICE_TEMPLATE.receiptSize);
+    const [errors, setErrors] = useState<{ [key: string]: string }>({});
+
+    const { data: goodsReceipt, isLoading: receiptLoading } = useGoodsReceipt(open && order ? order.id : null);
+    const { data: employeeOptions = [], isLoading: employeesLoading } = useEmployees();
+    const saveGoodsReceiptMutation = useSaveGoodsReceipt();
+    const documentSettings = useDocumentSettings();
+
+    // Start from the saved receipt when reprinting, otherwise from the declared quantity
+    useEffect(() => {
+        if (!open || !order) return;
+
+        setDeliveryNoteNo(goodsReceipt?.deliveryNoteNo || '');
+        setBagsReceived(goodsReceipt ? goodsReceipt.bagsReceived.toString() : '');
+        setPiecesCounted(goodsReceipt ? goodsReceipt.piecesCounted.toString() : order.quantity > 0 ? order.quantity.toString() : '');
+        setCountedById(goodsReceipt?.countedById || '');
+        setErrors({});
+    }, [open, order, goodsReceipt]);
+
+    // Print on the size set in the document template unless changed here
+    const templateReceiptSize = documentSettings?.template.receiptSize;
+    useEffect(() => {
+        if (open && templateReceiptSize) {
+            setReceiptSize(templateReceiptSize);
+        }
+    }, [open, templateReceiptSize]);
+
+    const countedPieces = Number(piecesCounted) || 0;
+    const difference = order && order.quantity > 0 && countedPieces > 0 ? countedPieces - order.quantity : 0;
+
+    const validate = () => {
+        const newErrors: { [key: string]: string } = {};
+        if (!Number.isInteger(Number(bagsReceived)) || Number(bagsReceived) <= 0) {
+            newErrors.bagsReceived = 'Enter the number of bags received';
+        }
+        if (!Number.isInteger(Number(piecesCounted)) || Number(piecesCounted) <= 0) {
+            newErrors.piecesCounted = 'Enter the pieces counted';
+        }
+        if (!countedById) newErrors.countedById = 'Select who counted the pieces';
+        return newErrors;
+    };
+
+    const handleSaveAndPrint = async () => {
+        if (!order || !documentSettings) return;
+
+        const validation = validate();
+        if (Object.keys(validation).length > 0) {
+            setErrors(validation);
+            return;
+        }
+        setErrors({});
+
+        try {
+            const saved = await saveGoodsReceiptMutation.mutateAsync({
+                orderId: order.id,
+                data: {
+                    bagsReceived: Number(bagsReceived),
+                    piecesCounted: Number(piecesCounted),
+                    countedById,
+                    deliveryNoteNo: deliveryNoteNo.trim() || undefined,
+                },
+            });
+
+            const receiptData: OrderReceiptData = {
+                orderId: order.id,
+                customerName: order.customerName,
+                totalQuantity: order.quantity,
+                orderDate: order.date,
+                deliveryDate: order.deliveryDate,
+                referenceNo: order.referenceNo,
+                poNumber: order.poNumber,
+                goodsReceipt: {
+                    bagsReceived: saved.bagsReceived,
+                    piecesCounted: saved.piecesCounted,
+                    countedBy: saved.countedByName || employeeOptions.find(option => option.value === countedById)?.label || '',
+                    deliveryNoteNo: saved.deliveryNoteNo || undefined,
+                },
+            };
+            if (receiptSize === 'full') {
+                generateOrderReceiptA4(receiptData, documentSettings);
+            } else {
+                generateOrderReceipt(receiptData, documentSettings);
+            }
+            onClose();
+        } catch (error) {
+            // The mutation already shows the error
+            console.error('Error saving goods receipt:', error);
+        }
+    };
+
+    return (
+        <Dialog
+            open={open}
+            onClose={saveGoodsReceiptMutation.isPending ? undefined : onClose}
+            maxWidth="sm"
+            fullWidth
+            PaperProps={{
+                sx: {
+                    borderRadius: '12px',
+                    boxShadow: '0 10px 25px rgba(0, 0, 0, 0.1)'
+                }
+            }}
+        >
+            <DialogTitle sx={{
+                pb: 1,
+                borderBottom: `1px solid ${colors.border.light}`,
+                backgroundColor: colors.background.card
+            }}>
+                <Typography variant="h6" fontWeight={600} color={colors.text.primary}>
+                    Goods Receipt{order ? ` - Order #${order.id}` : ''}
+                </Typography>
+                <Typography variant="body2" color={colors.text.secondary} sx={{ mt: 0.5 }}>
+                    Count what arrived and print a GRN for the customer's driver to sign
+                </Typography>
+            </DialogTitle>
+
+            <DialogContent sx={{ py: 3 }}>
+                {receiptLoading ? (
+                    <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+                        <CircularProgress size={24} />
+                    </Box>
+                ) : order && (
+                    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+                        <Typography variant="body2" color={colors.text.secondary}>
+                            {order.customerName}
+                            {order.quantity > 0 ? ` · ${order.quantity} pcs declared` : ' · No quantity declared'}
+                            {goodsReceipt ? ` · Received ${new Date(goodsReceipt.receivedAt).toLocaleDateString()}` : ''}
+                        </Typography>
+
+                        <TextField
+                            label="Customer Delivery Note No (Optional)"
+                            value={deliveryNoteNo}
+                            onChange={(e) => setDeliveryNoteNo(e.target.value)}
+                            size="small"
+                            fullWidth
+                        />
+
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <TextField
+                                label="Bags Received"
+                                type="number"
+                                value={bagsReceived}
+                                onChange={(e) => setBagsReceived(e.target.value)}
+                                inputProps={{ min: 1 }}
+                                size="small"
+                                fullWidth
+                                error={!!errors.bagsReceived}
+                                helperText={errors.bagsReceived}
+                            />
+                            <TextField
+                                label="Pieces Counted"
+                                type="number"
+                                value={piecesCounted}
+                                onChange={(e) => setPiecesCounted(e.target.value)}
+                                inputProps={{ min: 1 }}
+                                size="small"
+                                fullWidth
+                                error={!!errors.piecesCounted}
+                                helperText={errors.piecesCounted}
+                            />
+                        </div>
+
+                        {difference !== 0 && (
+                            <Alert severity="warning">
+                                {Math.abs(difference)} pcs {difference < 0 ? 'short of' : 'more than'} the {order.quantity} pcs the customer declared
+                            </Alert>
+                        )}
+
+                        <div>
+                            <PrimaryDropdown
+                                value={countedById}
+                                onChange={(e) => setCountedById(e.target.value)}
+                                placeholder={employeesLoading ? 'Loading employees...' : 'Counted by'}
+                                options={employeeOptions}
+                                error={!!errors.countedById}
+                            />
+                            {errors.countedById && <span className="text-xs text-red-500 mt-1 block">{errors.countedById}</span>}
+                        </div>
+
+                        <PrimaryDropdown
+                            value={receiptSize}
+                            onChange={(e) => setReceiptSize(e.target.value as ReceiptSize)}
+                            options={RECEIPT_SIZE_OPTIONS}
+                        />
+                    </Box>
+                )}
+            </DialogContent>
+
+            <DialogActions sx={{
+                p: 3,
+                borderTop: `1px solid ${colors.border.light}`,
+                backgroundColor: colors.background.card
+            }}>
+                <PrimaryButton
+                    onClick={onClose}
+                    disabled={saveGoodsReceiptMutation.isPending}
+                    style={{
+                        backgroundColor: colors.text.muted,
+                        color: colors.text.white,
+                        width: 'auto',
+                        minWidth: 100
+                    }}
+                >
+                    {goodsReceipt ? 'Close' : 'Later'}
+                </PrimaryButton>
+                <PrimaryButton
+                    onClick={handleSaveAndPrint}
+                    disabled={!order || !documentSettings || receiptLoading || saveGoodsReceiptMutation.isPending}
+                    style={{
+                        backgroundColor: colors.button.primary,
+                        color: colors.text.white,
+                        width: 'auto',
+                        minWidth: 160
+                    }}
+                >
+                    {saveGoodsReceiptMutation.isPending ? 'Saving...' : 'Save & Print GRN'}
+                </PrimaryButton>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default GoodsReceiptModal;
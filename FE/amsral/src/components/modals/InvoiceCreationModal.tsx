@@ -20,6 +20,8 @@ import {
   CircularProgress,
   Checkbox,
   FormControlLabel,
+  Chip,
+  Alert,
 } from '@mui/material';
 import {
   Close as CloseIcon,
@@ -27,13 +29,26 @@ import {
 } from '@mui/icons-material';
 import { orderService } from '../../services/orderService';
 import { BillingService } from '../../services/billingService';
+import { PriceListService, type PriceListEntry } from '../../services/priceListService';
+import { taxService, type TaxComponent, type TaxLine } from '../../services/taxService';
+import CustomerService, { type Customer } from '../../services/customerService';
 import PrimaryButton from '../common/PrimaryButton';
-import { generateAmsralInvoice } from '../../utils/invoiceUtils';
+import PriceHistoryButton from '../billing/PriceHistoryButton';
+import { generateAmsralInvoice, getOrderPoNumbers, withInvoiceTotals } from '../../utils/invoiceUtils';
+import { BASE_CURRENCY, getCurrencyLabel, getCurrencySymbol, isForeignCurrency, toBaseCurrency } from '../../utils/currencyUtils';
+import { getBillableRecords } from '../../utils/reworkUtils';
+import { resolveUnitPrice, isPriceOverridden, getPriceSourceLabel, toInvoiceCurrency, type ResolvedPrice } from '../../utils/priceListUtils';
+import { formatTaxLineLabel } from '../../utils/taxUtils';
+import { isQuantityCheckBlocked, type OrderReconciliation } from '../../utils/reconciliationUtils';
+import { fetchOrderReconciliations } from '../../hooks/useOrders';
+import { useDocumentSettings } from '../../hooks/useSystemData';
+import { config } from '../../config/environment';
 import toast from 'react-hot-toast';
 
 interface InvoiceRecord {
   id: number;
   orderId: number;
+  itemId?: string;
   itemName: string;
   quantity: number;
   unitPrice: number;
@@ -41,6 +56,7 @@ interface InvoiceRecord {
   washType: string;
   processTypes: string[];
   styleNo?: string; // Optional style number
+  colour?: string;
 }
 
 interface InvoiceData {
@@ -63,6 +79,11 @@ interface InvoiceData {
   subtotal: number;
   taxRate: number;
   taxAmount: number;
+  taxLines?: TaxLine[]; // One line per tax component, e.g. SSCL then VAT
+  isTaxInvoice?: boolean; // Customer is VAT registered
+  customerVatNumber?: string;
+  currency?: string; // Customer currency, LKR when not set
+  exchangeRate?: number; // LKR per unit of currency
   total: number;
 }
 
@@ -77,6 +98,7 @@ interface InvoiceOrder {
   status: string;
   gpNo?: string; // Gate Pass Number from backend
   balance?: number; // Customer balance amount
+  poNumber?: string | null; // Customer purchase order number
   records: InvoiceRecord[];
 }
 
@@ -97,10 +119,19 @@ const InvoiceCreationModal: React.FC<InvoiceCreationModalProps> = ({
   const [orderDetails, setOrderDetails] = useState<InvoiceOrder[]>([]);
   const [invoiceData, setInvoiceData] = useState<InvoiceData | null>(null);
   const [unitPrices, setUnitPrices] = useState<{ [key: string]: number }>({});
+  const [listPrices, setListPrices] = useState<{ [key: string]: ResolvedPrice | null }>({});
+  const [sourcePrices, setSourcePrices] = useState<{ [key: string]: ResolvedPrice | null }>({}); // As priced, before converting to the invoice currency
+  const [taxComponents, setTaxComponents] = useState<TaxComponent[]>([]);
   const [includeStyleNo, setIncludeStyleNo] = useState(false);
   const [styleNumbers, setStyleNumbers] = useState<{ [key: string]: string }>({});
   const [poNumber, setPoNumber] = useState('');
   const [invoiceNumber, setInvoiceNumber] = useState('');
+  const [exchangeRate, setExchangeRate] = useState(0);
+  const [blockedOrders, setBlockedOrders] = useState<OrderReconciliation[]>([]);
+  const [uncheckedOrderIds, setUncheckedOrderIds] = useState<number[]>([]); // Orders whose quantity check could not be loaded
+  const [taxSetupError, setTaxSetupError] = useState(false); // Tax components or the customer could not be loaded
+  const documentSettings = useDocumentSettings();
+  const defaultStyleNo = documentSettings?.template.columns.styleNo; // Undefined until the settings load
 
   const fetchOrderDetails = useCallback(async () => {
     try {
@@ -112,21 +143,13 @@ const InvoiceCreationModal: React.FC<InvoiceCreationModalProps> = ({
       const responses = await Promise.all(orderPromises);
       const validOrders = responses
         .filter(response => response.success)
-        .map(response => response.data);
+        .map(response => ({
+          ...response.data,
+          records: getBillableRecords(response.data.records, config.billReworkPieces),
+        }));
 
       setOrderDetails(validOrders as unknown as InvoiceOrder[]);
 
-      // Initialize unit prices
-      const initialPrices: { [key: string]: number } = {};
-      validOrders.forEach(order => {
-        order.records.forEach((record: unknown) => {
-          const recordData = record as { id: number };
-          const key = `${order.id}-${recordData.id}`;
-          initialPrices[key] = 0; // Default to 0, user must enter
-        });
-      });
-      setUnitPrices(initialPrices);
-
       // Create initial invoice data
       if (validOrders.length > 0) {
         const firstOrder = validOrders[0];
@@ -139,6 +162,90 @@ const InvoiceCreationModal: React.FC<InvoiceCreationModalProps> = ({
           return;
         }
 
+        // Orders whose pieces don't add up are not billed until corrected or a manager overrides,
+        // and neither are orders whose check could not be loaded
+        const reconciliations = await fetchOrderReconciliations(validOrders.map(order => order.id))
+          .catch(() => new Map<number, OrderReconciliation>());
+        setUncheckedOrderIds(validOrders.filter(order => !reconciliations.has(order.id)).map(order => order.id));
+        setBlockedOrders(Array.from(reconciliations.values()).filter(isQuantityCheckBlocked));
+
+        // Pre-fill unit prices from the customer's price list, falling back to the default list
+        let customerEntries: PriceListEntry[] = [];
+        let defaultEntries: PriceListEntry[] = [];
+        try {
+          const [customerPriceList, defaultPriceList] = await Promise.all([
+            firstOrder.customerId ? PriceListService.getCustomerPriceList(firstOrder.customerId) : null,
+            PriceListService.getDefaultPriceList()
+          ]);
+          customerEntries = customerPriceList?.success ? customerPriceList.data.entries : [];
+          defaultEntries = defaultPriceList.success ? defaultPriceList.data.entries : [];
+        } catch (error) {
+          console.warn('Failed to fetch price lists, prices must be entered by hand:', error);
+        }
+
+        // Tax components and the customer's VAT registration drive the tax breakdown,
+        // so nothing is billed without them rather than going out with the wrong tax
+        let components: TaxComponent[] = [];
+        let customer: Customer | null = null;
+        try {
+          const [taxComponentsResponse, customerResponse] = await Promise.all([
+            taxService.getTaxComponents({ limit: 100 }),
+            firstOrder.customerId ? CustomerService.getCustomer(firstOrder.customerId) : null
+          ]);
+          if (!taxComponentsResponse.success) {
+            throw new Error('Failed to fetch tax components');
+          }
+          components = taxComponentsResponse.data.taxComponents;
+          customer = customerResponse;
+          setTaxSetupError(false);
+        } catch (error) {
+          console.error('Failed to fetch tax details:', error);
+          setTaxSetupError(true);
+        }
+        setTaxComponents(components);
+
+        // Export customers are billed in their own currency at a rate captured now
+        const currency = customer?.currency || BASE_CURRENCY;
+        let rate = 0;
+        if (isForeignCurrency(currency)) {
+          try {
+            const latestRate = await BillingService.getLatestExchangeRate(currency);
+            rate = latestRate.success && latestRate.data ? latestRate.data.rate : 0;
+          } catch (error) {
+            console.warn('Failed to fetch the last exchange rate, it must be entered by hand:', error);
+          }
+        }
+        setExchangeRate(rate);
+
+        // Price lists are mostly in LKR, so foreign currency invoices get them converted at the rate
+        const initialPrices: { [key: string]: number } = {};
+        const initialListPrices: { [key: string]: ResolvedPrice | null } = {};
+        const initialSourcePrices: { [key: string]: ResolvedPrice | null } = {};
+        validOrders.forEach(order => {
+          order.records.forEach(record => {
+            const key = `${order.id}-${record.id}`;
+            initialSourcePrices[key] = resolveUnitPrice(record, customerEntries, defaultEntries);
+            initialListPrices[key] = toInvoiceCurrency(initialSourcePrices[key], currency, rate);
+            initialPrices[key] = initialListPrices[key]?.unitPrice || 0; // 0 when unpriced, user must enter
+          });
+        });
+        setUnitPrices(initialPrices);
+        setListPrices(initialListPrices);
+        setSourcePrices(initialSourcePrices);
+
+        // Style numbers and the customer PO captured on the orders are printed unless changed here
+        const initialStyleNumbers: { [key: string]: string } = {};
+        validOrders.forEach(order => {
+          order.records.forEach(record => {
+            if (record.styleNo) initialStyleNumbers[`${order.id}-${record.id}`] = record.styleNo;
+          });
+        });
+        const orderPoNumber = getOrderPoNumbers(validOrders);
+        const showStyleNo = Object.keys(initialStyleNumbers).length > 0 || !!defaultStyleNo;
+        setStyleNumbers(initialStyleNumbers);
+        setPoNumber(orderPoNumber);
+        setIncludeStyleNo(showStyleNo);
+
         // Check if customerId is available
         if (!firstOrder.customerId) {
           console.warn('Customer ID not available in order summary. Using fallback invoice number.');
@@ -162,12 +269,16 @@ const InvoiceCreationModal: React.FC<InvoiceCreationModalProps> = ({
         const invoiceData: InvoiceData = {
           invoiceNumber: nextInvoiceNo,
           customerName: firstOrder.customerName,
-          customerAddress: '', // Will be fetched from customer data
-          customerPhone: '', // Will be fetched from customer data
+          customerAddress: customer?.address || '',
+          customerPhone: customer?.phone || '',
+          isTaxInvoice: !!customer?.isVatRegistered,
+          customerVatNumber: customer?.vatNumber || '',
+          currency,
+          exchangeRate: rate || undefined,
           invoiceDate: new Date().toISOString().split('T')[0],
           dueDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0], // 30 days default
-          poNumber: poNumber,
-          includeStyleNo: includeStyleNo,
+          poNumber: orderPoNumber,
+          includeStyleNo: showStyleNo,
           customerBalance: firstOrder.balance, // Include customer balance
           orders: validOrders.map(order => ({
             id: order.id,
@@ -175,26 +286,29 @@ const InvoiceCreationModal: React.FC<InvoiceCreationModalProps> = ({
             orderDate: order.orderDate,
             gpNumber: (order as { gpNo?: string }).gpNo || '', // Use gpNo from fetched data
             records: order.records.map((record: unknown) => {
-              const recordData = record as { id: number; itemName: string; quantity: number; washType: string; processTypes: string[] };
+              const recordData = record as { id: number; itemId: string; itemName: string; quantity: number; washType: string; processTypes: string[]; styleNo?: string | null; colour?: string | null };
+              const unitPrice = initialPrices[`${order.id}-${recordData.id}`];
               return {
                 id: recordData.id,
                 orderId: order.id,
+                itemId: recordData.itemId,
                 itemName: recordData.itemName,
                 quantity: recordData.quantity,
-                unitPrice: 0,
-                totalPrice: 0,
+                unitPrice,
+                totalPrice: recordData.quantity * unitPrice,
                 washType: recordData.washType,
                 processTypes: recordData.processTypes,
-                styleNo: '', // Will be filled if includeStyleNo is true
+                styleNo: recordData.styleNo || '',
+                colour: recordData.colour || undefined,
               };
             }),
           })),
           subtotal: 0,
           taxRate: 0,
           taxAmount: 0,
-          total: firstOrder.balance || 0, // Include customer balance in initial total
+          total: 0,
         };
-        setInvoiceData(invoiceData);
+        setInvoiceData(withInvoiceTotals(invoiceData, components, firstOrder.balance || 0)); // Include customer balance in initial total
       }
     } catch (error) {
       console.error('Error fetching order details:', error);
@@ -202,14 +316,14 @@ const InvoiceCreationModal: React.FC<InvoiceCreationModalProps> = ({
     } finally {
       setLoading(false);
     }
-  }, [selectedOrderIds, poNumber, includeStyleNo]);
+  }, [selectedOrderIds, defaultStyleNo]);
 
-  // Fetch detailed order information
+  // Fetch detailed order information, once the template has given the Style No default
   useEffect(() => {
-    if (open && selectedOrderIds.length > 0) {
+    if (open && defaultStyleNo !== undefined && selectedOrderIds.length > 0) {
       fetchOrderDetails();
     }
-  }, [open, selectedOrderIds, fetchOrderDetails]);
+  }, [open, selectedOrderIds, defaultStyleNo, fetchOrderDetails]);
 
   // Update invoice data when invoice number changes
   useEffect(() => {
@@ -218,6 +332,36 @@ const InvoiceCreationModal: React.FC<InvoiceCreationModalProps> = ({
     }
   }, [invoiceNumber]);
 
+  const handleExchangeRateChange = (rate: number) => {
+    setExchangeRate(rate);
+    if (!invoiceData) return;
+
+    // Prices still at their list price follow the new rate; prices entered by hand are kept
+    const nextListPrices: { [key: string]: ResolvedPrice | null } = {};
+    const nextUnitPrices = { ...unitPrices };
+    Object.keys(sourcePrices).forEach(key => {
+      nextListPrices[key] = toInvoiceCurrency(sourcePrices[key], invoiceData.currency || BASE_CURRENCY, rate);
+      if ((unitPrices[key] || 0) === (listPrices[key]?.unitPrice || 0)) {
+        nextUnitPrices[key] = nextListPrices[key]?.unitPrice || 0;
+      }
+    });
+    setListPrices(nextListPrices);
+    setUnitPrices(nextUnitPrices);
+
+    const customerBalance = orderDetails.length > 0 ? (orderDetails[0].balance || 0) : 0;
+    setInvoiceData(withInvoiceTotals({
+      ...invoiceData,
+      exchangeRate: rate || undefined,
+      orders: invoiceData.orders.map(order => ({
+        ...order,
+        records: order.records.map(record => {
+          const unitPrice = nextUnitPrices[`${order.id}-${record.id}`] || 0;
+          return { ...record, unitPrice, totalPrice: record.quantity * unitPrice };
+        }),
+      })),
+    }, taxComponents, customerBalance));
+  };
+
   // Update unit price
   const handleUnitPriceChange = (orderId: number, recordId: number, price: number) => {
     const key = `${orderId}-${recordId}`;
@@ -241,18 +385,8 @@ const InvoiceCreationModal: React.FC<InvoiceCreationModalProps> = ({
       });
 
       // Recalculate totals
-      const subtotal = updatedInvoiceData.orders.reduce((sum, order) =>
-        sum + order.records.reduce((orderSum, record) => orderSum + record.totalPrice, 0), 0
-      );
-      const taxAmount = 0;
       const customerBalance = orderDetails.length > 0 ? (orderDetails[0].balance || 0) : 0;
-      const total = subtotal + customerBalance;
-
-      updatedInvoiceData.subtotal = subtotal;
-      updatedInvoiceData.taxAmount = taxAmount;
-      updatedInvoiceData.total = total;
-
-      setInvoiceData(updatedInvoiceData);
+      setInvoiceData(withInvoiceTotals(updatedInvoiceData, taxComponents, customerBalance));
     }
   };
 
@@ -270,6 +404,26 @@ const InvoiceCreationModal: React.FC<InvoiceCreationModalProps> = ({
       return;
     }
 
+    if (blockedOrders.length > 0) {
+      toast.error('Quantities don\'t add up on some orders - reconcile them before billing');
+      return;
+    }
+
+    if (uncheckedOrderIds.length > 0) {
+      toast.error('Quantities could not be checked on some orders - reopen the invoice to try again');
+      return;
+    }
+
+    if (taxSetupError) {
+      toast.error('Tax details could not be loaded - reopen the invoice to try again');
+      return;
+    }
+
+    if (isForeignCurrency(invoiceData.currency) && exchangeRate <= 0) {
+      toast.error(`Please enter the ${invoiceData.currency} exchange rate`);
+      return;
+    }
+
     try {
       setLoading(true);
 
@@ -282,6 +436,8 @@ const InvoiceCreationModal: React.FC<InvoiceCreationModalProps> = ({
             recordId: record.id,
             unitPrice: record.unitPrice,
             totalPrice: record.totalPrice,
+            listPrice: listPrices[`${order.id}-${record.id}`]?.unitPrice ?? null,
+            isPriceOverride: isPriceOverridden(record.unitPrice, listPrices[`${order.id}-${record.id}`]),
           })),
         })),
       };
@@ -299,14 +455,20 @@ const InvoiceCreationModal: React.FC<InvoiceCreationModalProps> = ({
             recordId: record.id,
             unitPrice: record.unitPrice,
             totalPrice: record.totalPrice,
+            styleNo: includeStyleNo ? styleNumbers[`${order.id}-${record.id}`] || '' : undefined,
           }))
         ),
         orderTotals: invoiceData.orders.map(order => ({
           orderId: order.id,
           totalPrice: order.records.reduce((sum, record) => sum + record.totalPrice, 0),
         })),
-        taxRate: 0,
+        taxRate: invoiceData.taxRate,
+        taxLines: invoiceData.taxLines,
         paymentTerms: 30,
+        poNumber: poNumber.trim() || undefined,
+        includeStyleNo,
+        currency: invoiceData.currency,
+        exchangeRate: isForeignCurrency(invoiceData.currency) ? exchangeRate : undefined,
       });
 
       if (response.success) {
@@ -342,7 +504,7 @@ const InvoiceCreationModal: React.FC<InvoiceCreationModalProps> = ({
 
   // Print invoice preview (does NOT mark billing status as Invoiced)
   const handlePrintInvoice = () => {
-    if (!invoiceData) return;
+    if (!invoiceData || !documentSettings) return;
 
     // Update invoice data with current form values
     const updatedInvoiceData = {
@@ -360,7 +522,7 @@ const InvoiceCreationModal: React.FC<InvoiceCreationModalProps> = ({
     };
 
     // Always use AMSRAL format - this is just a preview, no status update
-    generateAmsralInvoice(updatedInvoiceData);
+    generateAmsralInvoice(updatedInvoiceData, documentSettings);
   };
 
   // Create and print invoice (marks billing status as Invoiced)
@@ -390,9 +552,16 @@ const InvoiceCreationModal: React.FC<InvoiceCreationModalProps> = ({
     setOrderDetails([]);
     setInvoiceData(null);
     setUnitPrices({});
+    setListPrices({});
+    setSourcePrices({});
+    setBlockedOrders([]);
+    setUncheckedOrderIds([]);
+    setTaxSetupError(false);
     onClose();
   };
 
+  const currencySymbol = getCurrencySymbol(invoiceData?.currency);
+
   return (
     <Dialog
       open={open}
@@ -437,6 +606,35 @@ const InvoiceCreationModal: React.FC<InvoiceCreationModalProps> = ({
           </Box>
         ) : (
           <Box sx={{ '& > *': { mb: 3 } }}>
+            {blockedOrders.length > 0 && (
+              <Alert severity="error">
+                <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                  Quantities don't add up - these orders can't be billed until they are reconciled or a manager overrides the check on the order page
+                </Typography>
+                {blockedOrders.map(reconciliation => (
+                  <Typography key={reconciliation.orderId} variant="body2">
+                    • Order #{reconciliation.orderId}: {reconciliation.issues.map(issue => issue.message).join('; ')}
+                  </Typography>
+                ))}
+              </Alert>
+            )}
+
+            {uncheckedOrderIds.length > 0 && (
+              <Alert severity="error">
+                <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                  Quantities could not be checked on order {uncheckedOrderIds.map(orderId => `#${orderId}`).join(', ')} - close and reopen the invoice to try again
+                </Typography>
+              </Alert>
+            )}
+
+            {taxSetupError && (
+              <Alert severity="error">
+                <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                  The tax components or the customer's VAT details could not be loaded - close and reopen the invoice to try again
+                </Typography>
+              </Alert>
+            )}
+
             {/* Invoice Header */}
             {invoiceData && (
               <Box sx={{
@@ -451,6 +649,15 @@ const InvoiceCreationModal: React.FC<InvoiceCreationModalProps> = ({
                     <Typography variant="h6" sx={{ fontWeight: 600, color: 'primary.main' }}>
                       Invoice No : {invoiceData.invoiceNumber}
                     </Typography>
+                    {invoiceData.isTaxInvoice && (
+                      <Chip
+                        label={`Tax Invoice - Customer VAT No ${invoiceData.customerVatNumber || '-'}`}
+                        size="small"
+                        color="primary"
+                        variant="outlined"
+                        sx={{ mb: 0.5 }}
+                      />
+                    )}
                     <Typography variant="body2" color="text.secondary">
                       Date: {invoiceData.invoiceDate ? new Date(invoiceData.invoiceDate).toLocaleDateString() : 'N/A'}
                     </Typography>
@@ -469,7 +676,7 @@ const InvoiceCreationModal: React.FC<InvoiceCreationModalProps> = ({
                         fontWeight: 500,
                         mt: 0.5
                       }}>
-                        Customer Balance: ${orderDetails[0].balance || 0}
+                        Customer Balance: {getCurrencySymbol(BASE_CURRENCY)} {(orderDetails[0].balance || 0).toFixed(2)}
                       </Typography>
                     )}
                   </Box>
@@ -484,6 +691,19 @@ const InvoiceCreationModal: React.FC<InvoiceCreationModalProps> = ({
                     sx={{ width: 200 }}
                     variant="outlined"
                   />
+                  {isForeignCurrency(invoiceData.currency) && (
+                    <TextField
+                      label={`Exchange Rate (${BASE_CURRENCY} per 1 ${invoiceData.currency})`}
+                      type="number"
+                      value={exchangeRate || ''}
+                      onChange={(e) => handleExchangeRateChange(parseFloat(e.target.value) || 0)}
+                      error={exchangeRate <= 0}
+                      helperText={exchangeRate <= 0 ? 'Required' : 'Printed on the invoice'}
+                      size="small"
+                      sx={{ width: 260 }}
+                      inputProps={{ min: 0, step: 0.0001 }}
+                    />
+                  )}
                 </Box>
 
                 {/* Style Number Options */}
@@ -536,8 +756,8 @@ const InvoiceCreationModal: React.FC<InvoiceCreationModalProps> = ({
                         <TableCell sx={{ color: 'white', fontWeight: 600 }}>Wash Type</TableCell>
                         <TableCell sx={{ color: 'white', fontWeight: 600 }}>Process Types</TableCell>
                         <TableCell align="right" sx={{ color: 'white', fontWeight: 600 }}>Quantity</TableCell>
-                        <TableCell align="right" sx={{ color: 'white', fontWeight: 600 }}>Unit Price (Rs)</TableCell>
-                        <TableCell align="right" sx={{ color: 'white', fontWeight: 600 }}>Total (Rs)</TableCell>
+                        <TableCell align="right" sx={{ color: 'white', fontWeight: 600 }}>Unit Price ({getCurrencyLabel(invoiceData?.currency)})</TableCell>
+                        <TableCell align="right" sx={{ color: 'white', fontWeight: 600 }}>Total ({getCurrencyLabel(invoiceData?.currency)})</TableCell>
                         {includeStyleNo && <TableCell sx={{ color: 'white', fontWeight: 600 }}>Style No</TableCell>}
                       </TableRow>
                     </TableHead>
@@ -546,25 +766,46 @@ const InvoiceCreationModal: React.FC<InvoiceCreationModalProps> = ({
                         const key = `${order.id}-${record.id}`;
                         const unitPrice = unitPrices[key] || 0;
                         const total = record.quantity * unitPrice;
+                        const listPrice = listPrices[key];
+                        const overridden = isPriceOverridden(unitPrice, listPrice);
 
                         return (
                           <TableRow key={record.id}>
-                            <TableCell>{record.itemName}</TableCell>
+                            <TableCell>{record.colour ? `${record.itemName} (${record.colour})` : record.itemName}</TableCell>
                             <TableCell>{record.washType}</TableCell>
                             <TableCell>{record.processTypes ? record.processTypes.join(' / ') : 'None'}</TableCell>
                             <TableCell align="right">{record.quantity}</TableCell>
                             <TableCell align="right">
-                              <TextField
-                                type="number"
-                                value={unitPrice}
-                                onChange={(e) => handleUnitPriceChange(order.id, record.id, parseFloat(e.target.value) || 0)}
-                                size="small"
-                                sx={{ width: 100 }}
-                                inputProps={{ min: 0, step: 0.01 }}
-                              />
+                              <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'flex-end', gap: 0.5 }}>
+                                <PriceHistoryButton
+                                  customerId={order.customerId}
+                                  itemName={record.itemName}
+                                  washType={record.washType}
+                                  onUsePrice={(price) => handleUnitPriceChange(order.id, record.id, price)}
+                                />
+                                <TextField
+                                  type="number"
+                                  value={unitPrice}
+                                  onChange={(e) => handleUnitPriceChange(order.id, record.id, parseFloat(e.target.value) || 0)}
+                                  size="small"
+                                  sx={{ width: 100 }}
+                                  inputProps={{ min: 0, step: 0.01 }}
+                                />
+                              </Box>
+                              {overridden ? (
+                                <Chip
+                                  label={`Override (list ${currencySymbol} ${listPrice!.unitPrice.toFixed(2)})`}
+                                  size="small"
+                                  sx={{ display: 'flex', mt: 0.5, ml: 'auto', width: 'fit-content', fontSize: '0.7rem', bgcolor: '#fef3c7', color: '#92400e' }}
+                                />
+                              ) : (
+                                <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 0.5 }}>
+                                  {listPrice ? getPriceSourceLabel(listPrice.source) : 'No list price'}
+                                </Typography>
+                              )}
                             </TableCell>
                             <TableCell align="right">
-                              Rs. {total.toFixed(2)}
+                              {currencySymbol} {total.toFixed(2)}
                             </TableCell>
                             {includeStyleNo && (
                               <TableCell>
@@ -604,15 +845,26 @@ const InvoiceCreationModal: React.FC<InvoiceCreationModalProps> = ({
                 </Typography>
                 <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
                   <Typography sx={{ fontWeight: 500 }}>Subtotal:</Typography>
-                  <Typography sx={{ fontWeight: 500 }}>Rs. {invoiceData.subtotal.toFixed(2)}</Typography>
+                  <Typography sx={{ fontWeight: 500 }}>{currencySymbol} {invoiceData.subtotal.toFixed(2)}</Typography>
                 </Box>
+                {/* Tax breakdown, one line per tax component */}
+                {(invoiceData.taxLines || []).map(line => (
+                  <Box key={line.code} sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
+                    <Typography color="text.secondary">
+                      {formatTaxLineLabel(line)} on {currencySymbol} {line.taxableAmount.toFixed(2)}:
+                    </Typography>
+                    <Typography color="text.secondary">{currencySymbol} {line.amount.toFixed(2)}</Typography>
+                  </Box>
+                ))}
                 <Divider sx={{ my: 2 }} />
-                {/* Customer Balance Addition */}
+                {/* Customer Balance Addition - the balance is in LKR, so foreign currency invoices list it outside the total */}
                 {orderDetails.length > 0 && orderDetails[0].balance !== undefined && orderDetails[0].balance > 0 && (
                   <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
-                    <Typography sx={{ fontWeight: 500 }}>Customer Balance:</Typography>
                     <Typography sx={{ fontWeight: 500 }}>
-                      Rs. {(orderDetails[0].balance || 0).toFixed(2)}
+                      {isForeignCurrency(invoiceData.currency) ? 'Customer Balance (not in total):' : 'Customer Balance:'}
+                    </Typography>
+                    <Typography sx={{ fontWeight: 500 }}>
+                      {getCurrencySymbol(BASE_CURRENCY)} {(orderDetails[0].balance || 0).toFixed(2)}
                     </Typography>
                   </Box>
                 )}
@@ -621,9 +873,14 @@ const InvoiceCreationModal: React.FC<InvoiceCreationModalProps> = ({
                     Total:
                   </Typography>
                   <Typography variant="h6" sx={{ fontWeight: 700 }}>
-                    Rs. {(invoiceData.subtotal + (orderDetails.length > 0 && orderDetails[0].balance ? orderDetails[0].balance : 0)).toFixed(2)}
+                    {currencySymbol} {invoiceData.total.toFixed(2)}
                   </Typography>
                 </Box>
+                {isForeignCurrency(invoiceData.currency) && exchangeRate > 0 && (
+                  <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'right', mt: 1 }}>
+                    {getCurrencySymbol(BASE_CURRENCY)} {toBaseCurrency(invoiceData.subtotal + invoiceData.taxAmount, exchangeRate).toFixed(2)} at {exchangeRate} {BASE_CURRENCY} per {invoiceData.currency}
+                  </Typography>
+                )}
               </Box>
             )}
           </Box>
@@ -643,7 +900,7 @@ const InvoiceCreationModal: React.FC<InvoiceCreationModalProps> = ({
           variant="outlined"
           startIcon={<PrintIcon />}
           onClick={handlePrintInvoice}
-          disabled={loading || !invoiceData}
+          disabled={loading || !invoiceData || !documentSettings}
           sx={{ minWidth: 140 }}
         >
           Print Preview
@@ -652,7 +909,7 @@ const InvoiceCreationModal: React.FC<InvoiceCreationModalProps> = ({
           startIcon={<PrintIcon />}
           onClick={handleCreateAndPrintInvoice}
           loading={loading}
-          disabled={!invoiceData || invoiceData.total === 0}
+          disabled={!invoiceData || !documentSettings || invoiceData.total === 0 || blockedOrders.length > 0 || uncheckedOrderIds.length > 0 || taxSetupError}
         >
           Create & Print Invoice
         </PrimaryButton>
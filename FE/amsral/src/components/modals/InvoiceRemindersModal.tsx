@@ -0,0 +1,150 @@
+import React from 'react';
+import {
+    Dialog,
+    DialogTitle,
+    DialogContent,
+    DialogActions,
+    Box,
+    Typography,
+    Table,
+    TableBody,
+    TableCell,
+    TableContainer,
+    TableHead,
+    TableRow,
+    CircularProgress
+} from '@mui/material';
+import PrimaryButton from '../common/PrimaryButton';
+import colors from '../../styles/colors';
+import { type Invoice } from '../../services/billingService';
+import { useInvoiceReminders, useSendInvoiceReminder } from '../../hooks/useBilling';
+import { getDaysOverdue, getDunningStage, getEffectiveInvoiceStatus } from '../../utils/invoiceStatusUtils';
+
+interface InvoiceRemindersModalProps {
+    open: boolean;
+    onClose: () => void;
+    invoice: Invoice | null;
+}
+
+const InvoiceRemindersModal: React.FC<InvoiceRemindersModalProps> = ({
+    open,
+    onClose,
+    invoice
+}) => {
+    const { data: reminders = [], isLoading } = useInvoiceReminders(open && invoice ? invoice.id : null);
+    const sendReminderMutation = useSendInvoiceReminder();
+
+    if (!invoice) return null;
+
+    const isOverdue = getEffectiveInvoiceStatus(invoice) === 'overdue';
+    const daysOverdue = invoice.dueDate ? getDaysOverdue(invoice.dueDate) : 0;
+
+    const handleSendReminder = async () => {
+        try {
+            await sendReminderMutation.mutateAsync(invoice.id);
+        } catch (error) {
+            console.error('Error sending reminder:', error);
+        }
+    };
+
+    return (
+        <Dialog
+            open={open}
+            onClose={onClose}
+            maxWidth="md"
+            fullWidth
+            PaperProps={{
+                sx: {
+                    borderRadius: '12px',
+                    boxShadow: '0 10px 25px rgba(0, 0, 0, 0.1)'
+                }
+            }}
+        >
+            <DialogTitle sx={{
+                pb: 1,
+                borderBottom: `1px solid ${colors.border.light}`,
+                backgroundColor: colors.background.card
+            }}>
+                <Typography variant="h6" fontWeight={600} color={colors.text.primary}>
+                    Payment Reminders
+                </Typography>
+                <Typography variant="body2" color={colors.text.secondary} sx={{ mt: 0.5 }}>
+                    Invoice #{invoice.invoiceNumber} - {invoice.customerName} - due {invoice.dueDate ? new Date(invoice.dueDate).toLocaleDateString() : 'N/A'}
+                    {daysOverdue > 0 ? ` (${daysOverdue} days overdue)` : ''}
+                </Typography>
+            </DialogTitle>
+
+            <DialogContent sx={{ py: 3 }}>
+                {isLoading ? (
+                    <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+                        <CircularProgress size={24} />
+                    </Box>
+                ) : (
+                    <TableContainer sx={{ mt: 2, border: `1px solid ${colors.border.light}`, borderRadius: '8px' }}>
+                        <Table size="small">
+                            <TableHead>
+                                <TableRow>
+                                    <TableCell>#</TableCell>
+                                    <TableCell>Stage</TableCell>
+                                    <TableCell>Sent</TableCell>
+                                    <TableCell>Channel</TableCell>
+                                    <TableCell>Sent By</TableCell>
+                                </TableRow>
+                            </TableHead>
+                            <TableBody>
+                                {reminders.map((reminder, index) => (
+                                    <TableRow key={reminder.id}>
+                                        <TableCell>{index + 1}</TableCell>
+                                        <TableCell>{getDunningStage(index)}</TableCell>
+                                        <TableCell>{new Date(reminder.sentAt).toLocaleString()}</TableCell>
+                                        <TableCell>{reminder.channel || '-'}</TableCell>
+                                        <TableCell>{reminder.sentBy || '-'}</TableCell>
+                                    </TableRow>
+                                ))}
+                                {reminders.length === 0 && (
+                                    <TableRow>
+                                        <TableCell colSpan={5} align="center">No reminders sent yet</TableCell>
+                                    </TableRow>
+                                )}
+                            </TableBody>
+                        </Table>
+                    </TableContainer>
+                )}
+            </DialogContent>
+
+            <DialogActions sx={{
+                p: 3,
+                borderTop: `1px solid ${colors.border.light}`,
+                backgroundColor: colors.background.card
+            }}>
+                <PrimaryButton
+                    onClick={onClose}
+                    style={{
+                        backgroundColor: colors.text.muted,
+                        color: colors.text.white,
+                        width: 'auto',
+                        minWidth: 100
+                    }}
+                >
+                    Close
+                </PrimaryButton>
+                {isOverdue && (
+                    <PrimaryButton
+                        onClick={handleSendReminder}
+                        disabled={sendReminderMutation.isPending}
+                        style={{
+                            backgroundColor: colors.button.primary,
+                            color: colors.text.white,
+                            width: 'auto',
+                            minWidth: 180
+                        }}
+                    >
+                        {sendReminderMutation.isPending ? 'Sending...' : `Send ${getDunningStage(reminders.length)}`}
+                    </PrimaryButton>
+                )}
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default InvoiceRemindersModal;
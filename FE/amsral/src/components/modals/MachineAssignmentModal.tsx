@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
     Modal,
     Box,
@@ -16,33 +16,65 @@ interface MachineAssignmentModalProps {
         quantity: number;
         washingMachine?: string;
         dryingMachine?: string;
+        weightKg: number | null;
     }) => Promise<void>;
     record?: {
         remainingQuantity: number;
     };
+    // Assignment being edited; a new one is created when not set
+    assignment?: {
+        assignedById: string;
+        quantity: number;
+        washingMachine: string;
+        dryingMachine: string;
+        weightKg?: number | null;
+    } | null;
     employeeOptions: { value: string; label: string }[];
     washingMachineOptions: { value: string; label: string }[];
     dryingMachineOptions: { value: string; label: string }[];
 }
 
+const emptyForm = {
+    assignedBy: '',
+    quantity: '',
+    washingMachine: '',
+    dryingMachine: '',
+    weightKg: ''
+};
+
 const MachineAssignmentModal: React.FC<MachineAssignmentModalProps> = ({
     open,
     onClose,
     onSubmit,
     record,
+    assignment,
     employeeOptions,
     washingMachineOptions,
     dryingMachineOptions,
 }) => {
-    const [form, setForm] = useState({
-        assignedBy: '',
-        quantity: '',
-        washingMachine: '',
-        dryingMachine: ''
-    });
+    const [form, setForm] = useState(emptyForm);
     const [errors, setErrors] = useState<{ [key: string]: string }>({});
     const [saving, setSaving] = useState(false);
 
+    // The assignment's own pieces can be kept when it is edited
+    const maxQuantity = (record?.remainingQuantity || 0) + (assignment?.quantity || 0);
+
+    // Start from the assignment being edited, or a blank form
+    useEffect(() => {
+        if (!open) return;
+
+        setForm(assignment
+            ? {
+                assignedBy: assignment.assignedById || '',
+                quantity: assignment.quantity.toString(),
+                washingMachine: assignment.washingMachine || '',
+                dryingMachine: assignment.dryingMachine || '',
+                weightKg: assignment.weightKg ? assignment.weightKg.toString() : ''
+            }
+            : emptyForm);
+        setErrors({});
+    }, [open, assignment]);
+
     const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
         const { name, value } = e.target;
         setForm(prev => ({
@@ -68,8 +100,13 @@ const MachineAssignmentModal: React.FC<MachineAssignmentModalProps> = ({
 
         if (!form.quantity || Number(form.quantity) <= 0) {
             newErrors.quantity = 'Please enter a valid quantity';
-        } else if (record && Number(form.quantity) > record.remainingQuantity) {
-            newErrors.quantity = `Quantity cannot exceed remaining quantity (${record.remainingQuantity})`;
+        } else if (record && Number(form.quantity) > maxQuantity) {
+            newErrors.quantity = `Quantity cannot exceed remaining quantity (${maxQuantity})`;
+        }
+
+        // Kg-rated machines can only be checked against a weighed load, so the weight is optional
+        if (form.weightKg && !(Number(form.weightKg) > 0)) {
+            newErrors.weightKg = 'Please enter a valid weight';
         }
 
         setErrors(newErrors);
@@ -89,20 +126,16 @@ const MachineAssignmentModal: React.FC<MachineAssignmentModalProps> = ({
                 assignedBy: form.assignedBy,
                 quantity: Number(form.quantity),
                 washingMachine: form.washingMachine || undefined,
-                dryingMachine: form.dryingMachine || undefined
+                dryingMachine: form.dryingMachine || undefined,
+                weightKg: form.weightKg ? Number(form.weightKg) : null
             });
 
             // Reset form on success
-            setForm({
-                assignedBy: '',
-                quantity: '',
-                washingMachine: '',
-                dryingMachine: ''
-            });
+            setForm(emptyForm);
             setErrors({});
             onClose();
         } catch (error) {
-            console.error('Error creating assignment:', error);
+            console.error('Error saving assignment:', error);
         } finally {
             setSaving(false);
         }
@@ -110,12 +143,7 @@ const MachineAssignmentModal: React.FC<MachineAssignmentModalProps> = ({
 
     const handleClose = () => {
         if (!saving) {
-            setForm({
-                assignedBy: '',
-                quantity: '',
-                washingMachine: '',
-                dryingMachine: ''
-            });
+            setForm(emptyForm);
             setErrors({});
             onClose();
         }
@@ -203,12 +231,12 @@ const MachineAssignmentModal: React.FC<MachineAssignmentModalProps> = ({
                 }}
             >
                 <Typography variant="h6" fontWeight={700} mb={3} color={colors.text.primary}>
-                    Add Machine Assignment
+                    {assignment ? 'Edit Machine Assignment' : 'Add Machine Assignment'}
                 </Typography>
 
                 <form onSubmit={handleSubmit}>
                     <div style={{ display: 'flex', flexDirection: 'column', gap: '24px' }}>
-                        {/* Assign To and Quantity Row */}
+                        {/* Assign To, Quantity and Weight Row */}
                         <div style={{
                             display: 'grid',
                             gridTemplateColumns: 'repeat(auto-fit, minmax(300px, 1fr))',
@@ -238,7 +266,7 @@ const MachineAssignmentModal: React.FC<MachineAssignmentModalProps> = ({
                                     name="quantity"
                                     type="number"
                                     min="1"
-                                    max={record?.remainingQuantity || 1}
+                                    max={maxQuantity || 1}
                                     value={form.quantity}
                                     onChange={handleChange}
                                     placeholder="Quantity"
@@ -252,6 +280,25 @@ const MachineAssignmentModal: React.FC<MachineAssignmentModalProps> = ({
                                     {errors.quantity || ''}
                                 </div>
                             </div>
+
+                            <div style={fieldContainerStyle}>
+                                <input
+                                    name="weightKg"
+                                    type="number"
+                                    min="0"
+                                    step="0.1"
+                                    value={form.weightKg}
+                                    onChange={handleChange}
+                                    placeholder="Load Weight in kg (Optional)"
+                                    style={{
+                                        ...inputStyle,
+                                        borderColor: errors.weightKg ? '#ef4444' : colors.border.light
+                                    }}
+                                />
+                                <div style={errorStyle}>
+                                    {errors.weightKg || ''}
+                                </div>
+                            </div>
                         </div>
 
                         {/* Washing Machine and Drying Machine Row */}
@@ -329,7 +376,9 @@ const MachineAssignmentModal: React.FC<MachineAssignmentModalProps> = ({
                                 }}
                                 disabled={saving}
                             >
-                                {saving ? 'Creating...' : 'Create Assignment'}
+                                {assignment
+                                    ? (saving ? 'Saving...' : 'Save Changes')
+                                    : (saving ? 'Creating...' : 'Create Assignment')}
                             </PrimaryButton>
                         </div>
                     </div>
@@ -0,0 +1,285 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+    Dialog,
+    DialogTitle,
+    DialogContent,
+    DialogActions,
+    Box,
+    Typography,
+    Divider,
+    TextField,
+    Table,
+    TableBody,
+    TableCell,
+    TableContainer,
+    TableHead,
+    TableRow,
+    CircularProgress
+} from '@mui/material';
+import toast from 'react-hot-toast';
+import PrimaryButton from '../common/PrimaryButton';
+import {
+    machineTypeService,
+    type MachineType,
+    type MaintenanceLogEntry
+} from '../../services/machineTypeService';
+import { formatMachineCapacity } from '../../utils/machineUtils';
+import colors from '../../styles/colors';
+
+interface MaintenanceLogModalProps {
+    open: boolean;
+    onClose: () => void;
+    machine: MachineType | null;
+    runningHours?: number;
+}
+
+const emptyForm = () => ({
+    date: new Date().toISOString().split('T')[0],
+    description: '',
+    performedBy: '',
+    cost: '',
+});
+
+const MaintenanceLogModal: React.FC<MaintenanceLogModalProps> = ({
+    open,
+    onClose,
+    machine,
+    runningHours
+}) => {
+    const [entries, setEntries] = useState<MaintenanceLogEntry[]>([]);
+    const [logLoading, setLogLoading] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [form, setForm] = useState(emptyForm());
+    const [errors, setErrors] = useState<{ [key: string]: string }>({});
+
+    const loadLog = useCallback(async () => {
+        if (!machine) return;
+
+        setLogLoading(true);
+        try {
+            const response = await machineTypeService.getMaintenanceLog(machine.id);
+            setEntries(response.success ? response.data : []);
+        } catch (error) {
+            console.error('Error loading maintenance log:', error);
+            setErrors({ general: 'Failed to load maintenance log' });
+        } finally {
+            setLogLoading(false);
+        }
+    }, [machine]);
+
+    // Initialize form when modal opens
+    useEffect(() => {
+        if (!open || !machine) return;
+
+        setEntries([]);
+        setForm(emptyForm());
+        setErrors({});
+        loadLog();
+    }, [open, machine, loadLog]);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+        const { name, value } = e.target;
+        setForm(prev => ({ ...prev, [name]: value }));
+    };
+
+    const handleSubmit = async () => {
+        if (!machine) return;
+
+        const newErrors: { [key: string]: string } = {};
+        if (!form.date) newErrors.date = 'Date is required';
+        if (!form.description.trim()) newErrors.description = 'Describe the work done';
+        if (!form.performedBy.trim()) newErrors.performedBy = 'Enter who did the work';
+        if (form.cost && Number(form.cost) < 0) newErrors.cost = 'Cost cannot be negative';
+
+        if (Object.keys(newErrors).length > 0) {
+            setErrors(newErrors);
+            return;
+        }
+
+        setSaving(true);
+        try {
+            await machineTypeService.addMaintenanceLog(machine.id, {
+                date: form.date,
+                description: form.description.trim(),
+                performedBy: form.performedBy.trim(),
+                cost: form.cost ? Number(form.cost) : null,
+            });
+            toast.success('Maintenance entry added successfully');
+            setForm(emptyForm());
+            setErrors({});
+            loadLog();
+        } catch (error) {
+            const message = (error as { response?: { data?: { message?: string } } })?.response?.data?.message;
+            toast.error(message || 'Failed to add maintenance entry');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    if (!machine) return null;
+
+    return (
+        <Dialog
+            open={open}
+            onClose={onClose}
+            maxWidth="md"
+            fullWidth
+            PaperProps={{
+                sx: {
+                    borderRadius: '12px',
+                    boxShadow: '0 10px 25px rgba(0, 0, 0, 0.1)'
+                }
+            }}
+        >
+            <DialogTitle sx={{
+                pb: 1,
+                borderBottom: `1px solid ${colors.border.light}`,
+                backgroundColor: colors.background.card
+            }}>
+                <Typography variant="h6" fontWeight={600} color={colors.text.primary}>
+                    Maintenance Log
+                </Typography>
+                <Typography variant="body2" color={colors.text.secondary} sx={{ mt: 0.5 }}>
+                    {machine.name} - {machine.type} - {machine.status || 'Active'}
+                </Typography>
+            </DialogTitle>
+
+            <DialogContent sx={{ py: 3 }}>
+                <Box sx={{
+                    mt: 2,
+                    mb: 3,
+                    p: 2,
+                    display: 'grid',
+                    gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' },
+                    gap: 1,
+                    backgroundColor: colors.background.card,
+                    borderRadius: '8px',
+                    border: `1px solid ${colors.border.light}`
+                }}>
+                    <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                        <Typography variant="body2" color={colors.text.secondary}>Capacity:</Typography>
+                        <Typography variant="body2" fontWeight={500}>{formatMachineCapacity(machine)}</Typography>
+                    </Box>
+                    <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                        <Typography variant="body2" color={colors.text.secondary}>Running Hours:</Typography>
+                        <Typography variant="body2" fontWeight={500}>{runningHours ?? '-'}</Typography>
+                    </Box>
+                </Box>
+
+                <Typography variant="subtitle2" color={colors.text.primary} sx={{ mb: 1, fontWeight: 600 }}>
+                    Add Entry
+                </Typography>
+                <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr 1fr' }, gap: 2, mb: 2 }}>
+                    <TextField
+                        label="Date"
+                        type="date"
+                        name="date"
+                        value={form.date}
+                        onChange={handleChange}
+                        error={!!errors.date}
+                        helperText={errors.date}
+                        InputLabelProps={{ shrink: true }}
+                        size="small"
+                        fullWidth
+                    />
+                    <TextField
+                        label="Performed By"
+                        name="performedBy"
+                        value={form.performedBy}
+                        onChange={handleChange}
+                        error={!!errors.performedBy}
+                        helperText={errors.performedBy}
+                        size="small"
+                        fullWidth
+                    />
+                    <TextField
+                        label="Cost (Optional)"
+                        type="number"
+                        name="cost"
+                        value={form.cost}
+                        onChange={handleChange}
+                        error={!!errors.cost}
+                        helperText={errors.cost}
+                        inputProps={{ min: 0 }}
+                        size="small"
+                        fullWidth
+                    />
+                </Box>
+                <TextField
+                    label="Work Done"
+                    name="description"
+                    value={form.description}
+                    onChange={handleChange}
+                    error={!!errors.description}
+                    helperText={errors.description}
+                    placeholder="e.g. Replaced drum bearing, cleaned lint filter"
+                    multiline
+                    rows={2}
+                    size="small"
+                    fullWidth
+                />
+                <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 2 }}>
+                    <PrimaryButton onClick={handleSubmit} disabled={saving} style={{ width: 'auto', minWidth: 140 }}>
+                        {saving ? 'Saving...' : 'Add Entry'}
+                    </PrimaryButton>
+                </Box>
+
+                <Divider sx={{ my: 2 }} />
+
+                <Typography variant="subtitle2" color={colors.text.primary} sx={{ mb: 1, fontWeight: 600 }}>
+                    History
+                </Typography>
+                {logLoading ? (
+                    <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+                        <CircularProgress size={24} />
+                    </Box>
+                ) : (
+                    <TableContainer sx={{ border: `1px solid ${colors.border.light}`, borderRadius: '8px' }}>
+                        <Table size="small">
+                            <TableHead>
+                                <TableRow>
+                                    <TableCell>Date</TableCell>
+                                    <TableCell>Work Done</TableCell>
+                                    <TableCell>Performed By</TableCell>
+                                    <TableCell align="right">Cost</TableCell>
+                                </TableRow>
+                            </TableHead>
+                            <TableBody>
+                                {entries.map(entry => (
+                                    <TableRow key={entry.id}>
+                                        <TableCell>{new Date(entry.date).toLocaleDateString()}</TableCell>
+                                        <TableCell>{entry.description}</TableCell>
+                                        <TableCell>{entry.performedBy}</TableCell>
+                                        <TableCell align="right">{entry.cost != null ? entry.cost.toFixed(2) : '-'}</TableCell>
+                                    </TableRow>
+                                ))}
+                                {entries.length === 0 && (
+                                    <TableRow>
+                                        <TableCell colSpan={4} align="center">No maintenance recorded yet</TableCell>
+                                    </TableRow>
+                                )}
+                            </TableBody>
+                        </Table>
+                    </TableContainer>
+                )}
+
+                {errors.general && (
+                    <Typography variant="body2" color="error" sx={{ mt: 1 }}>
+                        {errors.general}
+                    </Typography>
+                )}
+            </DialogContent>
+
+            <DialogActions sx={{ p: 3, pt: 2, borderTop: `1px solid ${colors.border.light}` }}>
+                <PrimaryButton
+                    onClick={onClose}
+                    style={{ width: 'auto', minWidth: 100, background: colors.primary[100], color: colors.text.primary }}
+                >
+                    Close
+                </PrimaryButton>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default MaintenanceLogModal;
@@ -0,0 +1,431 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+    Dialog,
+    DialogTitle,
+    DialogContent,
+    DialogActions,
+    Box,
+    Typography,
+    TextField,
+    Stepper,
+    Step,
+    StepLabel,
+    Table,
+    TableBody,
+    TableCell,
+    TableContainer,
+    TableHead,
+    TableRow,
+    Chip,
+    CircularProgress
+} from '@mui/material';
+import toast from 'react-hot-toast';
+import PrimaryButton from '../common/PrimaryButton';
+import PrimaryDropdown from '../common/PrimaryDropdown';
+import colors from '../../styles/colors';
+import { useCustomers, useItems, useImportOrders } from '../../hooks/useOrders';
+import { useWashingTypes, useProcessTypes } from '../../hooks/useOrderRecords';
+import {
+    IMPORT_FIELDS,
+    MAX_IMPORT_ROWS,
+    buildImportPreview,
+    formatDelimitedText,
+    guessColumnMapping,
+    parseDelimitedText,
+    type ColumnMapping,
+    type ImportField,
+    type ImportLookups
+} from '../../utils/orderImportUtils';
+import { readXlsxRows } from '../../utils/xlsxUtils';
+
+interface OrderImportModalProps {
+    open: boolean;
+    onClose: () => void;
+}
+
+const STEPS = ['Load Sheet', 'Map Columns', 'Review & Import'];
+
+const getToday = () => new Date().toISOString().split('T')[0];
+const getDefaultDeliveryDate = () => new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]; // 2 weeks from now
+
+const OrderImportModal: React.FC<OrderImportModalProps> = ({
+    open,
+    onClose
+}) => {
+    const importOrdersMutation = useImportOrders();
+    const [activeStep, setActiveStep] = useState(0);
+    const [sheetText, setSheetText] = useState('');
+    const [fileName, setFileName] = useState('');
+    const [mapping, setMapping] = useState<ColumnMapping>({});
+    const [defaultDate, setDefaultDate] = useState(getToday());
+    const [defaultDeliveryDate, setDefaultDeliveryDate] = useState(getDefaultDeliveryDate());
+
+    const { data: customerOptions = [], isLoading: customersLoading } = useCustomers();
+    const { data: itemOptions = [], isLoading: itemsLoading } = useItems();
+    const { data: washTypeOptions = [], isLoading: washingTypesLoading } = useWashingTypes();
+    const { data: processTypeOptions = [], isLoading: processTypesLoading } = useProcessTypes();
+    const optionsLoading = customersLoading || itemsLoading || washingTypesLoading || processTypesLoading;
+
+    // Start a fresh import each time the modal opens
+    useEffect(() => {
+        if (!open) return;
+
+        setActiveStep(0);
+        setSheetText('');
+        setFileName('');
+        setMapping({});
+        setDefaultDate(getToday());
+        setDefaultDeliveryDate(getDefaultDeliveryDate());
+    }, [open]);
+
+    const sheetRows = useMemo(() => parseDelimitedText(sheetText), [sheetText]);
+    const headers = sheetRows[0] || [];
+    const dataRows = useMemo(() => sheetRows.slice(1), [sheetRows]);
+
+    // Customers are listed as "Name - CODE", so either part matches
+    const lookups: ImportLookups = useMemo(() => ({
+        customers: customerOptions.map(option => ({ value: option.value, names: [option.label, ...option.label.split(' - ')] })),
+        items: itemOptions.map(option => ({ value: option.value, names: [option.label] })),
+        washTypes: washTypeOptions.map(option => ({ value: option.value, names: [option.name, option.code, option.label] })),
+        processTypes: processTypeOptions.map(option => ({ value: option.value, names: [option.label] })),
+    }), [customerOptions, itemOptions, washTypeOptions, processTypeOptions]);
+
+    const preview = useMemo(() => {
+        if (activeStep !== 2) return null;
+        return buildImportPreview(dataRows, mapping, lookups, { date: defaultDate, deliveryDate: defaultDeliveryDate });
+    }, [activeStep, dataRows, mapping, lookups, defaultDate, defaultDeliveryDate]);
+
+    const missingRequired = IMPORT_FIELDS.filter(definition => definition.required && mapping[definition.field] === undefined);
+    const errorRowCount = preview ? preview.rows.filter(row => row.errors.length > 0).length : 0;
+    const importRecordCount = preview ? preview.orders.reduce((total, order) => total + order.records.length, 0) : 0;
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        // Workbooks are read from their first worksheet and shown as tab-separated text
+        if (/\.xlsx$/i.test(file.name)) {
+            try {
+                setSheetText(formatDelimitedText(await readXlsxRows(file)));
+                setFileName(file.name);
+            } catch (error) {
+                console.error('Error reading workbook:', error);
+                toast.error('Could not read the workbook. In Excel use File > Save As > CSV and choose that file instead.');
+            }
+            return;
+        }
+
+        if (!/\.(csv|tsv|txt)$/i.test(file.name)) {
+            toast.error('Please choose an Excel workbook (.xlsx) or a CSV file. For older .xls files use File > Save As in Excel.');
+            return;
+        }
+
+        const reader = new FileReader();
+        reader.onload = () => {
+            setSheetText(reader.result as string);
+            setFileName(file.name);
+        };
+        reader.readAsText(file);
+    };
+
+    const handleLoadSheet = () => {
+        if (dataRows.length > MAX_IMPORT_ROWS) {
+            toast.error(`Sheets can have at most ${MAX_IMPORT_ROWS} rows. Please split it and import each part.`);
+            return;
+        }
+        setMapping(guessColumnMapping(headers));
+        setActiveStep(1);
+    };
+
+    const handleMappingChange = (field: ImportField, value: string) => {
+        setMapping(prev => {
+            const next = { ...prev };
+            if (value === '') {
+                delete next[field];
+            } else {
+                next[field] = Number(value);
+            }
+            return next;
+        });
+    };
+
+    const handleImport = () => {
+        if (!preview || preview.orders.length === 0) return;
+
+        importOrdersMutation.mutate(preview.orders, {
+            onSuccess: () => onClose()
+        });
+    };
+
+    const columnOptions = [
+        { value: '', label: 'Not in sheet' },
+        ...headers.map((header, index) => ({ value: index.toString(), label: header || `Column ${index + 1}` }))
+    ];
+
+    const renderStep = () => {
+        if (activeStep === 0) {
+            return (
+                <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+                    <Typography variant="body2" color={colors.text.secondary}>
+                        Choose the buyer's dispatch sheet as an Excel workbook (.xlsx, first worksheet) or CSV, or copy the cells in Excel (including the header row) and paste them below.
+                    </Typography>
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+                        <input type="file" accept=".xlsx,.csv,.tsv,.txt" onChange={handleFileChange} className="text-sm" />
+                        {fileName && (
+                            <Typography variant="body2" color={colors.text.secondary}>{fileName}</Typography>
+                        )}
+                    </Box>
+                    <TextField
+                        label="Sheet contents"
+                        value={sheetText}
+                        onChange={(e) => {
+                            setSheetText(e.target.value);
+                            setFileName('');
+                        }}
+                        placeholder={'Customer\tItem\tStyle\tColour\tQty\tWash'}
+                        multiline
+                        minRows={8}
+                        maxRows={14}
+                        fullWidth
+                        size="small"
+                        InputProps={{ sx: { fontFamily: 'monospace', fontSize: 13 } }}
+                    />
+                    {sheetText && (
+                        <Typography variant="body2" color={colors.text.secondary}>
+                            {headers.length} column{headers.length !== 1 ? 's' : ''}, {dataRows.length} row{dataRows.length !== 1 ? 's' : ''} below the header
+                        </Typography>
+                    )}
+                </Box>
+            );
+        }
+
+        if (activeStep === 1) {
+            return (
+                <Box>
+                    <Typography variant="body2" color={colors.text.secondary} sx={{ mb: 2 }}>
+                        Pick the sheet column for each field. Rows with the same dispatch ref, customer, item, dates and GP No become one order with a record per row.
+                    </Typography>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {IMPORT_FIELDS.map(definition => (
+                            <div key={definition.field} className="flex flex-col">
+                                <label className="block text-sm font-medium mb-2">
+                                    {definition.label} {definition.required && <span className="text-red-500">*</span>}
+                                </label>
+                                <PrimaryDropdown
+                                    value={mapping[definition.field]?.toString() ?? ''}
+                                    onChange={(e) => handleMappingChange(definition.field, e.target.value)}
+                                    options={columnOptions}
+                                    error={definition.required && mapping[definition.field] === undefined}
+                                />
+                            </div>
+                        ))}
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+                        <TextField
+                            label="Order date when not in sheet"
+                            type="date"
+                            value={defaultDate}
+                            onChange={(e) => setDefaultDate(e.target.value)}
+                            InputLabelProps={{ shrink: true }}
+                            size="small"
+                            fullWidth
+                            disabled={mapping.date !== undefined}
+                        />
+                        <TextField
+                            label="Delivery date when not in sheet"
+                            type="date"
+                            value={defaultDeliveryDate}
+                            onChange={(e) => setDefaultDeliveryDate(e.target.value)}
+                            InputLabelProps={{ shrink: true }}
+                            size="small"
+                            fullWidth
+                            disabled={mapping.deliveryDate !== undefined}
+                        />
+                    </div>
+                </Box>
+            );
+        }
+
+        if (optionsLoading || !preview) {
+            return (
+                <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+                    <CircularProgress size={24} />
+                </Box>
+            );
+        }
+
+        return (
+            <Box>
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+                    <Chip label={`${preview.orders.length} order${preview.orders.length !== 1 ? 's' : ''} (${importRecordCount} records) ready`} color="success" size="small" />
+                    {errorRowCount > 0 && (
+                        <Chip label={`${errorRowCount} row${errorRowCount !== 1 ? 's' : ''} with errors`} color="error" size="small" />
+                    )}
+                </Box>
+                {preview.skippedOrderCount > 0 && (
+                    <Typography variant="body2" color={colors.text.secondary} sx={{ mb: 2 }}>
+                        {preview.skippedOrderCount} order{preview.skippedOrderCount !== 1 ? 's have' : ' has'} rows with errors and will not be imported.
+                        Fix the sheet or the system data and import those again.
+                    </Typography>
+                )}
+                <TableContainer sx={{ border: `1px solid ${colors.border.light}`, borderRadius: '8px', maxHeight: 400 }}>
+                    <Table size="small" stickyHeader>
+                        <TableHead>
+                            <TableRow>
+                                <TableCell>Row</TableCell>
+                                <TableCell>Customer</TableCell>
+                                <TableCell>Item</TableCell>
+                                <TableCell align="right">Qty</TableCell>
+                                <TableCell>Wash</TableCell>
+                                <TableCell>Processes</TableCell>
+                                <TableCell>Status</TableCell>
+                            </TableRow>
+                        </TableHead>
+                        <TableBody>
+                            {preview.rows.map(row => (
+                                <TableRow key={row.rowNumber} sx={row.errors.length > 0 ? { backgroundColor: '#fef2f2' } : undefined}>
+                                    <TableCell>{row.rowNumber}</TableCell>
+                                    <TableCell>{row.customer || '-'}</TableCell>
+                                    <TableCell>{row.item || '-'}</TableCell>
+                                    <TableCell align="right">{row.quantity || '-'}</TableCell>
+                                    <TableCell>{row.washType || '-'}</TableCell>
+                                    <TableCell>{row.processTypes.join(', ') || '-'}</TableCell>
+                                    <TableCell>
+                                        {row.errors.length === 0 ? (
+                                            <Chip label="OK" color="success" size="small" variant="outlined" />
+                                        ) : (
+                                            row.errors.map(error => (
+                                                <Typography key={error} variant="caption" display="block" color="error">
+                                                    {error}
+                                                </Typography>
+                                            ))
+                                        )}
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </TableContainer>
+            </Box>
+        );
+    };
+
+    return (
+        <Dialog
+            open={open}
+            onClose={importOrdersMutation.isPending ? undefined : onClose}
+            maxWidth="md"
+            fullWidth
+            PaperProps={{
+                sx: {
+                    borderRadius: '12px',
+                    boxShadow: '0 10px 25px rgba(0, 0, 0, 0.1)'
+                }
+            }}
+        >
+            <DialogTitle sx={{
+                pb: 1,
+                borderBottom: `1px solid ${colors.border.light}`,
+                backgroundColor: colors.background.card
+            }}>
+                <Typography variant="h6" fontWeight={600} color={colors.text.primary}>
+                    Import Dispatch Sheet
+                </Typography>
+                <Typography variant="body2" color={colors.text.secondary} sx={{ mt: 0.5 }}>
+                    Create orders and their records from a buyer's dispatch sheet
+                </Typography>
+            </DialogTitle>
+
+            <DialogContent sx={{ py: 3 }}>
+                <Stepper activeStep={activeStep} sx={{ mt: 2, mb: 3 }}>
+                    {STEPS.map(label => (
+                        <Step key={label}>
+                            <StepLabel>{label}</StepLabel>
+                        </Step>
+                    ))}
+                </Stepper>
+                {renderStep()}
+            </DialogContent>
+
+            <DialogActions sx={{
+                p: 3,
+                borderTop: `1px solid ${colors.border.light}`,
+                backgroundColor: colors.background.card
+            }}>
+                <PrimaryButton
+                    onClick={onClose}
+                    disabled={importOrdersMutation.isPending}
+                    style={{
+                        backgroundColor: colors.text.muted,
+                        color: colors.text.white,
+                        width: 'auto',
+                        minWidth: 100
+                    }}
+                >
+                    Cancel
+                </PrimaryButton>
+                {activeStep > 0 && (
+                    <PrimaryButton
+                        onClick={() => setActiveStep(activeStep - 1)}
+                        disabled={importOrdersMutation.isPending}
+                        style={{
+                            backgroundColor: colors.primary[100],
+                            color: colors.text.primary,
+                            width: 'auto',
+                            minWidth: 100
+                        }}
+                    >
+                        Back
+                    </PrimaryButton>
+                )}
+                {activeStep === 0 && (
+                    <PrimaryButton
+                        onClick={handleLoadSheet}
+                        disabled={dataRows.length === 0}
+                        style={{
+                            backgroundColor: colors.button.primary,
+                            color: colors.text.white,
+                            width: 'auto',
+                            minWidth: 120
+                        }}
+                    >
+                        Next
+                    </PrimaryButton>
+                )}
+                {activeStep === 1 && (
+                    <PrimaryButton
+                        onClick={() => setActiveStep(2)}
+                        disabled={missingRequired.length > 0}
+                        style={{
+                            backgroundColor: colors.button.primary,
+                            color: colors.text.white,
+                            width: 'auto',
+                            minWidth: 120
+                        }}
+                    >
+                        Preview
+                    </PrimaryButton>
+                )}
+                {activeStep === 2 && (
+                    <PrimaryButton
+                        onClick={handleImport}
+                        disabled={!preview || preview.orders.length === 0 || importOrdersMutation.isPending}
+                        style={{
+                            backgroundColor: colors.button.primary,
+                            color: colors.text.white,
+                            width: 'auto',
+                            minWidth: 180
+                        }}
+                    >
+                        {importOrdersMutation.isPending
+                            ? 'Importing...'
+                            : `Import ${preview?.orders.length || 0} Order${preview?.orders.length !== 1 ? 's' : ''}`}
+                    </PrimaryButton>
+                )}
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default OrderImportModal;
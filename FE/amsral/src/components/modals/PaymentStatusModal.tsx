@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
     Dialog,
     DialogTitle,
@@ -7,10 +7,39 @@ import {
     Box,
     Typography,
     TextField,
-    Divider
+    Divider,
+    Table,
+    TableBody,
+    TableCell,
+    TableContainer,
+    TableHead,
+    TableRow,
+    IconButton,
+    Tooltip,
+    CircularProgress
 } from '@mui/material';
+import { PictureAsPdf as PdfIcon, Print as PrintIcon } from '@mui/icons-material';
+import toast from 'react-hot-toast';
 import PrimaryButton from '../common/PrimaryButton';
+import PrimaryDropdown from '../common/PrimaryDropdown';
 import colors from '../../styles/colors';
+import {
+    BillingService,
+    type PaymentEntry,
+    type PaymentMethod,
+    type RecordPaymentRequest
+} from '../../services/billingService';
+import printerService from '../../services/printerService';
+import { useDocumentSettings } from '../../hooks/useSystemData';
+import { generatePaymentReceipt, type PaymentReceiptData } from '../../utils/pdfUtils';
+import { getCreditedTotal } from '../../utils/creditNoteUtils';
+import {
+    PAYMENT_METHOD_OPTIONS,
+    describePaymentMethod,
+    getBalanceDue,
+    getPaidAmount
+} from '../../utils/paymentUtils';
+import { getCurrencyLabel, getCurrencySymbol } from '../../utils/currencyUtils';
 
 interface Invoice {
     id: number;
@@ -21,10 +50,11 @@ interface Invoice {
     taxAmount: number;
     total: number;
     dueDate: string;
-    status: 'draft' | 'sent' | 'paid' | 'overdue';
+    status: 'draft' | 'sent' | 'paid' | 'overdue' | 'void';
     paymentAmount?: number; // Legacy field
     payment?: number; // New payment field
     balance?: number; // Customer balance amount
+    currency?: string;
     createdAt: string;
     updatedAt?: string;
 }
@@ -33,49 +63,104 @@ interface PaymentStatusModalProps {
     open: boolean;
     onClose: () => void;
     order: Invoice | null;
-    onUpdate: (orderId: number, paymentAmount: number) => Promise<void>;
+    onRecordPayment: (invoiceId: number, payment: RecordPaymentRequest) => Promise<PaymentEntry>;
     loading?: boolean;
 }
 
+const emptyForm = (amount = 0) => ({
+    paymentDate: new Date().toISOString().split('T')[0],
+    amount,
+    method: 'cash' as PaymentMethod,
+    chequeNumber: '',
+    bank: '',
+    reference: '',
+    notes: '',
+});
+
+// Payments in the order they were received
+const sortPayments = (payments: PaymentEntry[]) => {
+    return [...payments].sort((a, b) =>
+        a.paymentDate.localeCompare(b.paymentDate) || a.id - b.id
+    );
+};
+
 const PaymentStatusModal: React.FC<PaymentStatusModalProps> = ({
     open,
     onClose,
     order,
-    onUpdate,
+    onRecordPayment,
     loading = false
 }) => {
-    const [paymentAmount, setPaymentAmount] = useState(0);
+    const [payments, setPayments] = useState<PaymentEntry[]>([]);
+    const [creditedAmount, setCreditedAmount] = useState(0);
+    const [paymentsLoading, setPaymentsLoading] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [form, setForm] = useState(emptyForm());
     const [errors, setErrors] = useState<{ [key: string]: string }>({});
+    const documentSettings = useDocumentSettings();
 
-    // Initialize form when order changes
-    useEffect(() => {
-        if (order) {
-            // Calculate default payment amount as (Invoice Amount - Paid Amount)
-            const invoiceAmount = order.total || 0;
-            const paidAmount = order.payment || order.paymentAmount || 0;
-            const remainingAmount = Math.max(0, invoiceAmount - paidAmount);
+    const invoiceAmount = order?.total || 0;
+    const currencySymbol = getCurrencySymbol(order?.currency);
+    // Credit notes reduce what is owed on the invoice
+    const payableAmount = Math.max(0, invoiceAmount - creditedAmount);
+    const paidAmount = getPaidAmount(payments);
+    const balanceDue = getBalanceDue(payableAmount, payments);
 
-            setPaymentAmount(remainingAmount);
-            setErrors({});
+    const loadPayments = useCallback(async () => {
+        if (!order) return;
+
+        setPaymentsLoading(true);
+        try {
+            const [paymentsResponse, creditNotesResponse] = await Promise.all([
+                BillingService.getInvoicePayments(order.id),
+                BillingService.getInvoiceCreditNotes(order.id),
+            ]);
+            const entries = paymentsResponse.success ? sortPayments(paymentsResponse.data) : [];
+            const credited = creditNotesResponse.success ? getCreditedTotal(creditNotesResponse.data) : 0;
+            setPayments(entries);
+            setCreditedAmount(credited);
+            // Default the next payment to whatever is still owed
+            setForm(emptyForm(getBalanceDue(Math.max(0, (order.total || 0) - credited), entries)));
+        } catch (error) {
+            console.error('Error loading payments:', error);
+            setErrors({ general: 'Failed to load payment history' });
+        } finally {
+            setPaymentsLoading(false);
         }
     }, [order]);
 
+    // Initialize form when modal opens
+    useEffect(() => {
+        if (!open || !order) return;
+
+        setPayments([]);
+        setCreditedAmount(0);
+        setErrors({});
+        loadPayments();
+    }, [open, order, loadPayments]);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+        const { name, value } = e.target;
+        setForm(prev => ({ ...prev, [name]: name === 'amount' ? Number(value) : value }));
+    };
+
     const handleSubmit = async () => {
         if (!order) return;
 
         // Validation
         const newErrors: { [key: string]: string } = {};
-
-        if (paymentAmount < 0) {
-            newErrors.paymentAmount = 'Payment amount cannot be negative';
+        if (!form.paymentDate) newErrors.paymentDate = 'Payment date is required';
+        if (!form.amount || form.amount <= 0) {
+            newErrors.amount = 'Payment amount must be more than 0';
+        } else if (form.amount > balanceDue + 0.001) {
+            newErrors.amount = `Payment (${form.amount.toFixed(2)}) cannot exceed the balance due (${balanceDue.toFixed(2)})`;
         }
-
-        const invoiceAmount = order.total || 0;
-        const currentPaidAmount = order.payment || order.paymentAmount || 0;
-        const totalPaymentAfterThis = currentPaidAmount + paymentAmount;
-
-        if (totalPaymentAfterThis > invoiceAmount) {
-            newErrors.paymentAmount = `Total payment (${currentPaidAmount} + ${paymentAmount} = ${totalPaymentAfterThis}) cannot exceed invoice amount (${invoiceAmount})`;
+        if (form.method === 'cheque') {
+            if (!form.chequeNumber.trim()) newErrors.chequeNumber = 'Cheque number is required';
+            if (!form.bank.trim()) newErrors.bank = 'Bank is required';
+        }
+        if (form.method === 'bank_transfer' && !form.reference.trim()) {
+            newErrors.reference = 'Transfer reference is required';
         }
 
         if (Object.keys(newErrors).length > 0) {
@@ -83,12 +168,62 @@ const PaymentStatusModal: React.FC<PaymentStatusModalProps> = ({
             return;
         }
 
+        setSaving(true);
         try {
-            // Backend will determine payment status based on payment amount
-            await onUpdate(order.id, paymentAmount);
-            onClose();
+            await onRecordPayment(order.id, {
+                paymentDate: form.paymentDate,
+                amount: form.amount,
+                method: form.method,
+                chequeNumber: form.method === 'cheque' ? form.chequeNumber.trim() : undefined,
+                bank: form.method === 'cheque' ? form.bank.trim() : undefined,
+                reference: form.reference.trim() || undefined,
+                notes: form.notes.trim() || undefined,
+            });
+            setErrors({});
+            // Stay open so the receipt for this payment can be printed
+            loadPayments();
         } catch (error) {
-            console.error('Error updating payment status:', error);
+            console.error('Error recording payment:', error);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const buildReceiptData = (payment: PaymentEntry): PaymentReceiptData => {
+        const paidToDate = getPaidAmount(payments.slice(0, payments.indexOf(payment) + 1));
+        return {
+            receiptNumber: payment.receiptNumber || `RCPT-${payment.id}`,
+            invoiceNumber: order?.invoiceNumber || '',
+            customerName: order?.customerName || '',
+            paymentDate: payment.paymentDate,
+            amount: payment.amount,
+            method: describePaymentMethod(payment),
+            reference: payment.reference || undefined,
+            invoiceTotal: invoiceAmount,
+            paidToDate,
+            balanceDue: Math.max(0, payableAmount - paidToDate),
+            currency: order?.currency,
+        };
+    };
+
+    const handlePrintPdf = (payment: PaymentEntry) => {
+        if (!documentSettings) return;
+        generatePaymentReceipt(buildReceiptData(payment), documentSettings);
+    };
+
+    const handlePrintThermal = async (payment: PaymentEntry) => {
+        if (!documentSettings) return;
+        if (!printerService.isConnected()) {
+            toast.error('Thermal printer not connected. Connect it from the Printer page or use PDF.');
+            return;
+        }
+
+        try {
+            await printerService.printPaymentReceipt(buildReceiptData(payment), documentSettings);
+            toast.success('Payment receipt printed');
+        } catch (error) {
+            console.error('Error printing payment receipt:', error);
+            toast.error('Failed to print payment receipt');
         }
     };
 
@@ -103,7 +238,7 @@ const PaymentStatusModal: React.FC<PaymentStatusModalProps> = ({
         <Dialog
             open={open}
             onClose={handleClose}
-            maxWidth="sm"
+            maxWidth="md"
             fullWidth
             PaperProps={{
                 sx: {
@@ -118,7 +253,7 @@ const PaymentStatusModal: React.FC<PaymentStatusModalProps> = ({
                 backgroundColor: colors.background.card
             }}>
                 <Typography variant="h6" fontWeight={600} color={colors.text.primary}>
-                    Record Payment
+                    Payments
                 </Typography>
                 <Typography variant="body2" color={colors.text.secondary} sx={{ mt: 0.5 }}>
                     Invoice #{order.invoiceNumber}
@@ -126,7 +261,7 @@ const PaymentStatusModal: React.FC<PaymentStatusModalProps> = ({
             </DialogTitle>
 
             <DialogContent sx={{ py: 3 }}>
-                <Box sx={{ mb: 3 }}>
+                <Box sx={{ mb: 3, mt: 2 }}>
                     <Typography variant="subtitle2" color={colors.text.primary} sx={{ mb: 1, fontWeight: 600 }}>
                         Invoice Details
                     </Typography>
@@ -149,17 +284,25 @@ const PaymentStatusModal: React.FC<PaymentStatusModalProps> = ({
                         <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
                             <Typography variant="body2" color={colors.text.secondary}>Invoice Amount:</Typography>
                             <Typography variant="body2" fontWeight={500} color={colors.button.primary}>
-                                ${order.total || 0}
+                                {currencySymbol} {invoiceAmount.toFixed(2)}
                             </Typography>
                         </Box>
-                        {order.balance !== undefined && (
+                        {creditedAmount > 0 && (
                             <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
-                                <Typography variant="body2" color={colors.text.secondary}>Customer Balance:</Typography>
-                                <Typography variant="body2" fontWeight={500} color={order.balance > 0 ? '#f57c00' : colors.text.primary}>
-                                    ${order.balance || 0}
-                                </Typography>
+                                <Typography variant="body2" color={colors.text.secondary}>Credited:</Typography>
+                                <Typography variant="body2" fontWeight={500}>{currencySymbol} {creditedAmount.toFixed(2)}</Typography>
                             </Box>
                         )}
+                        <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
+                            <Typography variant="body2" color={colors.text.secondary}>Paid To Date:</Typography>
+                            <Typography variant="body2" fontWeight={500}>{currencySymbol} {paidAmount.toFixed(2)}</Typography>
+                        </Box>
+                        <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
+                            <Typography variant="body2" color={colors.text.secondary}>Balance Due:</Typography>
+                            <Typography variant="body2" fontWeight={600} color={balanceDue > 0 ? '#f57c00' : colors.success}>
+                                {currencySymbol} {balanceDue.toFixed(2)}
+                            </Typography>
+                        </Box>
                         <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
                             <Typography variant="body2" color={colors.text.secondary}>Status:</Typography>
                             <Typography variant="body2" fontWeight={500} sx={{
@@ -172,111 +315,201 @@ const PaymentStatusModal: React.FC<PaymentStatusModalProps> = ({
                     </Box>
                 </Box>
 
-                <Divider sx={{ my: 2 }} />
+                <Typography variant="subtitle2" color={colors.text.primary} sx={{ mb: 1, fontWeight: 600 }}>
+                    Payment History
+                </Typography>
+                {paymentsLoading ? (
+                    <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+                        <CircularProgress size={24} />
+                    </Box>
+                ) : (
+                    <TableContainer sx={{ border: `1px solid ${colors.border.light}`, borderRadius: '8px' }}>
+                        <Table size="small">
+                            <TableHead>
+                                <TableRow>
+                                    <TableCell>Receipt No</TableCell>
+                                    <TableCell>Date</TableCell>
+                                    <TableCell>Method</TableCell>
+                                    <TableCell>Reference</TableCell>
+                                    <TableCell align="right">Amount ({getCurrencyLabel(order.currency)})</TableCell>
+                                    <TableCell align="right">Receipt</TableCell>
+                                </TableRow>
+                            </TableHead>
+                            <TableBody>
+                                {payments.map(payment => (
+                                    <TableRow key={payment.id}>
+                                        <TableCell>{payment.receiptNumber || `RCPT-${payment.id}`}</TableCell>
+                                        <TableCell>{new Date(payment.paymentDate).toLocaleDateString()}</TableCell>
+                                        <TableCell>{describePaymentMethod(payment)}</TableCell>
+                                        <TableCell>{payment.reference || '-'}</TableCell>
+                                        <TableCell align="right">{payment.amount.toFixed(2)}</TableCell>
+                                        <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                                            <Tooltip title="Download PDF Receipt">
+                                                <span>
+                                                    <IconButton size="small" disabled={!documentSettings} onClick={() => handlePrintPdf(payment)}>
+                                                        <PdfIcon fontSize="small" />
+                                                    </IconButton>
+                                                </span>
+                                            </Tooltip>
+                                            <Tooltip title="Print Thermal Receipt">
+                                                <span>
+                                                    <IconButton size="small" disabled={!documentSettings} onClick={() => handlePrintThermal(payment)}>
+                                                        <PrintIcon fontSize="small" />
+                                                    </IconButton>
+                                                </span>
+                                            </Tooltip>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                                {payments.length === 0 && (
+                                    <TableRow>
+                                        <TableCell colSpan={6} align="center">No payments recorded yet</TableCell>
+                                    </TableRow>
+                                )}
+                            </TableBody>
+                        </Table>
+                    </TableContainer>
+                )}
 
-                <Box sx={{ mb: 2 }}>
-                    <Typography variant="subtitle2" color={colors.text.primary} sx={{ mb: 1, fontWeight: 600 }}>
-                        Payment Amount
-                    </Typography>
-                    {/* <Typography variant="body2" color={colors.text.secondary} sx={{ mb: 2 }}>
-                        Enter the actual payment amount received. This may be less than the invoice amount due to discounts or partial payments.
-                    </Typography> */}
-                    <TextField
-                        fullWidth
-                        type="number"
-                        value={paymentAmount}
-                        onChange={(e) => setPaymentAmount(Number(e.target.value))}
-                        error={!!errors.paymentAmount}
-                        helperText={errors.paymentAmount}
-                        placeholder="Enter payment amount"
-                        inputProps={{
-                            min: 0,
-                            max: order.total || 0,
-                            step: 0.01
-                        }}
-                        InputProps={{
-                            startAdornment: <Typography sx={{ mr: 1, color: colors.text.secondary }}>$</Typography>
-                        }}
-                        sx={{
-                            '& .MuiOutlinedInput-root': {
-                                borderRadius: '8px',
-                                '& fieldset': {
-                                    borderColor: errors.paymentAmount ? colors.error : colors.border.light,
-                                },
-                                '&:hover fieldset': {
-                                    borderColor: errors.paymentAmount ? colors.error : colors.border.medium,
-                                },
-                                '&.Mui-focused fieldset': {
-                                    borderColor: errors.paymentAmount ? colors.error : colors.button.primary,
-                                },
-                            },
-                        }}
-                    />
-                </Box>
+                <Divider sx={{ my: 2 }} />
 
-                {paymentAmount < (order.total || 0) && (
-                    <Box sx={{
-                        p: 2,
-                        backgroundColor: '#fff3cd',
-                        borderRadius: '8px',
-                        border: '1px solid #ffc107',
-                        mb: 2
-                    }}>
-                        <Typography variant="body2" color="#856404">
-                            <strong>Note:</strong> Payment amount (${paymentAmount}) is less than invoice amount (${order.total || 0}).
-                            This will be recorded as a partial payment.
+                {balanceDue > 0 ? (
+                    <Box>
+                        <Typography variant="subtitle2" color={colors.text.primary} sx={{ mb: 1, fontWeight: 600 }}>
+                            Record Payment
                         </Typography>
+                        <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr 1fr' }, gap: 2, mb: 2 }}>
+                            <TextField
+                                label="Payment Date"
+                                type="date"
+                                name="paymentDate"
+                                value={form.paymentDate}
+                                onChange={handleChange}
+                                error={!!errors.paymentDate}
+                                helperText={errors.paymentDate}
+                                InputLabelProps={{ shrink: true }}
+                                size="small"
+                                fullWidth
+                            />
+                            <TextField
+                                label={`Amount (${getCurrencyLabel(order.currency)})`}
+                                type="number"
+                                name="amount"
+                                value={form.amount}
+                                onChange={handleChange}
+                                error={!!errors.amount}
+                                helperText={errors.amount}
+                                inputProps={{ min: 0, max: balanceDue, step: 0.01 }}
+                                size="small"
+                                fullWidth
+                            />
+                            <PrimaryDropdown
+                                name="method"
+                                value={form.method}
+                                onChange={(e) => setForm(prev => ({ ...prev, method: e.target.value as PaymentMethod }))}
+                                options={PAYMENT_METHOD_OPTIONS}
+                                placeholder="Method"
+                            />
+                            {form.method === 'cheque' && (
+                                <>
+                                    <TextField
+                                        label="Cheque No"
+                                        name="chequeNumber"
+                                        value={form.chequeNumber}
+                                        onChange={handleChange}
+                                        error={!!errors.chequeNumber}
+                                        helperText={errors.chequeNumber}
+                                        size="small"
+                                        fullWidth
+                                    />
+                                    <TextField
+                                        label="Bank"
+                                        name="bank"
+                                        value={form.bank}
+                                        onChange={handleChange}
+                                        error={!!errors.bank}
+                                        helperText={errors.bank}
+                                        size="small"
+                                        fullWidth
+                                    />
+                                </>
+                            )}
+                            <TextField
+                                label={form.method === 'bank_transfer' ? 'Transfer Reference' : 'Reference (Optional)'}
+                                name="reference"
+                                value={form.reference}
+                                onChange={handleChange}
+                                error={!!errors.reference}
+                                helperText={errors.reference}
+                                size="small"
+                                fullWidth
+                            />
+                        </Box>
+                        <TextField
+                            label="Notes (Optional)"
+                            name="notes"
+                            value={form.notes}
+                            onChange={handleChange}
+                            size="small"
+                            fullWidth
+                        />
+
+                        {form.amount > 0 && form.amount < balanceDue && (
+                            <Box sx={{
+                                p: 2,
+                                mt: 2,
+                                backgroundColor: '#fff3cd',
+                                borderRadius: '8px',
+                                border: '1px solid #ffc107'
+                            }}>
+                                <Typography variant="body2" color="#856404">
+                                    <strong>Note:</strong> {currencySymbol} {(balanceDue - form.amount).toFixed(2)} will still be due after this partial payment.
+                                </Typography>
+                            </Box>
+                        )}
                     </Box>
+                ) : (
+                    !paymentsLoading && (
+                        <Typography variant="body2" color={colors.success} fontWeight={500}>
+                            This invoice is fully paid.
+                        </Typography>
+                    )
                 )}
 
-                {(() => {
-                    const invoiceAmount = order.total || 0;
-                    const currentPaidAmount = order.payment || order.paymentAmount || 0;
-                    const totalPaymentAfterThis = currentPaidAmount + paymentAmount;
-
-                    return totalPaymentAfterThis > invoiceAmount && (
-                        <Box sx={{
-                            p: 2,
-                            backgroundColor: '#d1ecf1',
-                            borderRadius: '8px',
-                            border: '1px solid #17a2b8',
-                            mb: 2
-                        }}>
-                            <Typography variant="body2" color="#0c5460">
-                                <strong>Note:</strong> Total payment (${currentPaidAmount} + ${paymentAmount} = ${totalPaymentAfterThis}) exceeds invoice amount (${invoiceAmount}).
-                                This will be recorded as an overpayment.
-                            </Typography>
-                        </Box>
-                    );
-                })()}
+                {errors.general && (
+                    <Typography variant="body2" color="error" sx={{ mt: 1 }}>
+                        {errors.general}
+                    </Typography>
+                )}
             </DialogContent>
 
             <DialogActions sx={{
                 p: 3,
-                pt: 0,
                 borderTop: `1px solid ${colors.border.light}`,
                 backgroundColor: colors.background.card
             }}>
                 <PrimaryButton
                     onClick={handleClose}
-                    disabled={loading}
+                    disabled={saving}
                     style={{
                         backgroundColor: colors.text.muted,
                         color: colors.text.white
                     }}
                 >
-                    Cancel
-                </PrimaryButton>
-                <PrimaryButton
-                    onClick={handleSubmit}
-                    disabled={loading}
-                    style={{
-                        backgroundColor: colors.button.primary,
-                        color: colors.text.white
-                    }}
-                >
-                    {loading ? 'Recording...' : 'Record Payment'}
+                    Close
                 </PrimaryButton>
+                {balanceDue > 0 && (
+                    <PrimaryButton
+                        onClick={handleSubmit}
+                        disabled={loading || saving || paymentsLoading}
+                        style={{
+                            backgroundColor: colors.button.primary,
+                            color: colors.text.white
+                        }}
+                    >
+                        {saving ? 'Recording...' : 'Record Payment'}
+                    </PrimaryButton>
+                )}
             </DialogActions>
         </Dialog>
     );
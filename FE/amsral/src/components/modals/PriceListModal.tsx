@@ -0,0 +1,335 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+    Dialog,
+    DialogTitle,
+    DialogContent,
+    DialogActions,
+    Box,
+    Typography,
+    Divider,
+    TextField,
+    Table,
+    TableBody,
+    TableCell,
+    TableContainer,
+    TableHead,
+    TableRow,
+    IconButton,
+    CircularProgress
+} from '@mui/material';
+import toast from 'react-hot-toast';
+import PrimaryButton from '../common/PrimaryButton';
+import PrimaryDropdown from '../common/PrimaryDropdown';
+import PrimaryMultiSelect from '../common/PrimaryMultiSelect';
+import { PriceListService, type PriceListEntry } from '../../services/priceListService';
+import { type Customer } from '../../services/customerService';
+import { itemService } from '../../services/itemService';
+import { washingTypeService } from '../../services/washingTypeService';
+import { processTypeService } from '../../services/processTypeService';
+import { getPriceListEntryKey } from '../../utils/priceListUtils';
+import { BASE_CURRENCY, getCurrencyLabel } from '../../utils/currencyUtils';
+import colors from '../../styles/colors';
+
+interface PriceListModalProps {
+    open: boolean;
+    onClose: () => void;
+    customer: Customer | null; // null edits the default price list
+}
+
+interface Option {
+    value: string;
+    label: string;
+}
+
+const emptyForm = () => ({
+    itemId: '',
+    washTypeId: '',
+    processTypeIds: [] as string[],
+    unitPrice: '',
+});
+
+const getLabel = (options: Option[], value: string) => {
+    return options.find(option => option.value === value)?.label || value;
+};
+
+const PriceListModal: React.FC<PriceListModalProps> = ({
+    open,
+    onClose,
+    customer
+}) => {
+    const [entries, setEntries] = useState<PriceListEntry[]>([]);
+    const [itemOptions, setItemOptions] = useState<Option[]>([]);
+    const [washTypeOptions, setWashTypeOptions] = useState<Option[]>([]);
+    const [processTypeOptions, setProcessTypeOptions] = useState<Option[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [form, setForm] = useState(emptyForm());
+    const [errors, setErrors] = useState<{ [key: string]: string }>({});
+
+    // A customer's prices are in the currency they are invoiced in; the default list is in LKR
+    const priceCurrency = customer?.currency || BASE_CURRENCY;
+
+    const loadPriceList = useCallback(async () => {
+        setLoading(true);
+        try {
+            const [priceListResponse, itemsResponse, washingTypesResponse, processTypesResponse] = await Promise.all([
+                customer?.id
+                    ? PriceListService.getCustomerPriceList(customer.id)
+                    : PriceListService.getDefaultPriceList(),
+                itemService.getItemsList(),
+                washingTypeService.getWashingTypes({ limit: 100 }),
+                processTypeService.getProcessTypesList()
+            ]);
+
+            setEntries(priceListResponse.success ? priceListResponse.data.entries : []);
+            setItemOptions(itemsResponse.data.map(item => ({ value: item.value.toString(), label: item.label })));
+            setWashTypeOptions(washingTypesResponse.data.washingTypes.map(washType => ({
+                value: washType.id,
+                label: washType.name
+            })));
+            setProcessTypeOptions(processTypesResponse.data.map(processType => ({
+                value: processType.value.toString(),
+                label: processType.name
+            })));
+        } catch (error) {
+            console.error('Error loading price list:', error);
+            setErrors({ general: 'Failed to load price list' });
+        } finally {
+            setLoading(false);
+        }
+    }, [customer]);
+
+    // Initialize when modal opens
+    useEffect(() => {
+        if (!open) return;
+
+        setEntries([]);
+        setForm(emptyForm());
+        setErrors({});
+        loadPriceList();
+    }, [open, loadPriceList]);
+
+    const handleAddEntry = () => {
+        const newErrors: { [key: string]: string } = {};
+        if (!form.itemId) newErrors.itemId = 'Select an item';
+        if (!form.washTypeId) newErrors.washTypeId = 'Select a wash type';
+        if (!form.unitPrice || Number(form.unitPrice) <= 0) newErrors.unitPrice = 'Enter a price above 0';
+
+        const entry: PriceListEntry = {
+            itemId: form.itemId,
+            itemName: getLabel(itemOptions, form.itemId),
+            washTypeId: form.washTypeId,
+            washTypeName: getLabel(washTypeOptions, form.washTypeId),
+            processTypeIds: form.processTypeIds,
+            processTypeNames: form.processTypeIds.map(id => getLabel(processTypeOptions, id)),
+            unitPrice: Number(form.unitPrice),
+            currency: priceCurrency,
+        };
+
+        if (Object.keys(newErrors).length === 0 &&
+            entries.some(existing => getPriceListEntryKey(existing) === getPriceListEntryKey(entry))) {
+            newErrors.general = 'This item, wash type and process combination is already priced';
+        }
+
+        if (Object.keys(newErrors).length > 0) {
+            setErrors(newErrors);
+            return;
+        }
+
+        setEntries(prev => [...prev, entry]);
+        setForm(emptyForm());
+        setErrors({});
+    };
+
+    const handlePriceChange = (index: number, unitPrice: number) => {
+        setEntries(prev => prev.map((entry, i) => i === index ? { ...entry, unitPrice } : entry));
+    };
+
+    const handleRemoveEntry = (index: number) => {
+        setEntries(prev => prev.filter((_, i) => i !== index));
+    };
+
+    const handleSave = async () => {
+        if (entries.some(entry => !entry.unitPrice || entry.unitPrice <= 0)) {
+            setErrors({ general: 'Every price must be above 0' });
+            return;
+        }
+
+        setSaving(true);
+        try {
+            if (customer?.id) {
+                await PriceListService.saveCustomerPriceList(customer.id, entries);
+            } else {
+                await PriceListService.saveDefaultPriceList(entries);
+            }
+            toast.success('Price list saved successfully');
+            onClose();
+        } catch (error) {
+            const message = (error as { response?: { data?: { message?: string } } })?.response?.data?.message;
+            toast.error(message || 'Failed to save price list');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <Dialog
+            open={open}
+            onClose={onClose}
+            maxWidth="md"
+            fullWidth
+            PaperProps={{
+                sx: {
+                    borderRadius: '12px',
+                    boxShadow: '0 10px 25px rgba(0, 0, 0, 0.1)'
+                }
+            }}
+        >
+            <DialogTitle sx={{
+                pb: 1,
+                borderBottom: `1px solid ${colors.border.light}`,
+                backgroundColor: colors.background.card
+            }}>
+                <Typography variant="h6" fontWeight={600} color={colors.text.primary}>
+                    {customer ? 'Customer Price List' : 'Default Price List'}
+                </Typography>
+                <Typography variant="body2" color={colors.text.secondary} sx={{ mt: 0.5 }}>
+                    {customer
+                        ? `${customer.firstName} ${customer.lastName} - falls back to the default price list`
+                        : 'Used for any customer without their own price'}
+                </Typography>
+            </DialogTitle>
+
+            <DialogContent sx={{ py: 3 }}>
+                <Typography variant="subtitle2" color={colors.text.primary} sx={{ mt: 2, mb: 1, fontWeight: 600 }}>
+                    Add Price
+                </Typography>
+                <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2, mb: 2 }}>
+                    <Box>
+                        <PrimaryDropdown
+                            name="itemId"
+                            value={form.itemId}
+                            onChange={(e) => setForm(prev => ({ ...prev, itemId: e.target.value }))}
+                            options={itemOptions}
+                            placeholder="Item"
+                            error={!!errors.itemId}
+                        />
+                        {errors.itemId && <Typography variant="caption" color="error">{errors.itemId}</Typography>}
+                    </Box>
+                    <Box>
+                        <PrimaryDropdown
+                            name="washTypeId"
+                            value={form.washTypeId}
+                            onChange={(e) => setForm(prev => ({ ...prev, washTypeId: e.target.value }))}
+                            options={washTypeOptions}
+                            placeholder="Wash Type"
+                            error={!!errors.washTypeId}
+                        />
+                        {errors.washTypeId && <Typography variant="caption" color="error">{errors.washTypeId}</Typography>}
+                    </Box>
+                    <PrimaryMultiSelect
+                        name="processTypeIds"
+                        value={form.processTypeIds}
+                        onChange={(e) => setForm(prev => ({ ...prev, processTypeIds: e.target.value }))}
+                        options={processTypeOptions}
+                        placeholder="Process Types"
+                    />
+                    <TextField
+                        label={`Unit Price (${getCurrencyLabel(priceCurrency)})`}
+                        type="number"
+                        value={form.unitPrice}
+                        onChange={(e) => setForm(prev => ({ ...prev, unitPrice: e.target.value }))}
+                        error={!!errors.unitPrice}
+                        helperText={errors.unitPrice}
+                        inputProps={{ min: 0, step: 0.01 }}
+                        size="small"
+                        fullWidth
+                    />
+                </Box>
+                <Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
+                    <PrimaryButton onClick={handleAddEntry} style={{ width: 'auto', minWidth: 140 }}>
+                        Add Price
+                    </PrimaryButton>
+                </Box>
+
+                <Divider sx={{ my: 2 }} />
+
+                {loading ? (
+                    <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+                        <CircularProgress size={24} />
+                    </Box>
+                ) : (
+                    <TableContainer sx={{ border: `1px solid ${colors.border.light}`, borderRadius: '8px' }}>
+                        <Table size="small">
+                            <TableHead>
+                                <TableRow>
+                                    <TableCell>Item</TableCell>
+                                    <TableCell>Wash Type</TableCell>
+                                    <TableCell>Process Types</TableCell>
+                                    <TableCell align="right">Unit Price</TableCell>
+                                    <TableCell />
+                                </TableRow>
+                            </TableHead>
+                            <TableBody>
+                                {entries.map((entry, index) => (
+                                    <TableRow key={getPriceListEntryKey(entry)}>
+                                        <TableCell>{entry.itemName || getLabel(itemOptions, entry.itemId)}</TableCell>
+                                        <TableCell>{entry.washTypeName || getLabel(washTypeOptions, entry.washTypeId)}</TableCell>
+                                        <TableCell>
+                                            {entry.processTypeIds.length > 0
+                                                ? (entry.processTypeNames || entry.processTypeIds.map(id => getLabel(processTypeOptions, id))).join(' / ')
+                                                : 'None'}
+                                        </TableCell>
+                                        <TableCell align="right">
+                                            <Typography component="span" variant="body2" color={colors.text.secondary} sx={{ mr: 1 }}>
+                                                {getCurrencyLabel(entry.currency)}
+                                            </Typography>
+                                            <TextField
+                                                type="number"
+                                                value={entry.unitPrice}
+                                                onChange={(e) => handlePriceChange(index, parseFloat(e.target.value) || 0)}
+                                                size="small"
+                                                sx={{ width: 100 }}
+                                                inputProps={{ min: 0, step: 0.01 }}
+                                            />
+                                        </TableCell>
+                                        <TableCell align="right">
+                                            <IconButton size="small" onClick={() => handleRemoveEntry(index)} sx={{ color: '#ef4444' }}>
+                                                🗑️
+                                            </IconButton>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                                {entries.length === 0 && (
+                                    <TableRow>
+                                        <TableCell colSpan={5} align="center">No prices set yet</TableCell>
+                                    </TableRow>
+                                )}
+                            </TableBody>
+                        </Table>
+                    </TableContainer>
+                )}
+
+                {errors.general && (
+                    <Typography variant="body2" color="error" sx={{ mt: 1 }}>
+                        {errors.general}
+                    </Typography>
+                )}
+            </DialogContent>
+
+            <DialogActions sx={{ p: 3, pt: 2, borderTop: `1px solid ${colors.border.light}` }}>
+                <PrimaryButton
+                    onClick={onClose}
+                    style={{ width: 'auto', minWidth: 100, background: colors.primary[100], color: colors.text.primary }}
+                >
+                    Cancel
+                </PrimaryButton>
+                <PrimaryButton onClick={handleSave} disabled={saving || loading} style={{ width: 'auto', minWidth: 140 }}>
+                    {saving ? 'Saving...' : 'Save Price List'}
+                </PrimaryButton>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default PriceListModal;
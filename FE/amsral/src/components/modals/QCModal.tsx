@@ -14,8 +14,13 @@ import {
     Chip
 } from '@mui/material';
 import PrimaryButton from '../common/PrimaryButton';
+import PrimaryDropdown from '../common/PrimaryDropdown';
+import PrimaryMultiSelect from '../common/PrimaryMultiSelect';
 import colors from '../../styles/colors';
-import { orderService } from '../../services/orderService';
+import { orderService, type CreateReworkRecordRequest } from '../../services/orderService';
+import { washingTypeService } from '../../services/washingTypeService';
+import { processTypeService } from '../../services/processTypeService';
+import { isReworkRecord } from '../../utils/reworkUtils';
 
 interface OrderRecord {
     id: number;
@@ -26,9 +31,32 @@ interface OrderRecord {
     washType: string;
     processTypes: string | string[];
     status: string;
-    damageCount?: number;
+    damageCount?: number | null;
+    isRework?: boolean;
+    parentRecordId?: number | null;
 }
 
+interface ReworkForm {
+    quantity: number;
+    washType: string;
+    processTypes: string[];
+    reason: string;
+}
+
+interface TypeOption {
+    value: string;
+    label: string;
+    name: string;
+}
+
+// Records show type names, but new records are created with type ids
+const findTypeValue = (options: TypeOption[], nameOrId: string) => {
+    const normalized = nameOrId.trim().toLowerCase();
+    return options.find(option =>
+        option.value === nameOrId || option.name.toLowerCase() === normalized || option.label.toLowerCase() === normalized
+    )?.value;
+};
+
 interface QCModalProps {
     open: boolean;
     onClose: () => void;
@@ -42,7 +70,7 @@ interface QCModalProps {
         deliveryDate: string;
         status: string;
     };
-    onSave: (damageCounts: { [recordId: number]: number }) => Promise<void>;
+    onSave: (damageCounts: { [recordId: number]: number }, reworks: CreateReworkRecordRequest[]) => Promise<void>;
 }
 
 const QCModal: React.FC<QCModalProps> = ({
@@ -53,6 +81,10 @@ const QCModal: React.FC<QCModalProps> = ({
 }) => {
     const [records, setRecords] = useState<OrderRecord[]>([]);
     const [damageCounts, setDamageCounts] = useState<{ [recordId: number]: number }>({});
+    const [reworks, setReworks] = useState<{ [recordId: number]: ReworkForm }>({});
+    const [washTypeOptions, setWashTypeOptions] = useState<TypeOption[]>([]);
+    const [processTypeOptions, setProcessTypeOptions] = useState<TypeOption[]>([]);
+    const [recordErrors, setRecordErrors] = useState<{ [recordId: number]: string }>({});
     const [loading, setLoading] = useState(false);
     const [saving, setSaving] = useState(false);
     const [error, setError] = useState<string | null>(null);
@@ -62,8 +94,12 @@ const QCModal: React.FC<QCModalProps> = ({
             setLoading(true);
             setError(null);
 
-            // Fetch order details which includes records
-            const response = await orderService.getOrderDetails(order.id);
+            // Fetch order details which includes records, and the types a rework can be sent back with
+            const [response, washingTypesResponse, processTypesResponse] = await Promise.all([
+                orderService.getOrderDetails(order.id),
+                washingTypeService.getWashingTypes({ limit: 100 }),
+                processTypeService.getProcessTypesList()
+            ]);
 
             if (!response.success || !response.data) {
                 throw new Error('Failed to fetch order details');
@@ -72,12 +108,42 @@ const QCModal: React.FC<QCModalProps> = ({
             const orderRecords = response.data.records || [];
             setRecords(orderRecords);
 
-            // Initialize damage counts (start with 0 for all records)
+            // Start from the counts saved at an earlier QC - an order comes back here after its re-wash,
+            // and saving replaces the counts, so starting at 0 would wipe the first round's damage
             const initialDamageCounts: { [recordId: number]: number } = {};
             orderRecords.forEach((record: OrderRecord) => {
-                initialDamageCounts[record.id] = 0; // Initialize with 0 since damageCount is not in OrderDetailsRecord
+                initialDamageCounts[record.id] = record.damageCount || 0;
             });
             setDamageCounts(initialDamageCounts);
+
+            const washOptions = washingTypesResponse.data.washingTypes.map(washType => ({
+                value: washType.id,
+                label: `${washType.name} (${washType.code})`,
+                name: washType.name
+            }));
+            const processOptions = processTypesResponse.data.map(processType => ({
+                value: processType.value.toString(),
+                label: processType.label,
+                name: processType.name
+            }));
+            setWashTypeOptions(washOptions);
+            setProcessTypeOptions(processOptions);
+
+            // Re-wash defaults to the same wash and processes as the original record
+            const initialReworks: { [recordId: number]: ReworkForm } = {};
+            orderRecords.forEach((record: OrderRecord) => {
+                const processTypes = Array.isArray(record.processTypes) ? record.processTypes : [record.processTypes];
+                initialReworks[record.id] = {
+                    quantity: 0,
+                    washType: findTypeValue(washOptions, record.washType || '') || '',
+                    processTypes: processTypes
+                        .map(processType => findTypeValue(processOptions, processType))
+                        .filter((value): value is string => !!value),
+                    reason: ''
+                };
+            });
+            setReworks(initialReworks);
+            setRecordErrors({});
         } catch (err) {
             console.error('Error fetching order records:', err);
             setError('Failed to fetch order records');
@@ -100,10 +166,42 @@ const QCModal: React.FC<QCModalProps> = ({
         }));
     };
 
+    const handleReworkChange = (recordId: number, changes: Partial<ReworkForm>) => {
+        setReworks(prev => ({
+            ...prev,
+            [recordId]: { ...prev[recordId], ...changes }
+        }));
+    };
+
     const handleSave = async () => {
+        const errors: { [recordId: number]: string } = {};
+        records.forEach(record => {
+            const damage = damageCounts[record.id] || 0;
+            const rework = reworks[record.id];
+            if (damage < 0 || (rework?.quantity || 0) < 0) {
+                errors[record.id] = 'Counts cannot be negative';
+            } else if (damage + (rework?.quantity || 0) > record.quantity) {
+                errors[record.id] = `Damaged and re-wash pieces can't exceed ${record.quantity}`;
+            } else if (rework?.quantity > 0 && !rework.washType) {
+                errors[record.id] = 'Select a wash type for the re-wash';
+            }
+        });
+        setRecordErrors(errors);
+        if (Object.keys(errors).length > 0) return;
+
+        const reworkRequests: CreateReworkRecordRequest[] = records
+            .filter(record => (reworks[record.id]?.quantity || 0) > 0)
+            .map(record => ({
+                parentRecordId: record.id,
+                quantity: reworks[record.id].quantity,
+                washType: reworks[record.id].washType,
+                processTypes: reworks[record.id].processTypes,
+                reason: reworks[record.id].reason.trim() || undefined
+            }));
+
         try {
             setSaving(true);
-            await onSave(damageCounts);
+            await onSave(damageCounts, reworkRequests);
         } catch (err) {
             console.error('Error saving damage counts:', err);
         } finally {
@@ -113,6 +211,8 @@ const QCModal: React.FC<QCModalProps> = ({
 
     const handleClose = () => {
         setDamageCounts({});
+        setReworks({});
+        setRecordErrors({});
         setError(null);
         onClose();
     };
@@ -190,7 +290,7 @@ const QCModal: React.FC<QCModalProps> = ({
                         {/* Records List */}
                         <Box sx={{ mb: 2 }}>
                             <Typography variant="subtitle2" color={colors.text.primary} sx={{ mb: 2, fontWeight: 600 }}>
-                                Order Records - Damage Count
+                                Order Records - Damage and Re-wash
                             </Typography>
 
                             {records.length === 0 ? (
@@ -215,6 +315,13 @@ const QCModal: React.FC<QCModalProps> = ({
                                                 <Box>
                                                     <Typography variant="body2" fontWeight={600} color={colors.text.primary}>
                                                         Tracking ID: {record.trackingNumber}
+                                                        {isReworkRecord(record) && (
+                                                            <Chip
+                                                                label={`Rework of ${records.find(parent => parent.id === record.parentRecordId)?.trackingNumber || 'earlier record'}`}
+                                                                size="small"
+                                                                sx={{ ml: 1, fontSize: '0.7rem', backgroundColor: '#fef3c7', color: '#92400e' }}
+                                                            />
+                                                        )}
                                                     </Typography>
                                                     <Typography variant="body2" color={colors.text.secondary} sx={{ mt: 0.5 }}>
                                                         Wash Type: {record.washType}
@@ -262,6 +369,68 @@ const QCModal: React.FC<QCModalProps> = ({
                                                     Max: {record.quantity}
                                                 </Typography>
                                             </Box>
+
+                                            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mt: 1.5 }}>
+                                                <Typography variant="body2" color={colors.text.secondary} sx={{ minWidth: '120px' }}>
+                                                    Re-wash:
+                                                </Typography>
+                                                <TextField
+                                                    type="number"
+                                                    size="small"
+                                                    value={reworks[record.id]?.quantity || 0}
+                                                    onChange={(e) => handleReworkChange(record.id, { quantity: parseInt(e.target.value) || 0 })}
+                                                    inputProps={{
+                                                        min: 0,
+                                                        max: record.quantity || 0,
+                                                        step: 1,
+                                                        pattern: '[0-9]*'
+                                                    }}
+                                                    sx={{
+                                                        width: '120px',
+                                                        '& .MuiOutlinedInput-root': {
+                                                            borderRadius: '8px'
+                                                        },
+                                                        '& input': {
+                                                            textAlign: 'center'
+                                                        }
+                                                    }}
+                                                />
+                                                <Typography variant="caption" color={colors.text.secondary}>
+                                                    Pieces go back to production under a new tracking number
+                                                </Typography>
+                                            </Box>
+
+                                            {(reworks[record.id]?.quantity || 0) > 0 && (
+                                                <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '1fr 1fr 1fr' }, gap: 2, mt: 2 }}>
+                                                    <PrimaryDropdown
+                                                        name="washType"
+                                                        value={reworks[record.id].washType}
+                                                        onChange={(e) => handleReworkChange(record.id, { washType: e.target.value })}
+                                                        options={washTypeOptions}
+                                                        placeholder="Wash Type"
+                                                    />
+                                                    <PrimaryMultiSelect
+                                                        name="processTypes"
+                                                        value={reworks[record.id].processTypes}
+                                                        onChange={(e) => handleReworkChange(record.id, { processTypes: e.target.value })}
+                                                        options={processTypeOptions}
+                                                        placeholder="Process Types"
+                                                    />
+                                                    <TextField
+                                                        size="small"
+                                                        placeholder="Reason (optional)"
+                                                        value={reworks[record.id].reason}
+                                                        onChange={(e) => handleReworkChange(record.id, { reason: e.target.value })}
+                                                        sx={{ '& .MuiOutlinedInput-root': { borderRadius: '8px' } }}
+                                                    />
+                                                </Box>
+                                            )}
+
+                                            {recordErrors[record.id] && (
+                                                <Typography variant="caption" color="error" sx={{ display: 'block', mt: 1 }}>
+                                                    {recordErrors[record.id]}
+                                                </Typography>
+                                            )}
                                         </Box>
                                     ))}
                                 </Box>
@@ -294,7 +463,7 @@ const QCModal: React.FC<QCModalProps> = ({
                     disabled={saving || loading}
                     style={{ minWidth: 140 }}
                 >
-                    {saving ? 'Saving...' : 'Save Damage Counts'}
+                    {saving ? 'Saving...' : 'Save QC Results'}
                 </PrimaryButton>
             </DialogActions>
         </Dialog>
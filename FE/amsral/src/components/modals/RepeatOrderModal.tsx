@@ -0,0 +1,521 @@
+import React, { useState, useEffect } from 'react';
+import {
+    Dialog,
+    DialogTitle,
+    DialogContent,
+    DialogActions,
+    Box,
+    Typography,
+    TextField,
+    Tabs,
+    Tab,
+    Table,
+    TableBody,
+    TableCell,
+    TableContainer,
+    TableHead,
+    TableRow,
+    IconButton,
+    Tooltip,
+    CircularProgress
+} from '@mui/material';
+import { Delete as DeleteIcon, Close as CloseIcon } from '@mui/icons-material';
+import PrimaryButton from '../common/PrimaryButton';
+import PrimaryDropdown from '../common/PrimaryDropdown';
+import colors from '../../styles/colors';
+import { type OrderTemplate, type OrderTemplateRecord } from '../../services/orderTemplateService';
+import {
+    useCustomers,
+    useItems,
+    useOrderTemplates,
+    useSaveOrderTemplate,
+    useDeleteOrderTemplate,
+    useRepeatOrder
+} from '../../hooks/useOrders';
+import { useOrder, useWashingTypes, useProcessTypes } from '../../hooks/useOrderRecords';
+import { getTemplateRecordsFromOrder } from '../../utils/orderTemplateUtils';
+
+interface RepeatOrderModalProps {
+    open: boolean;
+    onClose: () => void;
+    sourceOrderId?: number | null; // Past order to repeat, when opened from the orders list
+}
+
+type RepeatSource = 'template' | 'order';
+
+// What the new order will be created from, with quantities the user can adjust
+interface OrderDraft {
+    sourceLabel: string;
+    customerId: string;
+    itemId: string;
+    notes: string;
+    records: OrderTemplateRecord[];
+}
+
+const getToday = () => new Date().toISOString().split('T')[0];
+const getDefaultDeliveryDate = () => new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]; // 2 weeks from now
+
+const RepeatOrderModal: React.FC<RepeatOrderModalProps> = ({
+    open,
+    onClose,
+    sourceOrderId
+}) => {
+    const [source, setSource] = useState<RepeatSource>('template');
+    const [customerId, setCustomerId] = useState('');
+    const [orderNumber, setOrderNumber] = useState('');
+    const [loadedOrderId, setLoadedOrderId] = useState<number | null>(null);
+    const [draft, setDraft] = useState<OrderDraft | null>(null);
+    const [date, setDate] = useState(getToday());
+    const [deliveryDate, setDeliveryDate] = useState(getDefaultDeliveryDate());
+    const [templateName, setTemplateName] = useState('');
+    const [errors, setErrors] = useState<{ [key: string]: string }>({});
+
+    const { data: customerOptions = [] } = useCustomers();
+    const { data: itemOptions = [] } = useItems();
+    const { data: washTypeOptions = [] } = useWashingTypes();
+    const { data: processTypeOptions = [] } = useProcessTypes();
+    const { data: templates = [], isLoading: templatesLoading } = useOrderTemplates(source === 'template' ? customerId : null);
+    const { data: loadedOrder, isLoading: orderLoading, error: orderError } = useOrder(loadedOrderId || 0);
+
+    const saveTemplateMutation = useSaveOrderTemplate();
+    const deleteTemplateMutation = useDeleteOrderTemplate();
+    const repeatOrderMutation = useRepeatOrder();
+
+    // Start fresh each time the modal opens, on the past order if one was picked
+    useEffect(() => {
+        if (!open) return;
+
+        setSource(sourceOrderId ? 'order' : 'template');
+        setCustomerId('');
+        setOrderNumber(sourceOrderId ? sourceOrderId.toString() : '');
+        setLoadedOrderId(sourceOrderId || null);
+        setDraft(null);
+        setDate(getToday());
+        setDeliveryDate(getDefaultDeliveryDate());
+        setTemplateName('');
+        setErrors({});
+    }, [open, sourceOrderId]);
+
+    // Past orders become a draft once loaded
+    useEffect(() => {
+        if (source !== 'order' || !loadedOrder || loadedOrder.id !== loadedOrderId) return;
+
+        setDraft({
+            sourceLabel: `Order #${loadedOrder.id}${loadedOrder.referenceNo ? ` (${loadedOrder.referenceNo})` : ''}`,
+            customerId: loadedOrder.customerId?.toString() || '',
+            itemId: loadedOrder.itemId?.toString() || '',
+            notes: loadedOrder.notes || '',
+            records: getTemplateRecordsFromOrder(loadedOrder.records || [], washTypeOptions, processTypeOptions),
+        });
+    }, [source, loadedOrder, loadedOrderId, washTypeOptions, processTypeOptions]);
+
+    const getOptionLabel = (options: { value: string; label: string }[], value: string) =>
+        options.find(option => option.value === value)?.label || value;
+
+    const totalQuantity = draft ? draft.records.reduce((total, record) => total + record.quantity, 0) : 0;
+
+    const handleSourceChange = (newSource: RepeatSource) => {
+        setSource(newSource);
+        setDraft(null);
+        setErrors({});
+    };
+
+    const handleLoadOrder = () => {
+        const orderId = parseInt(orderNumber);
+        if (!orderId || orderId <= 0) {
+            setErrors({ orderNumber: 'Enter an order number' });
+            return;
+        }
+        setErrors({});
+        if (orderId !== loadedOrderId) {
+            setDraft(null);
+            setLoadedOrderId(orderId);
+        }
+    };
+
+    const handleUseTemplate = (template: OrderTemplate) => {
+        setDraft({
+            sourceLabel: `Template "${template.name}"`,
+            customerId: template.customerId,
+            itemId: template.itemId,
+            notes: template.notes || '',
+            records: template.records.map(record => ({ ...record })),
+        });
+        setErrors({});
+    };
+
+    const handleQuantityChange = (index: number, value: string) => {
+        setDraft(prev => prev && {
+            ...prev,
+            records: prev.records.map((record, recordIndex) =>
+                recordIndex === index ? { ...record, quantity: Math.max(0, Math.floor(Number(value) || 0)) } : record
+            ),
+        });
+    };
+
+    const handleRemoveRecord = (index: number) => {
+        setDraft(prev => prev && { ...prev, records: prev.records.filter((_, recordIndex) => recordIndex !== index) });
+    };
+
+    const validate = () => {
+        const newErrors: { [key: string]: string } = {};
+        if (!draft) return newErrors;
+
+        if (draft.records.length === 0) newErrors.records = 'The order needs at least one record';
+        if (draft.records.some(record => record.quantity <= 0)) newErrors.records = 'Every record needs a quantity greater than 0';
+        if (!date) newErrors.date = 'Date is required';
+        if (!deliveryDate) newErrors.deliveryDate = 'Delivery date is required';
+        else if (deliveryDate < date) newErrors.deliveryDate = 'Delivery date cannot be before the order date';
+
+        return newErrors;
+    };
+
+    const handleCreate = () => {
+        if (!draft) return;
+
+        const validation = validate();
+        setErrors(validation);
+        if (Object.keys(validation).length > 0) return;
+
+        repeatOrderMutation.mutate(
+            {
+                orderData: {
+                    date,
+                    customerId: draft.customerId,
+                    itemId: draft.itemId,
+                    quantity: totalQuantity,
+                    notes: draft.notes || undefined,
+                    deliveryDate,
+                    records: [],
+                },
+                records: draft.records,
+            },
+            { onSuccess: () => onClose() }
+        );
+    };
+
+    const handleSaveTemplate = () => {
+        if (!draft) return;
+
+        if (!templateName.trim()) {
+            setErrors({ templateName: 'Template name is required' });
+            return;
+        }
+        if (draft.records.length === 0 || draft.records.some(record => record.quantity <= 0)) {
+            setErrors({ records: 'Every record needs a quantity greater than 0' });
+            return;
+        }
+
+        saveTemplateMutation.mutate(
+            {
+                customerId: draft.customerId,
+                name: templateName.trim(),
+                itemId: draft.itemId,
+                notes: draft.notes || undefined,
+                records: draft.records,
+            },
+            { onSuccess: () => setTemplateName('') }
+        );
+    };
+
+    const renderTemplates = () => {
+        if (!customerId) {
+            return (
+                <Typography variant="body2" color={colors.text.secondary}>
+                    Choose a customer to see their templates.
+                </Typography>
+            );
+        }
+        if (templatesLoading) {
+            return (
+                <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+                    <CircularProgress size={24} />
+                </Box>
+            );
+        }
+        if (templates.length === 0) {
+            return (
+                <Typography variant="body2" color={colors.text.secondary}>
+                    No templates yet. Repeat a past order of this customer and save it as a template.
+                </Typography>
+            );
+        }
+
+        return (
+            <TableContainer sx={{ border: `1px solid ${colors.border.light}`, borderRadius: '8px', maxHeight: 240 }}>
+                <Table size="small" stickyHeader>
+                    <TableHead>
+                        <TableRow>
+                            <TableCell>Template</TableCell>
+                            <TableCell>Item</TableCell>
+                            <TableCell align="right">Records</TableCell>
+                            <TableCell align="right">Total Qty</TableCell>
+                            <TableCell align="right" />
+                        </TableRow>
+                    </TableHead>
+                    <TableBody>
+                        {templates.map(template => (
+                            <TableRow key={template.id} hover>
+                                <TableCell>{template.name}</TableCell>
+                                <TableCell>{template.itemName || getOptionLabel(itemOptions, template.itemId)}</TableCell>
+                                <TableCell align="right">{template.records.length}</TableCell>
+                                <TableCell align="right">
+                                    {template.records.reduce((total, record) => total + record.quantity, 0)}
+                                </TableCell>
+                                <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                                    <PrimaryButton
+                                        onClick={() => handleUseTemplate(template)}
+                                        style={{ width: 'auto', minWidth: 70, padding: '4px 12px', fontSize: '13px' }}
+                                    >
+                                        Use
+                                    </PrimaryButton>
+                                    <Tooltip title="Delete template">
+                                        <IconButton
+                                            size="small"
+                                            onClick={() => deleteTemplateMutation.mutate(template)}
+                                            disabled={deleteTemplateMutation.isPending}
+                                            sx={{ ml: 1, color: colors.error }}
+                                        >
+                                            <DeleteIcon fontSize="small" />
+                                        </IconButton>
+                                    </Tooltip>
+                                </TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            </TableContainer>
+        );
+    };
+
+    const renderDraft = () => {
+        if (!draft) return null;
+
+        return (
+            <Box sx={{ mt: 3 }}>
+                <Typography variant="subtitle1" fontWeight={600} color={colors.text.primary}>
+                    New order from {draft.sourceLabel}
+                </Typography>
+                <Typography variant="body2" color={colors.text.secondary} sx={{ mb: 2 }}>
+                    {getOptionLabel(customerOptions, draft.customerId)} · {getOptionLabel(itemOptions, draft.itemId)} · {totalQuantity} pcs.
+                    Records get new tracking numbers.
+                </Typography>
+
+                <TableContainer sx={{ border: `1px solid ${colors.border.light}`, borderRadius: '8px', mb: 1 }}>
+                    <Table size="small">
+                        <TableHead>
+                            <TableRow>
+                                <TableCell>Wash Type</TableCell>
+                                <TableCell>Process Types</TableCell>
+                                <TableCell align="right" sx={{ width: 140 }}>Quantity</TableCell>
+                                <TableCell sx={{ width: 48 }} />
+                            </TableRow>
+                        </TableHead>
+                        <TableBody>
+                            {draft.records.map((record, index) => (
+                                <TableRow key={index}>
+                                    <TableCell>{washTypeOptions.find(option => option.value === record.washType)?.name || record.washType}</TableCell>
+                                    <TableCell>
+                                        {record.processTypes.map(processType => getOptionLabel(processTypeOptions, processType)).join(', ') || '-'}
+                                    </TableCell>
+                                    <TableCell align="right">
+                                        <TextField
+                                            type="number"
+                                            size="small"
+                                            value={record.quantity}
+                                            onChange={(e) => handleQuantityChange(index, e.target.value)}
+                                            inputProps={{ min: 1, style: { textAlign: 'right' } }}
+                                        />
+                                    </TableCell>
+                                    <TableCell>
+                                        <IconButton size="small" onClick={() => handleRemoveRecord(index)}>
+                                            <CloseIcon fontSize="small" />
+                                        </IconButton>
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </TableContainer>
+                {errors.records && <span className="text-xs text-red-500">{errors.records}</span>}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-3">
+                    <TextField
+                        label="Order Date"
+                        type="date"
+                        value={date}
+                        onChange={(e) => setDate(e.target.value)}
+                        InputLabelProps={{ shrink: true }}
+                        size="small"
+                        fullWidth
+                        error={!!errors.date}
+                        helperText={errors.date}
+                    />
+                    <TextField
+                        label="Delivery Date"
+                        type="date"
+                        value={deliveryDate}
+                        onChange={(e) => setDeliveryDate(e.target.value)}
+                        InputLabelProps={{ shrink: true }}
+                        size="small"
+                        fullWidth
+                        error={!!errors.deliveryDate}
+                        helperText={errors.deliveryDate}
+                    />
+                </div>
+
+                {source === 'order' && (
+                    <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 2, mt: 3 }}>
+                        <TextField
+                            label="Save this breakdown as a template"
+                            placeholder="e.g. Weekly denim - heavy wash"
+                            value={templateName}
+                            onChange={(e) => setTemplateName(e.target.value)}
+                            size="small"
+                            fullWidth
+                            error={!!errors.templateName}
+                            helperText={errors.templateName}
+                        />
+                        <PrimaryButton
+                            onClick={handleSaveTemplate}
+                            disabled={saveTemplateMutation.isPending}
+                            style={{
+                                backgroundColor: colors.primary[100],
+                                color: colors.text.primary,
+                                width: 'auto',
+                                minWidth: 150
+                            }}
+                        >
+                            {saveTemplateMutation.isPending ? 'Saving...' : 'Save Template'}
+                        </PrimaryButton>
+                    </Box>
+                )}
+            </Box>
+        );
+    };
+
+    return (
+        <Dialog
+            open={open}
+            onClose={repeatOrderMutation.isPending ? undefined : onClose}
+            maxWidth="md"
+            fullWidth
+            PaperProps={{
+                sx: {
+                    borderRadius: '12px',
+                    boxShadow: '0 10px 25px rgba(0, 0, 0, 0.1)'
+                }
+            }}
+        >
+            <DialogTitle sx={{
+                pb: 1,
+                borderBottom: `1px solid ${colors.border.light}`,
+                backgroundColor: colors.background.card
+            }}>
+                <Typography variant="h6" fontWeight={600} color={colors.text.primary}>
+                    Repeat Order
+                </Typography>
+                <Typography variant="body2" color={colors.text.secondary} sx={{ mt: 0.5 }}>
+                    Create an order with the same item, wash and process breakdown as before
+                </Typography>
+            </DialogTitle>
+
+            <DialogContent sx={{ py: 3 }}>
+                <Tabs
+                    value={source}
+                    onChange={(_, newValue) => handleSourceChange(newValue)}
+                    sx={{
+                        mb: 2,
+                        '& .MuiTab-root': {
+                            textTransform: 'none',
+                            fontWeight: 500,
+                        }
+                    }}
+                >
+                    <Tab label="From Template" value="template" />
+                    <Tab label="Clone Past Order" value="order" />
+                </Tabs>
+
+                {source === 'template' ? (
+                    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+                        <PrimaryDropdown
+                            value={customerId}
+                            onChange={(e) => {
+                                setCustomerId(e.target.value);
+                                setDraft(null);
+                            }}
+                            placeholder="Select customer"
+                            options={customerOptions}
+                        />
+                        {renderTemplates()}
+                    </Box>
+                ) : (
+                    <Box>
+                        <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 2 }}>
+                            <TextField
+                                label="Order number"
+                                value={orderNumber}
+                                onChange={(e) => setOrderNumber(e.target.value.replace(/\D/g, ''))}
+                                onKeyDown={(e) => e.key === 'Enter' && handleLoadOrder()}
+                                size="small"
+                                error={!!errors.orderNumber}
+                                helperText={errors.orderNumber}
+                            />
+                            <PrimaryButton
+                                onClick={handleLoadOrder}
+                                style={{ width: 'auto', minWidth: 100 }}
+                            >
+                                Load
+                            </PrimaryButton>
+                        </Box>
+                        {loadedOrderId && orderLoading && (
+                            <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+                                <CircularProgress size={24} />
+                            </Box>
+                        )}
+                        {loadedOrderId && orderError && !orderLoading && (
+                            <Typography variant="body2" color="error" sx={{ mt: 2 }}>
+                                Order #{loadedOrderId} could not be loaded
+                            </Typography>
+                        )}
+                    </Box>
+                )}
+
+                {renderDraft()}
+            </DialogContent>
+
+            <DialogActions sx={{
+                p: 3,
+                borderTop: `1px solid ${colors.border.light}`,
+                backgroundColor: colors.background.card
+            }}>
+                <PrimaryButton
+                    onClick={onClose}
+                    disabled={repeatOrderMutation.isPending}
+                    style={{
+                        backgroundColor: colors.text.muted,
+                        color: colors.text.white,
+                        width: 'auto',
+                        minWidth: 100
+                    }}
+                >
+                    Cancel
+                </PrimaryButton>
+                <PrimaryButton
+                    onClick={handleCreate}
+                    disabled={!draft || repeatOrderMutation.isPending}
+                    style={{
+                        backgroundColor: colors.button.primary,
+                        color: colors.text.white,
+                        width: 'auto',
+                        minWidth: 160
+                    }}
+                >
+                    {repeatOrderMutation.isPending ? 'Creating...' : 'Create Order'}
+                </PrimaryButton>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default RepeatOrderModal;
@@ -0,0 +1,135 @@
+import React, { useState, useEffect } from 'react';
+import {
+    Dialog,
+    DialogTitle,
+    DialogContent,
+    DialogActions,
+    Typography,
+    TextField,
+    Alert
+} from '@mui/material';
+import PrimaryButton from '../common/PrimaryButton';
+import colors from '../../styles/colors';
+import { type Invoice } from '../../services/billingService';
+import { useVoidInvoice } from '../../hooks/useBilling';
+
+interface VoidInvoiceModalProps {
+    open: boolean;
+    onClose: () => void;
+    invoice: Invoice | null;
+}
+
+const VoidInvoiceModal: React.FC<VoidInvoiceModalProps> = ({
+    open,
+    onClose,
+    invoice
+}) => {
+    const [reason, setReason] = useState('');
+    const [error, setError] = useState('');
+
+    const voidInvoiceMutation = useVoidInvoice();
+
+    useEffect(() => {
+        if (open) {
+            setReason('');
+            setError('');
+        }
+    }, [open]);
+
+    const handleVoid = async () => {
+        if (!invoice) return;
+
+        if (!reason.trim()) {
+            setError('Reason is required');
+            return;
+        }
+
+        try {
+            await voidInvoiceMutation.mutateAsync({ invoiceId: invoice.id, reason: reason.trim() });
+            onClose();
+        } catch (voidError) {
+            console.error('Error voiding invoice:', voidError);
+        }
+    };
+
+    if (!invoice) return null;
+
+    return (
+        <Dialog
+            open={open}
+            onClose={onClose}
+            maxWidth="sm"
+            fullWidth
+            PaperProps={{
+                sx: {
+                    borderRadius: '12px',
+                    boxShadow: '0 10px 25px rgba(0, 0, 0, 0.1)'
+                }
+            }}
+        >
+            <DialogTitle sx={{
+                pb: 1,
+                borderBottom: `1px solid ${colors.border.light}`,
+                backgroundColor: colors.background.card
+            }}>
+                <Typography variant="h6" fontWeight={600} color={colors.text.primary}>
+                    Void Invoice
+                </Typography>
+                <Typography variant="body2" color={colors.text.secondary} sx={{ mt: 0.5 }}>
+                    Invoice #{invoice.invoiceNumber} - {invoice.customerName} - Rs. {invoice.total.toFixed(2)}
+                </Typography>
+            </DialogTitle>
+
+            <DialogContent sx={{ py: 3 }}>
+                <Alert severity="warning" sx={{ mt: 2, mb: 2 }}>
+                    The invoice and its number stay on record marked void, and its orders go back to pending billing.
+                    This cannot be undone.
+                </Alert>
+                <TextField
+                    label="Reason"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    error={!!error}
+                    helperText={error}
+                    placeholder="e.g. Raised against the wrong customer"
+                    multiline
+                    rows={3}
+                    fullWidth
+                />
+            </DialogContent>
+
+            <DialogActions sx={{
+                p: 3,
+                borderTop: `1px solid ${colors.border.light}`,
+                backgroundColor: colors.background.card
+            }}>
+                <PrimaryButton
+                    onClick={onClose}
+                    disabled={voidInvoiceMutation.isPending}
+                    style={{
+                        backgroundColor: colors.text.muted,
+                        color: colors.text.white,
+                        width: 'auto',
+                        minWidth: 100
+                    }}
+                >
+                    Cancel
+                </PrimaryButton>
+                <PrimaryButton
+                    onClick={handleVoid}
+                    disabled={voidInvoiceMutation.isPending}
+                    style={{
+                        backgroundColor: colors.error,
+                        color: colors.text.white,
+                        width: 'auto',
+                        minWidth: 140
+                    }}
+                >
+                    {voidInvoiceMutation.isPending ? 'Voiding...' : 'Void Invoice'}
+                </PrimaryButton>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default VoidInvoiceModal;
@@ -0,0 +1,263 @@
+import React, { useState } from 'react';
+import {
+    Box,
+    Typography,
+    Alert,
+    TextField,
+    Dialog,
+    DialogTitle,
+    DialogContent,
+    DialogActions,
+    Table,
+    TableBody,
+    TableCell,
+    TableContainer,
+    TableHead,
+    TableRow,
+    CircularProgress
+} from '@mui/material';
+import PrimaryButton from '../common/PrimaryButton';
+import colors from '../../styles/colors';
+import { useOrderReconciliation, useOverrideQuantityCheck } from '../../hooks/useOrders';
+import { useAuth } from '../../hooks/useAuth';
+import { hasPermission } from '../../utils/roleUtils';
+import { isQuantityCheckBlocked, type QuantityFlow } from '../../utils/reconciliationUtils';
+
+interface QuantityReconciliationProps {
+    orderId: number;
+    showRecords?: boolean; // Break the flow down per record, off where only the verdict matters
+}
+
+const STAGES: { key: keyof QuantityFlow; label: string }[] = [
+    { key: 'received', label: 'Received' },
+    { key: 'assigned', label: 'Assigned' },
+    { key: 'returned', label: 'Returned' },
+    { key: 'damaged', label: 'Damaged' },
+    { key: 'delivered', label: 'Delivered' },
+];
+
+const QuantityReconciliation: React.FC<QuantityReconciliationProps> = ({
+    orderId,
+    showRecords = false
+}) => {
+    const [overrideOpen, setOverrideOpen] = useState(false);
+    const [reason, setReason] = useState('');
+    const [reasonError, setReasonError] = useState('');
+
+    const { user } = useAuth();
+    const canOverride = hasPermission(user, 'canOverrideQuantities');
+    const { data: reconciliation, isLoading, isError } = useOrderReconciliation(orderId);
+    const overrideMutation = useOverrideQuantityCheck();
+
+    const handleOverride = async () => {
+        if (reason.trim().length < 10) {
+            setReasonError('Explain where the pieces went, at least 10 characters');
+            return;
+        }
+
+        try {
+            await overrideMutation.mutateAsync({ orderId, reason: reason.trim() });
+            setOverrideOpen(false);
+            setReason('');
+            setReasonError('');
+        } catch (error) {
+            // The mutation already shows the error
+            console.error('Error overriding quantity check:', error);
+        }
+    };
+
+    if (isLoading) {
+        return (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+                <CircularProgress size={24} />
+            </Box>
+        );
+    }
+
+    if (isError || !reconciliation) {
+        return (
+            <Typography variant="body2" color="error">
+                Could not reconcile the quantities for order #{orderId}
+            </Typography>
+        );
+    }
+
+    const blocked = isQuantityCheckBlocked(reconciliation);
+
+    return (
+        <Box>
+            <div className="grid grid-cols-3 sm:grid-cols-6 gap-2 mb-3">
+                {STAGES.map(stage => (
+                    <div key={stage.key} className="text-center p-2 rounded-lg" style={{ backgroundColor: colors.background.card, border: `1px solid ${colors.border.light}` }}>
+                        <div className="text-lg font-bold" style={{ color: colors.text.primary }}>{reconciliation[stage.key]}</div>
+                        <div className="text-xs" style={{ color: colors.text.secondary }}>{stage.label}</div>
+                    </div>
+                ))}
+                <div className={`text-center p-2 rounded-lg ${reconciliation.missingQuantity > 0 ? 'bg-red-50' : 'bg-green-50'}`}>
+                    <div className={`text-lg font-bold ${reconciliation.missingQuantity > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {reconciliation.missingQuantity}
+                    </div>
+                    <div className="text-xs" style={{ color: colors.text.secondary }}>Missing</div>
+                </div>
+            </div>
+
+            {reconciliation.declared > 0 && reconciliation.declared !== reconciliation.received && (
+                <Typography variant="body2" color={colors.text.secondary} sx={{ mb: 1 }}>
+                    Customer declared {reconciliation.declared} pcs, {reconciliation.received} pcs counted in on the goods receipt.
+                </Typography>
+            )}
+
+            {reconciliation.issues.length > 0 ? (
+                <Alert severity={blocked ? 'error' : 'warning'} sx={{ mb: 1 }}>
+                    <Typography variant="body2" fontWeight={600}>
+                        {blocked ? 'Quantities don\'t add up - delivery and billing are blocked' : 'Quantities don\'t add up'}
+                    </Typography>
+                    {reconciliation.issues.map((issue, index) => (
+                        <Typography key={index} variant="body2">
+                            • {issue.trackingNumber ? `${issue.trackingNumber}: ` : ''}{issue.message}
+                        </Typography>
+                    ))}
+                </Alert>
+            ) : (
+                <Alert severity="success" sx={{ mb: 1 }}>
+                    Every piece is accounted for
+                </Alert>
+            )}
+
+            {reconciliation.override && (
+                <Alert severity="info" sx={{ mb: 1 }}>
+                    Overridden by {reconciliation.override.overriddenBy} on {new Date(reconciliation.override.overriddenAt).toLocaleDateString()}: {reconciliation.override.reason}
+                </Alert>
+            )}
+
+            {blocked && (
+                canOverride ? (
+                    <PrimaryButton
+                        onClick={() => setOverrideOpen(true)}
+                        style={{
+                            backgroundColor: colors.primary[100],
+                            color: colors.text.primary,
+                            width: 'auto',
+                            minWidth: 160
+                        }}
+                    >
+                        Override Check
+                    </PrimaryButton>
+                ) : (
+                    <Typography variant="body2" color={colors.text.secondary}>
+                        Correct the counts, or ask a manager to override the check.
+                    </Typography>
+                )
+            )}
+
+            {showRecords && reconciliation.records.length > 0 && (
+                <TableContainer sx={{ border: `1px solid ${colors.border.light}`, borderRadius: '8px', mt: 2 }}>
+                    <Table size="small">
+                        <TableHead>
+                            <TableRow>
+                                <TableCell>Tracking No</TableCell>
+                                <TableCell align="right">Received</TableCell>
+                                <TableCell align="right">Assigned</TableCell>
+                                <TableCell align="right">Returned</TableCell>
+                                <TableCell align="right">Damaged</TableCell>
+                                <TableCell align="right">Re-wash</TableCell>
+                                <TableCell align="right">Delivered</TableCell>
+                                <TableCell align="right">In Production</TableCell>
+                                <TableCell align="right">To Deliver</TableCell>
+                            </TableRow>
+                        </TableHead>
+                        <TableBody>
+                            {reconciliation.records.map(record => (
+                                <TableRow key={record.recordId} sx={record.issues.length > 0 ? { backgroundColor: '#fef2f2' } : undefined}>
+                                    <TableCell>{record.trackingNumber}</TableCell>
+                                    <TableCell align="right">{record.received}</TableCell>
+                                    <TableCell align="right">{record.assigned}</TableCell>
+                                    <TableCell align="right">{record.returned}</TableCell>
+                                    <TableCell align="right">{record.damaged}</TableCell>
+                                    <TableCell align="right">{record.reworked}</TableCell>
+                                    <TableCell align="right">{record.delivered}</TableCell>
+                                    <TableCell align="right">{record.inProduction}</TableCell>
+                                    <TableCell align="right">{record.awaitingDelivery}</TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </TableContainer>
+            )}
+
+            <Dialog
+                open={overrideOpen}
+                onClose={overrideMutation.isPending ? undefined : () => setOverrideOpen(false)}
+                maxWidth="sm"
+                fullWidth
+                PaperProps={{
+                    sx: {
+                        borderRadius: '12px',
+                        boxShadow: '0 10px 25px rgba(0, 0, 0, 0.1)'
+                    }
+                }}
+            >
+                <DialogTitle sx={{
+                    pb: 1,
+                    borderBottom: `1px solid ${colors.border.light}`,
+                    backgroundColor: colors.background.card
+                }}>
+                    <Typography variant="h6" fontWeight={600} color={colors.text.primary}>
+                        Override Quantity Check - Order #{orderId}
+                    </Typography>
+                    <Typography variant="body2" color={colors.text.secondary} sx={{ mt: 0.5 }}>
+                        {reconciliation.missingQuantity > 0
+                            ? `${reconciliation.missingQuantity} pcs are unaccounted for. The order can then be delivered and billed as it is.`
+                            : 'The order can then be delivered and billed as it is.'}
+                    </Typography>
+                </DialogTitle>
+                <DialogContent sx={{ py: 3 }}>
+                    <TextField
+                        label="Reason"
+                        placeholder="e.g. 3 pcs torn in the machine, customer informed"
+                        value={reason}
+                        onChange={(e) => setReason(e.target.value)}
+                        error={!!reasonError}
+                        helperText={reasonError || 'Kept on the order with your name'}
+                        multiline
+                        minRows={3}
+                        fullWidth
+                        sx={{ mt: 2 }}
+                    />
+                </DialogContent>
+                <DialogActions sx={{
+                    p: 3,
+                    borderTop: `1px solid ${colors.border.light}`,
+                    backgroundColor: colors.background.card
+                }}>
+                    <PrimaryButton
+                        onClick={() => setOverrideOpen(false)}
+                        disabled={overrideMutation.isPending}
+                        style={{
+                            backgroundColor: colors.text.muted,
+                            color: colors.text.white,
+                            width: 'auto',
+                            minWidth: 100
+                        }}
+                    >
+                        Cancel
+                    </PrimaryButton>
+                    <PrimaryButton
+                        onClick={handleOverride}
+                        disabled={overrideMutation.isPending}
+                        style={{
+                            backgroundColor: colors.button.primary,
+                            color: colors.text.white,
+                            width: 'auto',
+                            minWidth: 160
+                        }}
+                    >
+                        {overrideMutation.isPending ? 'Saving...' : 'Override'}
+                    </PrimaryButton>
+                </DialogActions>
+            </Dialog>
+        </Box>
+    );
+};
+
+export default QuantityReconciliation;
@@ -11,6 +11,7 @@ interface SimpleOrderFormProps {
         itemId: string;
         quantity: string;
         gpNo: string;
+        poNumber: string;
         date: string;
         deliveryDate: string;
         notes: string;
@@ -169,6 +170,23 @@ const SimpleOrderForm: React.FC<SimpleOrderFormProps> = ({
                                 </div>
                             </div>
 
+                            {/* Customer PO */}
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-2">
+                                    Customer PO No (Optional)
+                                </label>
+                                <input
+                                    type="text"
+                                    name="poNumber"
+                                    value={form.poNumber}
+                                    onChange={onChange}
+                                    placeholder="Printed on the invoice"
+                                    className="w-full px-4 py-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-base"
+                                    style={{ borderColor: errors.poNumber ? '#ef4444' : colors.border.light }}
+                                />
+                                {errors.poNumber && <span className="text-xs text-red-500 mt-1 block">{errors.poNumber}</span>}
+                            </div>
+
                             {/* Notes */}
                             <div>
                                 <label className="block text-sm font-medium text-gray-700 mb-2">
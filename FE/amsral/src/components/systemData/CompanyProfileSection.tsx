@@ -0,0 +1,186 @@
+import { useEffect, useState } from 'react';
+import { CircularProgress } from '@mui/material';
+import toast from 'react-hot-toast';
+import PrimaryButton from '../common/PrimaryButton';
+import colors from '../../styles/colors';
+import { useCompanyProfile, useUpdateCompanyProfile } from '../../hooks/useSystemData';
+import { type CompanyProfile } from '../../services/companyProfileService';
+import { DEFAULT_COMPANY_PROFILE } from '../../utils/documentTemplateUtils';
+
+// Images are stored inline with the profile, so keep them small
+const MAX_IMAGE_BYTES = 500 * 1024;
+
+type ProfileTextField = Exclude<keyof CompanyProfile, 'logo' | 'signature'>;
+
+const textFields: { name: ProfileTextField; label: string; placeholder?: string; required?: boolean; multiline?: boolean }[] = [
+    { name: 'name', label: 'Company Name', required: true },
+    { name: 'tagline', label: 'Tagline', placeholder: 'e.g. (Specialist in Industrial Garment Washing)' },
+    { name: 'subTagline', label: 'Second Tagline', placeholder: 'e.g. Washing Plant & Finishing Plant' },
+    { name: 'address', label: 'Address', placeholder: 'One line per printed line', required: true, multiline: true },
+    { name: 'phone', label: 'Phone Numbers', placeholder: 'e.g. 0777 3107343 | 011 2731705' },
+    { name: 'email', label: 'Email' },
+    { name: 'vatNumber', label: 'VAT Reg No', placeholder: 'Printed on tax invoices' },
+];
+
+const bankFields: { name: ProfileTextField; label: string }[] = [
+    { name: 'bankName', label: 'Bank' },
+    { name: 'bankBranch', label: 'Branch' },
+    { name: 'accountName', label: 'Account Name' },
+    { name: 'accountNumber', label: 'Account Number' },
+];
+
+export default function CompanyProfileSection() {
+    const { data: companyProfile, isLoading } = useCompanyProfile();
+    const updateCompanyProfileMutation = useUpdateCompanyProfile();
+
+    const [form, setForm] = useState<CompanyProfile>(DEFAULT_COMPANY_PROFILE);
+    const [errors, setErrors] = useState<{ [key: string]: string }>({});
+
+    useEffect(() => {
+        if (companyProfile) {
+            setForm({ ...DEFAULT_COMPANY_PROFILE, ...companyProfile });
+        }
+    }, [companyProfile]);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+        const { name, value } = e.target;
+        setForm(prev => ({ ...prev, [name]: value }));
+    };
+
+    const handleImageChange = (field: 'logo' | 'signature') => (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        if (!['image/png', 'image/jpeg'].includes(file.type)) {
+            toast.error('Please choose a PNG or JPEG image');
+            return;
+        }
+        if (file.size > MAX_IMAGE_BYTES) {
+            toast.error('Image must be 500 KB or smaller');
+            return;
+        }
+
+        const reader = new FileReader();
+        reader.onload = () => setForm(prev => ({ ...prev, [field]: reader.result as string }));
+        reader.readAsDataURL(file);
+    };
+
+    const validate = () => {
+        const newErrors: { [key: string]: string } = {};
+        if (!form.name.trim()) newErrors.name = 'Company name is required';
+        if (!form.address.trim()) newErrors.address = 'Address is required';
+        if (form.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(form.email)) newErrors.email = 'Enter a valid email address';
+        return newErrors;
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const validation = validate();
+        setErrors(validation);
+        if (Object.keys(validation).length > 0) return;
+
+        updateCompanyProfileMutation.mutate({
+            ...form,
+            name: form.name.trim(),
+            address: form.address.trim(),
+        });
+    };
+
+    const renderTextField = (field: { name: ProfileTextField; label: string; placeholder?: string; required?: boolean; multiline?: boolean }) => {
+        const inputProps = {
+            name: field.name,
+            value: form[field.name] || '',
+            onChange: handleChange,
+            placeholder: field.placeholder,
+            className: `w-full px-4 py-3 border rounded-xl focus:outline-none text-base ${errors[field.name] ? 'border-red-500' : ''}`,
+            style: { borderColor: errors[field.name] ? colors.error : colors.border.light },
+        };
+
+        return (
+            <div key={field.name} className={`flex flex-col ${field.multiline ? 'md:col-span-2' : ''}`}>
+                <label className="block text-sm font-medium mb-2">
+                    {field.label} {field.required && <span className="text-red-500">*</span>}
+                </label>
+                {field.multiline ? <textarea rows={3} {...inputProps} /> : <input {...inputProps} />}
+                {errors[field.name] && <span className="text-xs text-red-500 mt-1">{errors[field.name]}</span>}
+            </div>
+        );
+    };
+
+    const renderImageField = (field: 'logo' | 'signature', label: string, hint: string) => (
+        <div className="flex flex-col">
+            <label className="block text-sm font-medium mb-2">{label}</label>
+            <div
+                className="flex items-center justify-center border rounded-xl mb-2"
+                style={{ borderColor: colors.border.light, height: 120, backgroundColor: colors.background.card }}
+            >
+                {form[field] ? (
+                    <img src={form[field]!} alt={label} style={{ maxHeight: 110, maxWidth: '90%', objectFit: 'contain' }} />
+                ) : (
+                    <span className="text-sm" style={{ color: colors.text.muted }}>{hint}</span>
+                )}
+            </div>
+            <div className="flex gap-2">
+                <input type="file" accept="image/png,image/jpeg" onChange={handleImageChange(field)} className="text-sm flex-1" />
+                {form[field] && (
+                    <PrimaryButton
+                        type="button"
+                        style={{ minWidth: 90, width: 'auto', background: colors.primary[100], color: colors.text.primary }}
+                        onClick={() => setForm(prev => ({ ...prev, [field]: null }))}
+                    >
+                        Remove
+                    </PrimaryButton>
+                )}
+            </div>
+        </div>
+    );
+
+    if (isLoading) {
+        return (
+            <div className="flex justify-center items-center py-12">
+                <CircularProgress size={40} />
+            </div>
+        );
+    }
+
+    return (
+        <div>
+            <div className="flex flex-col gap-2 sm:gap-3 mb-4">
+                <h3 className="text-lg md:text-xl font-semibold" style={{ color: colors.text.primary }}>
+                    Company Profile
+                </h3>
+                <p className="text-sm" style={{ color: colors.text.secondary }}>
+                    Printed as the letterhead on invoices, credit notes, statements, gatepasses and receipts.
+                </p>
+            </div>
+
+            <form onSubmit={handleSubmit} className="flex flex-col gap-6 bg-white rounded-lg border p-4 sm:p-6" style={{ borderColor: colors.border.light }}>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {textFields.map(renderTextField)}
+                </div>
+
+                <div>
+                    <h4 className="text-base font-semibold mb-3" style={{ color: colors.text.primary }}>Bank Details</h4>
+                    <p className="text-sm mb-3" style={{ color: colors.text.secondary }}>
+                        Printed on invoices when an account number is set.
+                    </p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {bankFields.map(renderTextField)}
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {renderImageField('logo', 'Logo', 'No logo - the letterhead is text only')}
+                    {renderImageField('signature', 'Signature', 'No signature - signed by hand')}
+                </div>
+
+                <div className="flex justify-end">
+                    <PrimaryButton type="submit" style={{ minWidth: 160, width: 'auto' }} disabled={updateCompanyProfileMutation.isPending}>
+                        {updateCompanyProfileMutation.isPending ? 'Saving...' : 'Save Profile'}
+                    </PrimaryButton>
+                </div>
+            </form>
+        </div>
+    );
+}
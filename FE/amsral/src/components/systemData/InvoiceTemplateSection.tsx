@@ -0,0 +1,177 @@
+import { useEffect, useState } from 'react';
+import { CircularProgress, FormControlLabel, Checkbox } from '@mui/material';
+import PrimaryButton from '../common/PrimaryButton';
+import PrimaryDropdown from '../common/PrimaryDropdown';
+import colors from '../../styles/colors';
+import { useDocumentSettings, useInvoiceTemplate, useUpdateInvoiceTemplate } from '../../hooks/useSystemData';
+import { type InvoiceTemplate, type PaperSize, type ReceiptSize } from '../../services/companyProfileService';
+import { DEFAULT_INVOICE_TEMPLATE, INVOICE_COLUMN_OPTIONS, PAPER_SIZE_OPTIONS, RECEIPT_SIZE_OPTIONS } from '../../utils/documentTemplateUtils';
+import { generateAmsralInvoice, type InvoiceData } from '../../utils/invoiceUtils';
+
+// Two orders with every optional column filled, to preview the layout
+const buildSampleInvoice = (includeStyleNo: boolean): InvoiceData => ({
+    invoiceNumber: 'SAMPLE-0001',
+    customerName: 'Sample Customer',
+    customerAddress: '',
+    customerPhone: '',
+    invoiceDate: new Date().toISOString().split('T')[0],
+    dueDate: new Date().toISOString().split('T')[0],
+    poNumber: 'PO-1234',
+    includeStyleNo,
+    orders: [1001, 1002].map((orderId, index) => ({
+        id: orderId,
+        referenceNo: `REF-${orderId}`,
+        orderDate: new Date().toISOString(),
+        gpNumber: `GP-${500 + index}`,
+        records: [{
+            id: index + 1,
+            orderId,
+            itemName: index === 0 ? 'Denim Trouser' : 'Denim Jacket',
+            quantity: 250,
+            unitPrice: 45,
+            totalPrice: 11250,
+            washType: 'Enzyme Wash',
+            processTypes: ['Tinting', 'Softener'],
+            styleNo: `ST-${7700 + index}`,
+        }],
+    })),
+    subtotal: 22500,
+    taxRate: 0,
+    taxAmount: 0,
+    total: 22500,
+});
+
+export default function InvoiceTemplateSection() {
+    const { data: invoiceTemplate, isLoading } = useInvoiceTemplate();
+    const updateInvoiceTemplateMutation = useUpdateInvoiceTemplate();
+    const documentSettings = useDocumentSettings();
+
+    const [form, setForm] = useState<InvoiceTemplate>(DEFAULT_INVOICE_TEMPLATE);
+
+    useEffect(() => {
+        if (invoiceTemplate) {
+            setForm({
+                ...DEFAULT_INVOICE_TEMPLATE,
+                ...invoiceTemplate,
+                columns: { ...DEFAULT_INVOICE_TEMPLATE.columns, ...invoiceTemplate.columns },
+            });
+        }
+    }, [invoiceTemplate]);
+
+    const handleColumnChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const { name, checked } = e.target;
+        setForm(prev => ({ ...prev, columns: { ...prev.columns, [name]: checked } }));
+    };
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+        const { name, value } = e.target;
+        setForm(prev => ({ ...prev, [name]: value }));
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        updateInvoiceTemplateMutation.mutate(form);
+    };
+
+    if (isLoading) {
+        return (
+            <div className="flex justify-center items-center py-12">
+                <CircularProgress size={40} />
+            </div>
+        );
+    }
+
+    return (
+        <div>
+            <div className="flex flex-col gap-2 sm:gap-3 mb-4">
+                <h3 className="text-lg md:text-xl font-semibold" style={{ color: colors.text.primary }}>
+                    Invoice Template
+                </h3>
+                <p className="text-sm" style={{ color: colors.text.secondary }}>
+                    Ref No, Item, Qty, Unit Price and Amount are always printed. Paper size and footer apply to every printed document.
+                </p>
+            </div>
+
+            <form onSubmit={handleSubmit} className="flex flex-col gap-6 bg-white rounded-lg border p-4 sm:p-6" style={{ borderColor: colors.border.light }}>
+                <div>
+                    <h4 className="text-base font-semibold mb-2" style={{ color: colors.text.primary }}>Invoice Columns</h4>
+                    <div className="grid grid-cols-1 md:grid-cols-2">
+                        {INVOICE_COLUMN_OPTIONS.map(option => (
+                            <FormControlLabel
+                                key={option.key}
+                                control={
+                                    <Checkbox
+                                        name={option.key}
+                                        checked={form.columns[option.key]}
+                                        onChange={handleColumnChange}
+                                        sx={{ color: colors.primary[500], '&.Mui-checked': { color: colors.primary[500] } }}
+                                    />
+                                }
+                                label={<span className="text-base">{option.label}</span>}
+                            />
+                        ))}
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="flex flex-col">
+                        <label className="block text-sm font-medium mb-2">Paper Size</label>
+                        <PrimaryDropdown
+                            value={form.paperSize}
+                            onChange={(e) => setForm(prev => ({ ...prev, paperSize: e.target.value as PaperSize }))}
+                            options={PAPER_SIZE_OPTIONS}
+                        />
+                    </div>
+
+                    <div className="flex flex-col">
+                        <label className="block text-sm font-medium mb-2">Order Receipt / GRN Size</label>
+                        <PrimaryDropdown
+                            value={form.receiptSize}
+                            onChange={(e) => setForm(prev => ({ ...prev, receiptSize: e.target.value as ReceiptSize }))}
+                            options={RECEIPT_SIZE_OPTIONS}
+                        />
+                    </div>
+
+                    <div className="flex flex-col">
+                        <label className="block text-sm font-medium mb-2">Footer Text</label>
+                        <input
+                            name="footerText"
+                            value={form.footerText}
+                            onChange={handleChange}
+                            placeholder="e.g. Thank you for your business"
+                            className="w-full px-4 py-3 border rounded-xl focus:outline-none text-base"
+                            style={{ borderColor: colors.border.light }}
+                        />
+                    </div>
+
+                    <div className="flex flex-col md:col-span-2">
+                        <label className="block text-sm font-medium mb-2">Terms</label>
+                        <textarea
+                            name="termsText"
+                            rows={3}
+                            value={form.termsText}
+                            onChange={handleChange}
+                            placeholder="Printed under the invoice totals"
+                            className="w-full px-4 py-3 border rounded-xl focus:outline-none text-base"
+                            style={{ borderColor: colors.border.light }}
+                        />
+                    </div>
+                </div>
+
+                <div className="flex gap-4 justify-end">
+                    <PrimaryButton
+                        type="button"
+                        style={{ minWidth: 160, width: 'auto', background: colors.primary[100], color: colors.text.primary }}
+                        disabled={!documentSettings}
+                        onClick={() => generateAmsralInvoice(buildSampleInvoice(form.columns.styleNo), { ...documentSettings!, template: form })}
+                    >
+                        Preview Invoice
+                    </PrimaryButton>
+                    <PrimaryButton type="submit" style={{ minWidth: 160, width: 'auto' }} disabled={updateInvoiceTemplateMutation.isPending}>
+                        {updateInvoiceTemplateMutation.isPending ? 'Saving...' : 'Save Template'}
+                    </PrimaryButton>
+                </div>
+            </form>
+        </div>
+    );
+}
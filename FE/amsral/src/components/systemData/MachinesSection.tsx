@@ -6,13 +6,17 @@ import PrimaryButton from '../common/PrimaryButton';
 import PrimaryTable from '../common/PrimaryTable';
 import PrimaryDropdown from '../common/PrimaryDropdown';
 import colors from '../../styles/colors';
+import MaintenanceLogModal from '../modals/MaintenanceLogModal';
 import {
     useMachines,
     useCreateMachine,
     useUpdateMachine,
-    useDeleteMachine
+    useDeleteMachine,
+    useMachineRunningHours
 } from '../../hooks/useSystemData';
 import { type MachineType } from '../../services/machineTypeService';
+import { type CapacityUnit, type MachineStatus } from '../../services/machineService';
+import { formatMachineCapacity } from '../../utils/machineUtils';
 
 
 const machineTypeOptions = [
@@ -20,10 +24,51 @@ const machineTypeOptions = [
     { value: 'Drying', label: 'Drying' },
 ];
 
-const getColumns = (onEdit: (machine: MachineType) => void, onDelete: (machine: MachineType) => void): GridColDef[] => [
+const capacityUnitOptions = [
+    { value: 'pcs', label: 'Pieces' },
+    { value: 'kg', label: 'Kilograms' },
+];
+
+const machineStatusOptions = [
+    { value: 'Active', label: 'Active' },
+    { value: 'Maintenance', label: 'Under Maintenance' },
+    { value: 'Retired', label: 'Retired' },
+];
+
+const machineStatusColors: Record<MachineStatus, string> = {
+    Active: 'bg-green-100 text-green-800',
+    Maintenance: 'bg-yellow-100 text-yellow-800',
+    Retired: 'bg-gray-100 text-gray-800',
+};
+
+const getColumns = (
+    onEdit: (machine: MachineType) => void,
+    onDelete: (machine: MachineType) => void,
+    onMaintenance: (machine: MachineType) => void,
+    runningHours: Record<string, number>
+): GridColDef[] => [
     { field: 'id', headerName: 'ID', flex: 0.6, minWidth: 80 },
     { field: 'name', headerName: 'Machine Name', flex: 1.5, minWidth: 150 },
     { field: 'type', headerName: 'Type', flex: 1, minWidth: 100 },
+    {
+        field: 'status', headerName: 'Status', flex: 1, minWidth: 130,
+        renderCell: (params) => {
+            const status: MachineStatus = params.row.status || 'Active';
+            return (
+                <span className={`px-2 py-1 rounded-lg text-xs font-semibold ${machineStatusColors[status]}`}>
+                    {machineStatusOptions.find(option => option.value === status)?.label || status}
+                </span>
+            );
+        }
+    },
+    {
+        field: 'capacity', headerName: 'Capacity', flex: 1, minWidth: 110,
+        valueGetter: (_value, row) => formatMachineCapacity(row as MachineType)
+    },
+    {
+        field: 'runningHours', headerName: 'Running Hours', flex: 1, minWidth: 120, sortable: false,
+        valueGetter: (_value, row) => runningHours[(row as MachineType).id] ?? '-'
+    },
     { field: 'description', headerName: 'Description', flex: 2.5, minWidth: 250 },
     {
         field: 'createdAt', headerName: 'Created At', flex: 1.2, minWidth: 140,
@@ -37,11 +82,18 @@ const getColumns = (onEdit: (machine: MachineType) => void, onDelete: (machine:
     {
         field: 'actions',
         headerName: 'Actions',
-        flex: 0.8,
-        minWidth: 120,
+        flex: 1,
+        minWidth: 150,
         sortable: false,
         renderCell: (params) => (
             <div className="flex gap-2">
+                <IconButton
+                    size="small"
+                    onClick={() => onMaintenance(params.row as MachineType)}
+                    title="Maintenance log"
+                >
+                    🔧
+                </IconButton>
                 <IconButton
                     size="small"
                     onClick={() => onEdit(params.row as MachineType)}
@@ -71,10 +123,14 @@ export default function MachinesSection() {
         name: '',
         type: '' as string,
         description: '',
+        capacity: '',
+        capacityUnit: 'pcs' as CapacityUnit,
+        status: 'Active' as MachineStatus,
     });
     const [errors, setErrors] = useState<{ [key: string]: string }>({});
     const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
     const [machineToDelete, setMachineToDelete] = useState<MachineType | null>(null);
+    const [maintenanceMachine, setMaintenanceMachine] = useState<MachineType | null>(null);
 
     // Pagination states
     const [paginationModel, setPaginationModel] = useState<GridPaginationModel>({
@@ -97,6 +153,8 @@ export default function MachinesSection() {
     const rows = machinesData?.machines || [];
     const rowCount = machinesData?.pagination.totalRecords || 0;
 
+    const { data: runningHours = {} } = useMachineRunningHours(rows);
+
     // Debounced search effect
     useEffect(() => {
         const timeoutId = setTimeout(() => {
@@ -118,6 +176,14 @@ export default function MachinesSection() {
         if (form.description && form.description.length > 500) {
             newErrors.description = 'Description must be 500 characters or less';
         }
+        if (form.capacity) {
+            const capacity = Number(form.capacity);
+            if (capacity <= 0) {
+                newErrors.capacity = 'Capacity must be greater than 0';
+            } else if (form.capacityUnit === 'pcs' && !Number.isInteger(capacity)) {
+                newErrors.capacity = 'Capacity in pieces must be a whole number';
+            }
+        }
 
         return newErrors;
     };
@@ -129,6 +195,9 @@ export default function MachinesSection() {
             name: machine.name || '',
             type: machine.type || '',
             description: machine.description || '',
+            capacity: machine.capacity ? machine.capacity.toString() : '',
+            capacityUnit: machine.capacityUnit || 'pcs',
+            status: machine.status || 'Active',
         });
         setErrors({});
         setOpen(true);
@@ -160,6 +229,9 @@ export default function MachinesSection() {
             name: '',
             type: '',
             description: '',
+            capacity: '',
+            capacityUnit: 'pcs',
+            status: 'Active',
         });
         setErrors({});
         setOpen(true);
@@ -192,6 +264,9 @@ export default function MachinesSection() {
             name: form.name,
             type: form.type,
             description: form.description || undefined,
+            capacity: form.capacity ? Number(form.capacity) : null,
+            capacityUnit: form.capacityUnit,
+            status: form.status,
         };
 
         if (editMode && selectedMachine) {
@@ -201,7 +276,7 @@ export default function MachinesSection() {
                 {
                     onSuccess: () => {
                         setOpen(false);
-                        setForm({ name: '', type: '', description: '' });
+                        setForm({ name: '', type: '', description: '', capacity: '', capacityUnit: 'pcs', status: 'Active' });
                         setEditMode(false);
                         setSelectedMachine(null);
                     },
@@ -215,7 +290,7 @@ export default function MachinesSection() {
             createMachineMutation.mutate(machineData, {
                 onSuccess: () => {
                     setOpen(false);
-                    setForm({ name: '', type: '', description: '' });
+                    setForm({ name: '', type: '', description: '', capacity: '', capacityUnit: 'pcs', status: 'Active' });
                     setEditMode(false);
                     setSelectedMachine(null);
                 },
@@ -255,7 +330,7 @@ export default function MachinesSection() {
 
             <div className="mt-1">
                 <PrimaryTable
-                    columns={getColumns(handleEdit, handleDelete)}
+                    columns={getColumns(handleEdit, handleDelete, setMaintenanceMachine, runningHours)}
                     rows={filteredRows}
                     loading={loading}
                     paginationMode="server"
@@ -323,6 +398,52 @@ export default function MachinesSection() {
                             </div>
                         </div>
 
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <div className="flex flex-col">
+                                <label className="block text-sm font-medium mb-2">Capacity per Load</label>
+                                <input
+                                    name="capacity"
+                                    type="number"
+                                    min={0}
+                                    value={form.capacity}
+                                    onChange={handleChange}
+                                    placeholder="Not limited"
+                                    className={`w-full px-4 py-3 border rounded-xl focus:outline-none text-base ${errors.capacity ? 'border-red-500' : ''}`}
+                                    style={{ borderColor: errors.capacity ? '#ef4444' : colors.border.light }}
+                                />
+                                {errors.capacity && <span className="text-xs text-red-500 mt-1">{errors.capacity}</span>}
+                            </div>
+
+                            <div className="flex flex-col">
+                                <label className="block text-sm font-medium mb-2">Capacity Unit</label>
+                                <PrimaryDropdown
+                                    name="capacityUnit"
+                                    value={form.capacityUnit}
+                                    onChange={handleChange}
+                                    options={capacityUnitOptions}
+                                    className="px-4 py-3 text-base"
+                                    style={{ borderColor: colors.border.light }}
+                                />
+                            </div>
+
+                            <div className="flex flex-col">
+                                <label className="block text-sm font-medium mb-2">Status</label>
+                                <PrimaryDropdown
+                                    name="status"
+                                    value={form.status}
+                                    onChange={handleChange}
+                                    options={machineStatusOptions}
+                                    className="px-4 py-3 text-base"
+                                    style={{ borderColor: colors.border.light }}
+                                />
+                            </div>
+                        </div>
+                        {form.status !== 'Active' && (
+                            <span className="text-xs" style={{ color: colors.text.secondary }}>
+                                This machine won't be offered when assigning work until it is set back to Active.
+                            </span>
+                        )}
+
                         <div className="flex flex-col">
                             <label className="block text-sm font-medium mb-2">Description</label>
                             <textarea
@@ -353,6 +474,14 @@ export default function MachinesSection() {
                 </Box>
             </Modal>
 
+            {/* Maintenance Log Modal */}
+            <MaintenanceLogModal
+                open={!!maintenanceMachine}
+                onClose={() => setMaintenanceMachine(null)}
+                machine={maintenanceMachine}
+                runningHours={maintenanceMachine ? runningHours[maintenanceMachine.id] : undefined}
+            />
+
             {/* Delete Confirmation Modal */}
             <Modal open={deleteConfirmOpen} onClose={() => setDeleteConfirmOpen(false)}>
                 <Box
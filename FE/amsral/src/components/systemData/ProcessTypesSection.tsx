@@ -5,6 +5,8 @@ import toast from 'react-hot-toast';
 import PrimaryButton from '../common/PrimaryButton';
 import PrimaryTable from '../common/PrimaryTable';
 import colors from '../../styles/colors';
+import RecipeStepsEditor from './RecipeStepsEditor';
+import { validateRecipeSteps } from '../../utils/recipeUtils';
 import {
     useProcessTypes,
     useCreateProcessType,
@@ -12,6 +14,7 @@ import {
     useDeleteProcessType
 } from '../../hooks/useSystemData';
 import { type ProcessType } from '../../services/processTypeService';
+import { type WashRecipeStep } from '../../services/washingTypeService';
 
 
 const getColumns = (onEdit: (processType: ProcessType) => void, onDelete: (processType: ProcessType) => void): GridColDef[] => [
@@ -19,6 +22,14 @@ const getColumns = (onEdit: (processType: ProcessType) => void, onDelete: (proce
     { field: 'name', headerName: 'Name', flex: 1.5, minWidth: 150 },
     { field: 'code', headerName: 'Code', flex: 1, minWidth: 100 },
     { field: 'description', headerName: 'Description', flex: 2.5, minWidth: 250 },
+    {
+        field: 'recipe',
+        headerName: 'Recipe',
+        flex: 0.8,
+        minWidth: 100,
+        sortable: false,
+        valueGetter: (value: WashRecipeStep[] | undefined) => value?.length ? `${value.length} step${value.length === 1 ? '' : 's'}` : '-',
+    },
     {
         field: 'createdAt', headerName: 'Created At', flex: 1.2, minWidth: 140,
         valueFormatter: (value) => {
@@ -66,6 +77,7 @@ export default function ProcessTypesSection() {
         code: '',
         description: '',
     });
+    const [recipeSteps, setRecipeSteps] = useState<WashRecipeStep[]>([]);
     const [errors, setErrors] = useState<{ [key: string]: string }>({});
     const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
     const [processTypeToDelete, setProcessTypeToDelete] = useState<ProcessType | null>(null);
@@ -113,6 +125,7 @@ export default function ProcessTypesSection() {
         if (form.description && form.description.length > 500) {
             newErrors.description = 'Description must be 500 characters or less';
         }
+        Object.assign(newErrors, validateRecipeSteps(recipeSteps));
 
         return newErrors;
     };
@@ -125,6 +138,7 @@ export default function ProcessTypesSection() {
             code: processType.code || '',
             description: processType.description || '',
         });
+        setRecipeSteps(processType.recipe || []);
         setErrors({});
         setOpen(true);
     };
@@ -156,6 +170,7 @@ export default function ProcessTypesSection() {
             code: '',
             description: '',
         });
+        setRecipeSteps([]);
         setErrors({});
         setOpen(true);
     };
@@ -187,6 +202,7 @@ export default function ProcessTypesSection() {
             name: form.name,
             code: form.code,
             description: form.description || undefined,
+            recipe: recipeSteps,
         };
 
         if (editMode && selectedProcessType) {
@@ -274,7 +290,7 @@ export default function ProcessTypesSection() {
                         boxShadow: 24,
                         borderRadius: 2,
                         p: { xs: 3, sm: 4 },
-                        width: { xs: '95vw', sm: '90vw', md: '600px' },
+                        width: { xs: '95vw', sm: '90vw', md: '760px' },
                         maxWidth: '95vw',
                         maxHeight: '95vh',
                         overflowY: 'auto',
@@ -330,6 +346,8 @@ export default function ProcessTypesSection() {
                             {errors.description && <span className="text-xs text-red-500 mt-1">{errors.description}</span>}
                         </div>
 
+                        <RecipeStepsEditor steps={recipeSteps} onChange={setRecipeSteps} errors={errors} />
+
                         <div className="flex gap-4 mt-4 justify-end">
                             <PrimaryButton
                                 type="button"
@@ -0,0 +1,108 @@
+import { IconButton } from '@mui/material';
+import { type WashRecipeStep } from '../../services/washingTypeService';
+import colors from '../../styles/colors';
+import { emptyRecipeStep } from '../../utils/recipeUtils';
+
+interface RecipeStepsEditorProps {
+    steps: WashRecipeStep[];
+    onChange: (steps: WashRecipeStep[]) => void;
+    errors?: { [key: string]: string };
+}
+
+const numberFields: { key: keyof Omit<WashRecipeStep, 'chemical'>; label: string }[] = [
+    { key: 'dosagePerKg', label: 'g / kg' },
+    { key: 'temperature', label: 'Temp °C' },
+    { key: 'durationMinutes', label: 'Minutes' },
+    { key: 'rpm', label: 'RPM' },
+];
+
+export default function RecipeStepsEditor({ steps, onChange, errors = {} }: RecipeStepsEditorProps) {
+    const updateStep = (index: number, changes: Partial<WashRecipeStep>) => {
+        onChange(steps.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+    };
+
+    const removeStep = (index: number) => {
+        onChange(steps.filter((_, i) => i !== index));
+    };
+
+    const moveStep = (index: number, direction: -1 | 1) => {
+        const target = index + direction;
+        if (target < 0 || target >= steps.length) return;
+        const reordered = [...steps];
+        [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+        onChange(reordered);
+    };
+
+    return (
+        <div className="flex flex-col gap-2">
+            <div className="flex items-center justify-between">
+                <label className="block text-sm font-medium">Recipe Steps</label>
+                <button
+                    type="button"
+                    onClick={() => onChange([...steps, emptyRecipeStep()])}
+                    className="text-sm font-semibold"
+                    style={{ color: colors.button.primary }}
+                >
+                    + Add Step
+                </button>
+            </div>
+
+            {steps.length === 0 && (
+                <span className="text-xs" style={{ color: colors.text.secondary }}>
+                    No recipe yet. Add the chemicals, temperatures and cycle times the operator should follow.
+                </span>
+            )}
+
+            {steps.map((step, index) => (
+                <div key={index} className="p-3 border rounded-xl" style={{ borderColor: colors.border.light }}>
+                    <div className="flex items-center gap-2 mb-2">
+                        <span className="text-sm font-semibold" style={{ color: colors.text.primary }}>
+                            Step {index + 1}
+                        </span>
+                        <div className="flex-1" />
+                        <IconButton size="small" onClick={() => moveStep(index, -1)} disabled={index === 0} title="Move up">
+                            ↑
+                        </IconButton>
+                        <IconButton size="small" onClick={() => moveStep(index, 1)} disabled={index === steps.length - 1} title="Move down">
+                            ↓
+                        </IconButton>
+                        <IconButton size="small" onClick={() => removeStep(index)} sx={{ color: '#ef4444' }} title="Remove step">
+                            🗑️
+                        </IconButton>
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+                        <div className="flex flex-col col-span-2 md:col-span-1">
+                            <input
+                                value={step.chemical}
+                                onChange={(e) => updateStep(index, { chemical: e.target.value })}
+                                placeholder="Chemical"
+                                className="w-full px-3 py-2 border rounded-xl focus:outline-none text-sm"
+                                style={{ borderColor: errors[`step_${index}_chemical`] ? '#ef4444' : colors.border.light }}
+                            />
+                            {errors[`step_${index}_chemical`] && (
+                                <span className="text-xs text-red-500 mt-1">{errors[`step_${index}_chemical`]}</span>
+                            )}
+                        </div>
+                        {numberFields.map(field => (
+                            <div key={field.key} className="flex flex-col">
+                                <input
+                                    type="number"
+                                    min={0}
+                                    value={step[field.key]}
+                                    onChange={(e) => updateStep(index, { [field.key]: Number(e.target.value) })}
+                                    placeholder={field.label}
+                                    title={field.label}
+                                    className="w-full px-3 py-2 border rounded-xl focus:outline-none text-sm"
+                                    style={{ borderColor: errors[`step_${index}_${field.key}`] ? '#ef4444' : colors.border.light }}
+                                />
+                                <span className={`text-xs mt-1 ${errors[`step_${index}_${field.key}`] ? 'text-red-500' : 'text-gray-500'}`}>
+                                    {errors[`step_${index}_${field.key}`] || field.label}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+}
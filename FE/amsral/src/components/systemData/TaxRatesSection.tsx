@@ -0,0 +1,485 @@
+import { useState } from 'react';
+import { Modal, Box, Typography, IconButton, FormControlLabel, Checkbox } from '@mui/material';
+import type { GridColDef, GridPaginationModel } from '@mui/x-data-grid';
+import toast from 'react-hot-toast';
+import PrimaryButton from '../common/PrimaryButton';
+import PrimaryTable from '../common/PrimaryTable';
+import colors from '../../styles/colors';
+import {
+    useTaxComponents,
+    useCreateTaxComponent,
+    useUpdateTaxComponent,
+    useDeleteTaxComponent
+} from '../../hooks/useSystemData';
+import { type TaxComponent } from '../../services/taxService';
+import { getEffectiveTaxComponents } from '../../utils/taxUtils';
+
+const emptyForm = () => ({
+    name: '',
+    code: '',
+    rate: '',
+    effectiveFrom: new Date().toISOString().split('T')[0],
+    effectiveTo: '',
+    compound: false,
+    sortOrder: '1',
+});
+
+const getColumns = (
+    onEdit: (taxComponent: TaxComponent) => void,
+    onDelete: (taxComponent: TaxComponent) => void,
+    inForceIds: Set<string>
+): GridColDef[] => [
+    { field: 'name', headerName: 'Name', flex: 1.5, minWidth: 150 },
+    { field: 'code', headerName: 'Code', flex: 0.8, minWidth: 90 },
+    {
+        field: 'rate', headerName: 'Rate', flex: 0.7, minWidth: 80,
+        valueFormatter: (value: number) => `${value}%`
+    },
+    {
+        field: 'effectiveFrom', headerName: 'Effective From', flex: 1, minWidth: 120,
+        valueFormatter: (value) => value ? new Date(value).toLocaleDateString() : ''
+    },
+    {
+        field: 'effectiveTo', headerName: 'Effective To', flex: 1, minWidth: 120,
+        valueFormatter: (value) => value ? new Date(value).toLocaleDateString() : 'Open'
+    },
+    {
+        field: 'compound', headerName: 'Charged On', flex: 1.2, minWidth: 140,
+        valueFormatter: (value: boolean) => value ? 'Subtotal + earlier taxes' : 'Subtotal'
+    },
+    { field: 'sortOrder', headerName: 'Order', flex: 0.5, minWidth: 70 },
+    {
+        field: 'status',
+        headerName: 'Status',
+        flex: 0.8,
+        minWidth: 100,
+        sortable: false,
+        renderCell: (params) => inForceIds.has(params.row.id) ? (
+            <span className="px-2 py-1 rounded-xl text-xs font-semibold bg-green-100 text-green-800">In Force</span>
+        ) : (
+            <span className="px-2 py-1 rounded-xl text-xs font-semibold bg-gray-100 text-gray-600">Not In Force</span>
+        ),
+    },
+    {
+        field: 'actions',
+        headerName: 'Actions',
+        flex: 0.8,
+        minWidth: 120,
+        sortable: false,
+        renderCell: (params) => (
+            <div className="flex gap-2">
+                <IconButton
+                    size="small"
+                    onClick={() => onEdit(params.row as TaxComponent)}
+                    sx={{ color: colors.primary[500] }}
+                >
+                    ✏️
+                </IconButton>
+                <IconButton
+                    size="small"
+                    onClick={() => onDelete(params.row as TaxComponent)}
+                    sx={{ color: '#ef4444' }}
+                >
+                    🗑️
+                </IconButton>
+            </div>
+        ),
+    },
+];
+
+export default function TaxRatesSection() {
+    // Local state for UI
+    const [search, setSearch] = useState('');
+    const [open, setOpen] = useState(false);
+    const [editMode, setEditMode] = useState(false);
+    const [selectedTaxComponent, setSelectedTaxComponent] = useState<TaxComponent | null>(null);
+    const [form, setForm] = useState(emptyForm());
+    const [errors, setErrors] = useState<{ [key: string]: string }>({});
+    const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
+    const [taxComponentToDelete, setTaxComponentToDelete] = useState<TaxComponent | null>(null);
+
+    // Pagination states
+    const [paginationModel, setPaginationModel] = useState<GridPaginationModel>({
+        page: 0,
+        pageSize: 10,
+    });
+
+    // TanStack Query hooks
+    const {
+        data: taxComponentsData,
+        isLoading: loading
+    } = useTaxComponents(paginationModel.page + 1, paginationModel.pageSize, search.trim() || undefined);
+
+    // Mutation hooks
+    const createTaxComponentMutation = useCreateTaxComponent();
+    const updateTaxComponentMutation = useUpdateTaxComponent();
+    const deleteTaxComponentMutation = useDeleteTaxComponent();
+
+    // Derived state
+    const rows = taxComponentsData?.taxComponents || [];
+    const rowCount = taxComponentsData?.pagination.totalRecords || 0;
+    const inForceIds = new Set(getEffectiveTaxComponents(rows, new Date()).map(component => component.id));
+
+    const validate = () => {
+        const newErrors: { [key: string]: string } = {};
+        const rate = Number(form.rate);
+        if (!form.name.trim()) newErrors.name = 'Tax name is required';
+        if (!form.code.trim()) newErrors.code = 'Tax code is required';
+        if (form.code.length > 20) newErrors.code = 'Tax code must be 20 characters or less';
+        if (form.rate === '' || isNaN(rate) || rate < 0 || rate > 100) newErrors.rate = 'Rate must be between 0 and 100';
+        if (!form.effectiveFrom) newErrors.effectiveFrom = 'Effective from date is required';
+        if (form.effectiveTo && form.effectiveTo < form.effectiveFrom) {
+            newErrors.effectiveTo = 'Effective to must be on or after effective from';
+        }
+        if (!Number.isInteger(Number(form.sortOrder))) newErrors.sortOrder = 'Order must be a whole number';
+
+        return newErrors;
+    };
+
+    const handleEdit = (taxComponent: TaxComponent) => {
+        setSelectedTaxComponent(taxComponent);
+        setEditMode(true);
+        setForm({
+            name: taxComponent.name || '',
+            code: taxComponent.code || '',
+            rate: taxComponent.rate.toString(),
+            effectiveFrom: taxComponent.effectiveFrom ? taxComponent.effectiveFrom.split('T')[0] : '',
+            effectiveTo: taxComponent.effectiveTo ? taxComponent.effectiveTo.split('T')[0] : '',
+            compound: taxComponent.compound,
+            sortOrder: taxComponent.sortOrder.toString(),
+        });
+        setErrors({});
+        setOpen(true);
+    };
+
+    const handleDelete = (taxComponent: TaxComponent) => {
+        setTaxComponentToDelete(taxComponent);
+        setDeleteConfirmOpen(true);
+    };
+
+    const confirmDelete = async () => {
+        if (!taxComponentToDelete) return;
+
+        deleteTaxComponentMutation.mutate(taxComponentToDelete.id, {
+            onSuccess: () => {
+                setDeleteConfirmOpen(false);
+                setTaxComponentToDelete(null);
+            },
+            onError: (error: Error) => {
+                toast.error(error.message || 'Failed to delete tax component');
+            }
+        });
+    };
+
+    const handleOpen = () => {
+        setEditMode(false);
+        setSelectedTaxComponent(null);
+        setForm(emptyForm());
+        setErrors({});
+        setOpen(true);
+    };
+
+    const handleClose = () => {
+        setOpen(false);
+        setEditMode(false);
+        setSelectedTaxComponent(null);
+        setErrors({});
+    };
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const { name, value, type, checked } = e.target;
+        setForm(prev => ({
+            ...prev,
+            [name]: type === 'checkbox' ? checked : value,
+        }));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const validation = validate();
+        if (Object.keys(validation).length > 0) {
+            setErrors(validation);
+            return;
+        }
+
+        const taxComponentData = {
+            name: form.name.trim(),
+            code: form.code.trim().toUpperCase(),
+            rate: Number(form.rate),
+            effectiveFrom: form.effectiveFrom,
+            effectiveTo: form.effectiveTo || null,
+            compound: form.compound,
+            sortOrder: Number(form.sortOrder),
+        };
+
+        if (editMode && selectedTaxComponent) {
+            // Update existing tax component
+            updateTaxComponentMutation.mutate(
+                { id: selectedTaxComponent.id, data: taxComponentData },
+                {
+                    onSuccess: () => {
+                        setOpen(false);
+                        setForm(emptyForm());
+                        setEditMode(false);
+                        setSelectedTaxComponent(null);
+                    },
+                    onError: (error: Error) => {
+                        toast.error(error.message || 'Failed to update tax component');
+                    }
+                }
+            );
+        } else {
+            // Create new tax component
+            createTaxComponentMutation.mutate(taxComponentData, {
+                onSuccess: () => {
+                    setOpen(false);
+                    setForm(emptyForm());
+                    setEditMode(false);
+                    setSelectedTaxComponent(null);
+                },
+                onError: (error: Error) => {
+                    toast.error(error.message || 'Failed to create tax component');
+                }
+            });
+        }
+    };
+
+    return (
+        <div>
+            <div className="flex flex-col gap-2 sm:gap-3 mb-4">
+                <h3 className="text-lg md:text-xl font-semibold" style={{ color: colors.text.primary }}>
+                    Tax Rates Management
+                </h3>
+                <p className="text-sm" style={{ color: colors.text.secondary }}>
+                    To change a rate, set an end date on the current row and add a new row from the date the new rate starts.
+                </p>
+                <div className="flex flex-col sm:flex-row items-center justify-between gap-2 w-full">
+                    <div className="flex flex-1 items-center w-full sm:w-auto">
+                        <input
+                            type="text"
+                            placeholder="Search tax components..."
+                            value={search}
+                            onChange={e => setSearch(e.target.value)}
+                            className="flex-1 px-3 py-2 border rounded-xl focus:outline-none text-sm sm:text-base"
+                            style={{ borderColor: colors.border.light, maxWidth: 300 }}
+                        />
+                    </div>
+                    <div className="w-full sm:w-auto mt-1 sm:mt-0">
+                        <PrimaryButton style={{ minWidth: 140, width: '100%' }} onClick={handleOpen}>
+                            + Add Tax Rate
+                        </PrimaryButton>
+                    </div>
+                </div>
+            </div>
+
+            <div className="mt-1">
+                <PrimaryTable
+                    columns={getColumns(handleEdit, handleDelete, inForceIds)}
+                    rows={rows}
+                    loading={loading}
+                    paginationMode="server"
+                    rowCount={rowCount}
+                    paginationModel={paginationModel}
+                    onPaginationModelChange={setPaginationModel}
+                    pageSizeOptions={[5, 10, 20, 50]}
+                    height="auto"
+                />
+            </div>
+
+            {/* Modal for Add/Edit Tax Rate */}
+            <Modal open={open} onClose={handleClose}>
+                <Box
+                    sx={{
+                        position: 'absolute',
+                        top: '50%',
+                        left: '50%',
+                        transform: 'translate(-50%, -50%)',
+                        bgcolor: 'background.paper',
+                        boxShadow: 24,
+                        borderRadius: 2,
+                        p: { xs: 3, sm: 4 },
+                        width: { xs: '95vw', sm: '90vw', md: '640px' },
+                        maxWidth: '95vw',
+                        maxHeight: '95vh',
+                        overflowY: 'auto',
+                    }}
+                >
+                    <Typography variant="h6" fontWeight={700} mb={3} color={colors.text.primary}>
+                        {editMode ? 'Edit Tax Rate' : 'Add Tax Rate'}
+                    </Typography>
+                    <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div className="flex flex-col">
+                                <label className="block text-sm font-medium mb-2">
+                                    Name <span className="text-red-500">*</span>
+                                </label>
+                                <input
+                                    name="name"
+                                    value={form.name}
+                                    onChange={handleChange}
+                                    placeholder="e.g. Value Added Tax"
+                                    className={`w-full px-4 py-3 border rounded-xl focus:outline-none text-base ${errors.name ? 'border-red-500' : ''}`}
+                                    style={{ borderColor: errors.name ? '#ef4444' : colors.border.light }}
+                                />
+                                {errors.name && <span className="text-xs text-red-500 mt-1">{errors.name}</span>}
+                            </div>
+
+                            <div className="flex flex-col">
+                                <label className="block text-sm font-medium mb-2">
+                                    Code <span className="text-red-500">*</span>
+                                </label>
+                                <input
+                                    name="code"
+                                    value={form.code}
+                                    onChange={handleChange}
+                                    placeholder="e.g. VAT"
+                                    className={`w-full px-4 py-3 border rounded-xl focus:outline-none text-base ${errors.code ? 'border-red-500' : ''}`}
+                                    style={{ borderColor: errors.code ? '#ef4444' : colors.border.light }}
+                                />
+                                {errors.code && <span className="text-xs text-red-500 mt-1">{errors.code}</span>}
+                            </div>
+
+                            <div className="flex flex-col">
+                                <label className="block text-sm font-medium mb-2">
+                                    Rate (%) <span className="text-red-500">*</span>
+                                </label>
+                                <input
+                                    name="rate"
+                                    type="number"
+                                    min={0}
+                                    max={100}
+                                    step={0.01}
+                                    value={form.rate}
+                                    onChange={handleChange}
+                                    placeholder="e.g. 18"
+                                    className={`w-full px-4 py-3 border rounded-xl focus:outline-none text-base ${errors.rate ? 'border-red-500' : ''}`}
+                                    style={{ borderColor: errors.rate ? '#ef4444' : colors.border.light }}
+                                />
+                                {errors.rate && <span className="text-xs text-red-500 mt-1">{errors.rate}</span>}
+                            </div>
+
+                            <div className="flex flex-col">
+                                <label className="block text-sm font-medium mb-2">Order</label>
+                                <input
+                                    name="sortOrder"
+                                    type="number"
+                                    min={1}
+                                    step={1}
+                                    value={form.sortOrder}
+                                    onChange={handleChange}
+                                    className={`w-full px-4 py-3 border rounded-xl focus:outline-none text-base ${errors.sortOrder ? 'border-red-500' : ''}`}
+                                    style={{ borderColor: errors.sortOrder ? '#ef4444' : colors.border.light }}
+                                />
+                                {errors.sortOrder && <span className="text-xs text-red-500 mt-1">{errors.sortOrder}</span>}
+                            </div>
+
+                            <div className="flex flex-col">
+                                <label className="block text-sm font-medium mb-2">
+                                    Effective From <span className="text-red-500">*</span>
+                                </label>
+                                <input
+                                    name="effectiveFrom"
+                                    type="date"
+                                    value={form.effectiveFrom}
+                                    onChange={handleChange}
+                                    className={`w-full px-4 py-3 border rounded-xl focus:outline-none text-base ${errors.effectiveFrom ? 'border-red-500' : ''}`}
+                                    style={{ borderColor: errors.effectiveFrom ? '#ef4444' : colors.border.light }}
+                                />
+                                {errors.effectiveFrom && <span className="text-xs text-red-500 mt-1">{errors.effectiveFrom}</span>}
+                            </div>
+
+                            <div className="flex flex-col">
+                                <label className="block text-sm font-medium mb-2">Effective To</label>
+                                <input
+                                    name="effectiveTo"
+                                    type="date"
+                                    value={form.effectiveTo}
+                                    onChange={handleChange}
+                                    className={`w-full px-4 py-3 border rounded-xl focus:outline-none text-base ${errors.effectiveTo ? 'border-red-500' : ''}`}
+                                    style={{ borderColor: errors.effectiveTo ? '#ef4444' : colors.border.light }}
+                                />
+                                {errors.effectiveTo && <span className="text-xs text-red-500 mt-1">{errors.effectiveTo}</span>}
+                            </div>
+                        </div>
+
+                        <FormControlLabel
+                            control={
+                                <Checkbox
+                                    name="compound"
+                                    checked={form.compound}
+                                    onChange={handleChange}
+                                    sx={{ color: colors.primary[500], '&.Mui-checked': { color: colors.primary[500] } }}
+                                />
+                            }
+                            label={<span className="text-base">Charge on subtotal plus earlier taxes (e.g. VAT on SSCL)</span>}
+                        />
+
+                        <div className="flex gap-4 mt-4 justify-end">
+                            <PrimaryButton
+                                type="button"
+                                style={{ minWidth: 120, background: colors.primary[100], color: colors.text.primary }}
+                                onClick={handleClose}
+                            >
+                                Cancel
+                            </PrimaryButton>
+                            <PrimaryButton type="submit" style={{ minWidth: 140 }}>
+                                {editMode ? 'Update Tax Rate' : 'Save Tax Rate'}
+                            </PrimaryButton>
+                        </div>
+                    </form>
+                </Box>
+            </Modal>
+
+            {/* Delete Confirmation Modal */}
+            <Modal open={deleteConfirmOpen} onClose={() => setDeleteConfirmOpen(false)}>
+                <Box
+                    sx={{
+                        position: 'absolute',
+                        top: '50%',
+                        left: '50%',
+                        transform: 'translate(-50%, -50%)',
+                        bgcolor: 'background.paper',
+                        boxShadow: 24,
+                        borderRadius: 2,
+                        p: 4,
+                        width: { xs: '90vw', sm: '400px' },
+                        maxWidth: '95vw',
+                    }}
+                >
+                    <Typography variant="h6" fontWeight={700} mb={2} color={colors.text.primary}>
+                        Confirm Delete
+                    </Typography>
+                    <Typography variant="body1" mb={3} color={colors.text.secondary}>
+                        Are you sure you want to delete tax rate{' '}
+                        <strong>{taxComponentToDelete?.name} ({taxComponentToDelete?.rate}%)</strong>?
+                        Invoices already issued keep their tax lines.
+                    </Typography>
+                    <div className="flex gap-3 justify-end">
+                        <PrimaryButton
+                            type="button"
+                            style={{
+                                minWidth: 100,
+                                background: colors.primary[100],
+                                color: colors.text.primary
+                            }}
+                            onClick={() => setDeleteConfirmOpen(false)}
+                        >
+                            Cancel
+                        </PrimaryButton>
+                        <PrimaryButton
+                            type="button"
+                            style={{
+                                minWidth: 100,
+                                background: '#ef4444',
+                                color: 'white'
+                            }}
+                            onClick={confirmDelete}
+                        >
+                            Delete
+                        </PrimaryButton>
+                    </div>
+                </Box>
+            </Modal>
+        </div>
+    );
+}
@@ -5,13 +5,15 @@ import toast from 'react-hot-toast';
 import PrimaryButton from '../common/PrimaryButton';
 import PrimaryTable from '../common/PrimaryTable';
 import colors from '../../styles/colors';
+import RecipeStepsEditor from './RecipeStepsEditor';
+import { validateRecipeSteps } from '../../utils/recipeUtils';
 import {
     useWashingTypes,
     useCreateWashingType,
     useUpdateWashingType,
     useDeleteWashingType
 } from '../../hooks/useSystemData';
-import { type WashingType } from '../../services/washingTypeService';
+import { type WashingType, type WashRecipeStep } from '../../services/washingTypeService';
 
 
 const getColumns = (onEdit: (washingType: WashingType) => void, onDelete: (washingType: WashingType) => void): GridColDef[] => [
@@ -19,6 +21,14 @@ const getColumns = (onEdit: (washingType: WashingType) => void, onDelete: (washi
     { field: 'name', headerName: 'Name', flex: 1.5, minWidth: 150 },
     { field: 'code', headerName: 'Code', flex: 1, minWidth: 100 },
     { field: 'description', headerName: 'Description', flex: 2.5, minWidth: 250 },
+    {
+        field: 'recipe',
+        headerName: 'Recipe',
+        flex: 0.8,
+        minWidth: 100,
+        sortable: false,
+        valueGetter: (value: WashRecipeStep[] | undefined) => value?.length ? `${value.length} step${value.length === 1 ? '' : 's'}` : '-',
+    },
     { field: 'createdAt', headerName: 'Created At', flex: 1.2, minWidth: 140 },
     {
         field: 'actions',
@@ -58,6 +68,7 @@ export default function WashingTypesSection() {
         code: '',
         description: '',
     });
+    const [recipeSteps, setRecipeSteps] = useState<WashRecipeStep[]>([]);
     const [errors, setErrors] = useState<{ [key: string]: string }>({});
     const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
     const [washingTypeToDelete, setWashingTypeToDelete] = useState<WashingType | null>(null);
@@ -118,6 +129,7 @@ export default function WashingTypesSection() {
         if (form.description && form.description.length > 500) {
             newErrors.description = 'Description must be 500 characters or less';
         }
+        Object.assign(newErrors, validateRecipeSteps(recipeSteps));
 
         // Check for unique code
         const isCodeUnique = !rows.some(row =>
@@ -137,6 +149,7 @@ export default function WashingTypesSection() {
             code: washingType.code || '',
             description: washingType.description || '',
         });
+        setRecipeSteps(washingType.recipe || []);
         setErrors({});
         setOpen(true);
     };
@@ -168,6 +181,7 @@ export default function WashingTypesSection() {
             code: '',
             description: '',
         });
+        setRecipeSteps([]);
         setErrors({});
         setOpen(true);
     };
@@ -204,6 +218,7 @@ export default function WashingTypesSection() {
                         name: form.name,
                         code: form.code,
                         description: form.description || undefined,
+                        recipe: recipeSteps,
                     }
                 },
                 {
@@ -225,6 +240,7 @@ export default function WashingTypesSection() {
                     name: form.name,
                     code: form.code,
                     description: form.description || undefined,
+                    recipe: recipeSteps,
                 },
                 {
                     onSuccess: () => {
@@ -311,7 +327,7 @@ export default function WashingTypesSection() {
                         boxShadow: 24,
                         borderRadius: 2,
                         p: { xs: 3, sm: 4 },
-                        width: { xs: '95vw', sm: '90vw', md: '600px' },
+                        width: { xs: '95vw', sm: '90vw', md: '760px' },
                         maxWidth: '95vw',
                         maxHeight: '95vh',
                         overflowY: 'auto',
@@ -367,6 +383,8 @@ export default function WashingTypesSection() {
                             {errors.description && <span className="text-xs text-red-500 mt-1">{errors.description}</span>}
                         </div>
 
+                        <RecipeStepsEditor steps={recipeSteps} onChange={setRecipeSteps} errors={errors} />
+
                         <div className="flex gap-4 mt-4 justify-end">
                             <PrimaryButton
                                 type="button"
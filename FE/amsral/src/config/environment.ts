@@ -11,6 +11,8 @@ const isDevelopment = import.meta.env.DEV;
 const envApiUrl = import.meta.env.VITE_API_BASE_URL;
 const envNodeEnv = import.meta.env.VITE_NODE_ENV;
 const envTimeout = import.meta.env.VITE_API_TIMEOUT;
+const envBillReworkPieces = import.meta.env.VITE_BILL_REWORK_PIECES;
+const envCompanyVatNumber = import.meta.env.VITE_COMPANY_VAT_NUMBER;
 
 // API Configuration based on environment
 export const getApiConfig = () => {
@@ -35,6 +37,10 @@ export const getApiConfig = () => {
     apiBaseUrl,
     nodeEnv,
     timeout,
+    // Rework pieces were already billed on the original record, so they are left off invoices by default
+    billReworkPieces: envBillReworkPieces === 'true',
+    // Printed on tax invoices issued to VAT-registered customers
+    companyVatNumber: envCompanyVatNumber || '',
     isProduction,
     isDevelopment
   };
@@ -1,6 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { BillingService, type Invoice, type InvoiceFilters, type InvoiceRecord } from '../services/billingService';
+import { BillingService, type BillingFilters, type PaginatedBillingResponse, type Invoice, type InvoiceFilters, type InvoiceRecord, type InvoiceReminder, type RecordPaymentRequest, type CreateCreditNoteRequest, type UpdateDraftInvoiceRequest, type OrderPricingHistory, type PriceHistoryEntry } from '../services/billingService';
 import { CustomerService, type Customer } from '../services/customerService';
+import { BILLABLE_ORDER_STATUSES, getBillPeriodRange, groupOrdersByCustomer, type BillPeriodCustomer } from '../utils/billPeriodUtils';
 import toast from 'react-hot-toast';
 
 // Query Keys
@@ -9,6 +10,11 @@ export const billingKeys = {
   orders: (filters: BillingOrderFilters) => [...billingKeys.all, 'orders', filters] as const,
   invoices: (filters: InvoiceFilters) => [...billingKeys.all, 'invoices', filters] as const,
   customers: ['customers'] as const,
+  billPeriod: (period: string) => [...billingKeys.all, 'billPeriod', period] as const,
+  overdue: ['billing', 'overdue'] as const,
+  reminders: (invoiceId: number) => [...billingKeys.all, 'reminders', invoiceId] as const,
+  priceHistory: (customerId: string, itemName: string, washType: string) => [...billingKeys.all, 'priceHistory', customerId, itemName, washType] as const,
+  orderPricing: (orderId: number) => [...billingKeys.all, 'orderPricing', orderId] as const,
 };
 
 // Types
@@ -176,6 +182,106 @@ export function useInvoices(filters: InvoiceFilters) {
   });
 }
 
+// Fetches every page of billing orders matching the filters
+const fetchAllBillingOrders = async (filters: Omit<BillingFilters, 'page' | 'limit'>) => {
+  const orders: PaginatedBillingResponse['orders'] = [];
+  for (let page = 1; ; page++) {
+    const response = await BillingService.getBillingOrders({ ...filters, page, limit: 200 });
+    if (!response.success) {
+      throw new Error('Failed to fetch billing orders');
+    }
+    orders.push(...response.data.orders);
+    if (!response.data.pagination.hasNextPage || response.data.orders.length === 0) {
+      return orders;
+    }
+  }
+};
+
+// Custom hook for fetching the customers with uninvoiced orders in a bill period
+export function useBillPeriodCustomers(period: string | null) {
+  return useQuery<BillPeriodCustomer[]>({
+    queryKey: billingKeys.billPeriod(period || ''),
+    queryFn: async () => {
+      const { dateFrom, dateTo } = getBillPeriodRange(period!);
+      const orders = await Promise.all(BILLABLE_ORDER_STATUSES.map(status =>
+        fetchAllBillingOrders({ status, billingStatus: 'pending', dateFrom, dateTo })
+      ));
+
+      return groupOrdersByCustomer(orders.flat());
+    },
+    enabled: !!period,
+    staleTime: 2 * 60 * 1000, // 2 minutes - billing data changes frequently
+    gcTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+// Custom hook for fetching overdue invoices for the dunning list
+export function useOverdueInvoices() {
+  return useQuery<Invoice[]>({
+    queryKey: billingKeys.overdue,
+    queryFn: async () => {
+      const response = await BillingService.getOverdueInvoices();
+      if (!response.success) {
+        throw new Error('Failed to fetch overdue invoices');
+      }
+      return response.data;
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes - overdue status only moves day by day
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  });
+}
+
+// Custom hook for fetching the reminder history of an invoice
+export function useInvoiceReminders(invoiceId: number | null) {
+  return useQuery<InvoiceReminder[]>({
+    queryKey: billingKeys.reminders(invoiceId || 0),
+    queryFn: async () => {
+      const response = await BillingService.getInvoiceReminders(invoiceId!);
+      if (!response.success) {
+        throw new Error('Failed to fetch invoice reminders');
+      }
+      return response.data;
+    },
+    enabled: !!invoiceId,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+    gcTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+// Last prices charged to a customer for an item and wash type; only fetched while shown
+export function useCustomerPriceHistory(customerId: string | null, itemName: string, washType: string, limit: number) {
+  return useQuery<PriceHistoryEntry[]>({
+    queryKey: billingKeys.priceHistory(customerId || '', itemName, washType),
+    queryFn: async () => {
+      const response = await BillingService.getCustomerPriceHistory(customerId!, { itemName, washType, limit });
+      if (!response.success) {
+        throw new Error('Failed to fetch price history');
+      }
+      return response.data;
+    },
+    enabled: !!customerId,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+    gcTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+// Current record prices and the audit of every price change on an order
+export function useOrderPricingHistory(orderId: number | null) {
+  return useQuery<OrderPricingHistory>({
+    queryKey: billingKeys.orderPricing(orderId || 0),
+    queryFn: async () => {
+      const response = await BillingService.getOrderPricingHistory(orderId!);
+      if (!response.success) {
+        throw new Error('Failed to fetch order pricing history');
+      }
+      return response.data;
+    },
+    enabled: !!orderId,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+    gcTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
 // Custom hook for fetching customers
 export function useBillingCustomers() {
   return useQuery<Customer[]>({
@@ -237,3 +343,143 @@ export function useUpdatePaymentStatus() {
     }
   });
 }
+
+// Custom hook for recording a payment against an invoice
+export function useRecordPayment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ invoiceId, payment }: { invoiceId: number; payment: RecordPaymentRequest }) => {
+      const response = await BillingService.recordInvoicePayment(invoiceId, payment);
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to record payment');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      // Invalidate and refetch invoices so paid amounts and statuses update
+      queryClient.invalidateQueries({ queryKey: billingKeys.all });
+      toast.success('Payment recorded successfully');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to record payment');
+    }
+  });
+}
+
+// Custom hook for issuing a credit note against an invoice
+export function useCreateCreditNote() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ invoiceId, creditNote }: { invoiceId: number; creditNote: CreateCreditNoteRequest }) => {
+      const response = await BillingService.createCreditNote(invoiceId, creditNote);
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to create credit note');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      // Invalidate and refetch invoices so balances reflect the credit
+      queryClient.invalidateQueries({ queryKey: billingKeys.all });
+      toast.success('Credit note created successfully');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to create credit note');
+    }
+  });
+}
+
+// Custom hook for issuing reviewed draft invoices in bulk
+export function useFinalizeInvoices() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (invoiceIds: number[]) => {
+      const responses = await Promise.all(invoiceIds.map(invoiceId =>
+        BillingService.updateInvoiceStatus(invoiceId, 'sent')
+      ));
+      const failed = responses.filter(response => !response.success).length;
+      if (failed > 0) {
+        throw new Error(`Failed to finalize ${failed} of ${invoiceIds.length} invoices`);
+      }
+      return responses.map(response => response.data);
+    },
+    onSuccess: (invoices) => {
+      queryClient.invalidateQueries({ queryKey: billingKeys.all });
+      toast.success(`${invoices.length} invoice${invoices.length !== 1 ? 's' : ''} finalized`);
+    },
+    onError: (error: Error) => {
+      // Some may have gone through, so refresh either way
+      queryClient.invalidateQueries({ queryKey: billingKeys.all });
+      toast.error(error.message || 'Failed to finalize invoices');
+    }
+  });
+}
+
+// Custom hook for saving changes to a draft invoice
+export function useUpdateDraftInvoice() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ invoiceId, invoice }: { invoiceId: number; invoice: UpdateDraftInvoiceRequest }) => {
+      const response = await BillingService.updateDraftInvoice(invoiceId, invoice);
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to update draft invoice');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: billingKeys.all });
+      toast.success('Draft invoice saved');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to update draft invoice');
+    }
+  });
+}
+
+// Custom hook for voiding an invoice
+export function useVoidInvoice() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ invoiceId, reason }: { invoiceId: number; reason: string }) => {
+      const response = await BillingService.voidInvoice(invoiceId, reason);
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to void invoice');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      // Voided orders go back to pending billing, so refresh both tabs
+      queryClient.invalidateQueries({ queryKey: billingKeys.all });
+      toast.success('Invoice voided');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to void invoice');
+    }
+  });
+}
+
+// Custom hook for sending a payment reminder for an overdue invoice
+export function useSendInvoiceReminder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (invoiceId: number) => {
+      const response = await BillingService.sendInvoiceReminder(invoiceId);
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to send reminder');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: billingKeys.all });
+      toast.success('Reminder sent');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to send reminder');
+    }
+  });
+}
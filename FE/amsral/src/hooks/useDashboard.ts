@@ -19,6 +19,7 @@ export interface DashboardFilters {
   startDate: string;
   endDate: string;
   period: 'today' | 'week' | 'month' | 'quarter' | 'year' | 'custom';
+  currency?: string;
 }
 
 export interface IncomeTrendsFilters {
@@ -26,12 +27,14 @@ export interface IncomeTrendsFilters {
   endDate: string;
   groupBy: 'day' | 'week' | 'month';
   limit: number;
+  currency?: string;
 }
 
 export interface TopCustomersFilters {
   startDate: string;
   endDate: string;
   limit: number;
+  currency?: string;
 }
 
 export interface DashboardSummary {
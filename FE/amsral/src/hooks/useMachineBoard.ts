@@ -0,0 +1,66 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import machineService, { type Machine } from '../services/machineService';
+import recordService, { type MachineAssignment } from '../services/recordService';
+import { recordAssignmentsKeys } from './useRecordAssignments';
+import { type MachineKind } from '../utils/machineUtils';
+
+// Query Keys
+export const machineBoardKeys = {
+  all: ['machineBoard'] as const,
+  board: () => [...machineBoardKeys.all, 'board'] as const,
+};
+
+export interface MoveAssignmentRequest {
+  assignment: MachineAssignment;
+  kind: MachineKind;
+  machine: Machine;
+}
+
+// Custom hook for fetching machines together with their assignments
+export function useMachineBoard() {
+  return useQuery<{
+    machines: Machine[];
+    assignments: MachineAssignment[];
+  }>({
+    queryKey: machineBoardKeys.board(),
+    queryFn: async () => {
+      const [machines, assignmentsResponse] = await Promise.all([
+        machineService.getAllMachines(),
+        recordService.getAllAssignments({ limit: 1000 })
+      ]);
+
+      return {
+        machines,
+        assignments: assignmentsResponse.data.assignments
+      };
+    },
+    staleTime: 30 * 1000, // 30 seconds - the floor changes machines constantly
+    gcTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+// Mutation hook for moving an assignment onto another machine
+export function useMoveAssignment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ assignment, kind, machine }: MoveAssignmentRequest) => {
+      const machineField = kind === 'Washing' ? 'washingMachine' : 'dryingMachine';
+      return recordService.updateAssignment(assignment.recordId, assignment.id, {
+        [machineField]: machine.id.toString()
+      });
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: machineBoardKeys.all });
+      queryClient.invalidateQueries({
+        queryKey: [...recordAssignmentsKeys.all, 'assignments', variables.assignment.recordId],
+        exact: false
+      });
+      toast.success(`${variables.assignment.trackingNumber || 'Assignment'} moved to ${variables.machine.name}`);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to move assignment');
+    },
+  });
+}
@@ -1,5 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { orderService, type ManagementOrder, type UpdateOrderRequest } from '../services/orderService';
+import { orderService, type ManagementOrder, type CreateDeliveryEntryRequest } from '../services/orderService';
+import { fetchOrderReconciliation } from './useOrders';
+import { isQuantityCheckBlocked } from '../utils/reconciliationUtils';
 import toast from 'react-hot-toast';
 
 // Query Keys
@@ -17,10 +19,11 @@ export interface ManagementOrderFilters {
   status?: string; // Filter by order status (can be comma-separated for multiple statuses)
 }
 
-export interface UpdateDeliveryRequest {
+export interface RecordDeliveryRequest {
   orderId: number;
-  deliveryCount: number;
-  isDelivered: boolean;
+  entry: CreateDeliveryEntryRequest;
+  deliveredTotal: number; // Delivered quantity across the whole ledger, including this entry
+  fullyDelivered: boolean;
 }
 
 // Custom hook for fetching management orders
@@ -59,33 +62,39 @@ export function useManagementOrders(filters: ManagementOrderFilters) {
   });
 }
 
-// Custom hook for updating delivery status
-export function useUpdateDelivery() {
+// Custom hook for recording a (partial) delivery against an order
+export function useRecordDelivery() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({ orderId, deliveryCount, isDelivered }: UpdateDeliveryRequest) => {
-      const updateData: UpdateOrderRequest = {
-        status: isDelivered ? 'Delivered' : 'Complete',
-        deliveryCount: deliveryCount
-      };
+    mutationFn: async ({ orderId, entry, deliveredTotal, fullyDelivered }: RecordDeliveryRequest) => {
+      // Checked again here so a stale or unloaded screen can't send out an order that doesn't add up
+      const reconciliation = await fetchOrderReconciliation(orderId);
+      if (isQuantityCheckBlocked(reconciliation)) {
+        throw new Error(`Quantities don't add up on order #${orderId} - reconcile them or ask a manager to override the check`);
+      }
 
-      const response = await orderService.updateOrder(orderId, updateData);
+      // The order's running totals go with the entry so the ledger and the order can't disagree
+      const response = await orderService.addDelivery(orderId, {
+        ...entry,
+        deliveryCount: deliveredTotal,
+        ...(fullyDelivered ? { status: 'Delivered' as const } : {})
+      });
       if (!response.success) {
-        throw new Error('Failed to update delivery status');
+        throw new Error('Failed to record delivery');
       }
       return response.data;
     },
-    onSuccess: () => {
+    onSuccess: (entry, { fullyDelivered }) => {
       // Invalidate and refetch management orders
       queryClient.invalidateQueries({ 
         queryKey: [...managementKeys.all, 'orders'],
         exact: false 
       });
-      toast.success('Order delivery status updated successfully');
+      toast.success(`${fullyDelivered ? 'Order fully delivered' : 'Partial delivery recorded'} - gate pass ${entry.gpNo}`);
     },
     onError: (error: Error) => {
-      toast.error(error.message || 'Failed to update delivery status');
+      toast.error(error.message || 'Failed to record delivery');
     }
   });
 }
@@ -19,6 +19,8 @@ export interface ProcessRecord {
   quantity: string;
   washType: string;
   processTypes: string[];
+  styleNo?: string;
+  colour?: string;
   trackingNumber?: string;
   status?: string;
   isCompleted?: boolean;
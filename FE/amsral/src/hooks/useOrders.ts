@@ -1,7 +1,10 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { orderService, type CreateOrderRequest, type ErrorResponse } from '../services/orderService';
+import { orderService, type CreateOrderRequest, type ErrorResponse, type GoodsReceipt, type SaveGoodsReceiptRequest } from '../services/orderService';
 import CustomerService from '../services/customerService';
 import { itemService } from '../services/itemService';
+import { OrderTemplateService, type CreateOrderTemplateRequest, type OrderTemplate, type OrderTemplateRecord } from '../services/orderTemplateService';
+import { assignTrackingNumbers } from '../utils/orderTemplateUtils';
+import { reconcileOrder, type OrderReconciliation } from '../utils/reconciliationUtils';
 import toast from 'react-hot-toast';
 
 // Query Keys
@@ -12,6 +15,9 @@ export const ordersKeys = {
     [...ordersKeys.lists(), filters] as const,
   customers: ['customers'] as const,
   items: ['items'] as const,
+  templates: (customerId: string) => [...ordersKeys.all, 'templates', customerId] as const,
+  goodsReceipt: (orderId: number) => [...ordersKeys.all, 'goodsReceipt', orderId] as const,
+  reconciliation: (orderId: number) => [...ordersKeys.all, 'reconciliation', orderId] as const,
 };
 
 // Types
@@ -32,6 +38,7 @@ export type OrderRow = {
   itemName?: string;
   quantity: number;
   gpNo?: string;
+  poNumber?: string;
   notes: string;
   records: ProcessRecord[];
   recordsCount: number;
@@ -86,6 +93,7 @@ export function useOrders(filters: {
         itemId: order.itemId || undefined,
         itemName: order.itemName || undefined,
         quantity: order.quantity,
+        poNumber: order.poNumber || undefined,
         notes: order.notes,
         records: order.records.map(record => ({
           id: record.id.toString(),
@@ -175,6 +183,224 @@ export function useCreateOrder() {
   });
 }
 
+// Mutation hook for creating orders and their records from an imported dispatch sheet
+export function useImportOrders() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (orders: CreateOrderRequest[]) => {
+      const response = await orderService.importOrders(orders);
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to import orders');
+      }
+      return response.data;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ordersKeys.lists() });
+      toast.success(`${data.orders.length} order${data.orders.length !== 1 ? 's' : ''} imported successfully!`);
+    },
+    onError: (error: ErrorResponse) => {
+      toast.error(error.message || 'Failed to import orders. Please try again.');
+    },
+  });
+}
+
+// Custom hook for fetching the goods receipt recorded for an order
+export function useGoodsReceipt(orderId: number | null) {
+  return useQuery<GoodsReceipt | null>({
+    queryKey: ordersKeys.goodsReceipt(orderId || 0),
+    queryFn: async () => {
+      const response = await orderService.getGoodsReceipt(orderId!);
+      if (!response.success) {
+        throw new Error('Failed to fetch goods receipt');
+      }
+      return response.data;
+    },
+    enabled: !!orderId,
+  });
+}
+
+// Mutation hook for recording the bags and pieces counted in for an order
+export function useSaveGoodsReceipt() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ orderId, data }: { orderId: number; data: SaveGoodsReceiptRequest }) => {
+      const response = await orderService.saveGoodsReceipt(orderId, data);
+      if (!response.success || !response.data) {
+        throw new Error(response.message || 'Failed to save goods receipt');
+      }
+      return response.data;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(ordersKeys.goodsReceipt(data.orderId), data);
+      toast.success(`Goods receipt saved for order ${data.orderId}`);
+    },
+    onError: (error: ErrorResponse) => {
+      toast.error(error.message || 'Failed to save goods receipt. Please try again.');
+    },
+  });
+}
+
+/**
+ * Loads several orders' records, delivery ledgers and goods receipts in one request and reconciles their quantities
+ * Used outside the hooks as well, where delivery and billing check several orders at once
+ * @returns Reconciliations by order id; orders the server couldn't find are left out
+ */
+export const fetchOrderReconciliations = async (orderIds: number[]): Promise<Map<number, OrderReconciliation>> => {
+  const reconciliations = new Map<number, OrderReconciliation>();
+  if (orderIds.length === 0) return reconciliations;
+
+  const response = await orderService.getReconciliationData(orderIds);
+  if (!response.success) {
+    throw new Error('Failed to fetch order quantities');
+  }
+
+  response.data.forEach(data => {
+    reconciliations.set(data.order.id, reconcileOrder({
+      order: data.order,
+      records: data.records,
+      deliveries: data.deliveries,
+      piecesReceived: data.piecesReceived ?? undefined,
+    }));
+  });
+  return reconciliations;
+};
+
+/**
+ * Loads one order's quantities and reconciles them
+ */
+export const fetchOrderReconciliation = async (orderId: number): Promise<OrderReconciliation> => {
+  const reconciliation = (await fetchOrderReconciliations([orderId])).get(orderId);
+  if (!reconciliation) {
+    throw new Error(`Order #${orderId} not found`);
+  }
+  return reconciliation;
+};
+
+// Custom hook for reconciling an order's quantities from intake to delivery
+export function useOrderReconciliation(orderId: number | null) {
+  return useQuery<OrderReconciliation>({
+    queryKey: ordersKeys.reconciliation(orderId || 0),
+    queryFn: () => fetchOrderReconciliation(orderId!),
+    enabled: !!orderId,
+  });
+}
+
+// Mutation hook for a manager letting an order with unreconciled quantities through
+export function useOverrideQuantityCheck() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ orderId, reason }: { orderId: number; reason: string }) => {
+      const response = await orderService.overrideQuantityCheck(orderId, reason);
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to override the quantity check');
+      }
+      return response.data;
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ordersKeys.reconciliation(variables.orderId) });
+      toast.success(`Quantity check overridden for order ${variables.orderId}`);
+    },
+    onError: (error: ErrorResponse) => {
+      toast.error(error.message || 'Failed to override the quantity check. Please try again.');
+    },
+  });
+}
+
+// Custom hook for fetching a customer's saved order templates
+export function useOrderTemplates(customerId: string | null) {
+  return useQuery<OrderTemplate[]>({
+    queryKey: ordersKeys.templates(customerId || ''),
+    queryFn: async () => {
+      const response = await OrderTemplateService.getCustomerTemplates(customerId!);
+      if (!response.success) {
+        throw new Error('Failed to fetch order templates');
+      }
+      return response.data;
+    },
+    staleTime: 10 * 60 * 1000, // 10 minutes - templates change rarely
+    gcTime: 30 * 60 * 1000, // 30 minutes
+    enabled: !!customerId,
+  });
+}
+
+// Mutation hook for saving an order as a template
+export function useSaveOrderTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (templateData: CreateOrderTemplateRequest) => {
+      const response = await OrderTemplateService.createTemplate(templateData);
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to save template');
+      }
+      return response.data;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ordersKeys.templates(data.customerId) });
+      toast.success(`Template "${data.name}" saved`);
+    },
+    onError: (error: ErrorResponse) => {
+      toast.error(error.message || 'Failed to save template. Please try again.');
+    },
+  });
+}
+
+// Mutation hook for deleting an order template
+export function useDeleteOrderTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (template: OrderTemplate) => {
+      const response = await OrderTemplateService.deleteTemplate(template.customerId, template.id);
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to delete template');
+      }
+      return template;
+    },
+    onSuccess: (template) => {
+      queryClient.invalidateQueries({ queryKey: ordersKeys.templates(template.customerId) });
+      toast.success(`Template "${template.name}" deleted`);
+    },
+    onError: (error: ErrorResponse) => {
+      toast.error(error.message || 'Failed to delete template. Please try again.');
+    },
+  });
+}
+
+// Mutation hook for creating an order from a template or a past order
+// Records are numbered for the id the order will get, and sent with it so they are created together or not at all
+export function useRepeatOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ orderData, records }: { orderData: CreateOrderRequest; records: OrderTemplateRecord[] }) => {
+      const preview = await orderService.getOrderPreview();
+      if (!preview.success) {
+        throw new Error('Failed to fetch the next order id');
+      }
+
+      // If another order takes the id first, the import fails rather than mislabel the records
+      const response = await orderService.importOrders([
+        { ...orderData, records: assignTrackingNumbers(preview.data.nextOrderId, records) }
+      ]);
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to create order');
+      }
+      return response.data.orders[0];
+    },
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ordersKeys.lists() });
+      toast.success(`Order ${data.id} created with ${variables.records.length} record${variables.records.length !== 1 ? 's' : ''}`);
+    },
+    onError: (error: ErrorResponse) => {
+      toast.error(error.message || 'Failed to create order. Please try again.');
+    },
+  });
+}
+
 // Mutation hook for updating orders
 export function useUpdateOrder() {
   const queryClient = useQueryClient();
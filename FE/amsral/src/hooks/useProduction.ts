@@ -31,6 +31,8 @@ export type ProcessRecord = {
   status: string;
   createdAt: string;
   complete: boolean;
+  isRework?: boolean;
+  parentRecordId?: number | null;
 };
 
 export type DropdownOption = {
@@ -89,7 +91,9 @@ export function useProductionRecords(filters: {
           processTypes: record.processTypeNames || record.processTypes || [], // Use processTypeNames from API
           status: 'pending',
           createdAt: record.createdAt ? new Date(record.createdAt).toISOString().split('T')[0] : new Date().toISOString().split('T')[0],
-          complete: record.complete || false
+          complete: record.complete || false,
+          isRework: record.isRework || false,
+          parentRecordId: record.parentRecordId ?? null
         });
       });
 
@@ -1,5 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { orderService, type OrderStatus } from '../services/orderService';
+import { orderService, type OrderStatus, type CreateReworkRecordRequest } from '../services/orderService';
+import { productionKeys } from './useProduction';
 import toast from 'react-hot-toast';
 
 // Query Keys
@@ -63,28 +64,37 @@ export function useCompletedOrders(filters: QCFilters) {
   });
 }
 
-// Custom hook for saving damage records
+// Custom hook for saving damage records, and sending any re-wash pieces back into production
 export function useSaveDamageRecords() {
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: async ({ 
       orderId, 
-      damageCounts 
+      damageCounts,
+      reworks = []
     }: { 
       orderId: number; 
-      damageCounts: DamageCounts 
+      damageCounts: DamageCounts;
+      reworks?: CreateReworkRecordRequest[];
     }) => {
-      const response = await orderService.saveDamageRecords(orderId, damageCounts);
-      return response;
+      // Re-wash records go with the damage counts; the order isn't finished until they come back through production
+      return orderService.saveDamageRecords(orderId, damageCounts, reworks);
     },
-    onSuccess: () => {
+    onSuccess: (_data, variables) => {
       // Invalidate and refetch completed orders
       queryClient.invalidateQueries({ 
         queryKey: [...qcKeys.all, 'completedOrders'],
         exact: false 
       });
-      toast.success('Damage records saved successfully');
+
+      const reworkCount = variables.reworks?.length || 0;
+      if (reworkCount > 0) {
+        queryClient.invalidateQueries({ queryKey: productionKeys.all });
+        toast.success(`Damage records saved and ${reworkCount} rework record${reworkCount > 1 ? 's' : ''} sent to production`);
+      } else {
+        toast.success('Damage records saved successfully');
+      }
     },
     onError: (error: Error) => {
       toast.error(error.message || 'Failed to save damage records');
@@ -3,6 +3,9 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import recordService, { type ProcessRecord, type MachineAssignment, type CreateAssignmentRequest } from '../services/recordService';
 import machineService from '../services/machineService';
 import EmployeeService from '../services/employeeService';
+import { washingTypeService, type WashingType } from '../services/washingTypeService';
+import { processTypeService, type ProcessType } from '../services/processTypeService';
+import { isMachineAvailable } from '../utils/machineUtils';
 import toast from 'react-hot-toast';
 
 // Query Keys
@@ -13,6 +16,7 @@ export const recordAssignmentsKeys = {
     [...recordAssignmentsKeys.all, 'assignments', recordId, filters] as const,
   employees: ['employees'] as const,
   machines: ['machines'] as const,
+  recipes: ['washRecipes'] as const,
 };
 
 // Types
@@ -103,7 +107,8 @@ export function useMachines() {
   }>({
     queryKey: recordAssignmentsKeys.machines,
     queryFn: async () => {
-      const machines = await machineService.getAllMachines();
+      // Machines under maintenance or retired can't take new assignments
+      const machines = (await machineService.getAllMachines()).filter(isMachineAvailable);
 
       const washingMachines = machines
         .filter(machine => machine.type === 'Washing')
@@ -129,6 +134,29 @@ export function useMachines() {
   });
 }
 
+// Custom hook for fetching washing and process types with their recipes
+export function useWashRecipes() {
+  return useQuery<{
+    washingTypes: WashingType[];
+    processTypes: ProcessType[];
+  }>({
+    queryKey: recordAssignmentsKeys.recipes,
+    queryFn: async () => {
+      const [washingTypesResponse, processTypesResponse] = await Promise.all([
+        washingTypeService.getWashingTypes({ limit: 100 }),
+        processTypeService.getProcessTypes({ limit: 100 })
+      ]);
+
+      return {
+        washingTypes: washingTypesResponse.data.washingTypes,
+        processTypes: processTypesResponse.data.processTypes
+      };
+    },
+    staleTime: 10 * 60 * 1000, // 10 minutes - recipes change less frequently
+    gcTime: 30 * 60 * 1000, // 30 minutes
+  });
+}
+
 // Mutation hook for creating machine assignment
 export function useCreateMachineAssignment() {
   const queryClient = useQueryClient();
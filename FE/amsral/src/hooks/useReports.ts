@@ -0,0 +1,76 @@
+import { useQuery } from '@tanstack/react-query';
+import DashboardService, {
+  type ReportFilters,
+  type DailyProductionRow,
+  type CustomerDeliveryRow,
+  type InvoicedVsPaidRow,
+  type DamageByWashTypeRow,
+} from '../services/dashboardService';
+
+// Query Keys
+export const reportsKeys = {
+  all: ['reports'] as const,
+  dailyProduction: (filters: ReportFilters) => [...reportsKeys.all, 'dailyProduction', filters] as const,
+  customerDeliveries: (filters: ReportFilters) => [...reportsKeys.all, 'customerDeliveries', filters] as const,
+  invoicedVsPaid: (filters: ReportFilters) => [...reportsKeys.all, 'invoicedVsPaid', filters] as const,
+  damageByWashType: (filters: ReportFilters) => [...reportsKeys.all, 'damageByWashType', filters] as const,
+};
+
+// Re-export types for convenience
+export type { ReportFilters, DailyProductionRow, CustomerDeliveryRow, InvoicedVsPaidRow, DamageByWashTypeRow } from '../services/dashboardService';
+
+// Custom hook for fetching the daily production report
+export function useDailyProductionReport(filters: ReportFilters, enabled = true) {
+  return useQuery<DailyProductionRow[]>({
+    queryKey: reportsKeys.dailyProduction(filters),
+    queryFn: async () => {
+      const response = await DashboardService.getDailyProductionReport(filters);
+      return response;
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    enabled: enabled && !!filters.startDate && !!filters.endDate,
+  });
+}
+
+// Custom hook for fetching deliveries per customer
+export function useCustomerDeliveriesReport(filters: ReportFilters, enabled = true) {
+  return useQuery<CustomerDeliveryRow[]>({
+    queryKey: reportsKeys.customerDeliveries(filters),
+    queryFn: async () => {
+      const response = await DashboardService.getCustomerDeliveriesReport(filters);
+      return response;
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    enabled: enabled && !!filters.startDate && !!filters.endDate,
+  });
+}
+
+// Custom hook for fetching invoiced vs paid amounts per customer
+export function useInvoicedVsPaidReport(filters: ReportFilters, enabled = true) {
+  return useQuery<InvoicedVsPaidRow[]>({
+    queryKey: reportsKeys.invoicedVsPaid(filters),
+    queryFn: async () => {
+      const response = await DashboardService.getInvoicedVsPaidReport(filters);
+      return response;
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    enabled: enabled && !!filters.startDate && !!filters.endDate,
+  });
+}
+
+// Custom hook for fetching QC damage grouped by wash type
+export function useDamageByWashTypeReport(filters: ReportFilters, enabled = true) {
+  return useQuery<DamageByWashTypeRow[]>({
+    queryKey: reportsKeys.damageByWashType(filters),
+    queryFn: async () => {
+      const response = await DashboardService.getDamageByWashTypeReport(filters);
+      return response;
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    enabled: enabled && !!filters.startDate && !!filters.endDate,
+  });
+}
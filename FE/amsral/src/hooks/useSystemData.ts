@@ -1,8 +1,21 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query';
 import { itemService, type Item } from '../services/itemService';
-import { washingTypeService, type WashingType } from '../services/washingTypeService';
-import { machineTypeService, type MachineType } from '../services/machineTypeService';
+import { washingTypeService, type WashingType, type WashRecipeStep } from '../services/washingTypeService';
+import {
+  machineTypeService,
+  type MachineType,
+  type CreateMachineTypeRequest
+} from '../services/machineTypeService';
 import { processTypeService, type ProcessType } from '../services/processTypeService';
+import { taxService, type TaxComponent, type CreateTaxComponentRequest } from '../services/taxService';
+import {
+  companyProfileService,
+  type CompanyProfile,
+  type InvoiceTemplate
+} from '../services/companyProfileService';
+import { recordAssignmentsKeys } from './useRecordAssignments';
+import { machineBoardKeys } from './useMachineBoard';
+import { resolveDocumentSettings, type DocumentSettings } from '../utils/documentTemplateUtils';
 import toast from 'react-hot-toast';
 
 // Query Keys
@@ -12,6 +25,10 @@ export const systemDataKeys = {
   washingTypes: (page: number, limit: number, search?: string) => [...systemDataKeys.all, 'washingTypes', { page, limit, search }] as const,
   machines: (page: number, limit: number, search?: string) => [...systemDataKeys.all, 'machines', { page, limit, search }] as const,
   processTypes: (page: number, limit: number, search?: string) => [...systemDataKeys.all, 'processTypes', { page, limit, search }] as const,
+  runningHours: (machineIds: string[]) => [...systemDataKeys.all, 'runningHours', machineIds] as const,
+  taxComponents: (page: number, limit: number, search?: string) => [...systemDataKeys.all, 'taxComponents', { page, limit, search }] as const,
+  companyProfile: () => [...systemDataKeys.all, 'companyProfile'] as const,
+  invoiceTemplate: () => [...systemDataKeys.all, 'invoiceTemplate'] as const,
 };
 
 // Types
@@ -128,7 +145,7 @@ export function useCreateWashingType() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (data: { name: string; code: string; description?: string }) => {
+    mutationFn: async (data: { name: string; code: string; description?: string; recipe?: WashRecipeStep[] }) => {
       const washingType = await washingTypeService.createWashingType(data);
       return washingType;
     },
@@ -146,7 +163,7 @@ export function useUpdateWashingType() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({ id, data }: { id: string; data: { name: string; code?: string; description?: string } }) => {
+    mutationFn: async ({ id, data }: { id: string; data: { name: string; code?: string; description?: string; recipe?: WashRecipeStep[] } }) => {
       const washingType = await washingTypeService.updateWashingType(id, data);
       return washingType;
     },
@@ -204,16 +221,23 @@ export function useMachines(page: number, limit: number, search?: string) {
   });
 }
 
+// Machine changes decide which machines can be assigned and what the machine board shows
+const refreshMachineAvailability = (queryClient: QueryClient) => {
+  queryClient.invalidateQueries({ queryKey: recordAssignmentsKeys.machines });
+  queryClient.invalidateQueries({ queryKey: machineBoardKeys.all });
+};
+
 export function useCreateMachine() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (data: { name: string; type: string; description?: string }) => {
+    mutationFn: async (data: CreateMachineTypeRequest) => {
       const machine = await machineTypeService.createMachineType(data);
       return machine;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: systemDataKeys.all });
+      refreshMachineAvailability(queryClient);
       toast.success('Machine type created successfully');
     },
     onError: (error: Error) => {
@@ -226,12 +250,13 @@ export function useUpdateMachine() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({ id, data }: { id: string; data: { name: string; description?: string } }) => {
+    mutationFn: async ({ id, data }: { id: string; data: Partial<CreateMachineTypeRequest> }) => {
       const machine = await machineTypeService.updateMachineType(id, data);
       return machine;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: systemDataKeys.all });
+      refreshMachineAvailability(queryClient);
       toast.success('Machine type updated successfully');
     },
     onError: (error: Error) => {
@@ -250,6 +275,7 @@ export function useDeleteMachine() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: systemDataKeys.all });
+      refreshMachineAvailability(queryClient);
       toast.success('Machine type deleted successfully');
     },
     onError: (error: Error) => {
@@ -258,6 +284,23 @@ export function useDeleteMachine() {
   });
 }
 
+// Custom hook for running hours per machine, totalled on the server
+export function useMachineRunningHours(machines: MachineType[]) {
+  return useQuery<Record<string, number>>({
+    queryKey: systemDataKeys.runningHours(machines.map(machine => machine.id)),
+    queryFn: async () => {
+      const response = await machineTypeService.getRunningHours(machines.map(machine => machine.id));
+
+      return Object.fromEntries(
+        response.data.map(machine => [machine.machineId, machine.runningHours])
+      );
+    },
+    enabled: machines.length > 0,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  });
+}
+
 // Process Types hooks
 export function useProcessTypes(page: number, limit: number, search?: string) {
   return useQuery<{
@@ -288,7 +331,7 @@ export function useCreateProcessType() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (data: { name: string; code: string; description?: string }) => {
+    mutationFn: async (data: { name: string; code: string; description?: string; recipe?: WashRecipeStep[] }) => {
       const processType = await processTypeService.createProcessType(data);
       return processType;
     },
@@ -306,7 +349,7 @@ export function useUpdateProcessType() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({ id, data }: { id: string; data: { name: string; description?: string } }) => {
+    mutationFn: async ({ id, data }: { id: string; data: { name: string; description?: string; recipe?: WashRecipeStep[] } }) => {
       const processType = await processTypeService.updateProcessType(id, data);
       return processType;
     },
@@ -337,3 +380,165 @@ export function useDeleteProcessType() {
     }
   });
 }
+
+// Tax Components hooks
+export function useTaxComponents(page: number, limit: number, search?: string) {
+  return useQuery<{
+    taxComponents: TaxComponent[];
+    pagination: PaginationData;
+  }>({
+    queryKey: systemDataKeys.taxComponents(page, limit, search),
+    queryFn: async () => {
+      const response = await taxService.getTaxComponents({
+        page,
+        limit,
+        search
+      });
+      if (!response.success) {
+        throw new Error('Failed to fetch tax components');
+      }
+      return {
+        taxComponents: response.data.taxComponents,
+        pagination: response.data.pagination
+      };
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  });
+}
+
+export function useCreateTaxComponent() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: CreateTaxComponentRequest) => {
+      const taxComponent = await taxService.createTaxComponent(data);
+      return taxComponent;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: systemDataKeys.all });
+      toast.success('Tax component created successfully');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to create tax component');
+    }
+  });
+}
+
+export function useUpdateTaxComponent() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: Partial<CreateTaxComponentRequest> }) => {
+      const taxComponent = await taxService.updateTaxComponent(id, data);
+      return taxComponent;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: systemDataKeys.all });
+      toast.success('Tax component updated successfully');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to update tax component');
+    }
+  });
+}
+
+export function useDeleteTaxComponent() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await taxService.deleteTaxComponent(id);
+      return { id, message: 'Tax component deleted successfully' };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: systemDataKeys.all });
+      toast.success('Tax component deleted successfully');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to delete tax component');
+    }
+  });
+}
+
+// Company profile and invoice template hooks
+export function useCompanyProfile() {
+  return useQuery<CompanyProfile>({
+    queryKey: systemDataKeys.companyProfile(),
+    queryFn: async () => {
+      const response = await companyProfileService.getCompanyProfile();
+      if (!response.success) {
+        throw new Error('Failed to fetch company profile');
+      }
+      return response.data;
+    },
+    staleTime: 30 * 60 * 1000, // 30 minutes - rarely changes
+    gcTime: 60 * 60 * 1000, // 1 hour
+  });
+}
+
+export function useInvoiceTemplate() {
+  return useQuery<InvoiceTemplate>({
+    queryKey: systemDataKeys.invoiceTemplate(),
+    queryFn: async () => {
+      const response = await companyProfileService.getInvoiceTemplate();
+      if (!response.success) {
+        throw new Error('Failed to fetch invoice template');
+      }
+      return response.data;
+    },
+    staleTime: 30 * 60 * 1000, // 30 minutes - rarely changes
+    gcTime: 60 * 60 * 1000, // 1 hour
+  });
+}
+
+// Settings to print documents with; undefined until both have loaded, defaults for any that failed
+export function useDocumentSettings(): DocumentSettings | undefined {
+  const companyProfile = useCompanyProfile();
+  const invoiceTemplate = useInvoiceTemplate();
+
+  if (companyProfile.isPending || invoiceTemplate.isPending) return undefined;
+  return resolveDocumentSettings(companyProfile.data, invoiceTemplate.data);
+}
+
+export function useUpdateCompanyProfile() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: CompanyProfile) => {
+      const response = await companyProfileService.updateCompanyProfile(data);
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to update company profile');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: systemDataKeys.companyProfile() });
+      toast.success('Company profile updated successfully');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to update company profile');
+    }
+  });
+}
+
+export function useUpdateInvoiceTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: InvoiceTemplate) => {
+      const response = await companyProfileService.updateInvoiceTemplate(data);
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to update invoice template');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: systemDataKeys.invoiceTemplate() });
+      toast.success('Invoice template updated successfully');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to update invoice template');
+    }
+  });
+}
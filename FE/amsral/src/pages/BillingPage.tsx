@@ -11,6 +11,10 @@ import {
 import {
     Receipt as ReceiptIcon,
     Payment as PaymentIcon,
+    AssignmentReturn as CreditNoteIcon,
+    Edit as EditIcon,
+    Block as VoidIcon,
+    NotificationsActive as ReminderIcon,
 } from '@mui/icons-material';
 import type { GridColDef } from '@mui/x-data-grid';
 import { useAuth } from '../hooks/useAuth';
@@ -22,13 +26,31 @@ import {
     useBillingOrders,
     useInvoices,
     useBillingCustomers,
-    useUpdatePaymentStatus,
+    useRecordPayment,
+    useCreateCreditNote,
     type BillingOrderFilters
 } from '../hooks/useBilling';
-import { type Invoice, type InvoiceFilters } from '../services/billingService';
+import { type Invoice, type InvoiceFilters, type InvoiceStatus, type RecordPaymentRequest, type CreateCreditNoteRequest } from '../services/billingService';
 import toast from 'react-hot-toast';
 import InvoiceCreationModal from '../components/modals/InvoiceCreationModal';
 import PaymentStatusModal from '../components/modals/PaymentStatusModal';
+import CustomerStatementModal from '../components/modals/CustomerStatementModal';
+import CreditNoteModal from '../components/modals/CreditNoteModal';
+import BillPeriodModal from '../components/modals/BillPeriodModal';
+import DraftInvoiceModal from '../components/modals/DraftInvoiceModal';
+import VoidInvoiceModal from '../components/modals/VoidInvoiceModal';
+import InvoiceRemindersModal from '../components/modals/InvoiceRemindersModal';
+import OverdueInvoicesPanel from '../components/billing/OverdueInvoicesPanel';
+import {
+    INVOICE_STATUS_OPTIONS,
+    canVoidInvoice,
+    getEffectiveInvoiceStatus,
+    getInvoiceStatusColor,
+    getInvoiceStatusLabel,
+    isInvoiceEditable,
+    isInvoiceIssued
+} from '../utils/invoiceStatusUtils';
+import { formatCurrency } from '../utils/currencyUtils';
 import colors from '../styles/colors';
 
 const BillingPage: React.FC = () => {
@@ -38,6 +60,12 @@ const BillingPage: React.FC = () => {
     // Local state for UI
     const [selectedOrders, setSelectedOrders] = useState<number[]>([]);
     const [invoiceModalOpen, setInvoiceModalOpen] = useState(false);
+    const [statementModalOpen, setStatementModalOpen] = useState(false);
+    const [billPeriodModalOpen, setBillPeriodModalOpen] = useState(false);
+    const [creditNoteInvoice, setCreditNoteInvoice] = useState<Invoice | null>(null);
+    const [draftInvoice, setDraftInvoice] = useState<Invoice | null>(null);
+    const [voidingInvoice, setVoidingInvoice] = useState<Invoice | null>(null);
+    const [reminderInvoice, setReminderInvoice] = useState<Invoice | null>(null);
     const [paymentModal, setPaymentModal] = useState({
         open: false,
         invoice: null as Invoice | null,
@@ -64,7 +92,7 @@ const BillingPage: React.FC = () => {
     const invoicesFilters: InvoiceFilters = {
         page: currentPage,
         limit: pageSize,
-        status: (invoiceStatusFilter as 'draft' | 'sent' | 'paid' | 'overdue') || undefined,
+        status: (invoiceStatusFilter as InvoiceStatus) || undefined,
         customerName: invoiceCustomerFilter || undefined,
     };
 
@@ -85,7 +113,8 @@ const BillingPage: React.FC = () => {
     } = useBillingCustomers();
 
     // Mutation hooks
-    const updatePaymentStatusMutation = useUpdatePaymentStatus();
+    const recordPaymentMutation = useRecordPayment();
+    const createCreditNoteMutation = useCreateCreditNote();
 
     // Derived state
     const orders = ordersData?.orders || [];
@@ -169,21 +198,13 @@ const BillingPage: React.FC = () => {
         });
     };
 
-    const handleUpdatePayment = async (invoiceId: number, paymentAmount: number) => {
-        updatePaymentStatusMutation.mutate(
-            {
-                invoiceId: invoiceId.toString(),
-                paymentAmount,
-                paymentDate: new Date().toISOString().split('T')[0],
-                paymentMethod: 'Cash'
-            },
-            {
-                onError: (error: Error) => {
-                    console.error('Error updating payment:', error);
-                    throw error; // Re-throw to let the modal handle the error
-                }
-            }
-        );
+    const handleRecordPayment = async (invoiceId: number, payment: RecordPaymentRequest) => {
+        // Let errors reach the modal so it keeps the form open
+        return recordPaymentMutation.mutateAsync({ invoiceId, payment });
+    };
+
+    const handleCreateCreditNote = async (invoiceId: number, creditNote: CreateCreditNoteRequest) => {
+        return createCreditNoteMutation.mutateAsync({ invoiceId, creditNote });
     };
 
     const handleInvoiceCreated = () => {
@@ -274,7 +295,7 @@ const BillingPage: React.FC = () => {
             type: 'number',
             renderCell: (params) => (
                 <span style={{ fontWeight: 500, color: colors.text.primary }}>
-                    ${params.value || 0}
+                    {formatCurrency(params.value || 0, params.row.currency)}
                 </span>
             )
         },
@@ -297,7 +318,7 @@ const BillingPage: React.FC = () => {
                             isOverpaid ? '#17a2b8' :
                                 colors.text.primary
                     }}>
-                        ${paymentAmount}
+                        {formatCurrency(paymentAmount, params.row.currency)}
                     </span>
                 );
             }
@@ -308,72 +329,40 @@ const BillingPage: React.FC = () => {
             flex: 1,
             minWidth: 120,
             renderCell: (params) => {
-                const status = params.value || 'draft';
-                // Map invoice status to appropriate colors
-                const getInvoiceStatusColor = (status: string) => {
-                    switch (status.toLowerCase()) {
-                        case 'draft':
-                            return 'bg-gray-100 text-gray-800';
-                        case 'sent':
-                            return 'bg-blue-100 text-blue-800';
-                        case 'paid':
-                            return 'bg-green-100 text-green-800';
-                        case 'overdue':
-                            return 'bg-red-100 text-red-800';
-                        default:
-                            return 'bg-gray-100 text-gray-800';
-                    }
-                };
-
-                const getInvoiceStatusLabel = (status: string) => {
-                    switch (status.toLowerCase()) {
-                        case 'draft':
-                            return 'Draft';
-                        case 'sent':
-                            return 'Sent';
-                        case 'paid':
-                            return 'Paid';
-                        case 'overdue':
-                            return 'Overdue';
-                        default:
-                            return status.toUpperCase();
-                    }
-                };
-
-                const statusColor = getInvoiceStatusColor(status);
-                const statusLabel = getInvoiceStatusLabel(status);
+                const status = getEffectiveInvoiceStatus({ status: params.value || 'draft', dueDate: params.row.dueDate });
 
                 return (
-                    <span
-                        className={`px-3 py-1 rounded-xl text-sm font-semibold ${statusColor}`}
-                    >
-                        {statusLabel}
-                    </span>
+                    <Tooltip title={status === 'void' && params.row.voidReason ? `Void: ${params.row.voidReason}` : ''}>
+                        <span
+                            className={`px-3 py-1 rounded-xl text-sm font-semibold ${getInvoiceStatusColor(status)}`}
+                        >
+                            {getInvoiceStatusLabel(status)}
+                        </span>
+                    </Tooltip>
                 );
             }
         },
         {
             field: 'paymentStatus',
-            headerName: 'Payment',
+            headerName: 'Actions',
             flex: 1,
-            minWidth: 130,
+            minWidth: 170,
             sortable: false,
-            renderCell: (params) => {
-                if (params.row.status === 'paid') {
-                    return (
-                        <Tooltip title="Update Payment Status">
+            renderCell: (params) => (
+                <div className="flex gap-1">
+                    {isInvoiceEditable(params.row) && (
+                        <Tooltip title="Edit & Issue Draft">
                             <IconButton
                                 size="small"
-                                onClick={() => handleOpenPaymentModal(params.row)}
+                                onClick={() => setDraftInvoice(params.row)}
                                 sx={{ color: '#000000' }}
                             >
-                                <PaymentIcon />
+                                <EditIcon />
                             </IconButton>
                         </Tooltip>
-                    );
-                } else {
-                    return (
-                        <Tooltip title="Mark as Paid">
+                    )}
+                    {isInvoiceIssued(params.row) && (
+                        <Tooltip title={params.row.status === 'paid' ? 'Payments & Receipts' : 'Record Payment'}>
                             <IconButton
                                 size="small"
                                 onClick={() => handleOpenPaymentModal(params.row)}
@@ -382,9 +371,42 @@ const BillingPage: React.FC = () => {
                                 <PaymentIcon />
                             </IconButton>
                         </Tooltip>
-                    );
-                }
-            }
+                    )}
+                    {isInvoiceIssued(params.row) && (
+                        <Tooltip title="Credit Notes">
+                            <IconButton
+                                size="small"
+                                onClick={() => setCreditNoteInvoice(params.row)}
+                                sx={{ color: '#000000' }}
+                            >
+                                <CreditNoteIcon />
+                            </IconButton>
+                        </Tooltip>
+                    )}
+                    {getEffectiveInvoiceStatus(params.row) === 'overdue' && (
+                        <Tooltip title="Payment Reminders">
+                            <IconButton
+                                size="small"
+                                onClick={() => setReminderInvoice(params.row)}
+                                sx={{ color: '#000000' }}
+                            >
+                                <ReminderIcon />
+                            </IconButton>
+                        </Tooltip>
+                    )}
+                    {canVoidInvoice(params.row) && (
+                        <Tooltip title="Void Invoice">
+                            <IconButton
+                                size="small"
+                                onClick={() => setVoidingInvoice(params.row)}
+                                sx={{ color: colors.error }}
+                            >
+                                <VoidIcon />
+                            </IconButton>
+                        </Tooltip>
+                    )}
+                </div>
+            )
         },
     ];
 
@@ -408,13 +430,27 @@ const BillingPage: React.FC = () => {
                     <h2 className="text-2xl md:text-3xl font-bold" style={{ color: colors.text.primary }}>
                         Billing Management
                     </h2>
-                    {activeTab === 0 && selectedOrders.length > 0 && (
-                        <div className="flex items-center gap-2 px-3 py-2 bg-blue-50 rounded-lg border" style={{ borderColor: colors.border.light }}>
-                            <span className="text-sm font-medium text-blue-700">
-                                {selectedOrders.length} order{selectedOrders.length !== 1 ? 's' : ''} selected
-                            </span>
-                        </div>
-                    )}
+                    <div className="flex items-center gap-2">
+                        {activeTab === 0 && selectedOrders.length > 0 && (
+                            <div className="flex items-center gap-2 px-3 py-2 bg-blue-50 rounded-lg border" style={{ borderColor: colors.border.light }}>
+                                <span className="text-sm font-medium text-blue-700">
+                                    {selectedOrders.length} order{selectedOrders.length !== 1 ? 's' : ''} selected
+                                </span>
+                            </div>
+                        )}
+                        <PrimaryButton
+                            onClick={() => setBillPeriodModalOpen(true)}
+                            style={{ width: 'auto', minWidth: 140 }}
+                        >
+                            Bill Period
+                        </PrimaryButton>
+                        <PrimaryButton
+                            onClick={() => setStatementModalOpen(true)}
+                            style={{ width: 'auto', minWidth: 140, background: colors.primary[100], color: colors.text.primary }}
+                        >
+                            Statements
+                        </PrimaryButton>
+                    </div>
                 </div>
 
                 {/* Tabs */}
@@ -432,115 +468,120 @@ const BillingPage: React.FC = () => {
                     >
                         <Tab label="Orders (Create Invoice)" />
                         <Tab label="Invoices (Payment Management)" />
+                        <Tab label="Overdue" />
                     </Tabs>
                 </Box>
 
                 {/* Search and Filters Section */}
-                <div className="bg-white rounded-lg shadow-sm border p-4" style={{ borderColor: colors.border.light }}>
-                    <div className="flex flex-col gap-4">
-                        {/* Search Bar */}
-                        <div className="flex flex-col sm:flex-row gap-3">
-                            <div className="flex-1">
-                                <label className="block text-sm font-medium text-gray-700 mb-1">
-                                    Search
-                                </label>
-                                <input
-                                    type="text"
-                                    placeholder={activeTab === 0 ? "Search by reference number or customer name..." : "Search by invoice number or customer name..."}
-                                    value={search}
-                                    onChange={e => setSearch(e.target.value)}
-                                    className="w-full px-4 py-2.5 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm transition-all duration-200"
-                                    style={{ borderColor: colors.border.light }}
-                                />
-                            </div>
-                        </div>
-
-                        {/* Filters Row */}
-                        <div className="flex flex-col lg:flex-row gap-4 items-start lg:items-end">
-                            <div className="flex flex-wrap gap-4 flex-1">
-                                <div className="min-w-[220px] flex-1 max-w-[300px]">
+                {activeTab !== 2 && (
+                    <div className="bg-white rounded-lg shadow-sm border p-4" style={{ borderColor: colors.border.light }}>
+                        <div className="flex flex-col gap-4">
+                            {/* Search Bar */}
+                            <div className="flex flex-col sm:flex-row gap-3">
+                                <div className="flex-1">
                                     <label className="block text-sm font-medium text-gray-700 mb-1">
-                                        Customer
+                                        Search
                                     </label>
-                                    <PrimaryDropdown
-                                        value={activeTab === 0 ? customerFilter : invoiceCustomerFilter}
-                                        onChange={(e) => activeTab === 0 ? setCustomerFilter(e.target.value) : setInvoiceCustomerFilter(e.target.value)}
-                                        options={[
-                                            { value: '', label: 'All Customers' },
-                                            ...customers.map(customer => ({
-                                                value: customer.id?.toString() || '',
-                                                label: `${customer.firstName} - ${customer.customerCode || 'N/A'}`
-                                            }))
-                                        ]}
-                                        placeholder="Select Customer"
-                                        style={{ width: '100%' }}
+                                    <input
+                                        type="text"
+                                        placeholder={activeTab === 0 ? "Search by reference number or customer name..." : "Search by invoice number or customer name..."}
+                                        value={search}
+                                        onChange={e => setSearch(e.target.value)}
+                                        className="w-full px-4 py-2.5 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm transition-all duration-200"
+                                        style={{ borderColor: colors.border.light }}
                                     />
                                 </div>
+                            </div>
 
-                                {activeTab === 1 && (
-                                    <div className="min-w-[180px] flex-1 max-w-[250px]">
+                            {/* Filters Row */}
+                            <div className="flex flex-col lg:flex-row gap-4 items-start lg:items-end">
+                                <div className="flex flex-wrap gap-4 flex-1">
+                                    <div className="min-w-[220px] flex-1 max-w-[300px]">
                                         <label className="block text-sm font-medium text-gray-700 mb-1">
-                                            Status
+                                            Customer
                                         </label>
                                         <PrimaryDropdown
-                                            value={invoiceStatusFilter}
-                                            onChange={(e) => setInvoiceStatusFilter(e.target.value)}
+                                            value={activeTab === 0 ? customerFilter : invoiceCustomerFilter}
+                                            onChange={(e) => activeTab === 0 ? setCustomerFilter(e.target.value) : setInvoiceCustomerFilter(e.target.value)}
                                             options={[
-                                                { value: '', label: 'All Status' },
-                                                { value: 'draft', label: 'Draft' },
-                                                { value: 'sent', label: 'Sent' },
-                                                { value: 'paid', label: 'Paid' },
-                                                { value: 'overdue', label: 'Overdue' }
+                                                { value: '', label: 'All Customers' },
+                                                ...customers.map(customer => ({
+                                                    value: customer.id?.toString() || '',
+                                                    label: `${customer.firstName} - ${customer.customerCode || 'N/A'}`
+                                                }))
                                             ]}
-                                            placeholder="Select Status"
+                                            placeholder="Select Customer"
                                             style={{ width: '100%' }}
                                         />
                                     </div>
-                                )}
 
-                                {/* Clear Button - positioned right after filters */}
-                                <div className="flex items-end">
-                                    <PrimaryButton
-                                        onClick={handleClearFilters}
-                                        style={{
-                                            minWidth: 120,
-                                            height: 40,
-                                            backgroundColor: colors.background.primary,
-                                            border: `1px solid ${colors.border.light}`,
-                                            color: colors.text.secondary
-                                        }}
-                                    >
-                                        Clear Filters
-                                    </PrimaryButton>
+                                    {activeTab === 1 && (
+                                        <div className="min-w-[180px] flex-1 max-w-[250px]">
+                                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                                                Status
+                                            </label>
+                                            <PrimaryDropdown
+                                                value={invoiceStatusFilter}
+                                                onChange={(e) => setInvoiceStatusFilter(e.target.value)}
+                                                options={[
+                                                    { value: '', label: 'All Status' },
+                                                    ...INVOICE_STATUS_OPTIONS
+                                                ]}
+                                                placeholder="Select Status"
+                                                style={{ width: '100%' }}
+                                            />
+                                        </div>
+                                    )}
+
+                                    {/* Clear Button - positioned right after filters */}
+                                    <div className="flex items-end">
+                                        <PrimaryButton
+                                            onClick={handleClearFilters}
+                                            style={{
+                                                minWidth: 120,
+                                                height: 40,
+                                                backgroundColor: colors.background.primary,
+                                                border: `1px solid ${colors.border.light}`,
+                                                color: colors.text.secondary
+                                            }}
+                                        >
+                                            Clear Filters
+                                        </PrimaryButton>
+                                    </div>
                                 </div>
-                            </div>
 
-                            {/* Create Invoice Button - positioned separately */}
-                            {activeTab === 0 && (
-                                <div className="flex items-end">
-                                    <PrimaryButton
-                                        style={{
-                                            minWidth: 280,
-                                            height: 40,
-                                            backgroundColor: selectedOrders.length > 0 ? colors.primary[500] : colors.border.light,
-                                            color: selectedOrders.length > 0 ? 'white' : colors.text.secondary
-                                        }}
-                                        onClick={handleCreateInvoice}
-                                        disabled={selectedOrders.length === 0}
-                                    >
-                                        <ReceiptIcon style={{ marginRight: 8, fontSize: 18 }} />
-                                        Create Invoice ({selectedOrders.length})
-                                    </PrimaryButton>
-                                </div>
-                            )}
+                                {/* Create Invoice Button - positioned separately */}
+                                {activeTab === 0 && (
+                                    <div className="flex items-end">
+                                        <PrimaryButton
+                                            style={{
+                                                minWidth: 280,
+                                                height: 40,
+                                                backgroundColor: selectedOrders.length > 0 ? colors.primary[500] : colors.border.light,
+                                                color: selectedOrders.length > 0 ? 'white' : colors.text.secondary
+                                            }}
+                                            onClick={handleCreateInvoice}
+                                            disabled={selectedOrders.length === 0}
+                                        >
+                                            <ReceiptIcon style={{ marginRight: 8, fontSize: 18 }} />
+                                            Create Invoice ({selectedOrders.length})
+                                        </PrimaryButton>
+                                    </div>
+                                )}
+                            </div>
                         </div>
                     </div>
-                </div>
+                )}
             </div>
 
             {/* Table Section */}
             <div className="mt-6">
-                {loading ? (
+                {activeTab === 2 ? (
+                    <OverdueInvoicesPanel
+                        onShowReminders={setReminderInvoice}
+                        onRecordPayment={handleOpenPaymentModal}
+                    />
+                ) : loading ? (
                     <div className="flex justify-center items-center py-12">
                         <div className="flex flex-col items-center gap-3">
                             <CircularProgress size={40} />
@@ -613,12 +654,54 @@ const BillingPage: React.FC = () => {
                 onInvoiceCreated={handleInvoiceCreated}
             />
 
+            {/* Bill Period Modal */}
+            <BillPeriodModal
+                open={billPeriodModalOpen}
+                onClose={() => setBillPeriodModalOpen(false)}
+            />
+
+            {/* Customer Statement Modal */}
+            <CustomerStatementModal
+                open={statementModalOpen}
+                onClose={() => setStatementModalOpen(false)}
+                customers={customers}
+            />
+
+            {/* Credit Note Modal */}
+            <CreditNoteModal
+                open={!!creditNoteInvoice}
+                onClose={() => setCreditNoteInvoice(null)}
+                invoice={creditNoteInvoice}
+                onCreate={handleCreateCreditNote}
+            />
+
+            {/* Draft Invoice Modal */}
+            <DraftInvoiceModal
+                open={!!draftInvoice}
+                onClose={() => setDraftInvoice(null)}
+                invoice={draftInvoice}
+            />
+
+            {/* Void Invoice Modal */}
+            <VoidInvoiceModal
+                open={!!voidingInvoice}
+                onClose={() => setVoidingInvoice(null)}
+                invoice={voidingInvoice}
+            />
+
+            {/* Invoice Reminders Modal */}
+            <InvoiceRemindersModal
+                open={!!reminderInvoice}
+                onClose={() => setReminderInvoice(null)}
+                invoice={reminderInvoice}
+            />
+
             {/* Payment Status Modal */}
             <PaymentStatusModal
                 open={paymentModal.open}
                 onClose={handleClosePaymentModal}
                 order={paymentModal.invoice}
-                onUpdate={handleUpdatePayment}
+                onRecordPayment={handleRecordPayment}
                 loading={loading}
             />
         </div>
@@ -4,6 +4,8 @@ import { useState, useEffect, useMemo } from 'react';
 import { Modal, Box, Typography, FormControlLabel, Checkbox, IconButton } from '@mui/material';
 import PrimaryButton from '../components/common/PrimaryButton';
 import PrimaryTable from '../components/common/PrimaryTable';
+import PriceListModal from '../components/modals/PriceListModal';
+import PrimaryDropdown from '../components/common/PrimaryDropdown';
 import colors from '../styles/colors';
 import toast from 'react-hot-toast';
 import {
@@ -16,10 +18,11 @@ import {
 import { type Customer } from '../services/customerService';
 import { useAuth } from '../hooks/useAuth';
 import { hasPermission } from '../utils/roleUtils';
+import { BASE_CURRENCY, CURRENCY_OPTIONS } from '../utils/currencyUtils';
 
 import type { GridColDef } from '@mui/x-data-grid';
 
-const getColumns = (onEdit: (customer: Customer) => void, onDelete: (customer: Customer) => void, canEdit: boolean, canDelete: boolean): GridColDef[] => [
+const getColumns = (onEdit: (customer: Customer) => void, onDelete: (customer: Customer) => void, onPriceList: (customer: Customer) => void, canEdit: boolean, canDelete: boolean): GridColDef[] => [
     { field: 'customerCode', headerName: 'Code', flex: 0.8, minWidth: 110 },
     { field: 'firstName', headerName: 'First Name', flex: 1, minWidth: 130 },
     { field: 'lastName', headerName: 'Last Name', flex: 1, minWidth: 130 },
@@ -27,12 +30,14 @@ const getColumns = (onEdit: (customer: Customer) => void, onDelete: (customer: C
     { field: 'email', headerName: 'Email', flex: 1.5, minWidth: 200 },
     { field: 'address', headerName: 'Address', flex: 1.2, minWidth: 160 },
     { field: 'mapLink', headerName: 'Map Link', flex: 1, minWidth: 120 },
+    { field: 'vatNumber', headerName: 'VAT No', flex: 1, minWidth: 120 },
+    { field: 'currency', headerName: 'Currency', flex: 0.6, minWidth: 90, renderCell: (params) => params.value || BASE_CURRENCY },
     { field: 'isActive', headerName: 'Active', flex: 0.6, minWidth: 80, type: 'boolean' as const },
     {
         field: 'actions',
         headerName: 'Actions',
         flex: 0.8,
-        minWidth: 120,
+        minWidth: 150,
         sortable: false,
         renderCell: (params) => (
             <div className="flex gap-2">
@@ -45,6 +50,15 @@ const getColumns = (onEdit: (customer: Customer) => void, onDelete: (customer: C
                         ✏️
                     </IconButton>
                 )}
+                {canEdit && (
+                    <IconButton
+                        size="small"
+                        onClick={() => onPriceList(params.row as Customer)}
+                        title="Price List"
+                    >
+                        💲
+                    </IconButton>
+                )}
                 {canDelete && (
                     <IconButton
                         size="small"
@@ -77,10 +91,15 @@ export default function CustomersPage() {
         mapLink: '',
         notes: '',
         isActive: true,
+        isVatRegistered: false,
+        vatNumber: '',
+        currency: BASE_CURRENCY,
     });
     const [errors, setErrors] = useState<{ [key: string]: string }>({});
     const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
     const [customerToDelete, setCustomerToDelete] = useState<Customer | null>(null);
+    const [priceListOpen, setPriceListOpen] = useState(false);
+    const [priceListCustomer, setPriceListCustomer] = useState<Customer | null>(null);
 
     // Pagination state
     const [pageSize, setPageSize] = useState(10);
@@ -172,6 +191,7 @@ export default function CustomersPage() {
         if (!form.lastName) newErrors.lastName = 'Required';
         if (!form.phone) newErrors.phone = 'Required';
         if (form.email && !isUnique('email', form.email)) newErrors.email = 'Email must be unique';
+        if (form.isVatRegistered && !form.vatNumber.trim()) newErrors.vatNumber = 'VAT number is required for VAT-registered customers';
         return newErrors;
     };
 
@@ -189,11 +209,19 @@ export default function CustomersPage() {
             mapLink: customer.mapLink || '',
             notes: customer.notes || '',
             isActive: customer.isActive !== undefined ? customer.isActive : true,
+            isVatRegistered: customer.isVatRegistered || false,
+            vatNumber: customer.vatNumber || '',
+            currency: customer.currency || BASE_CURRENCY,
         });
         setErrors({});
         setOpen(true);
     };
 
+    const handlePriceList = (customer: Customer | null) => {
+        setPriceListCustomer(customer);
+        setPriceListOpen(true);
+    };
+
     const handleDelete = (customer: Customer) => {
         setCustomerToDelete(customer);
         setDeleteConfirmOpen(true);
@@ -227,6 +255,9 @@ export default function CustomersPage() {
             mapLink: '',
             notes: '',
             isActive: true,
+            isVatRegistered: false,
+            vatNumber: '',
+            currency: BASE_CURRENCY,
         });
         setErrors({});
         setOpen(true);
@@ -280,6 +311,9 @@ export default function CustomersPage() {
                             mapLink: '',
                             notes: '',
                             isActive: true,
+                            isVatRegistered: false,
+                            vatNumber: '',
+                            currency: BASE_CURRENCY,
                         });
                         setEditMode(false);
                         setSelectedCustomer(null);
@@ -305,6 +339,9 @@ export default function CustomersPage() {
                         mapLink: '',
                         notes: '',
                         isActive: true,
+                        isVatRegistered: false,
+                        vatNumber: '',
+                        currency: BASE_CURRENCY,
                     });
                     setEditMode(false);
                     setSelectedCustomer(null);
@@ -353,7 +390,13 @@ export default function CustomersPage() {
                         </select>
                     </div>
                     {hasPermission(user, 'canEdit') && (
-                        <div className="w-full sm:w-auto mt-1 sm:mt-0">
+                        <div className="flex gap-2 w-full sm:w-auto mt-1 sm:mt-0">
+                            <PrimaryButton
+                                style={{ minWidth: 160, width: '100%', background: colors.primary[100], color: colors.text.primary }}
+                                onClick={() => handlePriceList(null)}
+                            >
+                                Default Price List
+                            </PrimaryButton>
                             <PrimaryButton style={{ minWidth: 140, width: '100%' }} onClick={handleOpen}>
                                 + Add Customer
                             </PrimaryButton>
@@ -371,7 +414,7 @@ export default function CustomersPage() {
                     </div>
                 ) : (
                     <PrimaryTable
-                        columns={getColumns(handleEdit, handleDelete, hasPermission(user, 'canEdit'), hasPermission(user, 'canDelete'))}
+                        columns={getColumns(handleEdit, handleDelete, handlePriceList, hasPermission(user, 'canEdit'), hasPermission(user, 'canDelete'))}
                         rows={rows}
                         pageSizeOptions={[5, 10, 20, 50]}
                         pagination
@@ -507,6 +550,48 @@ export default function CustomersPage() {
                                 />
                             </div>
                         </div>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div className="flex flex-col justify-end">
+                                <FormControlLabel
+                                    control={
+                                        <Checkbox
+                                            name="isVatRegistered"
+                                            checked={form.isVatRegistered}
+                                            onChange={handleChange}
+                                            sx={{ color: colors.primary[500], '&.Mui-checked': { color: colors.primary[500] } }}
+                                        />
+                                    }
+                                    label={<span className="text-base">VAT Registered (issue tax invoices)</span>}
+                                />
+                            </div>
+                            {form.isVatRegistered && (
+                                <div className="flex flex-col">
+                                    <label className="block text-sm font-medium mb-2">VAT Number <span className="text-red-500">*</span></label>
+                                    <input
+                                        name="vatNumber"
+                                        value={form.vatNumber}
+                                        onChange={handleChange}
+                                        className={`w-full px-4 py-3 border rounded-xl focus:outline-none text-base ${errors.vatNumber ? 'border-red-500' : ''}`}
+                                        style={{ borderColor: colors.border.light }}
+                                        placeholder="e.g. 123456789-7000"
+                                    />
+                                    {errors.vatNumber && <span className="text-xs text-red-500 mt-1">{errors.vatNumber}</span>}
+                                </div>
+                            )}
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div className="flex flex-col">
+                                <label className="block text-sm font-medium mb-2">Billing Currency</label>
+                                <PrimaryDropdown
+                                    name="currency"
+                                    value={form.currency}
+                                    onChange={(e) => setForm(prev => ({ ...prev, currency: e.target.value }))}
+                                    options={CURRENCY_OPTIONS.map(option => ({ value: option.value, label: option.label }))}
+                                    placeholder="Select Currency"
+                                />
+                                <span className="text-xs text-gray-500 mt-1">Invoices print in this currency; reports convert to {BASE_CURRENCY}</span>
+                            </div>
+                        </div>
                         <div className="flex items-center gap-3 mt-2">
                             <FormControlLabel
                                 control={
@@ -532,6 +617,12 @@ export default function CustomersPage() {
                 </Box>
             </Modal>
 
+            <PriceListModal
+                open={priceListOpen}
+                onClose={() => setPriceListOpen(false)}
+                customer={priceListCustomer}
+            />
+
             {/* Delete Confirmation Modal */}
             <Modal open={deleteConfirmOpen} onClose={() => setDeleteConfirmOpen(false)}>
                 <Box
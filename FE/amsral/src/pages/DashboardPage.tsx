@@ -37,6 +37,7 @@ import RecentOrdersTable from '../components/dashboard/RecentOrdersTable';
 import TopCustomersWidget from '../components/dashboard/TopCustomersWidget';
 import PaymentStatusPieChart from '../components/dashboard/PaymentStatusPieChart';
 import colors from '../styles/colors';
+import { BASE_CURRENCY, formatCurrency } from '../utils/currencyUtils';
 
 
 export default function DashboardPage() {
@@ -55,19 +56,22 @@ export default function DashboardPage() {
     startDate: dateRange.startDate?.toISOString().split('T')[0] || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     endDate: dateRange.endDate?.toISOString().split('T')[0] || new Date().toISOString().split('T')[0],
     period: dateRange.period,
+    currency: BASE_CURRENCY, // Foreign currency invoices are reported in LKR
   };
 
   const incomeTrendsFilters: IncomeTrendsFilters = {
     startDate: dashboardFilters.startDate,
     endDate: dashboardFilters.endDate,
     groupBy: 'day',
-    limit: 30
+    limit: 30,
+    currency: dashboardFilters.currency
   };
 
   const topCustomersFilters: TopCustomersFilters = {
     startDate: dashboardFilters.startDate,
     endDate: dashboardFilters.endDate,
-    limit: 10
+    limit: 10,
+    currency: dashboardFilters.currency
   };
 
   // TanStack Query hooks
@@ -207,21 +211,21 @@ export default function DashboardPage() {
           }}>
             <MetricCard
               title="Total Revenue"
-              value={`Rs. ${incomeSummary?.summary?.totalRevenue?.toLocaleString() || '0'}`}
+              value={formatCurrency(incomeSummary?.summary?.totalRevenue || 0)}
               subtitle={`${incomeSummary?.summary?.totalRecords || 0} total records`}
               icon={<AttachMoney />}
               color="primary"
             />
             <MetricCard
               title="Total Income"
-              value={`Rs. ${incomeSummary?.summary?.totalIncome?.toLocaleString() || '0'}`}
+              value={formatCurrency(incomeSummary?.summary?.totalIncome || 0)}
               subtitle={`${incomeSummary?.summary?.paidRecords || 0} paid records`}
               icon={<AccountBalance />}
               color="success"
             />
             <MetricCard
               title="Pending Income"
-              value={`Rs. ${incomeSummary?.summary?.pendingIncome?.toLocaleString() || '0'}`}
+              value={formatCurrency(incomeSummary?.summary?.pendingIncome || 0)}
               subtitle={`${incomeSummary?.summary?.invoicedRecords || 0} invoiced records`}
               icon={<Warning />}
               color="warning"
@@ -242,6 +246,7 @@ export default function DashboardPage() {
             <RevenueTrendChart
               data={ordersTrend}
               loading={loading}
+              currency={dashboardFilters.currency}
             />
           </Box>
 
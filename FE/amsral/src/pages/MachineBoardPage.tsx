@@ -0,0 +1,361 @@
+import { useState } from 'react';
+import { Alert, Box, Chip, CircularProgress, IconButton, Tab, Tabs, Tooltip } from '@mui/material';
+import { Refresh, WarningAmber, DragIndicator } from '@mui/icons-material';
+import ConfirmationDialog from '../components/common/ConfirmationDialog';
+import colors from '../styles/colors';
+import { useMachineBoard, useMoveAssignment } from '../hooks/useMachineBoard';
+import { useAuth } from '../hooks/useAuth';
+import { hasPermission } from '../utils/roleUtils';
+import { getStatusColor, getStatusLabel, normalizeStatus } from '../utils/statusUtils';
+import {
+    buildMachineBoard,
+    checkCapacity,
+    findMachine,
+    formatMachineCapacity,
+    getAssignmentMachineRef,
+    isMachineAvailable,
+    type MachineKind
+} from '../utils/machineUtils';
+import { type Machine } from '../services/machineService';
+import { type MachineAssignment } from '../services/recordService';
+import toast from 'react-hot-toast';
+
+const machineKinds: MachineKind[] = ['Washing', 'Drying'];
+
+interface PendingMove {
+    assignment: MachineAssignment;
+    machine: Machine;
+}
+
+const formatSlotTime = (value: string) => {
+    const date = new Date(value);
+    if (isNaN(date.getTime())) return '-';
+    return date.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+};
+
+function AssignmentCard({
+    assignment,
+    slot,
+    machine,
+    draggable,
+    onDragStart,
+    onDragEnd,
+}: {
+    assignment: MachineAssignment;
+    slot: string;
+    machine?: Machine;
+    draggable: boolean;
+    onDragStart: () => void;
+    onDragEnd: () => void;
+}) {
+    const capacityCheck = machine ? checkCapacity(machine, assignment) : 'within';
+    const status = normalizeStatus(assignment.status, 'assignment');
+
+    return (
+        <div
+            draggable={draggable}
+            onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move';
+                onDragStart();
+            }}
+            onDragEnd={onDragEnd}
+            className={`p-3 bg-white rounded-lg border shadow-sm ${draggable ? 'cursor-grab active:cursor-grabbing' : ''}`}
+            style={{ borderColor: capacityCheck === 'over' ? '#f59e0b' : colors.border.light }}
+        >
+            <div className="flex items-center justify-between gap-2 mb-1">
+                <div className="flex items-center gap-1">
+                    {draggable && <DragIndicator fontSize="small" sx={{ color: colors.text.muted }} />}
+                    <span className="font-mono font-bold" style={{ color: colors.button.primary }}>
+                        {assignment.trackingNumber || assignment.id}
+                    </span>
+                </div>
+                <span className="text-xs font-semibold uppercase" style={{ color: colors.text.secondary }}>
+                    {slot}
+                </span>
+            </div>
+            <div className="text-sm" style={{ color: colors.text.primary }}>
+                {assignment.customerName} - {assignment.item}
+            </div>
+            <div className="flex items-center justify-between mt-2 text-xs" style={{ color: colors.text.secondary }}>
+                <span>{assignment.quantity} pcs - {assignment.assignedTo}</span>
+                <span>{formatSlotTime(assignment.assignedAt)}</span>
+            </div>
+            <div className="flex flex-wrap items-center gap-1 mt-2">
+                <span className={`px-2 py-0.5 rounded-lg text-xs font-semibold ${getStatusColor(status, 'assignment')}`}>
+                    {getStatusLabel(status, 'assignment')}
+                </span>
+                {capacityCheck === 'over' && machine && (
+                    <Chip
+                        size="small"
+                        icon={<WarningAmber />}
+                        label={`Over capacity (${formatMachineCapacity(machine)})`}
+                        sx={{ bgcolor: '#fef3c7', color: '#92400e', '& .MuiChip-icon': { color: '#d97706' } }}
+                    />
+                )}
+                {capacityCheck === 'unknownWeight' && machine && (
+                    <Chip
+                        size="small"
+                        icon={<WarningAmber />}
+                        label={`Weight unknown (${formatMachineCapacity(machine)} max)`}
+                        sx={{ bgcolor: '#f3f4f6', color: colors.text.secondary, '& .MuiChip-icon': { color: colors.text.muted } }}
+                    />
+                )}
+            </div>
+        </div>
+    );
+}
+
+export default function MachineBoardPage() {
+    const { user } = useAuth();
+    const [activeKind, setActiveKind] = useState<MachineKind>('Washing');
+    const [dragging, setDragging] = useState<MachineAssignment | null>(null);
+    const [dropTargetId, setDropTargetId] = useState<number | null>(null);
+    const [pendingMove, setPendingMove] = useState<PendingMove | null>(null);
+
+    // Permission checks - supervisors can reschedule, everyone on the floor can view
+    const canViewProduction = hasPermission(user, 'canViewProduction');
+    const canReschedule = hasPermission(user, 'canViewManagement');
+
+    // TanStack Query hooks
+    const {
+        data: boardData,
+        isLoading: loading,
+        isFetching,
+        error,
+        refetch
+    } = useMachineBoard();
+
+    // Mutation hooks
+    const moveAssignmentMutation = useMoveAssignment();
+
+    const machines = boardData?.machines || [];
+    const { lanes, unscheduled } = buildMachineBoard(machines, boardData?.assignments || [], activeKind);
+
+    const moveAssignment = (assignment: MachineAssignment, machine: Machine) => {
+        moveAssignmentMutation.mutate(
+            { assignment, kind: activeKind, machine },
+            { onSettled: () => setPendingMove(null) }
+        );
+    };
+
+    const handleDrop = (machine: Machine) => {
+        const assignment = dragging;
+        setDragging(null);
+        setDropTargetId(null);
+        if (!assignment) return;
+
+        const currentMachine = findMachine(machines, getAssignmentMachineRef(assignment, activeKind));
+        if (currentMachine?.id === machine.id) return;
+
+        if (!isMachineAvailable(machine)) {
+            toast.error(`${machine.name} is under maintenance`);
+            return;
+        }
+
+        // Ask before overloading a machine rather than blocking - the supervisor may split the load on the floor
+        if (checkCapacity(machine, assignment) !== 'within') {
+            setPendingMove({ assignment, machine });
+            return;
+        }
+
+        moveAssignment(assignment, machine);
+    };
+
+    const cardProps = (assignment: MachineAssignment) => ({
+        draggable: canReschedule && !moveAssignmentMutation.isPending,
+        onDragStart: () => setDragging(assignment),
+        onDragEnd: () => {
+            setDragging(null);
+            setDropTargetId(null);
+        },
+    });
+
+    if (!canViewProduction) {
+        return (
+            <div className="w-full mx-auto px-1 sm:px-3 md:px-4 py-3">
+                <Alert severity="error">
+                    You don't have permission to access the machine board.
+                </Alert>
+            </div>
+        );
+    }
+
+    return (
+        <div className="w-full mx-auto px-1 sm:px-3 md:px-4 py-4">
+            <div className="flex items-center justify-between gap-3 mb-4">
+                <div>
+                    <h2 className="text-2xl md:text-3xl font-bold" style={{ color: colors.text.primary }}>
+                        Machine Board
+                    </h2>
+                    <p className="text-sm" style={{ color: colors.text.secondary }}>
+                        {canReschedule
+                            ? 'Drag an assignment onto another machine to reschedule it.'
+                            : 'Current and queued loads on each machine.'}
+                    </p>
+                </div>
+                <Tooltip title="Refresh" arrow>
+                    <span>
+                        <IconButton onClick={() => refetch()} disabled={isFetching} sx={{ color: colors.text.secondary }}>
+                            {isFetching ? <CircularProgress size={20} /> : <Refresh />}
+                        </IconButton>
+                    </span>
+                </Tooltip>
+            </div>
+
+            <Box sx={{ borderBottom: 1, borderColor: 'divider', mb: 3 }}>
+                <Tabs
+                    value={activeKind}
+                    onChange={(_, newValue) => setActiveKind(newValue)}
+                    sx={{
+                        '& .MuiTab-root': {
+                            textTransform: 'none',
+                            fontWeight: 500,
+                            fontSize: '1rem',
+                        }
+                    }}
+                >
+                    {machineKinds.map(kind => (
+                        <Tab key={kind} value={kind} label={`${kind} Machines`} />
+                    ))}
+                </Tabs>
+            </Box>
+
+            {error && (
+                <Alert severity="error" sx={{ mb: 3 }}>
+                    {(error as { message?: string }).message || 'Failed to load the machine board'}
+                </Alert>
+            )}
+
+            {loading ? (
+                <div className="flex items-center justify-center h-64">
+                    <CircularProgress />
+                </div>
+            ) : (
+                <div className="flex gap-4 overflow-x-auto pb-4">
+                    {lanes.length === 0 && (
+                        <Alert severity="info" sx={{ width: '100%' }}>
+                            No {activeKind.toLowerCase()} machines have been set up yet.
+                        </Alert>
+                    )}
+
+                    {lanes.map(lane => {
+                        const laneOverCapacity = [lane.current, ...lane.queued].some(
+                            assignment => assignment && checkCapacity(lane.machine, assignment) === 'over'
+                        );
+                        const isDropTarget = dropTargetId === lane.machine.id;
+
+                        return (
+                            <div
+                                key={lane.machine.id}
+                                onDragOver={(e) => {
+                                    if (!dragging || !isMachineAvailable(lane.machine)) return;
+                                    e.preventDefault();
+                                    setDropTargetId(lane.machine.id);
+                                }}
+                                onDragLeave={() => setDropTargetId(prev => (prev === lane.machine.id ? null : prev))}
+                                onDrop={(e) => {
+                                    e.preventDefault();
+                                    handleDrop(lane.machine);
+                                }}
+                                className="flex flex-col flex-shrink-0 w-72 rounded-xl border-2 p-3 transition-colors"
+                                style={{
+                                    borderColor: isDropTarget ? colors.button.primary : colors.border.light,
+                                    background: isDropTarget ? colors.primary[50] : '#f9fafb',
+                                }}
+                            >
+                                <div className="flex items-start justify-between mb-3">
+                                    <div>
+                                        <div className="font-bold" style={{ color: colors.text.primary }}>
+                                            {lane.machine.name}
+                                        </div>
+                                        <div className="text-xs" style={{ color: colors.text.secondary }}>
+                                            {lane.machine.capacity ? `Capacity ${formatMachineCapacity(lane.machine)}` : 'No capacity set'}
+                                            {' - '}{lane.totalQuantity} pcs booked
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center gap-1">
+                                        {!isMachineAvailable(lane.machine) && (
+                                            <Chip size="small" label="Maintenance" sx={{ bgcolor: '#fee2e2', color: '#991b1b' }} />
+                                        )}
+                                        {laneOverCapacity && (
+                                            <Tooltip title="A load on this machine is larger than its capacity" arrow>
+                                                <WarningAmber sx={{ color: '#d97706' }} />
+                                            </Tooltip>
+                                        )}
+                                    </div>
+                                </div>
+
+                                <div className="text-xs font-semibold uppercase mb-1" style={{ color: colors.text.secondary }}>
+                                    Now
+                                </div>
+                                {lane.current ? (
+                                    <AssignmentCard
+                                        assignment={lane.current}
+                                        slot="Running"
+                                        machine={lane.machine}
+                                        {...cardProps(lane.current)}
+                                    />
+                                ) : (
+                                    <div className="p-3 rounded-lg border border-dashed text-sm text-center" style={{ borderColor: colors.border.light, color: colors.text.muted }}>
+                                        Idle
+                                    </div>
+                                )}
+
+                                <div className="text-xs font-semibold uppercase mt-3 mb-1" style={{ color: colors.text.secondary }}>
+                                    Queue ({lane.queued.length})
+                                </div>
+                                <div className="flex flex-col gap-2">
+                                    {lane.queued.map((assignment, index) => (
+                                        <AssignmentCard
+                                            key={assignment.id}
+                                            assignment={assignment}
+                                            slot={`Slot ${index + 1}`}
+                                            machine={lane.machine}
+                                            {...cardProps(assignment)}
+                                        />
+                                    ))}
+                                </div>
+                            </div>
+                        );
+                    })}
+
+                    {unscheduled.length > 0 && (
+                        <div className="flex flex-col flex-shrink-0 w-72 rounded-xl border-2 border-dashed p-3" style={{ borderColor: colors.border.light }}>
+                            <div className="font-bold mb-1" style={{ color: colors.text.primary }}>
+                                No {activeKind.toLowerCase()} machine
+                            </div>
+                            <div className="text-xs mb-3" style={{ color: colors.text.secondary }}>
+                                Open assignments not booked on a {activeKind.toLowerCase()} machine
+                            </div>
+                            <div className="flex flex-col gap-2">
+                                {unscheduled.map(assignment => (
+                                    <AssignmentCard
+                                        key={assignment.id}
+                                        assignment={assignment}
+                                        slot="Unscheduled"
+                                        {...cardProps(assignment)}
+                                    />
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            <ConfirmationDialog
+                open={!!pendingMove}
+                title="Machine Over Capacity"
+                message={!pendingMove
+                    ? ''
+                    : checkCapacity(pendingMove.machine, pendingMove.assignment) === 'unknownWeight'
+                        ? `${pendingMove.assignment.trackingNumber || 'This assignment'} was not weighed, so it can't be checked against the ${formatMachineCapacity(pendingMove.machine)} ${pendingMove.machine.name} takes per load. Move it anyway?`
+                        : `${pendingMove.assignment.trackingNumber || 'This assignment'} is more than the ${formatMachineCapacity(pendingMove.machine)} ${pendingMove.machine.name} takes per load. Move it anyway?`}
+                confirmText="Move Anyway"
+                cancelText="Cancel"
+                onConfirm={() => pendingMove && moveAssignment(pendingMove.assignment, pendingMove.machine)}
+                onCancel={() => setPendingMove(null)}
+                loading={moveAssignmentMutation.isPending}
+            />
+        </div>
+    );
+}
@@ -8,10 +8,14 @@ import PrimaryTable from '../components/common/PrimaryTable';
 import PrimaryButton from '../components/common/PrimaryButton';
 import DeliveryModal from '../components/modals/DeliveryModal';
 import colors from '../styles/colors';
-import { useManagementOrders, useUpdateDelivery, type ManagementOrderFilters } from '../hooks/useManagement';
-import { type ManagementOrder } from '../services/orderService';
+import { useManagementOrders, useRecordDelivery, type ManagementOrderFilters } from '../hooks/useManagement';
+import { orderService, type ManagementOrder, type CreateDeliveryEntryRequest, type DeliveryEntry } from '../services/orderService';
+import { generateGatepass } from '../utils/pdfUtils';
+import { buildGatepassData } from '../utils/gatepassUtils';
+import toast from 'react-hot-toast';
 import { getStatusColor, getStatusLabel, normalizeStatus } from '../utils/statusUtils';
 import { useAuth } from '../hooks/useAuth';
+import { useDocumentSettings } from '../hooks/useSystemData';
 import { hasPermission } from '../utils/roleUtils';
 
 
@@ -52,7 +56,8 @@ export default function ManagementPage() {
     } = useManagementOrders(orderFilters);
 
     // Mutation hooks
-    const updateDeliveryMutation = useUpdateDelivery();
+    const recordDeliveryMutation = useRecordDelivery();
+    const documentSettings = useDocumentSettings();
 
     // Derived state
     const orders = ordersData?.orders || [];
@@ -156,7 +161,7 @@ export default function ManagementPage() {
                         sx={{
                             color: isDelivered ? colors.button.primary : colors.text.secondary
                         }}
-                        title="Update Delivery Status"
+                        title="Record Delivery"
                         disabled={loading}
                     >
                         <LocalShipping />
@@ -202,18 +207,37 @@ export default function ManagementPage() {
         });
     };
 
-    const handleUpdateDelivery = async (orderId: number, deliveryCount: number, isDelivered: boolean) => {
-        updateDeliveryMutation.mutate(
-            { orderId, deliveryCount, isDelivered },
+    // Print the gate pass for a delivery, listing the quantity sent per record
+    const printGatepass = async (orderId: number, entry: DeliveryEntry) => {
+        if (!documentSettings) {
+            toast.error('Delivery recorded; reprint the gate pass once the print settings have loaded');
+            return;
+        }
+
+        try {
+            const summary = await orderService.getOrderSummary(orderId);
+            if (summary.success) {
+                generateGatepass(buildGatepassData(summary.data, entry), documentSettings);
+            }
+        } catch (error) {
+            console.error('Error printing gate pass:', error);
+            toast.error('Delivery recorded but failed to print gate pass');
+        }
+    };
+
+    const handleRecordDelivery = async (orderId: number, entry: CreateDeliveryEntryRequest, deliveredTotal: number, fullyDelivered: boolean) => {
+        recordDeliveryMutation.mutate(
+            { orderId, entry, deliveredTotal, fullyDelivered },
             {
-                onSuccess: () => {
+                onSuccess: (deliveryEntry) => {
                     setDeliveryModal({
                         open: false,
                         order: null
                     });
+                    printGatepass(orderId, deliveryEntry);
                 },
                 onError: (error: Error) => {
-                    console.error('Error updating delivery status:', error);
+                    console.error('Error recording delivery:', error);
                     throw error; // Re-throw to let the modal handle the error
                 }
             }
@@ -300,8 +324,8 @@ export default function ManagementPage() {
                 open={deliveryModal.open}
                 onClose={handleCloseDeliveryModal}
                 order={deliveryModal.order}
-                onUpdate={handleUpdateDelivery}
-                loading={loading}
+                onDeliver={handleRecordDelivery}
+                loading={loading || recordDeliveryMutation.isPending}
             />
         </div>
     );
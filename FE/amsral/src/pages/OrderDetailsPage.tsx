@@ -1,13 +1,23 @@
 import { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { Typography, IconButton, Card, CardContent, Chip, LinearProgress, Divider } from '@mui/material';
-import { ArrowBack, Assignment, CalendarToday, Person, Inventory, LocalShipping, Description, CheckCircle, Schedule } from '@mui/icons-material';
+import { Typography, IconButton, Card, CardContent, Chip, LinearProgress, Divider, Table, TableBody, TableCell, TableContainer, TableHead, TableRow } from '@mui/material';
+import { ArrowBack, Assignment, CalendarToday, Person, Inventory, LocalShipping, Description, CheckCircle, Schedule, Print, PriceChange, FactCheck } from '@mui/icons-material';
 import type { GridColDef } from '@mui/x-data-grid';
 import PrimaryTable from '../components/common/PrimaryTable';
+import PrimaryDropdown from '../components/common/PrimaryDropdown';
 import AssignmentDetailsModal from '../components/modals/AssignmentDetailsModal';
+import QuantityReconciliation from '../components/orders/QuantityReconciliation';
 import colors from '../styles/colors';
-import { orderService, type OrderDetailsResponse, type OrderDetailsRecord } from '../services/orderService';
+import { orderService, type OrderDetailsResponse, type OrderDetailsRecord, type DeliveryEntry } from '../services/orderService';
 import { getStatusColor, getStatusLabel, isCompletedStatus } from '../utils/statusUtils';
+import { generateGatepass } from '../utils/pdfUtils';
+import { buildGatepassData } from '../utils/gatepassUtils';
+import { summarizeRecordDeliveries, getDeliveryEntryTotal } from '../utils/deliveryUtils';
+import { useOrderPricingHistory } from '../hooks/useBilling';
+import { useOrderReconciliation } from '../hooks/useOrders';
+import { useAuth } from '../hooks/useAuth';
+import { useDocumentSettings } from '../hooks/useSystemData';
+import { hasPermission } from '../utils/roleUtils';
 import toast from 'react-hot-toast';
 
 export default function OrderDetailsPage() {
@@ -17,6 +27,16 @@ export default function OrderDetailsPage() {
     const [loading, setLoading] = useState(true);
     const [assignmentModalOpen, setAssignmentModalOpen] = useState(false);
     const [selectedRecord, setSelectedRecord] = useState<OrderDetailsRecord | null>(null);
+    const [deliveries, setDeliveries] = useState<DeliveryEntry[]>([]);
+    const [printingEntryId, setPrintingEntryId] = useState<number | null>(null);
+    const [priceRecordFilter, setPriceRecordFilter] = useState('');
+
+    // Price changes are billing data, so only billing users see them
+    const { user } = useAuth();
+    const documentSettings = useDocumentSettings();
+    const canViewBilling = hasPermission(user, 'canViewBilling');
+    const { data: pricingHistory } = useOrderPricingHistory(canViewBilling && orderId ? parseInt(orderId) : null);
+    const { data: reconciliation } = useOrderReconciliation(orderId ? parseInt(orderId) : null);
 
     // Fetch order details
     useEffect(() => {
@@ -41,6 +61,42 @@ export default function OrderDetailsPage() {
         fetchOrderDetails();
     }, [orderId]);
 
+    // Fetch the delivery ledger
+    useEffect(() => {
+        const fetchDeliveries = async () => {
+            if (!orderId) return;
+
+            try {
+                const response = await orderService.getDeliveries(parseInt(orderId));
+                if (response.success) {
+                    setDeliveries(response.data);
+                }
+            } catch (error) {
+                console.error('Error fetching deliveries:', error);
+            }
+        };
+
+        fetchDeliveries();
+    }, [orderId]);
+
+
+    // Reprint the gate pass issued for one delivery
+    const handleReprintGatepass = async (entry: DeliveryEntry) => {
+        if (!orderDetails || !documentSettings) return;
+
+        try {
+            setPrintingEntryId(entry.id);
+            const summary = await orderService.getOrderSummary(orderDetails.order.id);
+            if (summary.success) {
+                generateGatepass(buildGatepassData(summary.data, entry), documentSettings);
+            }
+        } catch (error) {
+            console.error('Error reprinting gate pass:', error);
+            toast.error('Failed to reprint gate pass');
+        } finally {
+            setPrintingEntryId(null);
+        }
+    };
 
     // Handle open assignment modal
     const handleOpenAssignmentModal = (record: OrderDetailsRecord) => {
@@ -202,6 +258,11 @@ export default function OrderDetailsPage() {
     }
 
     const { order, records, overallStats } = orderDetails;
+    const recordDeliveries = summarizeRecordDeliveries(records, deliveries, reconciliation?.records);
+    const trackingNumbers = new Map(records.map(record => [record.id, record.trackingNumber]));
+    const recordChanges = pricingHistory?.recordChanges || [];
+    const priceChanges = recordChanges.filter(change => !priceRecordFilter || change.recordId === Number(priceRecordFilter));
+    const pricedRecordIds = [...new Set(recordChanges.map(change => change.recordId))];
 
     return (
         <div className="p-3 sm:p-4 md:p-6">
@@ -219,7 +280,7 @@ export default function OrderDetailsPage() {
                         Order Details - {order.id}
                     </Typography>
                     <Typography variant="body1" className="text-gray-600 text-sm sm:text-base truncate">
-                        Ref: {order.id} | {order.customerName}
+                        Ref: {order.id} | {order.customerName}{order.gpNo ? ` | GP No: ${order.gpNo}` : ''}
                     </Typography>
                 </div>
             </div>
@@ -469,6 +530,154 @@ export default function OrderDetailsPage() {
                 </CardContent>
             </Card>
 
+            {/* Pieces followed from intake to delivery, per order and per record */}
+            <Card className="mt-4 sm:mt-6">
+                <CardContent className="p-4 sm:p-6">
+                    <Typography variant="h6" className="font-semibold mb-4 text-lg sm:text-xl flex items-center">
+                        <FactCheck className="mr-2" style={{ color: colors.button.primary }} />
+                        Quantity Reconciliation
+                    </Typography>
+                    <QuantityReconciliation orderId={order.id} showRecords />
+                </CardContent>
+            </Card>
+
+            {/* Deliveries */}
+            {deliveries.length > 0 && (
+                <Card className="mt-4 sm:mt-6">
+                    <CardContent className="p-4 sm:p-6">
+                        <Typography variant="h6" className="font-semibold mb-4 text-lg sm:text-xl flex items-center">
+                            <LocalShipping className="mr-2" style={{ color: colors.button.primary }} />
+                            Deliveries ({deliveries.length})
+                        </Typography>
+                        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
+                            <TableContainer className="border border-gray-200 rounded-lg">
+                                <Table size="small">
+                                    <TableHead>
+                                        <TableRow>
+                                            <TableCell>Tracking No</TableCell>
+                                            <TableCell align="right">Quantity</TableCell>
+                                            <TableCell align="right">Delivered</TableCell>
+                                            <TableCell align="right">Outstanding</TableCell>
+                                        </TableRow>
+                                    </TableHead>
+                                    <TableBody>
+                                        {recordDeliveries.map(status => (
+                                            <TableRow key={status.recordId}>
+                                                <TableCell>{status.trackingNumber}</TableCell>
+                                                <TableCell align="right">{status.quantity}</TableCell>
+                                                <TableCell align="right">{status.deliveredQuantity}</TableCell>
+                                                <TableCell align="right">
+                                                    <span className={status.outstandingQuantity > 0 ? 'font-semibold text-orange-600' : 'text-green-600'}>
+                                                        {status.outstandingQuantity}
+                                                    </span>
+                                                </TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            </TableContainer>
+                            <TableContainer className="border border-gray-200 rounded-lg">
+                                <Table size="small">
+                                    <TableHead>
+                                        <TableRow>
+                                            <TableCell>Date</TableCell>
+                                            <TableCell>GP No</TableCell>
+                                            <TableCell>Vehicle / Driver</TableCell>
+                                            <TableCell align="right">Quantity</TableCell>
+                                            <TableCell align="center">Gate Pass</TableCell>
+                                        </TableRow>
+                                    </TableHead>
+                                    <TableBody>
+                                        {deliveries.map(entry => (
+                                            <TableRow key={entry.id}>
+                                                <TableCell>
+                                                    {new Date(entry.deliveryDate).toLocaleDateString('en-US', {
+                                                        month: 'short',
+                                                        day: 'numeric',
+                                                        year: 'numeric'
+                                                    })}
+                                                </TableCell>
+                                                <TableCell>{entry.gpNo}</TableCell>
+                                                <TableCell>{entry.vehicleNote || '-'}</TableCell>
+                                                <TableCell align="right">{getDeliveryEntryTotal(entry)}</TableCell>
+                                                <TableCell align="center">
+                                                    <IconButton
+                                                        size="small"
+                                                        onClick={() => handleReprintGatepass(entry)}
+                                                        disabled={!documentSettings || printingEntryId === entry.id}
+                                                        title="Reprint Gate Pass"
+                                                    >
+                                                        <Print fontSize="small" />
+                                                    </IconButton>
+                                                </TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            </TableContainer>
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+
+            {/* Price changes per record, newest first */}
+            {recordChanges.length > 0 && (
+                <Card className="mt-4 sm:mt-6">
+                    <CardContent className="p-4 sm:p-6">
+                        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-4">
+                            <Typography variant="h6" className="font-semibold text-lg sm:text-xl flex items-center">
+                                <PriceChange className="mr-2" style={{ color: colors.button.primary }} />
+                                Price Changes ({recordChanges.length})
+                            </Typography>
+                            <div style={{ minWidth: 220 }}>
+                                <PrimaryDropdown
+                                    value={priceRecordFilter}
+                                    onChange={(e) => setPriceRecordFilter(e.target.value)}
+                                    placeholder="All records"
+                                    options={[
+                                        { value: '', label: 'All records' },
+                                        ...pricedRecordIds.map(recordId => ({
+                                            value: recordId.toString(),
+                                            label: trackingNumbers.get(recordId) || `Record ${recordId}`
+                                        }))
+                                    ]}
+                                />
+                            </div>
+                        </div>
+                        <TableContainer className="border border-gray-200 rounded-lg">
+                            <Table size="small">
+                                <TableHead>
+                                    <TableRow>
+                                        <TableCell>Changed</TableCell>
+                                        <TableCell>Tracking No</TableCell>
+                                        <TableCell align="right">From</TableCell>
+                                        <TableCell align="right">To</TableCell>
+                                        <TableCell>Changed By</TableCell>
+                                        <TableCell>Invoice</TableCell>
+                                        <TableCell>Notes</TableCell>
+                                    </TableRow>
+                                </TableHead>
+                                <TableBody>
+                                    {priceChanges.map(change => (
+                                        <TableRow key={change.id}>
+                                            <TableCell>{new Date(change.changedAt).toLocaleString()}</TableCell>
+                                            <TableCell>{trackingNumbers.get(change.recordId) || `Record ${change.recordId}`}</TableCell>
+                                            <TableCell align="right">
+                                                {change.previousUnitPrice !== null ? change.previousUnitPrice.toFixed(2) : 'Not priced'}
+                                            </TableCell>
+                                            <TableCell align="right" className="font-semibold">{change.unitPrice.toFixed(2)}</TableCell>
+                                            <TableCell>{change.changedBy}</TableCell>
+                                            <TableCell>{change.invoiceNumber || '-'}</TableCell>
+                                            <TableCell>{change.notes || '-'}</TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </TableContainer>
+                    </CardContent>
+                </Card>
+            )}
+
             {/* Assignment Details Modal */}
             <AssignmentDetailsModal
                 open={assignmentModalOpen}
@@ -93,6 +93,8 @@ export default function OrderRecordsPage() {
         quantity: record.quantity.toString(),
         washType: record.washType,
         processTypes: record.processTypes,
+        styleNo: record.styleNo || '',
+        colour: record.colour || '',
         trackingNumber: record.trackingNumber,
     })) || [];
 
@@ -133,6 +135,8 @@ export default function OrderRecordsPage() {
             quantity: Number(newRecord.quantity),
             washType: newRecord.washType as WashType, // Type assertion for API compatibility
             processTypes: newRecord.processTypes as ProcessType[], // Type assertion for API compatibility
+            styleNo: newRecord.styleNo?.trim() || undefined,
+            colour: newRecord.colour?.trim() || undefined,
             // Let the backend generate the tracking number to avoid conflicts
         };
 
@@ -190,6 +194,8 @@ export default function OrderRecordsPage() {
             quantity: Number(newRecord.quantity),
             washType: newRecord.washType as WashType, // Type assertion for API compatibility
             processTypes: newRecord.processTypes as ProcessType[], // Type assertion for API compatibility
+            styleNo: newRecord.styleNo?.trim() || undefined,
+            colour: newRecord.colour?.trim() || undefined,
         };
 
         updateRecordMutation.mutate(
@@ -358,6 +364,8 @@ export default function OrderRecordsPage() {
         },
         { field: 'customerName', headerName: 'Customer', flex: 1.2, minWidth: 150 },
         { field: 'quantity', headerName: 'Quantity', flex: 0.8, minWidth: 100, type: 'number' },
+        { field: 'styleNo', headerName: 'Style No', flex: 0.8, minWidth: 100 },
+        { field: 'colour', headerName: 'Colour', flex: 0.8, minWidth: 100 },
         { field: 'washTypeName', headerName: 'Wash Type', flex: 1, minWidth: 150 },
         { field: 'processTypes', headerName: 'Process Types', flex: 2, minWidth: 250 },
         {
@@ -426,6 +434,8 @@ export default function OrderRecordsPage() {
             trackingNumber: record.trackingNumber || 'N/A', // Add tracking number field
             customerName: order?.customerName || 'N/A',
             quantity: record.quantity,
+            styleNo: record.styleNo || '-',
+            colour: record.colour || '-',
             washTypeName,
             processTypes: processTypesText,
             status: 'pending', // Default status since it's not in the API
@@ -471,7 +481,7 @@ export default function OrderRecordsPage() {
                         Order Records -  {order.id}
                     </h2>
                     <p className="text-sm text-gray-600">
-                        Customer: {order.customerName} | Total Quantity:
+                        Customer: {order.customerName}{order.poNumber ? ` | PO: ${order.poNumber}` : ''} | Total Quantity:
                         <span
                             className={`ml-1 px-2 py-1 rounded text-sm font-semibold ${order.complete
                                 ? 'bg-green-100 text-green-800'
@@ -741,6 +751,30 @@ export default function OrderRecordsPage() {
                             </div>
                             {errors.processTypes && <span className="text-xs text-red-500 mt-1 block">{errors.processTypes}</span>}
                         </div>
+
+                        <div>
+                            <input
+                                type="text"
+                                value={newRecord.styleNo || ''}
+                                onChange={(e) => handleRecordChange('styleNo', e.target.value)}
+                                placeholder="Style No (Optional)"
+                                className="w-full px-4 border rounded-xl focus:outline-none text-base"
+                                style={{ height: 48, borderColor: errors.styleNo ? '#ef4444' : colors.border.light }}
+                            />
+                            {errors.styleNo && <span className="text-xs text-red-500 mt-1 block">{errors.styleNo}</span>}
+                        </div>
+
+                        <div>
+                            <input
+                                type="text"
+                                value={newRecord.colour || ''}
+                                onChange={(e) => handleRecordChange('colour', e.target.value)}
+                                placeholder="Colour / Shade (Optional)"
+                                className="w-full px-4 border rounded-xl focus:outline-none text-base"
+                                style={{ height: 48, borderColor: errors.colour ? '#ef4444' : colors.border.light }}
+                            />
+                            {errors.colour && <span className="text-xs text-red-500 mt-1 block">{errors.colour}</span>}
+                        </div>
                     </div>
 
                     <div className="flex gap-2">
@@ -7,6 +7,9 @@ import PrimaryButton from '../components/common/PrimaryButton';
 import PrimaryTable from '../components/common/PrimaryTable';
 import SimpleOrderForm from '../components/orders/SimpleOrderForm';
 import ConfirmationDialog from '../components/common/ConfirmationDialog';
+import OrderImportModal from '../components/modals/OrderImportModal';
+import RepeatOrderModal from '../components/modals/RepeatOrderModal';
+import GoodsReceiptModal, { type GoodsReceiptOrder } from '../components/modals/GoodsReceiptModal';
 import colors from '../styles/colors';
 import { type CreateOrderRequest, type ErrorResponse } from '../services/orderService';
 // import { type BagLabelData } from '../utils/pdfUtils'; // Commented - used for bag printing
@@ -40,6 +43,13 @@ export default function OrdersPage() {
   // Local state for UI
   const [search, setSearch] = useState('');
   const [open, setOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [repeatModal, setRepeatModal] = useState<{ open: boolean; sourceOrderId: number | null }>({
+    open: false,
+    sourceOrderId: null,
+  });
+  // Order whose intake is being counted, opened straight after an order is created
+  const [goodsReceiptOrder, setGoodsReceiptOrder] = useState<GoodsReceiptOrder | null>(null);
   const [editingOrder, setEditingOrder] = useState<OrderRow | null>(null);
   const [menuAnchor, setMenuAnchor] = useState<null | HTMLElement>(null);
   const [selectedOrder, setSelectedOrder] = useState<OrderRow | null>(null);
@@ -82,6 +92,7 @@ export default function OrdersPage() {
     itemId: '',
     quantity: '',
     gpNo: '',
+    poNumber: '',
     notes: '',
     deliveryDate: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString().split('T')[0], // 2 weeks from now
   });
@@ -167,6 +178,7 @@ export default function OrdersPage() {
         itemId: order.itemId || '',
         quantity: order.quantity ? order.quantity.toString() : '',
         gpNo: order.gpNo || '',
+        poNumber: order.poNumber || '',
         notes: order.notes,
         deliveryDate: order.deliveryDate,
       });
@@ -179,6 +191,7 @@ export default function OrdersPage() {
         itemId: '',
         quantity: '',
         gpNo: '',
+        poNumber: '',
         notes: '',
         deliveryDate: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString().split('T')[0], // 2 weeks from now
       });
@@ -241,6 +254,27 @@ export default function OrdersPage() {
     handleMenuClose();
   };
 
+  const handleRepeatClick = () => {
+    if (selectedOrder) {
+      setRepeatModal({ open: true, sourceOrderId: selectedOrder.id });
+    }
+    handleMenuClose();
+  };
+
+  const handleGoodsReceiptClick = () => {
+    if (selectedOrder) {
+      setGoodsReceiptOrder({
+        id: selectedOrder.id,
+        customerName: selectedOrder.customerName,
+        quantity: selectedOrder.quantity || 0,
+        date: selectedOrder.date,
+        deliveryDate: selectedOrder.deliveryDate,
+        poNumber: selectedOrder.poNumber,
+      });
+    }
+    handleMenuClose();
+  };
+
   const handleDeleteOrder = () => {
     if (!selectedOrder) return;
 
@@ -302,6 +336,9 @@ export default function OrdersPage() {
           washType: record.washType,
           processTypes: record.processType.split(', '), // Convert comma-separated string to array
           trackingNumber: record.trackingId,
+          styleNo: record.styleNo || undefined,
+          colour: record.colour || undefined,
+          poNumber: orderDetails.poNumber || undefined,
         });
       }
 
@@ -708,6 +745,7 @@ export default function OrdersPage() {
         customerId: form.customerId,
         itemId: form.itemId,
         quantity: form.quantity ? Number(form.quantity) : undefined, // Only include if provided
+        poNumber: form.poNumber.trim() || undefined,
         notes: form.notes || undefined,
         deliveryDate: form.deliveryDate,
       };
@@ -725,6 +763,7 @@ export default function OrdersPage() {
               itemId: '',
               quantity: '',
               gpNo: '',
+              poNumber: '',
               notes: '',
               deliveryDate: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
             });
@@ -747,15 +786,26 @@ export default function OrdersPage() {
         itemId: form.itemId,
         quantity: form.quantity ? Number(form.quantity) : undefined, // Only include if provided
         gpNo: form.gpNo || undefined,
+        poNumber: form.poNumber.trim() || undefined,
         notes: form.notes || undefined,
         deliveryDate: form.deliveryDate,
         records: [] // Start with empty records
       };
 
       createOrderMutation.mutate(orderData, {
-        onSuccess: () => {
+        onSuccess: (createdOrder) => {
           setOpen(false);
           setEditingOrder(null);
+          // Count the garments in while the customer's driver is still here
+          setGoodsReceiptOrder({
+            id: createdOrder.id,
+            customerName: createdOrder.customerName || customerOptions.find(option => option.value === form.customerId)?.label || '',
+            quantity: createdOrder.quantity || orderData.quantity || 0,
+            date: createdOrder.date || orderData.date,
+            deliveryDate: createdOrder.deliveryDate || orderData.deliveryDate,
+            referenceNo: createdOrder.referenceNo,
+            poNumber: createdOrder.poNumber || orderData.poNumber,
+          });
           // Reset form
           setForm({
             date: new Date().toISOString().split('T')[0],
@@ -763,6 +813,7 @@ export default function OrdersPage() {
             itemId: '',
             quantity: '',
             gpNo: '',
+            poNumber: '',
             notes: '',
             deliveryDate: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
           });
@@ -819,6 +870,36 @@ export default function OrdersPage() {
             />
           </div>
           <div className="flex items-center gap-4">
+            <div className="w-full sm:w-auto lg:w-auto mt-1 sm:mt-0 lg:mt-0">
+              <PrimaryButton
+                style={{
+                  minWidth: 160,
+                  width: '100%',
+                  fontSize: '14px',
+                  padding: '10px 20px',
+                  background: colors.primary[100],
+                  color: colors.text.primary
+                }}
+                onClick={() => setImportOpen(true)}
+              >
+                Import Sheet
+              </PrimaryButton>
+            </div>
+            <div className="w-full sm:w-auto lg:w-auto mt-1 sm:mt-0 lg:mt-0">
+              <PrimaryButton
+                style={{
+                  minWidth: 160,
+                  width: '100%',
+                  fontSize: '14px',
+                  padding: '10px 20px',
+                  background: colors.primary[100],
+                  color: colors.text.primary
+                }}
+                onClick={() => setRepeatModal({ open: true, sourceOrderId: null })}
+              >
+                Repeat Order
+              </PrimaryButton>
+            </div>
             <div className="w-full sm:w-auto lg:w-auto mt-1 sm:mt-0 lg:mt-0">
               <PrimaryButton
                 style={{
@@ -908,6 +989,12 @@ export default function OrdersPage() {
             Edit Order
           </MenuItem>
         )}
+        <MenuItem onClick={handleRepeatClick}>
+          Repeat Order
+        </MenuItem>
+        <MenuItem onClick={handleGoodsReceiptClick}>
+          Goods Receipt (GRN)
+        </MenuItem>
         {canDelete && (
           <MenuItem onClick={handleDeleteOrder} sx={{ color: 'error.main' }}>
             Delete Order
@@ -1008,6 +1095,20 @@ export default function OrdersPage() {
         </Box>
       </Modal>
 
+      <OrderImportModal open={importOpen} onClose={() => setImportOpen(false)} />
+
+      <RepeatOrderModal
+        open={repeatModal.open}
+        sourceOrderId={repeatModal.sourceOrderId}
+        onClose={() => setRepeatModal({ open: false, sourceOrderId: null })}
+      />
+
+      <GoodsReceiptModal
+        open={!!goodsReceiptOrder}
+        order={goodsReceiptOrder}
+        onClose={() => setGoodsReceiptOrder(null)}
+      />
+
       {/* Bag Printing Modal - Commented out as per client request (may be used in future) */}
       {/* <Modal open={bagModal.open} onClose={handleBagModalClose}>
         <Box
@@ -11,6 +11,7 @@ import colors from '../styles/colors';
 import PrimaryTable from '../components/common/PrimaryTable';
 import QCModal from '../components/modals/QCModal';
 import { useCompletedOrders, useSaveDamageRecords, type CompletedOrder, type DamageCounts } from '../hooks/useQC';
+import { type CreateReworkRecordRequest } from '../services/orderService';
 
 export default function QCPage() {
     const [selectedOrder, setSelectedOrder] = useState<CompletedOrder | null>(null);
@@ -35,14 +36,14 @@ export default function QCPage() {
         setSelectedOrder(null);
     };
 
-    const handleSaveDamageCounts = async (damageCounts: DamageCounts) => {
+    const handleSaveDamageCounts = async (damageCounts: DamageCounts, reworks: CreateReworkRecordRequest[]) => {
         if (!selectedOrder) {
             console.error('No selected order');
             return;
         }
 
         saveDamageRecordsMutation.mutate(
-            { orderId: selectedOrder.id, damageCounts },
+            { orderId: selectedOrder.id, damageCounts, reworks },
             {
                 onSuccess: () => {
                     setQcModalOpen(false);
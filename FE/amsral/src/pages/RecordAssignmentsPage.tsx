@@ -12,7 +12,10 @@ import colors from '../styles/colors';
 import { generateAssignmentReceipt, type AssignmentReceiptData } from '../utils/pdfUtils';
 import { usePrinter } from '../context/PrinterContext';
 import printerService from '../services/printerService';
+import printService from '../services/printService';
+import { getRecordRecipe } from '../utils/recipeUtils';
 import { useAuth } from '../hooks/useAuth';
+import { useDocumentSettings } from '../hooks/useSystemData';
 import { hasPermission } from '../utils/roleUtils';
 import { getStatusColor, getStatusLabel, normalizeStatus } from '../utils/statusUtils';
 import {
@@ -23,7 +26,8 @@ import {
     useCreateMachineAssignment,
     useUpdateMachineAssignment,
     useDeleteMachineAssignment,
-    useUpdateAssignmentCompletion
+    useUpdateAssignmentCompletion,
+    useWashRecipes
 } from '../hooks/useRecordAssignments';
 import { type MachineAssignment } from '../services/recordService';
 import toast from 'react-hot-toast';
@@ -36,12 +40,14 @@ export default function RecordAssignmentsPage() {
     const { recordId } = useParams<{ recordId: string }>();
     const navigate = useNavigate();
     const { user } = useAuth();
+    const documentSettings = useDocumentSettings();
     const { isConnected, isConnecting, connect } = usePrinter();
 
     // Local state for UI
     const [open, setOpen] = useState(false);
     const [menuAnchor, setMenuAnchor] = useState<null | HTMLElement>(null);
     const [selectedAssignment, setSelectedAssignment] = useState<MachineAssignment | null>(null);
+    const [editingAssignment, setEditingAssignment] = useState<MachineAssignment | null>(null);
     const [confirmDialog, setConfirmDialog] = useState({
         open: false,
         title: '',
@@ -84,6 +90,10 @@ export default function RecordAssignmentsPage() {
         data: machinesData
     } = useMachines();
 
+    const {
+        data: recipesData
+    } = useWashRecipes();
+
     // Mutation hooks
     const createAssignmentMutation = useCreateMachineAssignment();
     const updateAssignmentMutation = useUpdateMachineAssignment();
@@ -128,11 +138,13 @@ export default function RecordAssignmentsPage() {
     };
 
     const handleOpen = () => {
+        setEditingAssignment(null);
         setOpen(true);
     };
 
     const handleClose = () => {
         setOpen(false);
+        setEditingAssignment(null);
     };
 
     // Table columns
@@ -151,6 +163,14 @@ export default function RecordAssignmentsPage() {
         { field: 'customerName', headerName: 'Customer', flex: 1.2, minWidth: 120 },
         { field: 'assignedTo', headerName: 'Assign To', flex: 1.2, minWidth: 120 },
         { field: 'quantity', headerName: 'Assigned Qty', flex: 0.8, minWidth: 100, type: 'number' },
+        {
+            field: 'weightKg',
+            headerName: 'Weight (kg)',
+            flex: 0.7,
+            minWidth: 90,
+            type: 'number',
+            valueGetter: (value: number | null | undefined) => value ?? '-'
+        },
         {
             field: 'returnQuantity',
             headerName: 'Return Qty',
@@ -296,22 +316,56 @@ export default function RecordAssignmentsPage() {
         },
     ];
 
+    // Receipt for an assignment, including the wash and process recipes the operator should follow
+    const buildReceiptData = (assignment: MachineAssignment): AssignmentReceiptData => ({
+        trackingNumber: assignment.trackingNumber || 'N/A',
+        itemName: assignment.item || 'N/A',
+        washType: record?.washType || 'N/A',
+        processTypes: Array.isArray(record?.processTypes) ? record.processTypes : [],
+        assignedTo: assignment.assignedTo || 'N/A',
+        quantity: Number(assignment.quantity) || 0,
+        recipe: getRecordRecipe(
+            record?.washType,
+            record?.processTypes,
+            recipesData?.washingTypes || [],
+            recipesData?.processTypes || []
+        )
+    });
+
     const handleSubmit = async (data: {
         assignedBy: string;
         quantity: number;
         washingMachine?: string;
         dryingMachine?: string;
+        weightKg: number | null;
     }) => {
         if (!record || !recordId) {
             toast.error('Record not found');
             return;
         }
 
+        if (editingAssignment) {
+            await updateAssignmentMutation.mutateAsync({
+                recordId,
+                assignmentId: editingAssignment.id,
+                assignmentData: {
+                    assignedById: data.assignedBy,
+                    quantity: data.quantity,
+                    washingMachine: data.washingMachine || '',
+                    dryingMachine: data.dryingMachine || '',
+                    weightKg: data.weightKg,
+                }
+            });
+            setEditingAssignment(null);
+            return;
+        }
+
         const assignmentData = {
             assignedById: data.assignedBy,
             quantity: data.quantity,
             washingMachine: data.washingMachine || '',
             dryingMachine: data.dryingMachine || '',
+            weightKg: data.weightKg,
             orderId: record.orderId,
             itemId: record.itemId || '',
             recordId: record.id,
@@ -320,9 +374,21 @@ export default function RecordAssignmentsPage() {
         createAssignmentMutation.mutate(
             { recordId, assignmentData },
             {
-                onSuccess: () => {
+                onSuccess: async (createdAssignment) => {
                     setOpen(false);
                     toast.success('Machine assignment created successfully');
+
+                    // Print the receipt with the recipe so the operator has the machine instructions
+                    const receiptData = buildReceiptData({
+                        ...createdAssignment,
+                        assignedTo: createdAssignment.assignedTo
+                            || employeeOptions.find(employee => employee.value === data.assignedBy)?.label
+                            || ''
+                    });
+                    const result = await printService.printAssignmentReceiptAuto(receiptData);
+                    if (!result.success) {
+                        toast.error(result.error || 'Failed to print assignment receipt');
+                    }
                 },
                 onError: (error: Error) => {
                     toast.error(error.message || 'Failed to create assignment. Please try again.');
@@ -401,19 +467,12 @@ export default function RecordAssignmentsPage() {
     };
 
     const handlePrintAssignment = () => {
-        if (!selectedAssignment || !record) return;
+        if (!selectedAssignment || !record || !documentSettings) return;
 
         try {
-            const receiptData: AssignmentReceiptData = {
-                trackingNumber: selectedAssignment.trackingNumber || 'N/A',
-                itemName: selectedAssignment.item || 'N/A',
-                washType: record.washType || 'N/A',
-                processTypes: Array.isArray(record.processTypes) ? record.processTypes : [],
-                assignedTo: selectedAssignment.assignedTo || 'N/A',
-                quantity: Number(selectedAssignment.quantity) || 0
-            };
-
-            generateAssignmentReceipt(receiptData);
+            const receiptData = buildReceiptData(selectedAssignment);
+
+            generateAssignmentReceipt(receiptData, documentSettings);
             toast.success('Assignment receipt downloaded successfully!');
         } catch (error) {
             console.error('Error printing assignment:', error);
@@ -427,14 +486,7 @@ export default function RecordAssignmentsPage() {
         if (!record) return;
 
         try {
-            const receiptData: AssignmentReceiptData = {
-                trackingNumber: assignment.trackingNumber || 'N/A',
-                itemName: assignment.item || 'N/A',
-                washType: record.washType || 'N/A',
-                processTypes: Array.isArray(record.processTypes) ? record.processTypes : [],
-                assignedTo: assignment.assignedTo || 'N/A',
-                quantity: Number(assignment.quantity) || 0
-            };
+            const receiptData = buildReceiptData(assignment);
 
             // Check if printer is connected
             if (!isConnected) {
@@ -607,6 +659,7 @@ export default function RecordAssignmentsPage() {
                 onClose={handleClose}
                 onSubmit={handleSubmit}
                 record={record}
+                assignment={editingAssignment}
                 employeeOptions={employeeOptions}
                 washingMachineOptions={washingMachineOptions}
                 dryingMachineOptions={dryingMachineOptions}
@@ -626,7 +679,7 @@ export default function RecordAssignmentsPage() {
                     horizontal: 'right',
                 }}
             >
-                <MenuItem onClick={handlePrintAssignment}>
+                <MenuItem onClick={handlePrintAssignment} disabled={!documentSettings}>
                     Download PDF
                 </MenuItem>
                 <MenuItem onClick={() => {
@@ -637,6 +690,15 @@ export default function RecordAssignmentsPage() {
                 }}>
                     Print to Thermal
                 </MenuItem>
+                {canEdit && (
+                    <MenuItem onClick={() => {
+                        setEditingAssignment(selectedAssignment);
+                        setOpen(true);
+                        handleMenuClose();
+                    }}>
+                        Edit Assignment
+                    </MenuItem>
+                )}
                 {canDelete && (
                     <MenuItem onClick={handleDeleteAssignment} sx={{ color: 'error.main' }}>
                         Delete Assignment
@@ -1,11 +1,304 @@
+import React, { useState } from 'react';
+import { Alert, Box, Tab, Tabs, Typography } from '@mui/material';
+import { FileDownload as FileDownloadIcon } from '@mui/icons-material';
+import type { GridColDef } from '@mui/x-data-grid';
+import { useAuth } from '../hooks/useAuth';
+import { hasPermission } from '../utils/roleUtils';
+import { useBillingCustomers } from '../hooks/useBilling';
+import {
+    useDailyProductionReport,
+    useCustomerDeliveriesReport,
+    useInvoicedVsPaidReport,
+    useDamageByWashTypeReport,
+    type ReportFilters,
+    type DailyProductionRow,
+    type CustomerDeliveryRow,
+    type InvoicedVsPaidRow,
+    type DamageByWashTypeRow,
+} from '../hooks/useReports';
+import DateRangeFilter, { type DateRange } from '../components/dashboard/DateRangeFilter';
+import PrimaryTable from '../components/common/PrimaryTable';
+import PrimaryDropdown from '../components/common/PrimaryDropdown';
+import PrimaryButton from '../components/common/PrimaryButton';
+import { exportToCsv, type ExportColumn } from '../utils/exportUtils';
+import { formatDisplayText } from '../utils/stringUtils';
+import colors from '../styles/colors';
 
+const formatDate = (date: string | null) => date ? new Date(date).toLocaleDateString() : 'N/A';
+const formatAmount = (amount: number) => `Rs. ${(amount || 0).toFixed(2)}`;
+const toDateParam = (date: Date | null) => date ? date.toISOString().split('T')[0] : '';
 
-function ReportsPage() {
-  return (
-    <div>
-      ReportsPage
-    </div>
-  )
-}
+// DataGrid needs a unique id per row; report rows are keyed by position
+const withRowIds = <T,>(rows: T[]) => rows.map((row, index) => ({ id: index, ...row }));
 
-export default ReportsPage
+const productionColumns: GridColDef[] = [
+    { field: 'date', headerName: 'Date', flex: 0.8, minWidth: 110, renderCell: (params) => formatDate(params.row.date) },
+    { field: 'trackingNumber', headerName: 'Tracking No', flex: 0.8, minWidth: 110 },
+    { field: 'orderId', headerName: 'Ref No', flex: 0.6, minWidth: 80 },
+    { field: 'customerName', headerName: 'Customer', flex: 1.2, minWidth: 140 },
+    { field: 'itemName', headerName: 'Item', flex: 1, minWidth: 120 },
+    { field: 'washType', headerName: 'Wash Type', flex: 1, minWidth: 120, renderCell: (params) => formatDisplayText(params.row.washType) },
+    {
+        field: 'processTypes',
+        headerName: 'Process Types',
+        flex: 1.2,
+        minWidth: 140,
+        renderCell: (params) => (params.row.processTypes || []).map(formatDisplayText).join(' / ') || 'None'
+    },
+    { field: 'quantity', headerName: 'Quantity', flex: 0.6, minWidth: 90, type: 'number' },
+    { field: 'completedQuantity', headerName: 'Completed', flex: 0.6, minWidth: 90, type: 'number' },
+];
+
+const productionExport: ExportColumn<DailyProductionRow>[] = [
+    { header: 'Date', value: (row) => row.date },
+    { header: 'Tracking No', value: (row) => row.trackingNumber },
+    { header: 'Ref No', value: (row) => row.orderId },
+    { header: 'Customer', value: (row) => row.customerName },
+    { header: 'Item', value: (row) => row.itemName },
+    { header: 'Wash Type', value: (row) => formatDisplayText(row.washType) },
+    { header: 'Process Types', value: (row) => (row.processTypes || []).map(formatDisplayText).join(' / ') },
+    { header: 'Quantity', value: (row) => row.quantity },
+    { header: 'Completed', value: (row) => row.completedQuantity },
+];
+
+const deliveryColumns: GridColDef[] = [
+    { field: 'customerName', headerName: 'Customer', flex: 1.5, minWidth: 160 },
+    { field: 'ordersDelivered', headerName: 'Orders Delivered', flex: 1, minWidth: 130, type: 'number' },
+    { field: 'deliveredQuantity', headerName: 'Delivered Qty', flex: 1, minWidth: 120, type: 'number' },
+    { field: 'lastDeliveryDate', headerName: 'Last Delivery', flex: 1, minWidth: 120, renderCell: (params) => formatDate(params.row.lastDeliveryDate) },
+];
+
+const deliveryExport: ExportColumn<CustomerDeliveryRow>[] = [
+    { header: 'Customer', value: (row) => row.customerName },
+    { header: 'Orders Delivered', value: (row) => row.ordersDelivered },
+    { header: 'Delivered Qty', value: (row) => row.deliveredQuantity },
+    { header: 'Last Delivery', value: (row) => row.lastDeliveryDate },
+];
+
+const billingColumns: GridColDef[] = [
+    { field: 'customerName', headerName: 'Customer', flex: 1.5, minWidth: 160 },
+    { field: 'invoiceCount', headerName: 'Invoices', flex: 0.6, minWidth: 90, type: 'number' },
+    { field: 'invoicedAmount', headerName: 'Invoiced', flex: 1, minWidth: 130, type: 'number', renderCell: (params) => formatAmount(params.row.invoicedAmount) },
+    { field: 'paidAmount', headerName: 'Paid', flex: 1, minWidth: 130, type: 'number', renderCell: (params) => formatAmount(params.row.paidAmount) },
+    {
+        field: 'outstandingAmount',
+        headerName: 'Outstanding',
+        flex: 1,
+        minWidth: 130,
+        type: 'number',
+        renderCell: (params) => (
+            <span style={{ fontWeight: 500, color: params.row.outstandingAmount > 0 ? '#f57c00' : colors.text.primary }}>
+                {formatAmount(params.row.outstandingAmount)}
+            </span>
+        )
+    },
+];
+
+const billingExport: ExportColumn<InvoicedVsPaidRow>[] = [
+    { header: 'Customer', value: (row) => row.customerName },
+    { header: 'Invoices', value: (row) => row.invoiceCount },
+    { header: 'Invoiced (Rs)', value: (row) => row.invoicedAmount.toFixed(2) },
+    { header: 'Paid (Rs)', value: (row) => row.paidAmount.toFixed(2) },
+    { header: 'Outstanding (Rs)', value: (row) => row.outstandingAmount.toFixed(2) },
+];
+
+const damageColumns: GridColDef[] = [
+    { field: 'washType', headerName: 'Wash Type', flex: 1.5, minWidth: 160, renderCell: (params) => formatDisplayText(params.row.washType) },
+    { field: 'processedQuantity', headerName: 'Processed Qty', flex: 1, minWidth: 120, type: 'number' },
+    { field: 'damagedQuantity', headerName: 'Damaged Qty', flex: 1, minWidth: 120, type: 'number' },
+    {
+        field: 'damagePercentage',
+        headerName: 'Damage %',
+        flex: 1,
+        minWidth: 110,
+        type: 'number',
+        renderCell: (params) => `${(params.row.damagePercentage || 0).toFixed(2)}%`
+    },
+];
+
+const damageExport: ExportColumn<DamageByWashTypeRow>[] = [
+    { header: 'Wash Type', value: (row) => formatDisplayText(row.washType) },
+    { header: 'Processed Qty', value: (row) => row.processedQuantity },
+    { header: 'Damaged Qty', value: (row) => row.damagedQuantity },
+    { header: 'Damage %', value: (row) => (row.damagePercentage || 0).toFixed(2) },
+];
+
+const ReportsPage: React.FC = () => {
+    const { user } = useAuth();
+    const [activeTab, setActiveTab] = useState(0);
+    const [customerFilter, setCustomerFilter] = useState('');
+    const [dateRange, setDateRange] = useState<DateRange>({
+        startDate: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000), // Last 30 days
+        endDate: new Date(),
+        period: 'month',
+    });
+
+    const { data: customers = [] } = useBillingCustomers();
+
+    const filters: ReportFilters = {
+        startDate: toDateParam(dateRange.startDate),
+        endDate: toDateParam(dateRange.endDate),
+        customerId: customerFilter || undefined,
+    };
+
+    const productionQuery = useDailyProductionReport(filters, activeTab === 0);
+    const deliveriesQuery = useCustomerDeliveriesReport(filters, activeTab === 1);
+    const billingQuery = useInvoicedVsPaidReport(filters, activeTab === 2);
+    const damageQuery = useDamageByWashTypeReport(filters, activeTab === 3);
+
+    const canViewReports = hasPermission(user, 'canViewReports');
+
+    if (!canViewReports) {
+        return (
+            <div className="w-full mx-auto px-1 sm:px-3 md:px-4 py-3">
+                <Alert severity="error">
+                    You don't have permission to access reports.
+                </Alert>
+            </div>
+        );
+    }
+
+    const periodSuffix = `${filters.startDate}_to_${filters.endDate}`;
+
+    const reports = [
+        {
+            label: 'Daily Production',
+            description: 'Quantities processed per tracking number, by day.',
+            columns: productionColumns,
+            rows: productionQuery.data || [],
+            loading: productionQuery.isLoading,
+            error: productionQuery.error,
+            onExport: () => exportToCsv(`Daily_Production_${periodSuffix}`, productionExport, productionQuery.data || []),
+        },
+        {
+            label: 'Deliveries by Customer',
+            description: 'Orders and pieces delivered to each customer.',
+            columns: deliveryColumns,
+            rows: deliveriesQuery.data || [],
+            loading: deliveriesQuery.isLoading,
+            error: deliveriesQuery.error,
+            onExport: () => exportToCsv(`Deliveries_${periodSuffix}`, deliveryExport, deliveriesQuery.data || []),
+        },
+        {
+            label: 'Invoiced vs Paid',
+            description: 'Invoiced, paid and outstanding amounts per customer.',
+            columns: billingColumns,
+            rows: billingQuery.data || [],
+            loading: billingQuery.isLoading,
+            error: billingQuery.error,
+            onExport: () => exportToCsv(`Invoiced_vs_Paid_${periodSuffix}`, billingExport, billingQuery.data || []),
+        },
+        {
+            label: 'Damage by Wash Type',
+            description: 'QC damage counts against processed quantities for each wash type.',
+            columns: damageColumns,
+            rows: damageQuery.data || [],
+            loading: damageQuery.isLoading,
+            error: damageQuery.error,
+            onExport: () => exportToCsv(`Damage_by_Wash_Type_${periodSuffix}`, damageExport, damageQuery.data || []),
+        },
+    ];
+
+    const activeReport = reports[activeTab];
+
+    return (
+        <div className="w-full mx-auto px-1 sm:px-3 md:px-4 py-4">
+            <div className="flex flex-col gap-6 mb-6">
+                <h2 className="text-2xl md:text-3xl font-bold" style={{ color: colors.text.primary }}>
+                    Reports
+                </h2>
+
+                {/* Filters Section */}
+                <div className="bg-white rounded-lg shadow-sm border p-4" style={{ borderColor: colors.border.light }}>
+                    <div className="flex flex-col lg:flex-row gap-4 items-start lg:items-end">
+                        <div className="flex-1">
+                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                                Period
+                            </label>
+                            <DateRangeFilter
+                                value={dateRange}
+                                onChange={setDateRange}
+                                loading={activeReport.loading}
+                            />
+                        </div>
+                        <div className="min-w-[220px] max-w-[300px] w-full">
+                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                                Customer
+                            </label>
+                            <PrimaryDropdown
+                                value={customerFilter}
+                                onChange={(e) => setCustomerFilter(e.target.value)}
+                                options={[
+                                    { value: '', label: 'All Customers' },
+                                    ...customers.map(customer => ({
+                                        value: customer.id?.toString() || '',
+                                        label: `${customer.firstName} - ${customer.customerCode || 'N/A'}`
+                                    }))
+                                ]}
+                                placeholder="Select Customer"
+                                style={{ width: '100%' }}
+                            />
+                        </div>
+                    </div>
+                </div>
+
+                {/* Tabs */}
+                <Box sx={{ borderBottom: 1, borderColor: 'divider' }}>
+                    <Tabs
+                        value={activeTab}
+                        onChange={(_, newValue) => setActiveTab(newValue)}
+                        variant="scrollable"
+                        scrollButtons="auto"
+                        sx={{
+                            '& .MuiTab-root': {
+                                textTransform: 'none',
+                                fontWeight: 500,
+                                fontSize: '1rem',
+                            }
+                        }}
+                    >
+                        {reports.map(report => (
+                            <Tab key={report.label} label={report.label} />
+                        ))}
+                    </Tabs>
+                </Box>
+
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                    <Typography variant="body2" sx={{ color: colors.text.secondary }}>
+                        {activeReport.description}
+                    </Typography>
+                    <div>
+                        <PrimaryButton
+                            style={{ minWidth: 160, height: 40 }}
+                            startIcon={<FileDownloadIcon style={{ fontSize: 18 }} />}
+                            onClick={activeReport.onExport}
+                            disabled={activeReport.loading || activeReport.rows.length === 0}
+                        >
+                            Export CSV
+                        </PrimaryButton>
+                    </div>
+                </div>
+            </div>
+
+            {activeReport.error ? (
+                <Alert severity="error">
+                    {activeReport.error.message || 'Failed to load report'}
+                </Alert>
+            ) : (
+                <div className="bg-white rounded-lg shadow-sm border" style={{ borderColor: colors.border.light }}>
+                    <PrimaryTable
+                        columns={activeReport.columns}
+                        rows={withRowIds<object>(activeReport.rows)}
+                        pagination
+                        pageSizeOptions={[10, 25, 50, 100]}
+                        initialState={{ pagination: { paginationModel: { pageSize: 25, page: 0 } } }}
+                        height="auto"
+                        loading={activeReport.loading}
+                    />
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ReportsPage;
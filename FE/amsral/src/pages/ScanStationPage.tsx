@@ -0,0 +1,425 @@
+import { useState, useEffect, useRef } from 'react';
+import { Alert, CircularProgress, IconButton, Tooltip } from '@mui/material';
+import { QrCodeScanner, Fullscreen, FullscreenExit, Build, AssignmentTurnedIn, FactCheck } from '@mui/icons-material';
+import PrimaryButton from '../components/common/PrimaryButton';
+import MachineAssignmentModal from '../components/modals/MachineAssignmentModal';
+import CompletionStatusModal from '../components/modals/CompletionStatusModal';
+import QCModal from '../components/modals/QCModal';
+import colors from '../styles/colors';
+import { orderService, type ManagementOrder, type OrderDetailsRecord, type CreateReworkRecordRequest } from '../services/orderService';
+import recordService, { type ProcessRecord, type MachineAssignment } from '../services/recordService';
+import {
+    useEmployees,
+    useMachines,
+    useCreateMachineAssignment,
+    useUpdateAssignmentCompletion,
+    useWashRecipes
+} from '../hooks/useRecordAssignments';
+import printService from '../services/printService';
+import { useSaveDamageRecords, type DamageCounts } from '../hooks/useQC';
+import { useAuth } from '../hooks/useAuth';
+import { hasPermission } from '../utils/roleUtils';
+import { isValidTrackingNumber, isOrderReference, extractOrderIdFromTrackingNumber } from '../utils/trackingNumberUtils';
+import { getRecordRecipe } from '../utils/recipeUtils';
+import { getStatusColor, getStatusLabel, normalizeStatus } from '../utils/statusUtils';
+import toast from 'react-hot-toast';
+
+type ScanAction = 'assign' | 'complete' | 'qc' | 'none';
+
+interface ScanResult {
+    trackingNumber: string;
+    order: ManagementOrder;
+    record: ProcessRecord;
+    openAssignments: MachineAssignment[];
+    action: ScanAction;
+}
+
+// A bag label scan names the whole order; the operator picks which record the bag holds
+interface OrderScan {
+    order: ManagementOrder;
+    records: OrderDetailsRecord[];
+}
+
+// Orders that have finished production are waiting on QC
+const isAwaitingQC = (status: string) => {
+    const normalized = normalizeStatus(status, 'order');
+    return normalized === 'Complete' || normalized === 'QC';
+};
+
+// Pick the action the scanned bag needs next
+const resolveScanAction = (order: ManagementOrder, record: ProcessRecord, openAssignments: MachineAssignment[]): ScanAction => {
+    if (isAwaitingQC(order.status)) return 'qc';
+    if (openAssignments.length > 0) return 'complete';
+    if (record.remainingQuantity > 0) return 'assign';
+    return 'none';
+};
+
+export default function ScanStationPage() {
+    const { user } = useAuth();
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    const [scanValue, setScanValue] = useState('');
+    const [resolving, setResolving] = useState(false);
+    const [scanError, setScanError] = useState<string | null>(null);
+    const [result, setResult] = useState<ScanResult | null>(null);
+    const [orderScan, setOrderScan] = useState<OrderScan | null>(null);
+    const [assignModalOpen, setAssignModalOpen] = useState(false);
+    const [completionAssignment, setCompletionAssignment] = useState<MachineAssignment | null>(null);
+    const [qcModalOpen, setQcModalOpen] = useState(false);
+    const [isFullscreen, setIsFullscreen] = useState(false);
+
+    // Permission checks
+    const canViewQC = hasPermission(user, 'canViewQC');
+
+    // TanStack Query hooks
+    const { data: employeeOptions = [] } = useEmployees();
+    const { data: machinesData } = useMachines();
+    const { data: recipesData } = useWashRecipes();
+
+    // Mutation hooks
+    const createAssignmentMutation = useCreateMachineAssignment();
+    const updateCompletionMutation = useUpdateAssignmentCompletion();
+    const saveDamageRecordsMutation = useSaveDamageRecords();
+
+    const modalOpen = assignModalOpen || !!completionAssignment || qcModalOpen;
+
+    // Keep the scan field focused so keyboard-wedge scanners always type into it
+    useEffect(() => {
+        if (!modalOpen && !resolving) {
+            inputRef.current?.focus();
+        }
+    }, [modalOpen, resolving]);
+
+    useEffect(() => {
+        const handleFullscreenChange = () => setIsFullscreen(!!document.fullscreenElement);
+        document.addEventListener('fullscreenchange', handleFullscreenChange);
+        return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+    }, []);
+
+    const toggleFullscreen = async () => {
+        try {
+            if (document.fullscreenElement) {
+                await document.exitFullscreen();
+            } else {
+                await document.documentElement.requestFullscreen();
+            }
+        } catch (error) {
+            console.warn('Fullscreen not available:', error);
+        }
+    };
+
+    const openAction = (scan: ScanResult, action: ScanAction, assignment?: MachineAssignment) => {
+        switch (action) {
+            case 'assign':
+                setAssignModalOpen(true);
+                break;
+            case 'complete':
+                setCompletionAssignment(assignment || scan.openAssignments[0]);
+                break;
+            case 'qc':
+                if (!canViewQC) {
+                    toast.error('Order is waiting for QC. Ask a QC user to scan it.');
+                    return;
+                }
+                setQcModalOpen(true);
+                break;
+            default:
+                break;
+        }
+    };
+
+    const handleScan = async (rawValue: string) => {
+        const scannedValue = rawValue.trim().toUpperCase();
+        setScanValue('');
+        setScanError(null);
+        setResult(null);
+        setOrderScan(null);
+
+        if (!scannedValue) return;
+
+        if (!isValidTrackingNumber(scannedValue) && !isOrderReference(scannedValue)) {
+            setScanError(`"${scannedValue}" is not a valid tracking number or order reference`);
+            return;
+        }
+
+        try {
+            setResolving(true);
+            const orderId = isOrderReference(scannedValue)
+                ? parseInt(scannedValue, 10)
+                : extractOrderIdFromTrackingNumber(scannedValue);
+            const orderResponse = await orderService.getOrderDetails(orderId);
+            if (!orderResponse.success) {
+                throw new Error(`Order ${orderId} not found`);
+            }
+
+            let trackingNumber = scannedValue;
+            if (isOrderReference(scannedValue)) {
+                const records = orderResponse.data.records;
+                if (records.length === 0) {
+                    throw new Error(`Order #${orderId} has no records yet`);
+                }
+                if (records.length > 1) {
+                    setOrderScan({ order: orderResponse.data.order, records });
+                    return;
+                }
+                trackingNumber = records[0].trackingNumber;
+            }
+
+            const orderRecord = orderResponse.data.records.find(record => record.trackingNumber === trackingNumber);
+            if (!orderRecord) {
+                throw new Error(`No record found for tracking number ${trackingNumber}`);
+            }
+
+            const [recordResponse, assignmentsResponse] = await Promise.all([
+                recordService.getRecord(orderRecord.id.toString()),
+                recordService.getRecordAssignments(orderRecord.id.toString(), { page: 1, limit: 100 })
+            ]);
+
+            const openAssignments = (assignmentsResponse.data?.assignments || [])
+                .filter(assignment => normalizeStatus(assignment.status, 'assignment') !== 'Complete');
+
+            const scan: ScanResult = {
+                trackingNumber,
+                order: orderResponse.data.order,
+                record: recordResponse.data,
+                openAssignments,
+                action: resolveScanAction(orderResponse.data.order, recordResponse.data, openAssignments)
+            };
+
+            setResult(scan);
+            openAction(scan, scan.action);
+        } catch (error) {
+            console.error('Error resolving scan:', error);
+            const message = (error as { message?: string })?.message;
+            setScanError(message || `Failed to look up ${scannedValue}`);
+        } finally {
+            setResolving(false);
+        }
+    };
+
+    const handleAssignSubmit = async (data: {
+        assignedBy: string;
+        quantity: number;
+        washingMachine?: string;
+        dryingMachine?: string;
+        weightKg: number | null;
+    }) => {
+        if (!result) return;
+
+        const createdAssignment = await createAssignmentMutation.mutateAsync({
+            recordId: result.record.id,
+            assignmentData: {
+                assignedById: data.assignedBy,
+                quantity: data.quantity,
+                washingMachine: data.washingMachine || '',
+                dryingMachine: data.dryingMachine || '',
+                weightKg: data.weightKg,
+                orderId: result.record.orderId,
+                itemId: result.record.itemId || '',
+                recordId: result.record.id,
+            }
+        });
+        setResult(null);
+
+        // Print the receipt with the recipe so the operator has the machine instructions
+        const printResult = await printService.printAssignmentReceiptAuto({
+            trackingNumber: createdAssignment.trackingNumber || result.trackingNumber,
+            itemName: createdAssignment.item || result.record.item || 'N/A',
+            washType: result.record.washType || 'N/A',
+            processTypes: Array.isArray(result.record.processTypes) ? result.record.processTypes : [],
+            assignedTo: createdAssignment.assignedTo
+                || employeeOptions.find(employee => employee.value === data.assignedBy)?.label
+                || 'N/A',
+            quantity: Number(createdAssignment.quantity) || data.quantity,
+            recipe: getRecordRecipe(
+                result.record.washType,
+                result.record.processTypes,
+                recipesData?.washingTypes || [],
+                recipesData?.processTypes || []
+            )
+        });
+        if (!printResult.success) {
+            toast.error(printResult.error || 'Failed to print assignment receipt');
+        }
+    };
+
+    const handleUpdateCompletion = async (assignmentId: string, isCompleted: boolean, returnQuantity: number) => {
+        if (!result) return;
+
+        await updateCompletionMutation.mutateAsync({
+            recordId: result.record.id,
+            assignmentId,
+            isCompleted,
+            returnQuantity
+        });
+        toast.success(`Assignment ${isCompleted ? 'marked as completed' : 'marked as incomplete'} successfully`);
+        setCompletionAssignment(null);
+        setResult(null);
+    };
+
+    const handleSaveDamageCounts = async (damageCounts: DamageCounts, reworks: CreateReworkRecordRequest[]) => {
+        if (!result) return;
+
+        await saveDamageRecordsMutation.mutateAsync({ orderId: result.order.id, damageCounts, reworks });
+        setQcModalOpen(false);
+        setResult(null);
+    };
+
+    return (
+        <div className="w-full min-h-full flex flex-col items-center px-3 py-6" style={{ backgroundColor: colors.background.card }}>
+            <div className="w-full max-w-3xl flex justify-between items-center mb-6">
+                <div>
+                    <h2 className="text-xl md:text-2xl font-bold" style={{ color: colors.text.primary }}>Scan Station</h2>
+                    <p className="text-sm sm:text-base" style={{ color: colors.text.secondary }}>
+                        Scan or type a bag tracking number or order reference to open the next step
+                    </p>
+                </div>
+                <Tooltip title={isFullscreen ? 'Exit full screen' : 'Full screen'} arrow>
+                    <IconButton onClick={toggleFullscreen} sx={{ color: colors.text.secondary }}>
+                        {isFullscreen ? <FullscreenExit /> : <Fullscreen />}
+                    </IconButton>
+                </Tooltip>
+            </div>
+
+            <form
+                className="w-full max-w-3xl"
+                onSubmit={(e) => {
+                    e.preventDefault();
+                    handleScan(scanValue);
+                }}
+            >
+                <div className="flex items-center gap-3 p-4 bg-white rounded-xl shadow-sm border-2" style={{ borderColor: colors.button.primary }}>
+                    <QrCodeScanner sx={{ fontSize: 40, color: colors.button.primary }} />
+                    <input
+                        ref={inputRef}
+                        value={scanValue}
+                        onChange={(e) => setScanValue(e.target.value)}
+                        onBlur={() => {
+                            // Scanners send keystrokes to whatever has focus - pull it back
+                            if (!modalOpen) setTimeout(() => inputRef.current?.focus(), 100);
+                        }}
+                        placeholder="e.g. 125A or 125"
+                        autoComplete="off"
+                        disabled={resolving}
+                        className="flex-1 text-3xl md:text-5xl font-mono font-bold uppercase outline-none bg-transparent"
+                        style={{ color: colors.text.primary }}
+                    />
+                    {resolving && <CircularProgress size={32} />}
+                </div>
+            </form>
+
+            <div className="w-full max-w-3xl mt-6">
+                {scanError && (
+                    <Alert severity="error" sx={{ fontSize: '1.1rem' }}>{scanError}</Alert>
+                )}
+
+                {orderScan && (
+                    <div className="p-5 bg-white rounded-xl shadow-sm border border-gray-200">
+                        <div className="text-3xl font-mono font-bold" style={{ color: colors.button.primary }}>
+                            Order #{orderScan.order.id}
+                        </div>
+                        <div className="text-base mb-4" style={{ color: colors.text.secondary }}>
+                            {orderScan.order.customerName} - pick the record this bag belongs to
+                        </div>
+                        <div className="flex flex-wrap gap-3">
+                            {orderScan.records.map(record => (
+                                <PrimaryButton
+                                    key={record.id}
+                                    onClick={() => handleScan(record.trackingNumber)}
+                                    style={{ width: 'auto' }}
+                                >
+                                    {record.trackingNumber} - {record.itemName || 'N/A'} ({record.quantity})
+                                </PrimaryButton>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {result && (
+                    <div className="p-5 bg-white rounded-xl shadow-sm border border-gray-200">
+                        <div className="flex justify-between items-start mb-4">
+                            <div>
+                                <div className="text-3xl font-mono font-bold" style={{ color: colors.button.primary }}>
+                                    {result.trackingNumber}
+                                </div>
+                                <div className="text-base" style={{ color: colors.text.secondary }}>
+                                    Order #{result.order.id} - {result.order.customerName}
+                                </div>
+                            </div>
+                            <span className={`px-3 py-1 rounded-xl text-sm font-semibold ${getStatusColor(normalizeStatus(result.order.status, 'order'), 'order')}`}>
+                                {getStatusLabel(normalizeStatus(result.order.status, 'order'), 'order')}
+                            </span>
+                        </div>
+
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm mb-5">
+                            <div><span className="font-semibold">Item:</span> {result.record.item}</div>
+                            <div><span className="font-semibold">Wash Type:</span> {result.record.washType}</div>
+                            <div><span className="font-semibold">Quantity:</span> {result.record.quantity}</div>
+                            <div><span className="font-semibold">Unassigned:</span> {result.record.remainingQuantity}</div>
+                        </div>
+
+                        <div className="flex flex-wrap gap-3">
+                            {result.record.remainingQuantity > 0 && !isAwaitingQC(result.order.status) && (
+                                <PrimaryButton onClick={() => openAction(result, 'assign')} startIcon={<Build />} style={{ width: 'auto' }}>
+                                    Assign Machine
+                                </PrimaryButton>
+                            )}
+                            {result.openAssignments.map(assignment => (
+                                <PrimaryButton
+                                    key={assignment.id}
+                                    onClick={() => openAction(result, 'complete', assignment)}
+                                    startIcon={<AssignmentTurnedIn />}
+                                    style={{ width: 'auto' }}
+                                >
+                                    Complete {assignment.assignedTo} ({assignment.quantity})
+                                </PrimaryButton>
+                            ))}
+                            {isAwaitingQC(result.order.status) && canViewQC && (
+                                <PrimaryButton onClick={() => openAction(result, 'qc')} startIcon={<FactCheck />} style={{ width: 'auto' }}>
+                                    Quality Control
+                                </PrimaryButton>
+                            )}
+                            {result.action === 'none' && (
+                                <Alert severity="info" sx={{ width: '100%' }}>
+                                    This record is fully assigned and all assignments are complete.
+                                </Alert>
+                            )}
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            {/* Assignment Modal */}
+            {result && (
+                <MachineAssignmentModal
+                    open={assignModalOpen}
+                    onClose={() => setAssignModalOpen(false)}
+                    onSubmit={handleAssignSubmit}
+                    record={result.record}
+                    employeeOptions={employeeOptions}
+                    washingMachineOptions={machinesData?.washing || []}
+                    dryingMachineOptions={machinesData?.drying || []}
+                />
+            )}
+
+            {/* Completion Status Modal */}
+            <CompletionStatusModal
+                open={!!completionAssignment}
+                onClose={() => setCompletionAssignment(null)}
+                assignment={completionAssignment}
+                onUpdate={handleUpdateCompletion}
+                loading={updateCompletionMutation.isPending}
+            />
+
+            {/* QC Modal */}
+            {result && (
+                <QCModal
+                    open={qcModalOpen}
+                    onClose={() => setQcModalOpen(false)}
+                    order={result.order}
+                    onSave={handleSaveDamageCounts}
+                />
+            )}
+        </div>
+    );
+}
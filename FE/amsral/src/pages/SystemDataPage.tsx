@@ -5,15 +5,21 @@ import ItemsSection from '../components/systemData/ItemsSection';
 import WashingTypesSection from '../components/systemData/WashingTypesSection';
 import MachinesSection from '../components/systemData/MachinesSection';
 import ProcessTypesSection from '../components/systemData/ProcessTypesSection';
+import TaxRatesSection from '../components/systemData/TaxRatesSection';
+import CompanyProfileSection from '../components/systemData/CompanyProfileSection';
+import InvoiceTemplateSection from '../components/systemData/InvoiceTemplateSection';
 
 
-type SystemDataSection = 'items' | 'washingTypes' | 'machines' | 'processTypes';
+type SystemDataSection = 'items' | 'washingTypes' | 'machines' | 'processTypes' | 'taxRates' | 'companyProfile' | 'invoiceTemplate';
 
 const navigationButtons = [
     { id: 'items', label: 'Items', icon: '📦' },
     { id: 'washingTypes', label: 'Washing Types', icon: '🧺' },
     { id: 'machines', label: 'Machines', icon: '⚙️' },
     { id: 'processTypes', label: 'Process Types', icon: '🔄' },
+    { id: 'taxRates', label: 'Tax Rates', icon: '🧾' },
+    { id: 'companyProfile', label: 'Company Profile', icon: '🏢' },
+    { id: 'invoiceTemplate', label: 'Invoice Template', icon: '📄' },
 ] as const;
 
 export default function SystemDataPage() {
@@ -29,6 +35,12 @@ export default function SystemDataPage() {
                 return <MachinesSection />;
             case 'processTypes':
                 return <ProcessTypesSection />;
+            case 'taxRates':
+                return <TaxRatesSection />;
+            case 'companyProfile':
+                return <CompanyProfileSection />;
+            case 'invoiceTemplate':
+                return <InvoiceTemplateSection />;
             default:
                 return <ItemsSection />;
         }
@@ -42,7 +54,7 @@ export default function SystemDataPage() {
                 </h2>
 
                 {/* Navigation Buttons */}
-                <div className="grid grid-cols-2 lg:grid-cols-4 gap-2 sm:gap-3 mb-4">
+                <div className="grid grid-cols-2 lg:grid-cols-7 gap-2 sm:gap-3 mb-4">
                     {navigationButtons.map((button) => (
                         <PrimaryButton
                             key={button.id}
@@ -4,6 +4,7 @@ import type { GridColDef, GridRowParams } from '@mui/x-data-grid';
 import PrimaryTable from '../components/common/PrimaryTable';
 import colors from '../styles/colors';
 import { getStatusColor, getStatusLabel, normalizeStatus } from '../utils/statusUtils';
+import { isReworkRecord } from '../utils/reworkUtils';
 import {
     useProductionRecords,
 } from '../hooks/useProduction';
@@ -20,7 +21,22 @@ import {
 // Table columns
 const recordsColumns: GridColDef[] = [
     { field: 'createdAt', headerName: 'Date', flex: 0.8, minWidth: 110 },
-    { field: 'trackingNumber', headerName: 'Tracking No', flex: 0.8, minWidth: 100 },
+    {
+        field: 'trackingNumber',
+        headerName: 'Tracking No',
+        flex: 0.8,
+        minWidth: 100,
+        renderCell: (params) => (
+            <span className="flex items-center gap-2">
+                {params.value}
+                {isReworkRecord(params.row) && (
+                    <span className="px-2 py-0.5 rounded-xl text-xs font-semibold bg-amber-100 text-amber-800">
+                        Rework
+                    </span>
+                )}
+            </span>
+        )
+    },
     { field: 'customerName', headerName: 'Customer', flex: 1.2, minWidth: 120 },
     { field: 'item', headerName: 'Item Name', flex: 1.5, minWidth: 150 },
     { field: 'washType', headerName: 'Wash Type', flex: 1.2, minWidth: 120 },
@@ -1,4 +1,5 @@
 import apiClient from '../config/api';
+import type { TaxLine } from './taxService';
 
 // Billing interfaces
 export interface BillingOrder {
@@ -25,6 +26,8 @@ export interface OrderRecordPricing {
   recordId: number;
   unitPrice: number;
   totalPrice: number;
+  listPrice?: number | null; // Price list price the invoice started from
+  isPriceOverride?: boolean; // Operator changed the price list price
 }
 
 export interface OrderPricing {
@@ -37,17 +40,165 @@ export interface SavePricingRequest {
   orderPricing: OrderPricing[];
 }
 
+// One change to a record's unit price, newest first
+export interface RecordPriceChange {
+  id: number;
+  recordId: number;
+  previousUnitPrice: number | null; // null when the record was first priced
+  unitPrice: number;
+  changedBy: string;
+  changedAt: string;
+  invoiceNumber?: string | null; // Invoice the price was set on, if any
+  notes?: string | null;
+}
+
+export interface OrderPricingHistory {
+  orderId: number;
+  currentPricing: {
+    totalPrice: number;
+    lastUpdated: string;
+    records: {
+      recordId: number;
+      itemName: string;
+      quantity: number;
+      unitPrice: number;
+      totalPrice: number;
+      lastUpdated: string;
+    }[];
+  };
+  pricingHistory: {
+    id: number;
+    totalPrice: number;
+    createdAt: string;
+    createdBy: string;
+    notes: string;
+  }[];
+  recordChanges?: RecordPriceChange[];
+}
+
+// A unit price charged to a customer on an earlier invoice
+export interface PriceHistoryEntry {
+  invoiceId: number;
+  invoiceNumber: string;
+  invoiceDate: string;
+  orderId: number;
+  itemName: string;
+  washType: string;
+  quantity: number;
+  unitPrice: number;
+  currency?: string;
+}
+
 export interface CreateInvoiceRequest {
   invoiceNumber: string;
   customerName: string;
   orderIds: number[];
-  records: InvoiceRecord[];
+  records: (InvoiceRecord & { styleNo?: string })[];
   orderTotals: { orderId: number; totalPrice: number }[];
   taxRate: number;
+  taxLines?: TaxLine[];
   paymentTerms: number;
+  poNumber?: string; // Customer PO numbers of the invoiced orders
+  includeStyleNo?: boolean;
+  notes?: string;
+  status?: 'draft' | 'sent'; // Drafts are reviewed before they are issued
+  billingPeriod?: string; // YYYY-MM, set for invoices raised by a bill period run
+  currency?: string; // Customer currency, LKR when not set
+  exchangeRate?: number; // LKR per unit of currency, captured when the invoice is raised
+}
+
+export type PaymentMethod = 'cash' | 'cheque' | 'bank_transfer';
+
+// One payment received against an invoice - the invoice balance is derived from these
+export interface PaymentEntry {
+  id: number;
+  invoiceId: number;
+  receiptNumber: string;
+  paymentDate: string;
+  amount: number;
+  method: PaymentMethod;
+  chequeNumber?: string | null;
+  bank?: string | null;
+  reference?: string | null;
+  notes?: string | null;
+  createdBy?: string;
+  createdAt: string;
+}
+
+export interface RecordPaymentRequest {
+  paymentDate: string;
+  amount: number;
+  method: PaymentMethod;
+  chequeNumber?: string;
+  bank?: string;
+  reference?: string;
   notes?: string;
 }
 
+// A billed record as it appears on an issued invoice
+export interface InvoiceLineItem {
+  orderId: number;
+  recordId: number;
+  itemName: string;
+  washType: string;
+  processTypes: string[];
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+  styleNo?: string | null;
+  colour?: string | null;
+  creditedAmount?: number; // Already credited on earlier credit notes
+}
+
+export interface CreditNoteLine {
+  orderId: number;
+  recordId: number;
+  itemName: string;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+// Corrects an issued invoice without deleting it - reduces what the customer owes
+export interface CreditNote {
+  id: number;
+  creditNoteNumber: string;
+  invoiceId: number;
+  invoiceNumber: string;
+  customerId: string;
+  customerName: string;
+  issueDate: string;
+  reason: string;
+  lines: CreditNoteLine[];
+  subtotal: number;
+  taxLines?: TaxLine[];
+  taxAmount: number;
+  total: number;
+  currency?: string; // Same as the invoice it corrects
+  createdBy?: string;
+  createdAt: string;
+}
+
+export interface CreateCreditNoteRequest {
+  issueDate: string;
+  reason: string;
+  lines: CreditNoteLine[];
+  subtotal: number;
+  taxLines?: TaxLine[];
+  taxAmount: number;
+  total: number;
+}
+
+export interface CreditNotePreviewData {
+  currentIncrement: number;
+  nextIncrement: number;
+  nextCreditNoteNo: string;
+}
+
+// draft: prices still editable; sent: issued and locked; void: cancelled with a reason, number kept
+export type InvoiceStatus = 'draft' | 'sent' | 'paid' | 'overdue' | 'void';
+
 export interface Invoice {
   id: number;
   invoiceNumber: string;
@@ -55,16 +206,53 @@ export interface Invoice {
   customerId: string;
   subtotal: number;
   taxAmount: number;
+  taxLines?: TaxLine[];
   total: number;
   dueDate: string;
-  status: 'draft' | 'sent' | 'paid' | 'overdue';
+  status: InvoiceStatus;
   paymentAmount?: number; // Actual payment amount received (legacy field)
   payment?: number; // New payment field from API
   balance?: number; // Customer balance amount
+  currency?: string; // Amounts above are in this currency, LKR when not set
+  exchangeRate?: number | null; // LKR per unit of currency at invoice time
+  poNumber?: string | null;
+  includeStyleNo?: boolean;
+  issuedAt?: string | null;
+  voidedAt?: string | null;
+  voidReason?: string | null;
+  reminderCount?: number;
+  lastReminderAt?: string | null;
   createdAt: string;
   updatedAt?: string;
 }
 
+// One dunning reminder sent for an overdue invoice
+export interface InvoiceReminder {
+  id: number;
+  invoiceId: number;
+  sentAt: string;
+  sentBy?: string;
+  channel?: string; // e.g. email, sms
+  message?: string | null;
+}
+
+export interface UpdateDraftInvoiceRequest {
+  poNumber?: string;
+  includeStyleNo: boolean;
+  records: (InvoiceRecord & { styleNo?: string })[];
+  orderTotals: { orderId: number; totalPrice: number }[];
+  taxRate: number;
+  taxLines?: TaxLine[];
+  exchangeRate?: number;
+}
+
+// Last exchange rate used for a currency, offered as the default on new invoices
+export interface ExchangeRate {
+  currency: string;
+  rate: number; // LKR per unit of currency
+  date: string;
+}
+
 export interface BillingFilters {
   page?: number;
   limit?: number;
@@ -80,7 +268,7 @@ export interface BillingFilters {
 export interface InvoiceFilters {
   page?: number;
   limit?: number;
-  status?: 'draft' | 'sent' | 'paid' | 'overdue';
+  status?: InvoiceStatus;
   customerName?: string;
   dateFrom?: string;
   dateTo?: string;
@@ -163,28 +351,7 @@ export class BillingService {
   /**
    * Get order pricing history
    */
-  static async getOrderPricingHistory(orderId: number): Promise<BillingResponse<{
-    orderId: number;
-    currentPricing: {
-      totalPrice: number;
-      lastUpdated: string;
-      records: {
-        recordId: number;
-        itemName: string;
-        quantity: number;
-        unitPrice: number;
-        totalPrice: number;
-        lastUpdated: string;
-      }[];
-    };
-    pricingHistory: {
-      id: number;
-      totalPrice: number;
-      createdAt: string;
-      createdBy: string;
-      notes: string;
-    }[];
-  }>> {
+  static async getOrderPricingHistory(orderId: number): Promise<BillingResponse<OrderPricingHistory>> {
     try {
       const response = await apiClient.get(`/billing/orders/${orderId}/pricing`);
       return response.data;
@@ -264,8 +431,35 @@ export class BillingService {
     }
   }
 
+  /**
+   * Update the prices, style numbers and PO number on a draft invoice
+   */
+  static async updateDraftInvoice(invoiceId: number, invoiceData: UpdateDraftInvoiceRequest): Promise<BillingResponse<Invoice>> {
+    try {
+      const response = await apiClient.put(`/billing/invoices/${invoiceId}`, invoiceData);
+      return response.data;
+    } catch (error) {
+      console.error('Error updating draft invoice:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Void an invoice, keeping it and its number on record
+   */
+  static async voidInvoice(invoiceId: number, reason: string): Promise<BillingResponse<Invoice>> {
+    try {
+      const response = await apiClient.patch(`/billing/invoices/${invoiceId}/void`, { reason });
+      return response.data;
+    } catch (error) {
+      console.error('Error voiding invoice:', error);
+      throw error;
+    }
+  }
+
   /**
    * Delete invoice
+   * @deprecated Issue a credit note instead so the invoice and its number stay on record
    */
   static async deleteInvoice(invoiceId: number): Promise<BillingResponse<{ message: string }>> {
     try {
@@ -333,6 +527,32 @@ export class BillingService {
     }
   }
 
+  /**
+   * Get the reminders sent for an invoice
+   */
+  static async getInvoiceReminders(invoiceId: number): Promise<BillingResponse<InvoiceReminder[]>> {
+    try {
+      const response = await apiClient.get(`/billing/invoices/${invoiceId}/reminders`);
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching invoice reminders:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the last exchange rate used for a currency
+   */
+  static async getLatestExchangeRate(currency: string): Promise<BillingResponse<ExchangeRate | null>> {
+    try {
+      const response = await apiClient.get(`/billing/exchange-rates/latest?currency=${encodeURIComponent(currency)}`);
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching exchange rate:', error);
+      throw error;
+    }
+  }
+
   /**
    * Generate invoice PDF
    */
@@ -422,6 +642,84 @@ export class BillingService {
     }
   }
 
+  /**
+   * Get the payments recorded against an invoice
+   */
+  static async getInvoicePayments(invoiceId: number): Promise<BillingResponse<PaymentEntry[]>> {
+    try {
+      const response = await apiClient.get(`/billing/invoices/${invoiceId}/payments`);
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching invoice payments:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a payment against an invoice
+   */
+  static async recordInvoicePayment(invoiceId: number, paymentData: RecordPaymentRequest): Promise<BillingResponse<PaymentEntry>> {
+    try {
+      const response = await apiClient.post(`/billing/invoices/${invoiceId}/payments`, paymentData);
+      return response.data;
+    } catch (error) {
+      console.error('Error recording invoice payment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the billed records on an invoice, with what has already been credited
+   */
+  static async getInvoiceLines(invoiceId: number): Promise<BillingResponse<InvoiceLineItem[]>> {
+    try {
+      const response = await apiClient.get(`/billing/invoices/${invoiceId}/records`);
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching invoice lines:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the next credit note number in the sequence
+   */
+  static async getCreditNotePreview(): Promise<BillingResponse<CreditNotePreviewData>> {
+    try {
+      const response = await apiClient.get('/billing/credit-notes/preview');
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching credit note preview:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the credit notes issued against an invoice
+   */
+  static async getInvoiceCreditNotes(invoiceId: number): Promise<BillingResponse<CreditNote[]>> {
+    try {
+      const response = await apiClient.get(`/billing/invoices/${invoiceId}/credit-notes`);
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching invoice credit notes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Issue a credit note against an invoice
+   */
+  static async createCreditNote(invoiceId: number, creditNoteData: CreateCreditNoteRequest): Promise<BillingResponse<CreditNote>> {
+    try {
+      const response = await apiClient.post(`/billing/invoices/${invoiceId}/credit-notes`, creditNoteData);
+      return response.data;
+    } catch (error) {
+      console.error('Error creating credit note:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get customer billing history
    */
@@ -455,6 +753,71 @@ export class BillingService {
       throw error;
     }
   }
+
+  /**
+   * Get the latest unit prices charged to a customer for an item and wash type, newest first
+   */
+  static async getCustomerPriceHistory(customerId: string, filters: {
+    itemName: string;
+    washType: string;
+    limit?: number;
+  }): Promise<BillingResponse<PriceHistoryEntry[]>> {
+    try {
+      const params = new URLSearchParams();
+
+      params.append('itemName', filters.itemName);
+      params.append('washType', filters.washType);
+      if (filters.limit) params.append('limit', filters.limit.toString());
+
+      const response = await apiClient.get(`/billing/customers/${customerId}/price-history?${params.toString()}`);
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching customer price history:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get every payment a customer has made across their invoices
+   */
+  static async getCustomerPayments(customerId: string, filters: {
+    dateFrom?: string;
+    dateTo?: string;
+  } = {}): Promise<BillingResponse<PaymentEntry[]>> {
+    try {
+      const params = new URLSearchParams();
+
+      if (filters.dateFrom) params.append('dateFrom', filters.dateFrom);
+      if (filters.dateTo) params.append('dateTo', filters.dateTo);
+
+      const response = await apiClient.get(`/billing/customers/${customerId}/payments?${params.toString()}`);
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching customer payments:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get every credit note issued to a customer
+   */
+  static async getCustomerCreditNotes(customerId: string, filters: {
+    dateFrom?: string;
+    dateTo?: string;
+  } = {}): Promise<BillingResponse<CreditNote[]>> {
+    try {
+      const params = new URLSearchParams();
+
+      if (filters.dateFrom) params.append('dateFrom', filters.dateFrom);
+      if (filters.dateTo) params.append('dateTo', filters.dateTo);
+
+      const response = await apiClient.get(`/billing/customers/${customerId}/credit-notes?${params.toString()}`);
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching customer credit notes:', error);
+      throw error;
+    }
+  }
 }
 
 export default BillingService;
@@ -0,0 +1,77 @@
+import apiClient from '../config/api';
+
+// Letterhead, bank and signature details printed on invoices, gatepasses and receipts
+export interface CompanyProfile {
+  name: string;
+  tagline?: string; // e.g. "(Specialist in Industrial Garment Washing)"
+  subTagline?: string; // e.g. "Washing Plant & Finishing Plant"
+  address: string; // One line per printed line
+  phone: string;
+  email: string;
+  vatNumber?: string; // Printed on tax invoices
+  logo?: string | null; // Data URL
+  signature?: string | null; // Data URL, drawn above the signature line
+  bankName?: string;
+  bankBranch?: string;
+  accountName?: string;
+  accountNumber?: string;
+}
+
+export type PaperSize = 'a4' | 'letter';
+
+// Order receipts and goods receipt notes print on a quarter A4 sheet, or a full page of the template paper size
+export type ReceiptSize = 'quarter' | 'full';
+
+// Optional invoice table columns. Ref No, Item, Qty, Unit Price and Amount are always printed
+export interface InvoiceTemplateColumns {
+  gpNo: boolean;
+  styleNo: boolean; // Default for the Style No option when raising an invoice
+  washType: boolean;
+  processTypes: boolean;
+}
+
+export interface InvoiceTemplate {
+  columns: InvoiceTemplateColumns;
+  termsText: string; // Printed under the invoice totals
+  footerText: string; // Printed at the foot of every document
+  paperSize: PaperSize;
+  receiptSize: ReceiptSize; // Default for order receipts and GRNs, can be changed when printing
+}
+
+export interface CompanyProfileResponse {
+  success: boolean;
+  data: CompanyProfile;
+  message?: string;
+}
+
+export interface InvoiceTemplateResponse {
+  success: boolean;
+  data: InvoiceTemplate;
+  message?: string;
+}
+
+export const companyProfileService = {
+  // GET /api/settings/company-profile - Get the company profile
+  getCompanyProfile: async (): Promise<CompanyProfileResponse> => {
+    const response = await apiClient.get('/settings/company-profile');
+    return response.data;
+  },
+
+  // PUT /api/settings/company-profile - Update the company profile
+  updateCompanyProfile: async (data: CompanyProfile): Promise<CompanyProfileResponse> => {
+    const response = await apiClient.put('/settings/company-profile', data);
+    return response.data;
+  },
+
+  // GET /api/settings/invoice-template - Get the invoice template
+  getInvoiceTemplate: async (): Promise<InvoiceTemplateResponse> => {
+    const response = await apiClient.get('/settings/invoice-template');
+    return response.data;
+  },
+
+  // PUT /api/settings/invoice-template - Update the invoice template
+  updateInvoiceTemplate: async (data: InvoiceTemplate): Promise<InvoiceTemplateResponse> => {
+    const response = await apiClient.put('/settings/invoice-template', data);
+    return response.data;
+  },
+};
@@ -12,6 +12,9 @@ export interface Customer {
   mapLink?: string;
   notes?: string;
   isActive?: boolean;
+  isVatRegistered?: boolean; // Registered customers get a tax invoice
+  vatNumber?: string;
+  currency?: string; // Invoice currency, LKR when not set
   createdAt?: string;
   updatedAt?: string;
 }
@@ -103,6 +106,25 @@ export class CustomerService {
     }
   }
 
+  static async getCustomer(id: number): Promise<Customer> {
+    try {
+      const response = await apiClient.get(`/customers/${id}`);
+
+      // Handle different response structures
+      if (response.data && response.data.data) {
+        return response.data.data;
+      } else if (response.data && response.data.id) {
+        return response.data;
+      } else {
+        console.warn('Unexpected API response structure:', response.data);
+        throw new Error('Unexpected response format');
+      }
+    } catch (error) {
+      console.error('Error fetching customer:', error);
+      throw error;
+    }
+  }
+
   static async createCustomer(customer: Omit<Customer, 'id' | 'customerCode' | 'createdAt' | 'updatedAt'>): Promise<Customer> {
     try {
       const response = await apiClient.post('/customers', customer);
@@ -45,8 +45,62 @@ export interface DashboardFilters {
   startDate?: string;
   endDate?: string;
   period?: 'today' | 'week' | 'month' | 'quarter' | 'year' | 'custom';
+  currency?: string; // Revenue currency; foreign invoices are converted at the rate they were raised at
 }
 
+// Report Types
+export interface ReportFilters {
+  startDate?: string;
+  endDate?: string;
+  customerId?: string;
+}
+
+export interface DailyProductionRow {
+  date: string;
+  trackingNumber: string;
+  orderId: number;
+  customerName: string;
+  itemName: string;
+  washType: string;
+  processTypes: string[];
+  quantity: number;
+  completedQuantity: number;
+}
+
+export interface CustomerDeliveryRow {
+  customerId: string;
+  customerName: string;
+  ordersDelivered: number;
+  deliveredQuantity: number;
+  lastDeliveryDate: string | null;
+}
+
+export interface InvoicedVsPaidRow {
+  customerId: string;
+  customerName: string;
+  invoiceCount: number;
+  invoicedAmount: number; // In LKR; export invoices are converted at the rate they were raised at
+  paidAmount: number;
+  outstandingAmount: number;
+}
+
+export interface DamageByWashTypeRow {
+  washType: string;
+  processedQuantity: number;
+  damagedQuantity: number;
+  damagePercentage: number;
+}
+
+const buildReportParams = (filters: ReportFilters): string => {
+  const params = new URLSearchParams();
+
+  if (filters.startDate) params.append('startDate', filters.startDate);
+  if (filters.endDate) params.append('endDate', filters.endDate);
+  if (filters.customerId) params.append('customerId', filters.customerId);
+
+  return params.toString();
+};
+
 // Dashboard Service
 export class DashboardService {
   // Get dashboard analytics
@@ -57,6 +111,7 @@ export class DashboardService {
       if (filters.startDate) params.append('startDate', filters.startDate);
       if (filters.endDate) params.append('endDate', filters.endDate);
       if (filters.period) params.append('period', filters.period);
+      if (filters.currency) params.append('currency', filters.currency);
 
       const response = await apiClient.get(`/dashboard/analytics?${params.toString()}`);
       
@@ -78,6 +133,7 @@ export class DashboardService {
       
       if (filters.startDate) params.append('startDate', filters.startDate);
       if (filters.endDate) params.append('endDate', filters.endDate);
+      if (filters.currency) params.append('currency', filters.currency);
 
       const response = await apiClient.get(`/dashboard/quick-stats?${params.toString()}`);
       
@@ -100,6 +156,7 @@ export class DashboardService {
       if (filters.startDate) params.append('startDate', filters.startDate);
       if (filters.endDate) params.append('endDate', filters.endDate);
       if (filters.period) params.append('period', filters.period);
+      if (filters.currency) params.append('currency', filters.currency);
 
       const url = `/dashboard/orders-trend?${params.toString()}`;
       console.log('Orders trend API call:', url);
@@ -156,6 +213,70 @@ export class DashboardService {
       throw error;
     }
   }
+
+  // Get daily production per tracking number (report center)
+  static async getDailyProductionReport(filters: ReportFilters = {}): Promise<DailyProductionRow[]> {
+    try {
+      const response = await apiClient.get(`/dashboard/reports/daily-production?${buildReportParams(filters)}`);
+
+      if (response.data.success) {
+        return response.data.data;
+      }
+
+      throw new Error(response.data.message || 'Failed to fetch daily production report');
+    } catch (error) {
+      console.error('Error fetching daily production report:', error);
+      throw error;
+    }
+  }
+
+  // Get delivered orders and quantities per customer (report center)
+  static async getCustomerDeliveriesReport(filters: ReportFilters = {}): Promise<CustomerDeliveryRow[]> {
+    try {
+      const response = await apiClient.get(`/dashboard/reports/deliveries?${buildReportParams(filters)}`);
+
+      if (response.data.success) {
+        return response.data.data;
+      }
+
+      throw new Error(response.data.message || 'Failed to fetch deliveries report');
+    } catch (error) {
+      console.error('Error fetching deliveries report:', error);
+      throw error;
+    }
+  }
+
+  // Get invoiced, paid and outstanding amounts per customer in one call (report center, see DASHBOARD_ENDPOINTS.md)
+  static async getInvoicedVsPaidReport(filters: ReportFilters = {}): Promise<InvoicedVsPaidRow[]> {
+    try {
+      const response = await apiClient.get(`/dashboard/reports/invoiced-vs-paid?${buildReportParams(filters)}`);
+
+      if (response.data.success) {
+        return response.data.data;
+      }
+
+      throw new Error(response.data.message || 'Failed to fetch invoiced vs paid report');
+    } catch (error) {
+      console.error('Error fetching invoiced vs paid report:', error);
+      throw error;
+    }
+  }
+
+  // Get QC damage counts grouped by wash type (report center)
+  static async getDamageByWashTypeReport(filters: ReportFilters = {}): Promise<DamageByWashTypeRow[]> {
+    try {
+      const response = await apiClient.get(`/dashboard/reports/damage-by-wash-type?${buildReportParams(filters)}`);
+
+      if (response.data.success) {
+        return response.data.data;
+      }
+
+      throw new Error(response.data.message || 'Failed to fetch damage report');
+    } catch (error) {
+      console.error('Error fetching damage report:', error);
+      throw error;
+    }
+  }
 }
 
 export default DashboardService;
@@ -86,6 +86,7 @@ export interface IncomeFilters {
   period?: 'day' | 'week' | 'month' | 'year' | 'today' | 'quarter' | 'custom';
   groupBy?: 'day' | 'week' | 'month' | 'year';
   limit?: number;
+  currency?: string; // Totals currency; foreign invoices are converted at the rate they were raised at
 }
 
 // Income Service
@@ -99,6 +100,7 @@ export class IncomeService {
       if (filters.endDate) params.append('endDate', filters.endDate);
       if (filters.period) params.append('period', filters.period);
       if (filters.groupBy) params.append('groupBy', filters.groupBy);
+      if (filters.currency) params.append('currency', filters.currency);
 
       const response = await apiClient.get(`/billing/income?${params.toString()}`);
       
@@ -137,6 +139,7 @@ export class IncomeService {
       if (filters.startDate) params.append('startDate', filters.startDate);
       if (filters.endDate) params.append('endDate', filters.endDate);
       if (filters.period) params.append('period', filters.period);
+      if (filters.currency) params.append('currency', filters.currency);
 
       const response = await apiClient.get(`/billing/income?${params.toString()}`);
       
@@ -160,6 +163,7 @@ export class IncomeService {
       if (filters.endDate) params.append('endDate', filters.endDate);
       if (filters.groupBy) params.append('groupBy', filters.groupBy);
       if (filters.limit) params.append('limit', filters.limit.toString());
+      if (filters.currency) params.append('currency', filters.currency);
 
       const response = await apiClient.get(`/billing/income/trends?${params.toString()}`);
       
@@ -182,6 +186,7 @@ export class IncomeService {
       if (filters.startDate) params.append('startDate', filters.startDate);
       if (filters.endDate) params.append('endDate', filters.endDate);
       if (filters.limit) params.append('limit', filters.limit.toString());
+      if (filters.currency) params.append('currency', filters.currency);
 
       const response = await apiClient.get(`/billing/top-customers?${params.toString()}`);
       
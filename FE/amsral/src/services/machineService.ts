@@ -2,11 +2,17 @@ import apiClient from '../config/api';
 // ErrorResponse is defined locally in this file
 
 // Types
+export type MachineStatus = 'Active' | 'Maintenance' | 'Retired';
+export type CapacityUnit = 'kg' | 'pcs';
+
 export interface Machine {
   id: number;
   name: string;
   type: 'Washing' | 'Drying';
   description: string | null;
+  capacity: number | null; // Maximum load, null when not set
+  capacityUnit: CapacityUnit;
+  status: MachineStatus;
   createdAt: string;
   updatedAt: string;
 }
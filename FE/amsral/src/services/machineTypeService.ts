@@ -1,9 +1,13 @@
 import apiClient from '../config/api';
+import type { CapacityUnit, MachineStatus } from './machineService';
 
 export interface CreateMachineTypeRequest {
   name: string;
   type: string;
   description?: string;
+  capacity?: number | null; // Maximum load, in capacityUnit
+  capacityUnit?: CapacityUnit;
+  status?: MachineStatus;
 }
 
 export interface MachineType {
@@ -11,6 +15,9 @@ export interface MachineType {
   name: string;
   type: string;
   description?: string;
+  capacity?: number | null; // Maximum load, in capacityUnit
+  capacityUnit?: CapacityUnit;
+  status?: MachineStatus; // Missing on machines created before status tracking - treat as Active
   createdAt: string;
   updatedAt: string;
 }
@@ -52,6 +59,36 @@ export interface MachineTypeResponse {
   data: MachineType;
 }
 
+export interface MaintenanceLogEntry {
+  id: string;
+  machineId: string;
+  date: string;
+  description: string;
+  performedBy: string;
+  cost?: number | null;
+  createdAt: string;
+}
+
+export interface CreateMaintenanceLogRequest {
+  date: string;
+  description: string;
+  performedBy: string;
+  cost?: number | null;
+}
+
+export interface MaintenanceLogResponse {
+  success: boolean;
+  data: MaintenanceLogEntry[];
+}
+
+export interface MachineRunningHoursResponse {
+  success: boolean;
+  data: {
+    machineId: string;
+    runningHours: number; // Time the machine itself was running, rounded to one decimal place
+  }[];
+}
+
 export interface MachineTypesParams {
   page?: number;
   limit?: number;
@@ -83,6 +120,13 @@ export const machineTypeService = {
     return response.data;
   },
 
+  // GET /api/machine-types/running-hours - Get running hours per machine, totalled on the server
+  // from each machine's own start and stop times across all of its loads
+  getRunningHours: async (ids: string[]): Promise<MachineRunningHoursResponse> => {
+    const response = await apiClient.get('/machine-types/running-hours', { params: { ids: ids.join(',') } });
+    return response.data;
+  },
+
   // GET /api/machine-types/:id - Get machine type by ID
   getMachineType: async (id: string): Promise<MachineTypeResponse> => {
     const response = await apiClient.get(`/machine-types/${id}`);
@@ -101,6 +145,18 @@ export const machineTypeService = {
     return response.data;
   },
 
+  // GET /api/machine-types/:id/maintenance - Get the maintenance log for a machine, newest first
+  getMaintenanceLog: async (id: string): Promise<MaintenanceLogResponse> => {
+    const response = await apiClient.get(`/machine-types/${id}/maintenance`);
+    return response.data;
+  },
+
+  // POST /api/machine-types/:id/maintenance - Add a maintenance log entry
+  addMaintenanceLog: async (id: string, data: CreateMaintenanceLogRequest): Promise<{ success: boolean; data: MaintenanceLogEntry }> => {
+    const response = await apiClient.post(`/machine-types/${id}/maintenance`, data);
+    return response.data;
+  },
+
   // DELETE /api/machine-types/:id - Delete machine type
   deleteMachineType: async (id: string): Promise<{ success: boolean; message: string }> => {
     const response = await apiClient.delete(`/machine-types/${id}`);
@@ -10,6 +10,8 @@ export interface OrderRecord {
   itemName: string;
   washType: string;
   processType: string;
+  styleNo?: string | null;
+  colour?: string | null;
   quantity: number;
   status: string;
   createdAt: string;
@@ -19,6 +21,7 @@ export interface OrderRecord {
 export interface OrderRecordsDetails {
   orderId: number;
   customerName: string;
+  poNumber?: string | null;
   orderQuantity: number;
   orderRecords: OrderRecord[];
   remainingQuantity: number;
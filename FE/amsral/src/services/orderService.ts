@@ -16,6 +16,7 @@ export interface CreateOrderRequest {
   itemId: string;
   quantity?: number; // Made optional
   gpNo?: string;
+  poNumber?: string; // Customer purchase order number, printed on the invoice
   notes?: string;
   deliveryDate: string;
   records: CreateOrderRecordRequest[]; // Empty array initially, records are added separately
@@ -26,6 +27,8 @@ export interface CreateOrderRecordRequest {
   quantity: number;
   washType: WashType;
   processTypes: ProcessType[];
+  styleNo?: string; // Buyer's style number, printed on the invoice
+  colour?: string; // Colour or shade
   trackingNumber?: string; // Optional, will be generated if not provided
 }
 
@@ -34,9 +37,28 @@ export interface UpdateOrderRecordRequest {
   quantity: number;
   washType: WashType;
   processTypes: ProcessType[];
+  styleNo?: string;
+  colour?: string;
   trackingNumber?: string; // Optional, for updating tracking number if needed
 }
 
+// What was counted in when the customer's garments arrived, printed as the GRN
+export interface SaveGoodsReceiptRequest {
+  bagsReceived: number;
+  piecesCounted: number;
+  countedById: string; // Employee who counted the pieces
+  deliveryNoteNo?: string; // Customer's delivery note number
+}
+
+// Sends pieces that failed QC back into production as a new record linked to the original
+export interface CreateReworkRecordRequest {
+  parentRecordId: number;
+  quantity: number;
+  washType: string; // Washing type id
+  processTypes: string[]; // Process type ids
+  reason?: string;
+}
+
 export interface UpdateOrderRequest {
   date?: string;
   customerId?: string;
@@ -46,6 +68,8 @@ export interface UpdateOrderRequest {
   deliveryDate?: string;
   status?: OrderStatus;
   deliveryCount?: number; // Number of items delivered
+  gpNo?: string; // Gate pass number issued on delivery
+  poNumber?: string;
 }
 
 // Response Interfaces
@@ -57,6 +81,10 @@ export interface OrderRecord {
   washType: WashType;
   processTypes: ProcessType[];
   trackingNumber: string; // Required in response
+  styleNo?: string | null;
+  colour?: string | null;
+  isRework?: boolean;
+  parentRecordId?: number | null; // Record the rework pieces came from
   createdAt: string;
   updatedAt: string;
 }
@@ -75,10 +103,22 @@ export interface ManagementOrder {
   billingStatus?: 'pending' | 'invoiced' | 'paid';
   recordsCount: number;
   complete: boolean;
+  gpNo?: string; // Gate pass number, set when the order is delivered
+  poNumber?: string | null;
+  returnQuantity?: number;
+  deliveryQuantity?: number;
+  quantityOverride?: QuantityOverride | null;
   createdAt: string;
   updatedAt: string;
 }
 
+// A manager's sign-off that lets an order whose quantities don't reconcile be delivered and billed
+export interface QuantityOverride {
+  reason: string;
+  overriddenBy: string;
+  overriddenAt: string;
+}
+
 export interface OrderDetailsRecord {
   id: number;
   orderId: number;
@@ -88,8 +128,13 @@ export interface OrderDetailsRecord {
   washType: string;
   processTypes: string[];
   trackingNumber: string;
+  styleNo?: string | null;
+  colour?: string | null;
   status: string;
   complete: boolean;
+  isRework?: boolean;
+  parentRecordId?: number | null;
+  damageCount?: number | null; // Damaged pieces saved at QC
   assignments: OrderAssignment[];
   stats: RecordStats;
 }
@@ -100,6 +145,7 @@ export interface OrderAssignment {
   orderId: number;
   assignedTo: string;
   quantity: number;
+  returnQuantity?: number | null; // Pieces that came back off the machines, set on completion
   washingMachine: string;
   dryingMachine: string;
   trackingNumber: string;
@@ -171,6 +217,7 @@ export interface Order {
   itemId: string | null;
   itemName: string | null;
   quantity: number;
+  poNumber?: string | null;
   notes: string;
   deliveryDate: string;
   status: OrderStatus;
@@ -207,6 +254,32 @@ export interface CreateOrderResponse {
   data: Order;
 }
 
+export interface GoodsReceipt {
+  id: number;
+  orderId: number;
+  bagsReceived: number;
+  piecesCounted: number;
+  countedById: string;
+  countedByName: string;
+  deliveryNoteNo?: string | null;
+  receivedAt: string;
+}
+
+export interface GoodsReceiptResponse {
+  success: boolean;
+  message?: string;
+  data: GoodsReceipt | null; // null until the intake has been counted
+}
+
+// Orders created together from an imported dispatch sheet
+export interface ImportOrdersResponse {
+  success: boolean;
+  message: string;
+  data: {
+    orders: Order[];
+  };
+}
+
 export interface OrderRecordResponse {
   success: boolean;
   data: OrderRecord;
@@ -224,6 +297,14 @@ export interface ErrorResponse {
 }
 
 // Invoice Preview Data
+// What an order's quantities are reconciled from, loaded for several orders at once
+export interface OrderReconciliationData {
+  order: ManagementOrder;
+  records: OrderDetailsRecord[];
+  deliveries: DeliveryEntry[];
+  piecesReceived: number | null; // Counted on the goods receipt, null for orders taken in before GRNs
+}
+
 export interface InvoicePreviewData {
   customerId: number;
   customerCode: string;
@@ -233,6 +314,42 @@ export interface InvoicePreviewData {
   nextInvoiceNo: string;
 }
 
+// Order Preview Data
+export interface OrderPreviewData {
+  nextOrderId: number;
+}
+
+// Gate Pass Preview Data
+export interface GatepassPreviewData {
+  currentGpNo: number;
+  nextGpNo: number;
+}
+
+// Delivery Ledger - one entry per trip, each with its own gate pass
+export interface DeliveryEntryRecord {
+  recordId: number;
+  trackingNumber: string;
+  quantity: number;
+}
+
+export interface DeliveryEntry {
+  id: number;
+  orderId: number;
+  deliveryDate: string;
+  gpNo: string;
+  vehicleNote?: string; // Vehicle number / driver name
+  records: DeliveryEntryRecord[];
+  createdAt: string;
+}
+
+export interface CreateDeliveryEntryRequest {
+  deliveryDate: string; // The gate pass number is allocated by the server and returned on the entry
+  vehicleNote?: string;
+  records: DeliveryEntryRecord[];
+  deliveryCount?: number; // Order's delivered total after this trip, saved on the order with the entry
+  status?: 'Delivered'; // Set on the order with the entry when this trip delivers the rest
+}
+
 // Order Summary for Gatepass
 export interface OrderSummaryRecord {
   id: number;
@@ -243,6 +360,10 @@ export interface OrderSummaryRecord {
   itemId: string;
   status: string;
   trackingNumber: string;
+  styleNo?: string | null;
+  colour?: string | null;
+  isRework?: boolean;
+  parentRecordId?: number | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -258,6 +379,9 @@ export interface OrderSummaryData {
   deliveryDate: string;
   status: string;
   notes: string | null;
+  gpNo?: string; // Gate pass number, set when the order is delivered
+  poNumber?: string | null;
+  deliveryQuantity?: number;
   balance?: number; // Customer balance amount
   records: OrderSummaryRecord[];
 }
@@ -480,6 +604,21 @@ class OrderService {
     }
   }
 
+  /**
+   * Get the records, delivery ledger and goods receipt count of several orders in one request,
+   * for checking their quantities before delivery or billing. Orders that can't be found are left out
+   * GET /api/orders/reconciliation?orderIds=1,2,3
+   */
+  async getReconciliationData(orderIds: number[]): Promise<{ success: boolean; data: OrderReconciliationData[] }> {
+    try {
+      const response = await apiClient.get(`/orders/reconciliation?orderIds=${orderIds.join(',')}`);
+      return response.data;
+    } catch (error: unknown) {
+      const apiError = error as { response?: { data?: ErrorResponse } };
+      throw apiError.response?.data || { success: false, message: 'Failed to fetch order quantities' };
+    }
+  }
+
   /**
    * Get order summary for gatepass
    * GET /api/orders/:id/summary
@@ -509,13 +648,79 @@ class OrderService {
   }
 
   /**
-   * Save damage records for quality control
+   * Get the id the next order will be created with, so its records can be numbered before it is sent
+   * GET /api/orders/preview
+   */
+  async getOrderPreview(): Promise<{ success: boolean; data: OrderPreviewData }> {
+    try {
+      const response = await apiClient.get('/orders/preview');
+      return response.data;
+    } catch (error: unknown) {
+      const apiError = error as { response?: { data?: ErrorResponse } };
+      throw apiError.response?.data || { success: false, message: 'Failed to fetch the next order id' };
+    }
+  }
+
+  /**
+   * Get the next gate pass number in the sequence, for display only; addDelivery allocates the number
+   * GET /api/orders/gatepass-preview
+   */
+  async getGatepassPreview(): Promise<{ success: boolean; data: GatepassPreviewData }> {
+    try {
+      const response = await apiClient.get('/orders/gatepass-preview');
+      return response.data;
+    } catch (error: unknown) {
+      const apiError = error as { response?: { data?: ErrorResponse } };
+      throw apiError.response?.data || { success: false, message: 'Failed to fetch gate pass number' };
+    }
+  }
+
+  /**
+   * Get the delivery ledger for an order
+   * GET /api/orders/:orderId/deliveries
+   */
+  async getDeliveries(orderId: number): Promise<{ success: boolean; data: DeliveryEntry[] }> {
+    try {
+      const response = await apiClient.get(`/orders/${orderId}/deliveries`);
+      return response.data;
+    } catch (error: unknown) {
+      const apiError = error as { response?: { data?: ErrorResponse } };
+      throw apiError.response?.data || { success: false, message: 'Failed to fetch deliveries' };
+    }
+  }
+
+  /**
+   * Record a (partial) delivery against an order
+   * The next gate pass number is allocated to the entry, and the entry and the order's deliveryCount,
+   * gpNo and status are saved in one transaction, so two deliveries can never share a number
+   * Refused (409) while the order's quantities don't reconcile and no manager has overridden the check
+   * POST /api/orders/:orderId/deliveries
+   */
+  async addDelivery(orderId: number, deliveryData: CreateDeliveryEntryRequest): Promise<{ success: boolean; data: DeliveryEntry }> {
+    try {
+      const response = await apiClient.post(`/orders/${orderId}/deliveries`, deliveryData);
+      return response.data;
+    } catch (error: unknown) {
+      const apiError = error as { response?: { data?: ErrorResponse } };
+      throw apiError.response?.data || { success: false, message: 'Failed to record delivery' };
+    }
+  }
+
+  /**
+   * Save damage records for quality control, and send any re-wash pieces back into production
+   * Each re-wash record gets the order's next tracking number, and an order with re-wash goes back to In Progress;
+   * the backend saves it all in one transaction so a failed re-wash never leaves the damage counts half saved
    * POST /api/orders/:orderId/damage-records
    */
-  async saveDamageRecords(orderId: number, damageCounts: { [recordId: number]: number }): Promise<{ success: boolean; data: { message: string } }> {
+  async saveDamageRecords(
+    orderId: number,
+    damageCounts: { [recordId: number]: number },
+    reworks: CreateReworkRecordRequest[] = []
+  ): Promise<{ success: boolean; data: { message: string } }> {
     try {
       const response = await apiClient.post(`/orders/${orderId}/damage-records`, {
-        damageCounts
+        damageCounts,
+        reworks
       });
       return response.data;
     } catch (error: unknown) {
@@ -523,6 +728,65 @@ class OrderService {
       throw apiError.response?.data || { success: false, message: 'Failed to save damage records' };
     }
   }
+
+  /**
+   * Let an order whose quantities don't reconcile go on to delivery and billing
+   * Only managers and admins may do this, and the reason is kept on the order
+   * POST /api/orders/:orderId/quantity-override
+   */
+  async overrideQuantityCheck(orderId: number, reason: string): Promise<{ success: boolean; message?: string; data: QuantityOverride }> {
+    try {
+      const response = await apiClient.post(`/orders/${orderId}/quantity-override`, { reason });
+      return response.data;
+    } catch (error: unknown) {
+      const apiError = error as { response?: { data?: ErrorResponse } };
+      throw apiError.response?.data || { success: false, message: 'Failed to override the quantity check' };
+    }
+  }
+
+  /**
+   * Get the goods receipt recorded when the order's garments arrived
+   * GET /api/orders/:orderId/goods-receipt
+   */
+  async getGoodsReceipt(orderId: number): Promise<GoodsReceiptResponse> {
+    try {
+      const response = await apiClient.get(`/orders/${orderId}/goods-receipt`);
+      return response.data;
+    } catch (error: unknown) {
+      const apiError = error as { response?: { data?: ErrorResponse } };
+      throw apiError.response?.data || { success: false, message: 'Failed to fetch goods receipt' };
+    }
+  }
+
+  /**
+   * Record or correct the bags and pieces counted in for an order
+   * PUT /api/orders/:orderId/goods-receipt
+   */
+  async saveGoodsReceipt(orderId: number, receiptData: SaveGoodsReceiptRequest): Promise<GoodsReceiptResponse> {
+    try {
+      const response = await apiClient.put(`/orders/${orderId}/goods-receipt`, receiptData);
+      return response.data;
+    } catch (error: unknown) {
+      const apiError = error as { response?: { data?: ErrorResponse } };
+      throw apiError.response?.data || { success: false, message: 'Failed to save goods receipt' };
+    }
+  }
+
+  /**
+   * Create several orders with their records in one request, from an imported dispatch sheet or a repeated order
+   * Nothing is created if any order or record fails. Records sent without a tracking number are numbered by the server;
+   * one that doesn't belong to the id the order is given fails the request, so a number is never shared between orders
+   * POST /api/orders/import
+   */
+  async importOrders(orders: CreateOrderRequest[]): Promise<ImportOrdersResponse> {
+    try {
+      const response = await apiClient.post('/orders/import', { orders });
+      return response.data;
+    } catch (error: unknown) {
+      const apiError = error as { response?: { data?: ErrorResponse } };
+      throw apiError.response?.data || { success: false, message: 'Failed to import orders' };
+    }
+  }
 }
 
 export const orderService = new OrderService();
@@ -0,0 +1,81 @@
+import apiClient from '../config/api';
+
+// Order template interfaces
+export interface OrderTemplateRecord {
+  quantity: number; // Typical pieces for this wash and process combination
+  washType: string; // Washing type id
+  processTypes: string[]; // Process type ids
+}
+
+export interface OrderTemplate {
+  id: number;
+  customerId: string;
+  name: string;
+  itemId: string;
+  itemName?: string;
+  notes?: string;
+  records: OrderTemplateRecord[];
+  createdAt?: string;
+}
+
+export interface CreateOrderTemplateRequest {
+  customerId: string;
+  name: string;
+  itemId: string;
+  notes?: string;
+  records: OrderTemplateRecord[];
+}
+
+export interface OrderTemplatesResponse {
+  success: boolean;
+  message?: string;
+  data: OrderTemplate[];
+}
+
+export interface OrderTemplateResponse {
+  success: boolean;
+  message?: string;
+  data: OrderTemplate;
+}
+
+// Order template service class
+export class OrderTemplateService {
+  /**
+   * Get the saved order templates for a customer
+   */
+  static async getCustomerTemplates(customerId: string): Promise<OrderTemplatesResponse> {
+    try {
+      const response = await apiClient.get(`/customers/${customerId}/order-templates`);
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching order templates:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save an order and its record breakdown as a named template for the customer
+   */
+  static async createTemplate(templateData: CreateOrderTemplateRequest): Promise<OrderTemplateResponse> {
+    try {
+      const response = await apiClient.post(`/customers/${templateData.customerId}/order-templates`, templateData);
+      return response.data;
+    } catch (error) {
+      console.error('Error creating order template:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a saved order template
+   */
+  static async deleteTemplate(customerId: string, templateId: number): Promise<{ success: boolean; message: string }> {
+    try {
+      const response = await apiClient.delete(`/customers/${customerId}/order-templates/${templateId}`);
+      return response.data;
+    } catch (error) {
+      console.error('Error deleting order template:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import apiClient from '../config/api';
+
+// Price list interfaces
+export interface PriceListEntry {
+  id?: number;
+  itemId: string;
+  itemName?: string;
+  washTypeId: string;
+  washTypeName?: string;
+  processTypeIds: string[];
+  processTypeNames?: string[];
+  unitPrice: number;
+  currency?: string; // Currency the unit price is in, LKR when not set
+}
+
+export interface PriceList {
+  customerId: number | null; // null for the default price list
+  entries: PriceListEntry[];
+  updatedAt?: string;
+}
+
+export interface PriceListResponse {
+  success: boolean;
+  message?: string;
+  data: PriceList;
+}
+
+// Price list service class
+export class PriceListService {
+  /**
+   * Get a customer's price list
+   */
+  static async getCustomerPriceList(customerId: number): Promise<PriceListResponse> {
+    try {
+      const response = await apiClient.get(`/customers/${customerId}/price-list`);
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching customer price list:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a customer's price list
+   */
+  static async saveCustomerPriceList(customerId: number, entries: PriceListEntry[]): Promise<PriceListResponse> {
+    try {
+      const response = await apiClient.put(`/customers/${customerId}/price-list`, { entries });
+      return response.data;
+    } catch (error) {
+      console.error('Error saving customer price list:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the unit prices a customer was last invoiced at, one entry per item, wash and process combination
+   */
+  static async getCustomerLastUsedPrices(customerId: number): Promise<PriceListResponse> {
+    try {
+      const response = await apiClient.get(`/customers/${customerId}/last-prices`);
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching customer last used prices:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the default price list used when a customer has no price for a record
+   */
+  static async getDefaultPriceList(): Promise<PriceListResponse> {
+    try {
+      const response = await apiClient.get('/price-lists/default');
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching default price list:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the default price list
+   */
+  static async saveDefaultPriceList(entries: PriceListEntry[]): Promise<PriceListResponse> {
+    try {
+      const response = await apiClient.put('/price-lists/default', { entries });
+      return response.data;
+    } catch (error) {
+      console.error('Error saving default price list:', error);
+      throw error;
+    }
+  }
+}
+
+export default PriceListService;
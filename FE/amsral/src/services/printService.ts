@@ -7,6 +7,8 @@
 import printerService from './printerService';
 import type { BagLabelData, AssignmentReceiptData } from '../utils/pdfUtils';
 import type { OrderRecordReceiptData } from './printerService';
+import { getCode128DataUrl } from '../utils/barcodeUtils';
+import { formatRecipeStep } from '../utils/recipeUtils';
 
 export interface PrintOptions {
   method: 'serial' | 'browser' | 'pdf';
@@ -261,17 +263,24 @@ class PrintService {
         <style>
           @media print {
             body { margin: 0; padding: 10px; font-family: monospace; }
-            .label { width: 80mm; height: 50mm; border: 1px solid #000; padding: 5px; }
+            .label { width: 80mm; height: 65mm; border: 1px solid #000; padding: 5px; }
             .header { text-align: center; font-weight: bold; font-size: 14px; margin-bottom: 10px; }
             .content { font-size: 12px; line-height: 1.2; }
             .field { margin-bottom: 3px; }
             .field-label { font-weight: bold; }
+            .barcode { text-align: center; margin-bottom: 8px; }
+            .barcode img { width: 60mm; height: 12mm; }
+            .barcode-text { font-size: 10px; }
           }
         </style>
       </head>
       <body>
         <div class="label">
           <div class="header">BAG LABEL</div>
+          <div class="barcode">
+            <img src="${getCode128DataUrl(bagData.orderId.toString())}" alt="${bagData.orderId.toString()}" />
+            <div class="barcode-text">${bagData.orderId.toString()}</div>
+          </div>
           <div class="content">
             <div class="field"><span class="field-label">Reference No:</span> ${bagData.orderId}</div>
             <div class="field"><span class="field-label">Customer:</span> ${bagData.customerName}</div>
@@ -304,6 +313,9 @@ class PrintService {
             .content { font-size: 12px; line-height: 1.3; }
             .field { margin-bottom: 5px; }
             .field-label { font-weight: bold; }
+            .barcode { text-align: center; margin-bottom: 8px; }
+            .barcode img { width: 60mm; height: 12mm; }
+            .barcode-text { font-size: 10px; }
             .separator { border-top: 1px solid #000; margin: 10px 0; }
           }
         </style>
@@ -312,6 +324,10 @@ class PrintService {
         <div class="receipt">
           <div class="header">MACHINE ASSIGNMENT</div>
           <div class="separator"></div>
+          <div class="barcode">
+            <img src="${getCode128DataUrl(assignmentData.trackingNumber)}" alt="${assignmentData.trackingNumber}" />
+            <div class="barcode-text">${assignmentData.trackingNumber}</div>
+          </div>
           <div class="content">
             <div class="field"><span class="field-label">Tracking ID:</span> ${assignmentData.trackingNumber}</div>
             <div class="field"><span class="field-label">Item:</span> ${assignmentData.itemName}</div>
@@ -319,6 +335,14 @@ class PrintService {
             <div class="field"><span class="field-label">Process:</span> ${assignmentData.processTypes ? assignmentData.processTypes.join(', ') : 'None'}</div>
             <div class="field"><span class="field-label">Assigned To:</span> ${assignmentData.assignedTo}</div>
             <div class="field"><span class="field-label">Quantity:</span> ${assignmentData.quantity}</div>
+            ${assignmentData.recipe && assignmentData.recipe.length > 0 ? `
+              <div class="separator"></div>
+              <div class="field" style="text-align: center;"><span class="field-label">RECIPE</span></div>
+              ${assignmentData.recipe.map(section => `
+                <div class="field"><span class="field-label">${section.title}</span></div>
+                ${section.steps.map((step, index) => `<div class="field">${formatRecipeStep(step, index)}</div>`).join('')}
+              `).join('')}
+            ` : ''}
             <div class="separator"></div>
             <div class="field" style="text-align: center; font-size: 10px;">
               Generated: ${new Date().toLocaleString()}
@@ -334,6 +358,8 @@ class PrintService {
    * Generate HTML for order record receipt printing
    */
   private generateOrderRecordReceiptHTML(receiptData: OrderRecordReceiptData): string {
+    const barcodeValue = receiptData.trackingNumber || receiptData.orderId.toString();
+
     return `
       <!DOCTYPE html>
       <html>
@@ -347,6 +373,9 @@ class PrintService {
             .content { font-size: 12px; line-height: 1.3; }
             .field { margin-bottom: 5px; }
             .field-label { font-weight: bold; }
+            .barcode { text-align: center; margin-bottom: 8px; }
+            .barcode img { width: 60mm; height: 12mm; }
+            .barcode-text { font-size: 10px; }
             .separator { border-top: 1px solid #000; margin: 10px 0; }
           }
         </style>
@@ -355,11 +384,18 @@ class PrintService {
         <div class="receipt">
           <div class="header">ORDER RECORD</div>
           <div class="separator"></div>
+          <div class="barcode">
+            <img src="${getCode128DataUrl(barcodeValue)}" alt="${barcodeValue}" />
+            <div class="barcode-text">${barcodeValue}</div>
+          </div>
           <div class="content">
             <div class="field"><span class="field-label">Order ID:</span> ${receiptData.orderId}</div>
             <div class="field"><span class="field-label">Customer:</span> ${receiptData.customerName}</div>
             <div class="field"><span class="field-label">Item:</span> ${receiptData.itemName}</div>
             <div class="field"><span class="field-label">Quantity:</span> ${receiptData.quantity}</div>
+            ${receiptData.poNumber ? `<div class="field"><span class="field-label">PO No:</span> ${receiptData.poNumber}</div>` : ''}
+            ${receiptData.styleNo ? `<div class="field"><span class="field-label">Style No:</span> ${receiptData.styleNo}</div>` : ''}
+            ${receiptData.colour ? `<div class="field"><span class="field-label">Colour:</span> ${receiptData.colour}</div>` : ''}
             ${receiptData.trackingNumber ? `<div class="field"><span class="field-label">Tracking:</span> ${receiptData.trackingNumber}</div>` : ''}
             ${receiptData.isRemaining ? 
               `<div class="field"><span class="field-label">Status:</span> Remaining Quantity</div>` :
@@ -3,7 +3,10 @@
  * Supports MP80-04 and similar ESC/POS compatible printers
  */
 
-import type { AssignmentReceiptData, BagLabelData } from '../utils/pdfUtils';
+import type { AssignmentReceiptData, BagLabelData, PaymentReceiptData } from '../utils/pdfUtils';
+import { formatRecipeStep } from '../utils/recipeUtils';
+import { formatCurrency } from '../utils/currencyUtils';
+import type { DocumentSettings } from '../utils/documentTemplateUtils';
 
 export interface OrderRecordReceiptData {
   orderId: number;
@@ -13,6 +16,9 @@ export interface OrderRecordReceiptData {
   washType: string;
   processTypes: string[];
   trackingNumber?: string;
+  styleNo?: string;
+  colour?: string;
+  poNumber?: string;
   isRemaining?: boolean;
 }
 
@@ -785,6 +791,7 @@ class PrinterService {
       // Print header with LARGE text
       await this.printText('MACHINE ASSIGNMENT', { align: 'center', bold: true, doubleHeight: true, doubleWidth: true });
       await this.printSeparator('=', 24);
+      await this.printBarcode(assignmentData.trackingNumber);
       await this.printText(''); // Empty line
 
       // Print assignment details with LARGE text and aligned colons
@@ -797,6 +804,19 @@ class PrinterService {
 
       await this.printText(''); // Empty line
 
+      // Print recipe steps for the machine operator
+      if (assignmentData.recipe && assignmentData.recipe.length > 0) {
+        await this.printSeparator('-', 24);
+        await this.printText('RECIPE', { align: 'center', bold: true, doubleHeight: true });
+        for (const section of assignmentData.recipe) {
+          await this.printText(section.title, { bold: true, align: 'left' });
+          for (const [index, step] of section.steps.entries()) {
+            await this.printText(formatRecipeStep(step, index), { align: 'left' });
+          }
+        }
+        await this.printText(''); // Empty line
+      }
+
       // Print footer with smaller text
       await this.printSeparator('=', 24);
       await this.printText('Generated: ' + new Date().toLocaleString(), { align: 'center' });
@@ -832,6 +852,7 @@ class PrinterService {
       // Print header with LARGE text
       await this.printText('BAG LABEL', { align: 'center', bold: true, doubleHeight: true, doubleWidth: true });
       await this.printSeparator('=', 24);
+      await this.printBarcode(bagData.orderId.toString());
       await this.printText(''); // Empty line
       
        // Print bag details with LARGE text and aligned colons
@@ -879,6 +900,7 @@ class PrinterService {
       // Print header with LARGE text
       await this.printText('ORDER RECORD', { align: 'center', bold: true, doubleHeight: true, doubleWidth: true });
       await this.printSeparator('=', 24);
+      await this.printBarcode(receiptData.trackingNumber || receiptData.orderId.toString());
       await this.printText(''); // Empty line
       
       // Print order record details with LARGE text and aligned colons
@@ -886,6 +908,16 @@ class PrinterService {
       await this.printText(`Customer:         ${receiptData.customerName}`, { bold: true, doubleHeight: true, align: 'left' });
       await this.printText(`Item:             ${receiptData.itemName}`, { bold: true, doubleHeight: true, align: 'left' });
       await this.printText(`Quantity:         ${receiptData.quantity ?? 'N/A'}`, { bold: true, doubleHeight: true, align: 'left' });
+
+      if (receiptData.poNumber) {
+        await this.printText(`PO No:            ${receiptData.poNumber}`, { bold: true, doubleHeight: true, align: 'left' });
+      }
+      if (receiptData.styleNo) {
+        await this.printText(`Style No:         ${receiptData.styleNo}`, { bold: true, doubleHeight: true, align: 'left' });
+      }
+      if (receiptData.colour) {
+        await this.printText(`Colour:           ${receiptData.colour}`, { bold: true, doubleHeight: true, align: 'left' });
+      }
       
       if (receiptData.trackingNumber) {
         await this.printText(`Tracking:         ${receiptData.trackingNumber}`, { bold: true, doubleHeight: true, align: 'left' });
@@ -918,6 +950,65 @@ class PrinterService {
     }
   }
 
+  /**
+   * Print payment receipt to thermal printer
+   * @param settings - Company profile and footer text to print with
+   */
+  async printPaymentReceipt(receiptData: PaymentReceiptData, settings: DocumentSettings): Promise<void> {
+    if (!this.isConnected()) {
+      throw new Error('Printer not connected');
+    }
+
+    if (!this.writer) {
+      throw new Error('Writer not available');
+    }
+
+    try {
+      // Initialize printer
+      await this.sendCommand(new Uint8Array([0x1B, 0x40])); // ESC @
+
+      const { profile } = settings;
+      await this.printText(profile.name, { align: 'center', bold: true });
+      if (profile.phone) {
+        await this.printText(`Tel: ${profile.phone}`, { align: 'center' });
+      }
+      await this.printText('PAYMENT RECEIPT', { align: 'center', bold: true, doubleHeight: true, doubleWidth: true });
+      await this.printSeparator('=', 32);
+
+      await this.printText(`Receipt No: ${receiptData.receiptNumber}`, { align: 'left' });
+      await this.printText(`Date:       ${new Date(receiptData.paymentDate).toLocaleDateString()}`, { align: 'left' });
+      await this.printText(`Customer:   ${receiptData.customerName}`, { align: 'left' });
+      await this.printText(`Invoice No: ${receiptData.invoiceNumber}`, { align: 'left' });
+      await this.printText(`Method:     ${receiptData.method}`, { align: 'left' });
+      if (receiptData.reference) {
+        await this.printText(`Reference:  ${receiptData.reference}`, { align: 'left' });
+      }
+      await this.printSeparator('-', 32);
+
+      await this.printText(`PAID: ${formatCurrency(receiptData.amount, receiptData.currency)}`, { align: 'center', bold: true, doubleHeight: true });
+      await this.printSeparator('-', 32);
+      await this.printText(`Invoice Total: ${formatCurrency(receiptData.invoiceTotal, receiptData.currency)}`, { align: 'left' });
+      await this.printText(`Paid To Date:  ${formatCurrency(receiptData.paidToDate, receiptData.currency)}`, { align: 'left' });
+      await this.printText(`Balance Due:   ${formatCurrency(receiptData.balanceDue, receiptData.currency)}`, { align: 'left', bold: true });
+
+      await this.printSeparator('=', 32);
+      const { footerText } = settings.template;
+      if (footerText.trim()) {
+        await this.printText(footerText.trim(), { align: 'center' });
+      }
+      await this.printText('Printed: ' + new Date().toLocaleString(), { align: 'center' });
+
+      // Feed paper and cut
+      await this.printText(''); // Empty line
+      await this.printText(''); // Empty line
+      await this.sendCommand(new Uint8Array([0x1D, 0x56, 0x00])); // Paper cut
+
+    } catch (error) {
+      console.error('Error printing payment receipt:', error);
+      throw error;
+    }
+  }
+
   /**
    * MP80-04 specific testing - try different approaches for this printer
    */
@@ -1585,6 +1676,25 @@ class PrinterService {
     }
   }
 
+  /**
+   * Print a centred Code128 barcode (GS k) with the human readable text below it
+   */
+  async printBarcode(data: string, options: {
+    height?: number; // Bar height in dots
+    moduleWidth?: number; // 2-6, width of the narrowest bar in dots
+  } = {}): Promise<void> {
+    // Code set B prefix, then the data
+    const payload = new TextEncoder().encode(`{B${data}`);
+
+    await this.sendCommand(new Uint8Array([0x1B, 0x61, 0x01])); // ESC a (center)
+    await this.sendCommand(new Uint8Array([0x1D, 0x68, options.height ?? 80])); // GS h (height)
+    await this.sendCommand(new Uint8Array([0x1D, 0x77, options.moduleWidth ?? 2])); // GS w (width)
+    await this.sendCommand(new Uint8Array([0x1D, 0x48, 0x02])); // GS H (HRI below)
+    await this.sendCommand(new Uint8Array([0x1D, 0x6B, 0x49, payload.length, ...payload])); // GS k (CODE128)
+    await this.sendCommand(new Uint8Array([0x0A])); // LF
+    await this.sendCommand(new Uint8Array([0x1B, 0x61, 0x00])); // ESC a (left)
+  }
+
   /**
    * Print a line separator
    */
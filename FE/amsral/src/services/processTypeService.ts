@@ -1,9 +1,11 @@
 import apiClient from '../config/api';
+import type { WashRecipeStep } from './washingTypeService';
 
 export interface CreateProcessTypeRequest {
   name: string;
   code: string;
   description?: string;
+  recipe?: WashRecipeStep[];
 }
 
 export interface ProcessType {
@@ -11,6 +13,7 @@ export interface ProcessType {
   name: string;
   code: string;
   description?: string;
+  recipe?: WashRecipeStep[];
   createdAt: string;
   updatedAt: string;
 }
@@ -35,6 +35,8 @@ export interface MachineAssignment {
   assignedAt: string;
   status: string;
   returnQuantity?: number; // Actual quantity returned (may be less than assigned due to damage)
+  weightKg?: number | null; // Load weight, when it was weighed before going on the machine
+  completedAt?: string | null; // When the load came off the machine, cleared if the assignment is reopened
   createdAt: string;
   updatedAt: string;
 }
@@ -57,6 +59,7 @@ export interface CreateAssignmentRequest {
   orderId: number;
   itemId: string;
   recordId: string;
+  weightKg?: number | null; // Load weight, when it was weighed before going on the machine
 }
 
 export interface UpdateAssignmentRequest {
@@ -64,6 +67,7 @@ export interface UpdateAssignmentRequest {
   quantity?: number;
   washingMachine?: string;
   dryingMachine?: string;
+  weightKg?: number | null; // null clears a weight entered by mistake
   status?: string;
 }
 
@@ -0,0 +1,83 @@
+import apiClient from '../config/api';
+
+// A named tax such as VAT or SSCL. A rate change is a new row with a later effectiveFrom
+export interface TaxComponent {
+  id: string;
+  name: string;
+  code: string;
+  rate: number; // percent, e.g. 18 for 18%
+  effectiveFrom: string;
+  effectiveTo?: string | null;
+  compound: boolean; // charged on the subtotal plus the taxes before it, as VAT is charged on SSCL
+  sortOrder: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// One tax component as charged on an invoice
+export interface TaxLine {
+  code: string;
+  name: string;
+  rate: number; // percent
+  taxableAmount: number;
+  amount: number;
+}
+
+export interface CreateTaxComponentRequest {
+  name: string;
+  code: string;
+  rate: number;
+  effectiveFrom: string;
+  effectiveTo?: string | null;
+  compound: boolean;
+  sortOrder: number;
+}
+
+export interface TaxComponentsResponse {
+  success: boolean;
+  data: {
+    taxComponents: TaxComponent[];
+    pagination: {
+      currentPage: number;
+      totalPages: number;
+      totalRecords: number;
+      limit: number;
+    };
+  };
+}
+
+export interface TaxComponentResponse {
+  success: boolean;
+  data: TaxComponent;
+  message?: string;
+}
+
+export const taxService = {
+  // GET /api/tax-components - Get all tax components with pagination and filtering
+  getTaxComponents: async (params?: {
+    page?: number;
+    limit?: number;
+    search?: string;
+  }): Promise<TaxComponentsResponse> => {
+    const response = await apiClient.get('/tax-components', { params });
+    return response.data;
+  },
+
+  // POST /api/tax-components - Create new tax component
+  createTaxComponent: async (data: CreateTaxComponentRequest): Promise<TaxComponentResponse> => {
+    const response = await apiClient.post('/tax-components', data);
+    return response.data;
+  },
+
+  // PUT /api/tax-components/:id - Update tax component
+  updateTaxComponent: async (id: string, data: Partial<CreateTaxComponentRequest>): Promise<TaxComponentResponse> => {
+    const response = await apiClient.put(`/tax-components/${id}`, data);
+    return response.data;
+  },
+
+  // DELETE /api/tax-components/:id - Delete tax component
+  deleteTaxComponent: async (id: string): Promise<{ success: boolean; message: string }> => {
+    const response = await apiClient.delete(`/tax-components/${id}`);
+    return response.data;
+  },
+};
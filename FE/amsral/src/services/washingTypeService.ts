@@ -1,9 +1,19 @@
 import apiClient from '../config/api';
 
+// One step of a wash recipe, as run on the machine
+export interface WashRecipeStep {
+  chemical: string;
+  dosagePerKg: number; // grams of chemical per kg of garments
+  temperature: number; // °C
+  durationMinutes: number;
+  rpm: number;
+}
+
 export interface CreateWashingTypeRequest {
   name: string;
   code: string;
   description?: string;
+  recipe?: WashRecipeStep[];
 }
 
 export interface WashingType {
@@ -11,6 +21,7 @@ export interface WashingType {
   name: string;
   code: string;
   description?: string;
+  recipe?: WashRecipeStep[];
   createdAt: string;
   updatedAt: string;
 }
@@ -0,0 +1,115 @@
+/**
+ * Utility functions for Code128 barcodes on labels and receipts
+ * Thermal printers render these natively (GS k), so this is only used for the PDF and browser print fallbacks
+ */
+import type jsPDF from 'jspdf';
+
+// Bar/space module widths for Code128 symbol values 0-105, followed by the stop pattern
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+
+const START_B = 104;
+const STOP = 106;
+const QUIET_ZONE_MODULES = 10;
+
+/**
+ * Encodes a value as Code128 (code set B) module widths
+ * @param value - Printable ASCII text, e.g. a tracking number or order reference
+ * @returns Alternating bar/space widths in modules, starting with a bar
+ *
+ * @example
+ * encodeCode128('12A') => [2, 1, 1, 2, 1, 4, ...]
+ */
+export const encodeCode128 = (value: string): number[] => {
+  const symbols = [START_B];
+
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    if (code < 32 || code > 127) {
+      throw new Error(`Cannot encode "${char}" in a Code128 barcode`);
+    }
+    symbols.push(code - 32);
+  }
+
+  // Checksum: start value plus each symbol weighted by its position
+  const checksum = symbols.reduce((sum, symbol, index) => sum + symbol * Math.max(index, 1), 0) % 103;
+  symbols.push(checksum, STOP);
+
+  return symbols.flatMap(symbol => CODE128_PATTERNS[symbol].split('').map(Number));
+};
+
+/**
+ * Renders a Code128 barcode as an SVG data URL for use in an <img> tag
+ * @param value - The text to encode
+ * @param height - Bar height in modules
+ * @returns data:image/svg+xml URL
+ */
+export const getCode128DataUrl = (value: string, height: number = 40): string => {
+  const widths = encodeCode128(value);
+  const totalModules = widths.reduce((sum, width) => sum + width, 0) + QUIET_ZONE_MODULES * 2;
+
+  let x = QUIET_ZONE_MODULES;
+  const bars: string[] = [];
+  widths.forEach((width, index) => {
+    if (index % 2 === 0) {
+      bars.push(`<rect x="${x}" y="0" width="${width}" height="${height}"/>`);
+    }
+    x += width;
+  });
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${totalModules} ${height}" shape-rendering="crispEdges">`
+    + `<rect width="${totalModules}" height="${height}" fill="#fff"/><g fill="#000">${bars.join('')}</g></svg>`;
+
+  return `data:image/svg+xml;base64,${btoa(svg)}`;
+};
+
+/**
+ * Draws a Code128 barcode onto a jsPDF page, centred on the given x position, with the text underneath
+ * @param doc - The jsPDF document
+ * @param value - The text to encode
+ * @param centerX - Horizontal centre of the barcode (mm)
+ * @param y - Top of the bars (mm)
+ * @param maxWidth - Maximum barcode width including quiet zones (mm)
+ * @param height - Bar height (mm)
+ * @returns The y position just below the human readable text
+ */
+export const drawCode128 = (
+  doc: jsPDF,
+  value: string,
+  centerX: number,
+  y: number,
+  maxWidth: number,
+  height: number = 10
+): number => {
+  const widths = encodeCode128(value);
+  const totalModules = widths.reduce((sum, width) => sum + width, 0) + QUIET_ZONE_MODULES * 2;
+  // Cap the module at 0.5mm so short values don't turn into wide blocks
+  const moduleWidth = Math.min(maxWidth / totalModules, 0.5);
+
+  let x = centerX - (totalModules * moduleWidth) / 2 + QUIET_ZONE_MODULES * moduleWidth;
+  doc.setFillColor('#000000');
+  widths.forEach((width, index) => {
+    if (index % 2 === 0) {
+      doc.rect(x, y, width * moduleWidth, height, 'F');
+    }
+    x += width * moduleWidth;
+  });
+
+  doc.setFontSize(8);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor('#000000');
+  doc.text(value, centerX, y + height + 3.5, { align: 'center' });
+
+  return y + height + 5;
+};
@@ -0,0 +1,72 @@
+/**
+ * Utility functions for monthly bill period runs
+ */
+import type { BillingOrder } from '../services/billingService';
+
+// Orders in these statuses are finished enough to bill
+export const BILLABLE_ORDER_STATUSES = ['QC', 'Complete', 'Delivered'];
+
+export interface BillPeriodCustomer {
+  customerId: string;
+  customerName: string;
+  orders: BillingOrder[];
+  totalQuantity: number;
+  balance?: number;
+}
+
+/**
+ * Gets the first and last day of a bill period
+ * @param period - Month as YYYY-MM
+ * @returns Date range as YYYY-MM-DD strings
+ *
+ * @example
+ * getBillPeriodRange('2024-02') => { dateFrom: '2024-02-01', dateTo: '2024-02-29' }
+ */
+export const getBillPeriodRange = (period: string): { dateFrom: string; dateTo: string } => {
+  const [year, month] = period.split('-').map(Number);
+  const lastDay = new Date(year, month, 0).getDate();
+
+  return {
+    dateFrom: `${period}-01`,
+    dateTo: `${period}-${String(lastDay).padStart(2, '0')}`,
+  };
+};
+
+/**
+ * Gets the month before the given date, the period usually billed at the start of a month
+ * @param today - Reference date
+ * @returns Month as YYYY-MM
+ */
+export const getPreviousBillPeriod = (today: Date = new Date()): string => {
+  const previous = new Date(today.getFullYear(), today.getMonth() - 1, 1);
+  return `${previous.getFullYear()}-${String(previous.getMonth() + 1).padStart(2, '0')}`;
+};
+
+/**
+ * Groups pending orders by customer, one group per invoice to raise
+ * @param orders - Uninvoiced orders, possibly from several status queries
+ * @returns Customers with their orders, sorted by name
+ */
+export const groupOrdersByCustomer = (orders: BillingOrder[]): BillPeriodCustomer[] => {
+  const groups = new Map<string, BillPeriodCustomer>();
+  const seen = new Set<number>();
+
+  orders.forEach(order => {
+    if (seen.has(order.id)) return;
+    seen.add(order.id);
+
+    const key = order.customerId?.toString() || order.customerName;
+    const group = groups.get(key) || {
+      customerId: order.customerId?.toString() || '',
+      customerName: order.customerName,
+      orders: [],
+      totalQuantity: 0,
+      balance: order.balance,
+    };
+    group.orders.push(order);
+    group.totalQuantity += order.quantity || 0;
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.values()).sort((a, b) => a.customerName.localeCompare(b.customerName));
+};
@@ -0,0 +1,76 @@
+/**
+ * Utility functions for credit notes raised against issued invoices
+ */
+import type { CreditNote, CreditNoteLine, Invoice, InvoiceLineItem } from '../services/billingService';
+import type { TaxLine } from '../services/taxService';
+
+export interface CreditNoteTotals {
+  subtotal: number;
+  taxLines: TaxLine[];
+  taxAmount: number;
+  total: number;
+}
+
+const roundCurrency = (value: number): number => {
+  return Math.round(value * 100) / 100;
+};
+
+/**
+ * Works out how much of an invoice line can still be credited
+ * @param line - Invoice line
+ * @returns Line total less earlier credits, never below 0
+ */
+export const getCreditableAmount = (line: Pick<InvoiceLineItem, 'totalPrice' | 'creditedAmount'>): number => {
+  return Math.max(0, roundCurrency(line.totalPrice - (line.creditedAmount || 0)));
+};
+
+/**
+ * Describes an invoice line the same way the invoice PDF does
+ * @param line - Invoice line
+ * @returns Description such as "Enzyme Wash - Tinting / Destroy"
+ */
+export const describeInvoiceLine = (line: Pick<InvoiceLineItem, 'washType' | 'processTypes'>): string => {
+  const processTypesText = line.processTypes ? line.processTypes.join(' / ') : '';
+  return processTypesText ? `${line.washType} - ${processTypesText}` : line.washType;
+};
+
+/**
+ * Totals a credit note, reversing the invoice taxes in proportion to the amount credited
+ * @param lines - Credit note lines
+ * @param invoice - Invoice being credited
+ * @returns Subtotal, tax lines, tax amount and total credit
+ *
+ * @example
+ * // Crediting 250 of a 1000 invoice that charged VAT 180
+ * calculateCreditNoteTotals([{ amount: 250 }], invoice) => { subtotal: 250, taxAmount: 45, total: 295, ... }
+ */
+export const calculateCreditNoteTotals = (
+  lines: Pick<CreditNoteLine, 'amount'>[],
+  invoice: Pick<Invoice, 'subtotal' | 'taxLines'>
+): CreditNoteTotals => {
+  const subtotal = roundCurrency(lines.reduce((sum, line) => sum + line.amount, 0));
+  const ratio = invoice.subtotal > 0 ? subtotal / invoice.subtotal : 0;
+
+  const taxLines = (invoice.taxLines || []).map(line => ({
+    ...line,
+    taxableAmount: roundCurrency(line.taxableAmount * ratio),
+    amount: roundCurrency(line.amount * ratio),
+  }));
+  const taxAmount = roundCurrency(taxLines.reduce((sum, line) => sum + line.amount, 0));
+
+  return {
+    subtotal,
+    taxLines,
+    taxAmount,
+    total: roundCurrency(subtotal + taxAmount),
+  };
+};
+
+/**
+ * Totals the credit notes issued against an invoice
+ * @param creditNotes - Credit notes
+ * @returns Total amount credited
+ */
+export const getCreditedTotal = (creditNotes: Pick<CreditNote, 'total'>[]): number => {
+  return roundCurrency(creditNotes.reduce((sum, creditNote) => sum + creditNote.total, 0));
+};
@@ -0,0 +1,81 @@
+/**
+ * Utility functions for invoicing in a customer's currency and reporting in the base currency
+ */
+
+// Books are kept in LKR; other currencies are converted at the rate captured on each invoice
+export const BASE_CURRENCY = 'LKR';
+
+export const CURRENCY_OPTIONS: { value: string; label: string; symbol: string }[] = [
+  { value: 'LKR', label: 'LKR - Sri Lankan Rupee', symbol: 'Rs.' },
+  { value: 'USD', label: 'USD - US Dollar', symbol: 'USD' },
+  { value: 'EUR', label: 'EUR - Euro', symbol: 'EUR' },
+  { value: 'GBP', label: 'GBP - British Pound', symbol: 'GBP' },
+];
+
+const roundCurrency = (value: number): number => {
+  return Math.round(value * 100) / 100;
+};
+
+/**
+ * Checks whether amounts in a currency need converting for reports
+ * @param currency - Currency code, missing means the base currency
+ * @returns True for anything other than the base currency
+ */
+export const isForeignCurrency = (currency?: string | null): boolean => {
+  return !!currency && currency !== BASE_CURRENCY;
+};
+
+/**
+ * Gets the prefix printed before amounts in a currency
+ * @param currency - Currency code
+ * @returns Symbol such as "Rs." or "USD"
+ */
+export const getCurrencySymbol = (currency: string = BASE_CURRENCY): string => {
+  return CURRENCY_OPTIONS.find(option => option.value === currency)?.symbol || currency;
+};
+
+/**
+ * Gets the short label used in column headings such as "Subtotal (Rs)"
+ * @param currency - Currency code
+ * @returns "Rs" for the base currency, otherwise the code
+ */
+export const getCurrencyLabel = (currency: string = BASE_CURRENCY): string => {
+  return isForeignCurrency(currency) ? currency : 'Rs';
+};
+
+/**
+ * Formats an amount with its currency
+ * @param amount - Amount in the given currency
+ * @param currency - Currency code
+ * @returns Formatted amount
+ *
+ * @example
+ * formatCurrency(1250.5, 'USD') => 'USD 1,250.50'
+ */
+export const formatCurrency = (amount: number, currency: string = BASE_CURRENCY): string => {
+  const formatted = (amount || 0).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return `${getCurrencySymbol(currency || BASE_CURRENCY)} ${formatted}`;
+};
+
+/**
+ * Converts an invoice amount to the base currency at the invoice's exchange rate
+ * @param amount - Amount in the invoice currency
+ * @param exchangeRate - Base currency units per unit of the invoice currency
+ * @returns Amount in the base currency
+ *
+ * @example
+ * toBaseCurrency(100, 302.5) => 30250
+ */
+export const toBaseCurrency = (amount: number, exchangeRate?: number | null): number => {
+  return roundCurrency(amount * (exchangeRate || 1));
+};
+
+/**
+ * Describes an exchange rate for printing on an invoice
+ * @param currency - Invoice currency
+ * @param exchangeRate - Base currency units per unit of the invoice currency
+ * @returns Description such as "1 USD = 302.5000 LKR"
+ */
+export const formatExchangeRate = (currency: string, exchangeRate: number): string => {
+  return `1 ${currency} = ${exchangeRate.toFixed(4)} ${BASE_CURRENCY}`;
+};
@@ -0,0 +1,95 @@
+/**
+ * Utility functions for the per-order delivery ledger
+ */
+import { isReworkRecord } from './reworkUtils';
+import type { DeliveryEntry } from '../services/orderService';
+
+export interface RecordDeliveryStatus {
+  recordId: number;
+  trackingNumber: string;
+  itemName?: string;
+  quantity: number;
+  deliverableQuantity: number; // Pieces that passed QC, the record quantity when QC isn't known
+  deliveredQuantity: number;
+  outstandingQuantity: number; // Passed QC and not delivered yet
+  inProductionQuantity: number; // Still to come back from the machines or QC
+}
+
+// Per-record QC outcome, from the order's quantity reconciliation
+export interface RecordQCQuantities {
+  recordId: number;
+  passedQC: number;
+  inProduction: number;
+}
+
+/**
+ * Totals the delivered quantity for each record across all delivery entries
+ * @param entries - The delivery ledger entries of an order
+ * @returns Delivered quantity keyed by record ID
+ */
+export const getDeliveredQuantitiesByRecord = (entries: DeliveryEntry[]): { [recordId: number]: number } => {
+  const delivered: { [recordId: number]: number } = {};
+
+  entries.forEach(entry => {
+    entry.records.forEach(record => {
+      delivered[record.recordId] = (delivered[record.recordId] || 0) + record.quantity;
+    });
+  });
+
+  return delivered;
+};
+
+/**
+ * Builds delivered vs outstanding quantities for each record of an order
+ * Rework records are skipped - their pieces go out under the original record
+ * Damaged pieces never go out, so with QC quantities a record is outstanding only up to what passed QC
+ * @param records - The order records
+ * @param entries - The delivery ledger entries of the order
+ * @param qcQuantities - Passed QC and in-production pieces per record; without them the record quantity is outstanding
+ * @returns Delivery status per record
+ *
+ * @example
+ * // 100 pcs, 4 damaged at QC, 90 delivered
+ * summarizeRecordDeliveries(records, entries, [{ recordId: 1, passedQC: 96, inProduction: 0 }])[0].outstandingQuantity => 6
+ */
+export const summarizeRecordDeliveries = (
+  records: { id: number; trackingNumber: string; itemName?: string; quantity: number; isRework?: boolean }[],
+  entries: DeliveryEntry[],
+  qcQuantities?: RecordQCQuantities[]
+): RecordDeliveryStatus[] => {
+  const delivered = getDeliveredQuantitiesByRecord(entries);
+
+  return records.filter(record => !isReworkRecord(record)).map(record => {
+    const qc = qcQuantities?.find(quantities => quantities.recordId === record.id);
+    const deliverableQuantity = qc ? qc.passedQC : record.quantity;
+    const deliveredQuantity = delivered[record.id] || 0;
+    return {
+      recordId: record.id,
+      trackingNumber: record.trackingNumber,
+      itemName: record.itemName,
+      quantity: record.quantity,
+      deliverableQuantity,
+      deliveredQuantity,
+      outstandingQuantity: Math.max(0, deliverableQuantity - deliveredQuantity),
+      inProductionQuantity: qc ? qc.inProduction : 0,
+    };
+  });
+};
+
+/**
+ * Checks whether every record of an order has gone out
+ * @param statuses - Delivery status per record
+ * @returns true when everything that passed QC is delivered and nothing is still in production
+ */
+export const isFullyDelivered = (statuses: RecordDeliveryStatus[]): boolean => {
+  return statuses.length > 0 && statuses.every(status => status.outstandingQuantity === 0 && status.inProductionQuantity === 0);
+};
+
+/**
+ * Totals the quantity of a single delivery entry
+ * @param entry - A delivery ledger entry
+ * @returns Number of pieces in the entry
+ */
+export const getDeliveryEntryTotal = (entry: { records: { quantity: number }[] }): number => {
+  return entry.records.reduce((sum, record) => sum + record.quantity, 0);
+};
@@ -0,0 +1,267 @@
+/**
+ * Utility functions for drawing the company letterhead, signature and footer on printed documents
+ */
+import jsPDF from 'jspdf';
+import { config } from '../config/environment';
+import type { CompanyProfile, InvoiceTemplate, PaperSize, ReceiptSize } from '../services/companyProfileService';
+
+// Used when the saved settings could not be loaded, and for anything left blank in them
+export const DEFAULT_COMPANY_PROFILE: CompanyProfile = {
+  name: 'AMSRAL LANKA ENTERPRISES',
+  tagline: '(Specialist in Industrial Garment Washing)',
+  subTagline: 'Washing Plant & Finishing Plant',
+  address: '109/1, Bellanwila Rajamaha Viharaya\n(Opposite Bellanwila Rajamaha Viharaya)',
+  phone: '0777 3107343 | 0714837714 | 011 2731705',
+  email: 'amsrallanka1@gmail.com',
+  vatNumber: config.companyVatNumber,
+  logo: null,
+  signature: null,
+};
+
+export const DEFAULT_INVOICE_TEMPLATE: InvoiceTemplate = {
+  columns: {
+    gpNo: true,
+    styleNo: false,
+    washType: true,
+    processTypes: true,
+  },
+  termsText: 'Please inform us within 7 days from the billed date if you have any questions or concerns regarding this invoice.',
+  footerText: '',
+  paperSize: 'a4',
+  receiptSize: 'quarter',
+};
+
+export const PAPER_SIZE_OPTIONS: { value: PaperSize; label: string }[] = [
+  { value: 'a4', label: 'A4 (210 x 297 mm)' },
+  { value: 'letter', label: 'Letter (216 x 279 mm)' },
+];
+
+export const RECEIPT_SIZE_OPTIONS: { value: ReceiptSize; label: string }[] = [
+  { value: 'quarter', label: 'Quarter A4' },
+  { value: 'full', label: 'Full page' },
+];
+
+export const INVOICE_COLUMN_OPTIONS: { key: keyof InvoiceTemplate['columns']; label: string }[] = [
+  { key: 'gpNo', label: 'GP No.' },
+  { key: 'styleNo', label: 'Style No. (default for new invoices)' },
+  { key: 'washType', label: 'Wash Type' },
+  { key: 'processTypes', label: 'Process Types' },
+];
+
+// Profile and template a document is printed with
+export interface DocumentSettings {
+  profile: CompanyProfile;
+  template: InvoiceTemplate;
+}
+
+/**
+ * Merges saved settings over the defaults
+ * Blank profile fields fall back to the defaults so a half-filled profile still prints a letterhead
+ * @param profile - Saved company profile, or null when it could not be loaded
+ * @param template - Saved invoice template, or null when it could not be loaded
+ * @returns Settings to pass to the document generators
+ */
+export const resolveDocumentSettings = (
+  profile?: CompanyProfile | null,
+  template?: InvoiceTemplate | null
+): DocumentSettings => ({
+  profile: profile
+    ? {
+      ...profile,
+      name: profile.name || DEFAULT_COMPANY_PROFILE.name,
+      vatNumber: profile.vatNumber || DEFAULT_COMPANY_PROFILE.vatNumber,
+    }
+    : DEFAULT_COMPANY_PROFILE,
+  template: template
+    ? {
+      ...DEFAULT_INVOICE_TEMPLATE,
+      ...template,
+      columns: { ...DEFAULT_INVOICE_TEMPLATE.columns, ...template.columns },
+    }
+    : DEFAULT_INVOICE_TEMPLATE,
+});
+
+/**
+ * Creates a portrait document on the template paper size
+ * @param template - Template to take the paper size from
+ * @returns New jsPDF document in mm
+ */
+export const createTemplateDocument = (template: InvoiceTemplate): jsPDF => {
+  return new jsPDF({ orientation: 'portrait', unit: 'mm', format: template.paperSize });
+};
+
+/**
+ * Gets the jsPDF image format of a data URL
+ * @param dataUrl - Image data URL
+ * @returns "PNG" or "JPEG"
+ */
+const getImageFormat = (dataUrl: string): string => {
+  return dataUrl.startsWith('data:image/png') ? 'PNG' : 'JPEG';
+};
+
+/**
+ * Draws the company letterhead and separator line
+ * @param doc - Document to draw on
+ * @param startY - Baseline of the company name
+ * @param margin - Left and right margin
+ * @param showVatNumber - Print the company VAT number, for tax invoices
+ * @param profile - Profile to draw
+ * @returns Y position below the separator
+ */
+export const drawLetterhead = (
+  doc: jsPDF,
+  startY: number,
+  margin: number,
+  showVatNumber: boolean,
+  profile: CompanyProfile
+): number => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  let yPosition = startY;
+
+  if (profile.logo) {
+    try {
+      doc.addImage(profile.logo, getImageFormat(profile.logo), margin, startY - 8, 25, 25);
+    } catch (error) {
+      console.warn('Could not draw company logo:', error);
+    }
+  }
+
+  doc.setFontSize(22);
+  doc.setFont('helvetica', 'bold');
+  doc.text(profile.name, pageWidth / 2, yPosition, { align: 'center' });
+  yPosition += 8;
+
+  doc.setFontSize(14);
+  if (profile.tagline) {
+    doc.setFont('helvetica', 'normal');
+    doc.text(profile.tagline, pageWidth / 2, yPosition, { align: 'center' });
+    yPosition += 6;
+  }
+
+  if (profile.subTagline) {
+    doc.setFont('helvetica', 'bold');
+    doc.text(profile.subTagline, pageWidth / 2, yPosition, { align: 'center' });
+    yPosition += 6;
+  }
+
+  doc.setFontSize(11);
+  doc.setFont('helvetica', 'normal');
+  profile.address.split('\n').filter(line => line.trim()).forEach(line => {
+    doc.text(line.trim(), pageWidth / 2, yPosition, { align: 'center' });
+    yPosition += 5;
+  });
+
+  if (profile.phone) {
+    doc.text(`Tel: ${profile.phone}`, pageWidth / 2, yPosition, { align: 'center' });
+    yPosition += 5;
+  }
+
+  if (profile.email) {
+    doc.text(`Email: ${profile.email}`, pageWidth / 2, yPosition, { align: 'center' });
+    yPosition += 5;
+  }
+
+  if (showVatNumber && profile.vatNumber) {
+    doc.setFont('helvetica', 'bold');
+    doc.text(`VAT Reg No: ${profile.vatNumber}`, pageWidth / 2, yPosition, { align: 'center' });
+    doc.setFont('helvetica', 'normal');
+    yPosition += 5;
+  }
+  yPosition += 10;
+
+  // Horizontal separator line
+  doc.setLineWidth(0.2); // Reduced divider line width
+  doc.line(margin, yPosition, pageWidth - margin, yPosition);
+  yPosition += 10;
+
+  return yPosition;
+};
+
+/**
+ * Draws the bank details customers pay into, if an account number is set
+ * @param doc - Document to draw on
+ * @param x - Left edge
+ * @param y - Baseline of the first line
+ * @param profile - Profile to draw
+ * @returns Y position below the details, or y when there is nothing to draw
+ */
+export const drawBankDetails = (
+  doc: jsPDF,
+  x: number,
+  y: number,
+  profile: CompanyProfile
+): number => {
+  if (!profile.accountNumber) return y;
+
+  const lines = [
+    profile.accountName && `Account Name: ${profile.accountName}`,
+    `Account No: ${profile.accountNumber}`,
+    [profile.bankName, profile.bankBranch].filter(Boolean).join(' - '),
+  ].filter(Boolean) as string[];
+
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Bank Details', x, y);
+  doc.setFont('helvetica', 'normal');
+  lines.forEach((line, index) => {
+    doc.text(line, x, y + 5 * (index + 1));
+  });
+
+  return y + 5 * (lines.length + 1);
+};
+
+/**
+ * Draws the company name, signature image and signature line
+ * @param doc - Document to draw on
+ * @param x - Left edge
+ * @param y - Baseline of the company name
+ * @param profile - Profile to draw
+ */
+export const drawSignatureBlock = (
+  doc: jsPDF,
+  x: number,
+  y: number,
+  profile: CompanyProfile
+): void => {
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  doc.text(profile.name, x, y);
+
+  if (profile.signature) {
+    try {
+      doc.addImage(profile.signature, getImageFormat(profile.signature), x, y + 2, 30, 12);
+    } catch (error) {
+      console.warn('Could not draw signature:', error);
+    }
+  }
+
+  // Simple signature line with reduced width
+  doc.setLineWidth(0.2);
+  doc.line(x, y + 15, x + 30, y + 15);
+
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  doc.text('Authorized Signature', x, y + 23);
+};
+
+/**
+ * Prints the template footer text at the foot of every page
+ * @param doc - Document to draw on, after all pages are added
+ * @param template - Template to take the footer from
+ */
+export const drawFooterText = (doc: jsPDF, template: InvoiceTemplate): void => {
+  if (!template.footerText.trim()) return;
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const pageCount = doc.getNumberOfPages();
+
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(100, 100, 100);
+    doc.text(template.footerText.trim(), pageWidth / 2, pageHeight - 8, { align: 'center', maxWidth: pageWidth - 30 });
+    doc.setTextColor(0, 0, 0);
+  }
+};
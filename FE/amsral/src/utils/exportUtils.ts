@@ -0,0 +1,62 @@
+/**
+ * Utility functions for exporting tabular data
+ */
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => string | number | null | undefined;
+}
+
+/**
+ * Escapes a single CSV cell, quoting it when it contains separators, quotes or line breaks
+ * @param value - The raw cell value
+ * @returns CSV-safe cell text
+ *
+ * @example
+ * escapeCsvCell('Stone wash, heavy') => '"Stone wash, heavy"'
+ */
+export const escapeCsvCell = (value: string | number | null | undefined): string => {
+  if (value === null || value === undefined) return '';
+
+  const text = String(value);
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+
+/**
+ * Builds CSV text from rows using the given column definitions
+ * @param columns - Column headers and value accessors
+ * @param rows - The rows to export
+ * @returns CSV text with a header line
+ */
+export const buildCsv = <T>(columns: ExportColumn<T>[], rows: T[]): string => {
+  const headerLine = columns.map(column => escapeCsvCell(column.header)).join(',');
+  const dataLines = rows.map(row =>
+    columns.map(column => escapeCsvCell(column.value(row))).join(',')
+  );
+
+  return [headerLine, ...dataLines].join('\r\n');
+};
+
+/**
+ * Downloads rows as a CSV file (opens in Excel)
+ * @param filename - File name without extension
+ * @param columns - Column headers and value accessors
+ * @param rows - The rows to export
+ */
+export const exportToCsv = <T>(filename: string, columns: ExportColumn<T>[], rows: T[]): void => {
+  // Prefix a BOM so Excel picks up UTF-8 customer names correctly
+  const blob = new Blob(['﻿' + buildCsv(columns, rows)], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${filename}.csv`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
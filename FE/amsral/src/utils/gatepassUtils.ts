@@ -0,0 +1,38 @@
+/**
+ * Utility functions for building gate passes issued on delivery
+ */
+import type { DeliveryEntry, OrderSummaryData } from '../services/orderService';
+import type { GatepassData } from './pdfUtils';
+
+/**
+ * Builds the gate pass PDF data for one delivery of an order
+ * @param summary - The order summary from GET /orders/:id/summary
+ * @param entry - The delivery ledger entry the gate pass was issued for
+ * @returns Data for generateGatepass, listing only the records on this delivery
+ */
+export const buildGatepassData = (
+  summary: OrderSummaryData,
+  entry: DeliveryEntry
+): GatepassData => {
+  const deliveredByRecord = new Map(entry.records.map(record => [record.recordId, record.quantity]));
+
+  return {
+    id: summary.id,
+    gpNo: entry.gpNo,
+    customerName: summary.customerName,
+    orderDate: summary.orderDate,
+    totalQuantity: summary.totalQuantity,
+    createdDate: summary.createdDate,
+    referenceNo: summary.referenceNo,
+    deliveryDate: entry.deliveryDate,
+    vehicleNote: entry.vehicleNote,
+    status: summary.status,
+    notes: summary.notes,
+    records: summary.records
+      .filter(record => (deliveredByRecord.get(record.id) || 0) > 0)
+      .map(record => ({
+        ...record,
+        deliveredQuantity: deliveredByRecord.get(record.id) || 0,
+      })),
+  };
+};
@@ -0,0 +1,132 @@
+/**
+ * Utility functions for the invoice lifecycle: draft, issued, paid, overdue and void
+ */
+import type { Invoice, InvoiceStatus } from '../services/billingService';
+
+export const INVOICE_STATUS_OPTIONS: { value: InvoiceStatus; label: string }[] = [
+  { value: 'draft', label: 'Draft' },
+  { value: 'sent', label: 'Sent' },
+  { value: 'paid', label: 'Paid' },
+  { value: 'overdue', label: 'Overdue' },
+  { value: 'void', label: 'Void' },
+];
+
+// Days between reminders before the next one is due
+export const REMINDER_INTERVAL_DAYS = 7;
+
+// What each successive reminder is called on the dunning list
+const DUNNING_STAGES = ['First Reminder', 'Second Reminder', 'Final Notice'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (date: string | Date): number => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day.getTime();
+};
+
+/**
+ * Counts the whole days an invoice is past its due date
+ * @param dueDate - Invoice due date
+ * @param today - Reference date
+ * @returns Days overdue, 0 when not yet due
+ */
+export const getDaysOverdue = (dueDate: string, today: Date = new Date()): number => {
+  return Math.max(0, Math.floor((startOfDay(today) - startOfDay(dueDate)) / DAY_MS));
+};
+
+/**
+ * Works out an invoice's status as of today
+ * Issued invoices past their due date count as overdue even before the server marks them
+ * @param invoice - Invoice
+ * @param today - Reference date
+ * @returns Effective status
+ */
+export const getEffectiveInvoiceStatus = (
+  invoice: Pick<Invoice, 'status' | 'dueDate'>,
+  today: Date = new Date()
+): InvoiceStatus => {
+  if (invoice.status === 'sent' && invoice.dueDate && getDaysOverdue(invoice.dueDate, today) > 0) {
+    return 'overdue';
+  }
+  return invoice.status;
+};
+
+/**
+ * Gets the display label for an invoice status
+ * @param status - Invoice status
+ * @returns Label such as "Overdue"
+ */
+export const getInvoiceStatusLabel = (status: string): string => {
+  return INVOICE_STATUS_OPTIONS.find(option => option.value === status.toLowerCase())?.label || status.toUpperCase();
+};
+
+/**
+ * Gets the badge classes for an invoice status
+ * @param status - Invoice status
+ * @returns Tailwind classes
+ */
+export const getInvoiceStatusColor = (status: string): string => {
+  switch (status.toLowerCase()) {
+    case 'sent':
+      return 'bg-blue-100 text-blue-800';
+    case 'paid':
+      return 'bg-green-100 text-green-800';
+    case 'overdue':
+      return 'bg-red-100 text-red-800';
+    case 'void':
+      return 'bg-gray-200 text-gray-500 line-through';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
+
+/**
+ * Checks whether an invoice's prices, style numbers and PO number can still be changed
+ * @param invoice - Invoice
+ * @returns True only for drafts
+ */
+export const isInvoiceEditable = (invoice: Pick<Invoice, 'status'>): boolean => {
+  return invoice.status === 'draft';
+};
+
+/**
+ * Checks whether an invoice can be voided
+ * Once any payment is recorded against it the invoice is corrected with a credit note instead,
+ * so the payments are not left pointing at a void invoice
+ * @param invoice - Invoice
+ * @returns True for drafts and issued invoices with nothing paid
+ */
+export const canVoidInvoice = (invoice: Pick<Invoice, 'status' | 'payment' | 'paymentAmount'>): boolean => {
+  const paidAmount = invoice.payment ?? invoice.paymentAmount ?? 0;
+  return paidAmount === 0 && (invoice.status === 'draft' || invoice.status === 'sent' || invoice.status === 'overdue');
+};
+
+/**
+ * Checks whether an invoice has been issued to the customer and is still live
+ * @param invoice - Invoice
+ * @returns True for sent, paid and overdue invoices
+ */
+export const isInvoiceIssued = (invoice: Pick<Invoice, 'status'>): boolean => {
+  return invoice.status === 'sent' || invoice.status === 'paid' || invoice.status === 'overdue';
+};
+
+/**
+ * Names the next reminder to send for an overdue invoice
+ * @param reminderCount - Reminders already sent
+ * @returns Stage such as "Second Reminder", or "Refer for Collection" once all have gone
+ */
+export const getDunningStage = (reminderCount: number = 0): string => {
+  return DUNNING_STAGES[reminderCount] || 'Refer for Collection';
+};
+
+/**
+ * Checks whether it is time to chase an overdue invoice again
+ * @param lastReminderAt - When the last reminder went, if any
+ * @param today - Reference date
+ * @returns True when no reminder has gone or the last is older than the reminder interval
+ */
+export const isReminderDue = (lastReminderAt?: string | null, today: Date = new Date()): boolean => {
+  if (!lastReminderAt) return true;
+  return (startOfDay(today) - startOfDay(lastReminderAt)) / DAY_MS >= REMINDER_INTERVAL_DAYS;
+};
@@ -1,4 +1,18 @@
 import jsPDF from 'jspdf';
+import { calculateTaxes, formatTaxLineLabel } from './taxUtils';
+import type { TaxComponent, TaxLine } from '../services/taxService';
+import type { CreditNote } from '../services/billingService';
+import type { CompanyProfile, InvoiceTemplate } from '../services/companyProfileService';
+import { AGING_BUCKETS, type CustomerStatement } from './statementUtils';
+import { BASE_CURRENCY, formatCurrency, formatExchangeRate, getCurrencyLabel, isForeignCurrency, toBaseCurrency } from './currencyUtils';
+import {
+  createTemplateDocument,
+  drawBankDetails,
+  drawFooterText,
+  drawLetterhead,
+  drawSignatureBlock,
+  type DocumentSettings
+} from './documentTemplateUtils';
 
 // Invoice data interfaces
 export interface InvoiceRecord {
@@ -11,6 +25,7 @@ export interface InvoiceRecord {
   washType: string;
   processTypes: string[];
   styleNo?: string; // Optional style number
+  colour?: string; // Printed after the item name
 }
 
 export interface InvoiceData {
@@ -33,16 +48,70 @@ export interface InvoiceData {
   subtotal: number;
   taxRate: number;
   taxAmount: number;
+  taxLines?: TaxLine[]; // One line per tax component, e.g. SSCL then VAT
+  isTaxInvoice?: boolean; // Customer is VAT registered
+  customerVatNumber?: string;
+  currency?: string; // Customer currency, LKR when not set
+  exchangeRate?: number; // LKR per unit of currency, printed on foreign currency invoices
   total: number;
 }
 
+/**
+ * Joins the customer PO numbers of the orders on an invoice, each listed once
+ * @param orders - Orders being invoiced
+ * @returns PO numbers separated by commas, empty when no order has one
+ *
+ * @example
+ * getOrderPoNumbers([{ poNumber: 'PO-1' }, { poNumber: 'PO-2' }, { poNumber: 'PO-1' }]) => 'PO-1, PO-2'
+ */
+export const getOrderPoNumbers = (orders: { poNumber?: string | null }[]): string => {
+  const poNumbers = orders.map(order => order.poNumber?.trim()).filter((poNumber): poNumber is string => !!poNumber);
+  return Array.from(new Set(poNumbers)).join(', ');
+};
+
+/**
+ * Gets how much of a customer's outstanding balance is carried onto an invoice total
+ * Balances are kept in LKR, so foreign currency invoices list the balance on its own and leave it out of the total
+ * @param currency - Invoice currency
+ * @param customerBalance - Outstanding balance in LKR
+ * @returns The balance for LKR invoices, 0 for foreign currency invoices
+ */
+export const getCarriedBalance = (currency: string | undefined, customerBalance: number): number => {
+  return isForeignCurrency(currency) ? 0 : customerBalance;
+};
+
+/**
+ * Recomputes the subtotal, tax breakdown and total from the record prices
+ * @param invoiceData - Invoice with priced records
+ * @param taxComponents - All configured tax components
+ * @param customerBalance - Outstanding LKR balance, carried onto the total of LKR invoices only
+ * @returns The invoice with its totals filled in
+ */
+export const withInvoiceTotals = <T extends InvoiceData>(invoiceData: T, taxComponents: TaxComponent[], customerBalance: number): T => {
+  const subtotal = invoiceData.orders.reduce((sum, order) =>
+    sum + order.records.reduce((orderSum, record) => orderSum + record.totalPrice, 0), 0
+  );
+  const taxes = calculateTaxes(subtotal, taxComponents, invoiceData.invoiceDate);
+
+  return {
+    ...invoiceData,
+    subtotal,
+    taxRate: taxes.effectiveRate,
+    taxAmount: taxes.taxAmount,
+    taxLines: taxes.lines,
+    total: subtotal + taxes.taxAmount + getCarriedBalance(invoiceData.currency, customerBalance),
+  };
+};
+
 /**
  * Generate and print invoice PDF
  * This function is isolated for different printer configurations
+ * @param invoiceData - Invoice to print
+ * @param settings - Profile and template to print with
  */
-export const generateInvoice = (invoiceData: InvoiceData): void => {
+export const generateInvoice = (invoiceData: InvoiceData, settings: DocumentSettings): void => {
   try {
-    const doc = new jsPDF();
+    const doc = createTemplateDocument(settings.template);
     const pageWidth = doc.internal.pageSize.getWidth();
     const pageHeight = doc.internal.pageSize.getHeight();
     let yPosition = 20;
@@ -50,6 +119,9 @@ export const generateInvoice = (invoiceData: InvoiceData): void => {
     // Set font
     doc.setFont('helvetica');
 
+    // Letterhead
+    yPosition = drawLetterhead(doc, yPosition, 20, !!invoiceData.isTaxInvoice, settings.profile);
+
     // Header
     doc.setFontSize(24);
     doc.setFont('helvetica', 'bold');
@@ -66,20 +138,6 @@ export const generateInvoice = (invoiceData: InvoiceData): void => {
     doc.text(`Due: ${invoiceData.dueDate ? new Date(invoiceData.dueDate).toLocaleDateString() : 'N/A'}`, pageWidth - 60, yPosition);
     yPosition += 15;
 
-    // Company info (you can customize this)
-    doc.setFontSize(14);
-    doc.setFont('helvetica', 'bold');
-    doc.text('AMSRAL LAUNDRY SERVICES', 20, yPosition);
-    yPosition += 6;
-    doc.setFontSize(10);
-    doc.setFont('helvetica', 'normal');
-    doc.text('Professional Laundry & Dry Cleaning', 20, yPosition);
-    yPosition += 6;
-    doc.text('123 Business Street, City, State 12345', 20, yPosition);
-    yPosition += 6;
-    doc.text('Phone: (555) 123-4567 | Email: info@amsral.com', 20, yPosition);
-    yPosition += 15;
-
     // Customer info
     doc.setFontSize(12);
     doc.setFont('helvetica', 'bold');
@@ -142,8 +200,8 @@ export const generateInvoice = (invoiceData: InvoiceData): void => {
         doc.text(record.washType, 80, yPosition);
         doc.text(record.processTypes ? record.processTypes.join(' / ') : 'None', 120, yPosition);
         doc.text(record.quantity.toString(), 160, yPosition);
-        doc.text(`$${record.unitPrice.toFixed(2)}`, 180, yPosition);
-        doc.text(`$${record.totalPrice.toFixed(2)}`, pageWidth - 30, yPosition);
+        doc.text(formatCurrency(record.unitPrice, invoiceData.currency), 180, yPosition);
+        doc.text(formatCurrency(record.totalPrice, invoiceData.currency), pageWidth - 30, yPosition);
         yPosition += 5;
       });
 
@@ -154,7 +212,7 @@ export const generateInvoice = (invoiceData: InvoiceData): void => {
 
       const orderTotal = order.records.reduce((sum, record) => sum + record.totalPrice, 0);
       doc.setFont('helvetica', 'bold');
-      doc.text(`Order Total: $${orderTotal.toFixed(2)}`, pageWidth - 50, yPosition);
+      doc.text(`Order Total: ${formatCurrency(orderTotal, invoiceData.currency)}`, pageWidth - 50, yPosition);
       yPosition += 8;
 
       // Add space between orders
@@ -174,11 +232,11 @@ export const generateInvoice = (invoiceData: InvoiceData): void => {
     doc.setFontSize(10);
     doc.setFont('helvetica', 'normal');
     doc.text('Subtotal:', totalsX, yPosition);
-    doc.text(`$${invoiceData.subtotal.toFixed(2)}`, pageWidth - 30, yPosition);
+    doc.text(formatCurrency(invoiceData.subtotal, invoiceData.currency), pageWidth - 30, yPosition);
     yPosition += 6;
 
     doc.text(`Tax (${(invoiceData.taxRate * 100).toFixed(1)}%):`, totalsX, yPosition);
-    doc.text(`$${invoiceData.taxAmount.toFixed(2)}`, pageWidth - 30, yPosition);
+    doc.text(formatCurrency(invoiceData.taxAmount, invoiceData.currency), pageWidth - 30, yPosition);
     yPosition += 6;
 
     doc.setLineWidth(0.3);
@@ -188,7 +246,7 @@ export const generateInvoice = (invoiceData: InvoiceData): void => {
     doc.setFontSize(12);
     doc.setFont('helvetica', 'bold');
     doc.text('Total:', totalsX, yPosition);
-    doc.text(`$${invoiceData.total.toFixed(2)}`, pageWidth - 30, yPosition);
+    doc.text(formatCurrency(invoiceData.total, invoiceData.currency), pageWidth - 30, yPosition);
     yPosition += 15;
 
     // Payment terms
@@ -201,10 +259,7 @@ export const generateInvoice = (invoiceData: InvoiceData): void => {
     doc.text('Thank you for your business!', 20, yPosition);
 
     // Footer
-    const footerY = pageHeight - 20;
-    doc.setFontSize(8);
-    doc.setFont('helvetica', 'normal');
-    doc.text('Generated by AMSRAL Billing System', pageWidth / 2, footerY, { align: 'center' });
+    drawFooterText(doc, settings.template);
 
     // Save the PDF
     doc.save(`Invoice_${invoiceData.invoiceNumber}.pdf`);
@@ -226,8 +281,10 @@ export const generateInvoice = (invoiceData: InvoiceData): void => {
 /**
  * Generate invoice for thermal printer (80mm width)
  * This function is specifically designed for thermal printers
+ * @param invoiceData - Invoice to print
+ * @param settings - Profile and footer to print with; the paper size is always 80mm
  */
-export const generateThermalInvoice = (invoiceData: InvoiceData): void => {
+export const generateThermalInvoice = (invoiceData: InvoiceData, settings: DocumentSettings): void => {
   try {
     const doc = new jsPDF({
       orientation: 'portrait',
@@ -257,10 +314,13 @@ export const generateThermalInvoice = (invoiceData: InvoiceData): void => {
 
     // Company info
     doc.setFontSize(8);
-    doc.text('AMSRAL LAUNDRY', pageWidth / 2, yPosition, { align: 'center' });
+    doc.text(settings.profile.name, pageWidth / 2, yPosition, { align: 'center', maxWidth: pageWidth - 10 });
     yPosition += 4;
-    doc.text('Professional Services', pageWidth / 2, yPosition, { align: 'center' });
-    yPosition += 6;
+    if (settings.profile.tagline) {
+      doc.text(settings.profile.tagline, pageWidth / 2, yPosition, { align: 'center', maxWidth: pageWidth - 10 });
+      yPosition += 4;
+    }
+    yPosition += 2;
 
     // Customer info
     doc.setFontSize(9);
@@ -289,7 +349,7 @@ export const generateThermalInvoice = (invoiceData: InvoiceData): void => {
       order.records.forEach((record) => {
         doc.text(`${record.itemName}`, 5, yPosition);
         yPosition += 3;
-        doc.text(`${record.quantity}x $${record.unitPrice.toFixed(2)} = $${record.totalPrice.toFixed(2)}`, 5, yPosition);
+        doc.text(`${record.quantity}x ${formatCurrency(record.unitPrice, invoiceData.currency)} = ${formatCurrency(record.totalPrice, invoiceData.currency)}`, 5, yPosition);
         yPosition += 4;
       });
       yPosition += 2;
@@ -302,13 +362,14 @@ export const generateThermalInvoice = (invoiceData: InvoiceData): void => {
 
     doc.setFontSize(9);
     doc.setFont('helvetica', 'bold');
-    doc.text(`Total: $${invoiceData.total.toFixed(2)}`, pageWidth / 2, yPosition, { align: 'center' });
+    doc.text(`Total: ${formatCurrency(invoiceData.total, invoiceData.currency)}`, pageWidth / 2, yPosition, { align: 'center' });
     yPosition += 8;
 
     // Footer
     doc.setFontSize(7);
     doc.setFont('helvetica', 'normal');
     doc.text('Thank you!', pageWidth / 2, yPosition, { align: 'center' });
+    drawFooterText(doc, settings.template);
 
     // Save for thermal printer
     doc.save(`Thermal_Invoice_${invoiceData.invoiceNumber}.pdf`);
@@ -320,40 +381,30 @@ export const generateThermalInvoice = (invoiceData: InvoiceData): void => {
 };
 
 /**
- * Generate invoice for A4 printer with detailed layout
+ * Generate invoice for full page printers with detailed layout
+ * @param invoiceData - Invoice to print
+ * @param settings - Profile and template to print with
  */
-export const generateA4Invoice = (invoiceData: InvoiceData): void => {
+export const generateA4Invoice = (invoiceData: InvoiceData, settings: DocumentSettings): void => {
   try {
-    const doc = new jsPDF();
+    const doc = createTemplateDocument(settings.template);
     const pageWidth = doc.internal.pageSize.getWidth();
-    let yPosition = 20;
-
-    // Header with logo area
-    doc.setFontSize(20);
-    doc.setFont('helvetica', 'bold');
-    doc.text('AMSRAL LAUNDRY SERVICES', 20, yPosition);
-    yPosition += 8;
-
-    doc.setFontSize(12);
-    doc.setFont('helvetica', 'normal');
-    doc.text('Professional Laundry & Dry Cleaning Solutions', 20, yPosition);
-    yPosition += 15;
+    let yPosition = drawLetterhead(doc, 20, 20, !!invoiceData.isTaxInvoice, settings.profile);
 
     // Invoice header box
+    const boxTop = yPosition;
     doc.setFillColor(240, 240, 240);
-    doc.rect(pageWidth - 80, 20, 60, 40, 'F');
+    doc.rect(pageWidth - 80, boxTop, 60, 40, 'F');
     
     doc.setFontSize(16);
     doc.setFont('helvetica', 'bold');
-    doc.text('INVOICE', pageWidth - 50, 35, { align: 'center' });
+    doc.text('INVOICE', pageWidth - 50, boxTop + 15, { align: 'center' });
     
     doc.setFontSize(10);
     doc.setFont('helvetica', 'normal');
-    doc.text(`#${invoiceData.invoiceNumber}`, pageWidth - 50, 45, { align: 'center' });
-    doc.text(`Date: ${invoiceData.invoiceDate ? new Date(invoiceData.invoiceDate).toLocaleDateString() : 'N/A'}`, pageWidth - 50, 50, { align: 'center' });
-    doc.text(`Due: ${invoiceData.dueDate ? new Date(invoiceData.dueDate).toLocaleDateString() : 'N/A'}`, pageWidth - 50, 55, { align: 'center' });
-
-    yPosition = 70;
+    doc.text(`#${invoiceData.invoiceNumber}`, pageWidth - 50, boxTop + 25, { align: 'center' });
+    doc.text(`Date: ${invoiceData.invoiceDate ? new Date(invoiceData.invoiceDate).toLocaleDateString() : 'N/A'}`, pageWidth - 50, boxTop + 30, { align: 'center' });
+    doc.text(`Due: ${invoiceData.dueDate ? new Date(invoiceData.dueDate).toLocaleDateString() : 'N/A'}`, pageWidth - 50, boxTop + 35, { align: 'center' });
 
     // Customer information
     doc.setFontSize(12);
@@ -372,11 +423,11 @@ export const generateA4Invoice = (invoiceData: InvoiceData): void => {
       doc.text(invoiceData.customerPhone, 20, yPosition);
       yPosition += 6;
     }
-    yPosition += 10;
+    yPosition = Math.max(yPosition, boxTop + 40) + 10;
 
     // Detailed table
     const tableTop = yPosition;
-    const colPositions = [20, 80, 110, 150, 170, 195];
+    const colPositions = [20, 80, 110, 150, 170, pageWidth - 15];
 
     // Table header
     doc.setFillColor(200, 200, 200);
@@ -386,7 +437,7 @@ export const generateA4Invoice = (invoiceData: InvoiceData): void => {
     doc.setFont('helvetica', 'bold');
     const headers = ['Item Description', 'Wash Type', 'Process', 'Qty', 'Unit Price', 'Total'];
     headers.forEach((header, index) => {
-      doc.text(header, colPositions[index], tableTop + 6);
+      doc.text(header, colPositions[index], tableTop + 6, index === headers.length - 1 ? { align: 'right' } : undefined);
     });
 
     yPosition = tableTop + 8;
@@ -413,8 +464,8 @@ export const generateA4Invoice = (invoiceData: InvoiceData): void => {
         doc.text(record.washType, colPositions[1], yPosition);
         doc.text(record.processTypes ? record.processTypes.join(' / ') : 'None', colPositions[2], yPosition);
         doc.text(record.quantity.toString(), colPositions[3], yPosition);
-        doc.text(`$${record.unitPrice.toFixed(2)}`, colPositions[4], yPosition);
-        doc.text(`$${record.totalPrice.toFixed(2)}`, colPositions[5], yPosition);
+        doc.text(formatCurrency(record.unitPrice, invoiceData.currency), colPositions[4], yPosition);
+        doc.text(formatCurrency(record.totalPrice, invoiceData.currency), colPositions[5], yPosition, { align: 'right' });
         yPosition += 5;
       });
     });
@@ -430,11 +481,11 @@ export const generateA4Invoice = (invoiceData: InvoiceData): void => {
     doc.setFontSize(10);
     doc.setFont('helvetica', 'normal');
     doc.text('Subtotal:', pageWidth - 50, yPosition);
-    doc.text(`$${invoiceData.subtotal.toFixed(2)}`, pageWidth - 30, yPosition);
+    doc.text(formatCurrency(invoiceData.subtotal, invoiceData.currency), pageWidth - 30, yPosition);
     yPosition += 6;
 
     doc.text(`Tax (${(invoiceData.taxRate * 100).toFixed(1)}%):`, pageWidth - 50, yPosition);
-    doc.text(`$${invoiceData.taxAmount.toFixed(2)}`, pageWidth - 30, yPosition);
+    doc.text(formatCurrency(invoiceData.taxAmount, invoiceData.currency), pageWidth - 30, yPosition);
     yPosition += 6;
 
     doc.setLineWidth(0.5);
@@ -444,7 +495,7 @@ export const generateA4Invoice = (invoiceData: InvoiceData): void => {
     doc.setFontSize(12);
     doc.setFont('helvetica', 'bold');
     doc.text('Total:', pageWidth - 50, yPosition);
-    doc.text(`$${invoiceData.total.toFixed(2)}`, pageWidth - 30, yPosition);
+    doc.text(formatCurrency(invoiceData.total, invoiceData.currency), pageWidth - 30, yPosition);
     yPosition += 15;
 
     // Payment terms
@@ -454,7 +505,8 @@ export const generateA4Invoice = (invoiceData: InvoiceData): void => {
     yPosition += 6;
     doc.text(`Payment is due within ${Math.round((new Date(invoiceData.dueDate).getTime() - new Date(invoiceData.invoiceDate).getTime()) / (1000 * 60 * 60 * 24))} days of invoice date.`, 20, yPosition);
     yPosition += 6;
-    doc.text('Thank you for choosing AMSRAL for your laundry needs!', 20, yPosition);
+    doc.text(`Thank you for choosing ${settings.profile.name}!`, 20, yPosition);
+    drawFooterText(doc, settings.template);
 
     // Save A4 invoice
     doc.save(`A4_Invoice_${invoiceData.invoiceNumber}.pdf`);
@@ -472,13 +524,70 @@ export const generateA4Invoice = (invoiceData: InvoiceData): void => {
   }
 };
 
+interface InvoiceColumn {
+  header: string;
+  width: number;
+  x: number;
+  getValue: (order: InvoiceData['orders'][number], record: InvoiceRecord) => string;
+}
+
 /**
- * Generate new AMSRAL Lanka Enterprises invoice format
- * Updated format with perfectly styled table and professional layout
+ * Describes a record by the wash type and process types the template prints
+ * @returns Description such as "Enzyme Wash - Tinting / Softener"
  */
-export const generateAmsralInvoice = (invoiceData: InvoiceData): void => {
+const describeInvoiceRecord = (record: InvoiceRecord, template: InvoiceTemplate): string => {
+  const parts = [
+    template.columns.washType ? record.washType : '',
+    template.columns.processTypes && record.processTypes ? record.processTypes.join(' / ') : '',
+  ].filter(Boolean);
+  return parts.join(' - ') || '-';
+};
+
+/**
+ * Picks the invoice table columns the template prints, scaled to fill the table width
+ * @param invoiceData - Invoice being printed, for its Style No option
+ * @param template - Invoice template
+ * @param margin - Left edge of the table
+ * @param availableWidth - Width between the margins
+ * @returns Columns with their widths and x positions
+ */
+const getInvoiceColumns = (invoiceData: InvoiceData, template: InvoiceTemplate, margin: number, availableWidth: number): InvoiceColumn[] => {
+  const columns: (Omit<InvoiceColumn, 'x'> & { show: boolean })[] = [
+    { header: 'Ref NO.', width: 25, show: true, getValue: (order) => order.id.toString() }, // Order ID instead of reference number
+    { header: 'GP No.', width: 20, show: template.columns.gpNo, getValue: (order) => order.gpNumber || '-' },
+    { header: 'St No.', width: 20, show: invoiceData.includeStyleNo, getValue: (_order, record) => record.styleNo || '-' },
+    { header: 'Item', width: 25, show: true, getValue: (_order, record) => record.colour ? `${record.itemName} (${record.colour})` : record.itemName },
+    {
+      header: 'Description',
+      width: 35,
+      show: template.columns.washType || template.columns.processTypes,
+      getValue: (_order, record) => describeInvoiceRecord(record, template)
+    },
+    { header: 'Qty', width: 15, show: true, getValue: (_order, record) => record.quantity.toString() },
+    { header: 'Unit Price', width: 20, show: true, getValue: (_order, record) => record.unitPrice.toFixed(2) },
+    { header: 'Amount', width: 20, show: true, getValue: (_order, record) => record.totalPrice.toFixed(2) },
+  ];
+
+  const shown = columns.filter(col => col.show);
+  const scaleFactor = availableWidth / shown.reduce((sum, col) => sum + col.width, 0);
+  let currentX = margin;
+  return shown.map(({ header, width, getValue }) => {
+    const column = { header, width: Math.floor(width * scaleFactor), x: currentX, getValue };
+    currentX += column.width;
+    return column;
+  });
+};
+
+/**
+ * Generate an invoice in the company letterhead
+ * Columns, terms, footer and paper size come from the invoice template
+ * @param invoiceData - Invoice to print
+ * @param settings - Profile and template to print with; the template may hold unsaved changes for a preview
+ */
+export const generateAmsralInvoice = (invoiceData: InvoiceData, settings: DocumentSettings): void => {
   try {
-    const doc = new jsPDF();
+    const { profile, template } = settings;
+    const doc = createTemplateDocument(template);
     const pageWidth = doc.internal.pageSize.getWidth();
     const pageHeight = doc.internal.pageSize.getHeight();
     const margin = 15;
@@ -488,43 +597,12 @@ export const generateAmsralInvoice = (invoiceData: InvoiceData): void => {
     doc.setFont('helvetica');
 
     // Centered Header Section
-    doc.setFontSize(22);
-    doc.setFont('helvetica', 'bold');
-    doc.text('AMSRAL LANKA ENTERPRISES', pageWidth / 2, yPosition, { align: 'center' });
-    yPosition += 8;
-
-    doc.setFontSize(14);
-    doc.setFont('helvetica', 'normal');
-    doc.text('(Specialist in Industrial Garment Washing)', pageWidth / 2, yPosition, { align: 'center' });
-    yPosition += 6;
-
-    doc.setFont('helvetica', 'bold');
-    doc.text('Washing Plant & Finishing Plant', pageWidth / 2, yPosition, { align: 'center' });
-    yPosition += 6;
-
-    doc.setFontSize(11);
-    doc.setFont('helvetica', 'normal');
-    doc.text('109/1, Bellanwila Rajamaha Viharaya', pageWidth / 2, yPosition, { align: 'center' });
-    yPosition += 5;
-
-    doc.text('(Opposite Bellanwila Rajamaha Viharaya)', pageWidth / 2, yPosition, { align: 'center' });
-    yPosition += 5;
-
-    doc.text('Tel: 0777 3107343 | 0714837714 | 011 2731705', pageWidth / 2, yPosition, { align: 'center' });
-    yPosition += 5;
-
-    doc.text('Email: amsrallanka1@gmail.com', pageWidth / 2, yPosition, { align: 'center' });
-    yPosition += 15;
-
-     // Horizontal separator line
-     doc.setLineWidth(0.2); // Reduced divider line width
-     doc.line(margin, yPosition, pageWidth - margin, yPosition);
-    yPosition += 10;
+    yPosition = drawLetterhead(doc, yPosition, margin, !!invoiceData.isTaxInvoice, profile);
 
     // INVOICE Title - smaller
     doc.setFontSize(20);
     doc.setFont('helvetica', 'bold');
-    doc.text('INVOICE', pageWidth / 2, yPosition, { align: 'center' });
+    doc.text(invoiceData.isTaxInvoice ? 'TAX INVOICE' : 'INVOICE', pageWidth / 2, yPosition, { align: 'center' });
     yPosition += 15;
 
     // Simple Customer and Invoice Info Section - no boxes, no titles
@@ -546,62 +624,28 @@ export const generateAmsralInvoice = (invoiceData: InvoiceData): void => {
       doc.text(`P/O No: `, rightInfoX, yPosition + 8);
     }
 
+    // Tax invoices must identify the buyer
+    if (invoiceData.isTaxInvoice) {
+      doc.text(`Customer VAT No: ${invoiceData.customerVatNumber || '-'}`, margin, yPosition + 16);
+      if (invoiceData.customerAddress) {
+        doc.text(`Address: ${invoiceData.customerAddress}`, margin, yPosition + 24);
+        yPosition += 8;
+      }
+      yPosition += 8;
+    }
+
     yPosition += 25;
 
      // Simple Table like the PDF sample
      const tableStartY = yPosition;
      const rowHeight = 12;
     
-     // Column definitions matching the PDF sample
-     const columns = invoiceData.includeStyleNo 
-       ? [
-           { header: 'Ref NO.', width: 25, x: 0 },
-           { header: 'GP No.', width: 20, x: 0 },
-           { header: 'St No.', width: 20, x: 0 },
-           { header: 'Item', width: 25, x: 0 },
-           { header: 'Description', width: 35, x: 0 },
-           { header: 'Qty', width: 15, x: 0 },
-           { header: 'Unit Price', width: 20, x: 0 },
-           { header: 'Amount', width: 20, x: 0 }
-         ]
-       : [
-           { header: 'Ref NO.', width: 30, x: 0 },
-           { header: 'GP No.', width: 25, x: 0 },
-           { header: 'Item', width: 30, x: 0 },
-           { header: 'Description', width: 45, x: 0 },
-           { header: 'Qty', width: 15, x: 0 },
-           { header: 'Unit Price', width: 20, x: 0 },
-           { header: 'Amount', width: 25, x: 0 }
-         ];
-
-    // Calculate column positions
-    let currentX = margin;
-    columns.forEach(col => {
-      col.x = currentX;
-      currentX += col.width;
-    });
-
-    // Ensure table width doesn't exceed page width
-    const totalTableWidth = currentX - margin;
-    const availableWidth = pageWidth - 2 * margin;
-    
-    if (totalTableWidth > availableWidth) {
-      // Scale down all columns proportionally
-      const scaleFactor = availableWidth / totalTableWidth;
-      columns.forEach(col => {
-        col.width = Math.floor(col.width * scaleFactor);
-      });
-      
-      // Recalculate positions
-      currentX = margin;
-      columns.forEach(col => {
-        col.x = currentX;
-        currentX += col.width;
-      });
-    }
+     // Columns the template prints, scaled to the page width
+     const columns = getInvoiceColumns(invoiceData, template, margin, pageWidth - 2 * margin);
+     const lastColumn = columns[columns.length - 1];
 
     // Calculate final table width
-    const tableWidth = currentX - margin;
+    const tableWidth = lastColumn.x + lastColumn.width - margin;
 
     // Draw table outline - reduced border width
     doc.setLineWidth(0.3);
@@ -626,7 +670,7 @@ export const generateAmsralInvoice = (invoiceData: InvoiceData): void => {
     });
 
     // Draw vertical lines for header
-    currentX = margin;
+    let currentX = margin;
     columns.forEach((col, index) => {
       currentX += col.width;
       if (index < columns.length - 1) {
@@ -649,31 +693,7 @@ export const generateAmsralInvoice = (invoiceData: InvoiceData): void => {
           yPosition = 20;
         }
 
-         // Create description with wash type and process types
-         const processTypesText = record.processTypes ? record.processTypes.join(' / ') : '';
-         const description = processTypesText ? `${record.washType} - ${processTypesText}` : record.washType;
-
-         // Row data
-         const rowData = invoiceData.includeStyleNo 
-           ? [
-               order.id.toString(), // Show Order ID instead of reference number
-               order.gpNumber || '-', // GP No always shown
-               record.styleNo || '-', // St No only when included
-               record.itemName,
-               description,
-               record.quantity.toString(),
-               record.unitPrice.toFixed(2),
-               record.totalPrice.toFixed(2)
-             ]
-           : [
-               order.id.toString(), // Show Order ID instead of reference number
-               order.gpNumber || '-', // GP No always shown
-               record.itemName,
-               description,
-               record.quantity.toString(),
-               record.unitPrice.toFixed(2),
-               record.totalPrice.toFixed(2)
-             ];
+         const rowData = columns.map(col => col.getValue(order, record));
 
         // Draw row border - reduced border width
         doc.setLineWidth(0.3);
@@ -746,7 +766,8 @@ export const generateAmsralInvoice = (invoiceData: InvoiceData): void => {
      const amountColumnX = columns[columns.length - 1].x; // Last column (Amount)
      
      // Show subtotal
-     doc.text('Subtotal (Rs)', margin + 5, yPosition + 8);
+     const currencyLabel = getCurrencyLabel(invoiceData.currency);
+     doc.text(`Subtotal (${currencyLabel})`, margin + 5, yPosition + 8);
      // Right-align the amount
      const subtotalText = totalAmount.toFixed(2);
      const subtotalWidth = doc.getTextWidth(subtotalText);
@@ -754,14 +775,30 @@ export const generateAmsralInvoice = (invoiceData: InvoiceData): void => {
      doc.text(subtotalText, subtotalX, yPosition + 8);
      
      yPosition += rowHeight;
+
+     // Tax breakdown, one row per tax component
+     let taxTotal = 0;
+     (invoiceData.taxLines || []).forEach(line => {
+       doc.setLineWidth(0.2);
+       doc.rect(margin, yPosition, tableWidth, rowHeight);
+       doc.text(`${formatTaxLineLabel(line)} on ${line.taxableAmount.toFixed(2)} (${currencyLabel})`, margin + 5, yPosition + 8);
+       // Right-align the amount
+       const taxText = line.amount.toFixed(2);
+       const taxWidth = doc.getTextWidth(taxText);
+       const taxX = amountColumnX + columns[columns.length - 1].width - taxWidth - 2;
+       doc.text(taxText, taxX, yPosition + 8);
+       taxTotal += line.amount;
+       yPosition += rowHeight;
+     });
      
-     // Add customer balance if available
-     if (invoiceData.customerBalance !== undefined && invoiceData.customerBalance > 0) {
+     // Add customer balance if available - it is in LKR, so only LKR invoices carry it into the total
+     const carriedBalance = getCarriedBalance(invoiceData.currency, invoiceData.customerBalance || 0);
+     if (carriedBalance > 0) {
        doc.setLineWidth(0.2);
        doc.rect(margin, yPosition, tableWidth, rowHeight);
-       doc.text('Outstanding Balance (Rs)', margin + 5, yPosition + 8);
+       doc.text(`Outstanding Balance (${currencyLabel})`, margin + 5, yPosition + 8);
        // Right-align the amount
-       const balanceText = invoiceData.customerBalance.toFixed(2);
+       const balanceText = carriedBalance.toFixed(2);
        const balanceWidth = doc.getTextWidth(balanceText);
        const balanceX = amountColumnX + columns[columns.length - 1].width - balanceWidth - 2;
        doc.text(balanceText, balanceX, yPosition + 8);
@@ -771,38 +808,60 @@ export const generateAmsralInvoice = (invoiceData: InvoiceData): void => {
      // Final total
      doc.setLineWidth(0.2);
      doc.rect(margin, yPosition, tableWidth, rowHeight);
-     const finalTotal = totalAmount + (invoiceData.customerBalance || 0);
-     doc.text('Total Amount (Rs)', margin + 5, yPosition + 8);
+     const finalTotal = totalAmount + taxTotal + carriedBalance;
+     doc.text(`Total Amount (${currencyLabel})`, margin + 5, yPosition + 8);
      // Right-align the amount
      const totalText = finalTotal.toFixed(2);
      const totalWidth = doc.getTextWidth(totalText);
      const totalX = amountColumnX + columns[columns.length - 1].width - totalWidth - 2;
      doc.text(totalText, totalX, yPosition + 8);
 
-     yPosition += rowHeight + 15;
+     yPosition += rowHeight + 8;
+
+     // Foreign currency invoices show the rate they were raised at and the tax in LKR
+     if (isForeignCurrency(invoiceData.currency) && invoiceData.exchangeRate) {
+       doc.setFont('helvetica', 'normal');
+       doc.setFontSize(9);
+       doc.text(`Exchange rate: ${formatExchangeRate(invoiceData.currency!, invoiceData.exchangeRate)}`, margin, yPosition);
+       doc.text(
+         `Equivalent: Subtotal ${BASE_CURRENCY} ${toBaseCurrency(totalAmount, invoiceData.exchangeRate).toFixed(2)}` +
+         (taxTotal > 0 ? `, Tax ${BASE_CURRENCY} ${toBaseCurrency(taxTotal, invoiceData.exchangeRate).toFixed(2)}` : '') +
+         `, Total ${BASE_CURRENCY} ${toBaseCurrency(finalTotal, invoiceData.exchangeRate).toFixed(2)}`,
+         margin,
+         yPosition + 5
+       );
+       yPosition += 10;
+
+       if (invoiceData.customerBalance && invoiceData.customerBalance > 0) {
+         doc.text(
+           `Outstanding balance on account: ${BASE_CURRENCY} ${invoiceData.customerBalance.toFixed(2)} (not included in the total above)`,
+           margin,
+           yPosition
+         );
+         yPosition += 5;
+       }
+     }
+
+     yPosition += 7;
 
      // Simple Terms and Conditions
      doc.setTextColor(0, 0, 0);
      doc.setFontSize(10);
      doc.setFont('helvetica', 'normal');
-     doc.text('Please inform us within 7 days from the billed date if you have any questions or concerns regarding this invoice.', margin, yPosition);
-     yPosition += 20;
+     if (template.termsText.trim()) {
+       const termsLines: string[] = doc.splitTextToSize(template.termsText.trim(), pageWidth - 2 * margin);
+       doc.text(termsLines, margin, yPosition);
+       yPosition += termsLines.length * 5 + 5;
+     }
+
+     // Where to pay, above the signature
+     drawBankDetails(doc, margin, yPosition, profile);
 
      // Move signature section to bottom
      const signatureY = pageHeight - 40; // Position near bottom of page
      
-     // Simple Signature Section - just like PDF
-     doc.setFontSize(12);
-     doc.setFont('helvetica', 'bold');
-     doc.text('AMSRAL LANKA ENTERPRISES', margin, signatureY);
-     
-     // Simple signature line with reduced width
-     doc.setLineWidth(0.2); // Reduced line width
-     doc.line(margin, signatureY + 15, margin + 30, signatureY + 15);
-     
-     doc.setFontSize(10);
-     doc.setFont('helvetica', 'normal');
-     doc.text('Authorized Signature', margin, signatureY + 23);
+     drawSignatureBlock(doc, margin, signatureY, profile);
+     drawFooterText(doc, template);
 
     // Save the PDF
     doc.save(`AMSRAL_Invoice_${invoiceData.invoiceNumber}.pdf`);
@@ -819,4 +878,355 @@ export const generateAmsralInvoice = (invoiceData: InvoiceData): void => {
     console.error('Error generating AMSRAL invoice:', error);
     throw new Error('Failed to generate AMSRAL invoice');
   }
-};
\ No newline at end of file
+};
+const openPdf = (doc: jsPDF, fileName: string): void => {
+  doc.save(fileName);
+
+  // Also open in new window for printing
+  const pdfOutput = doc.output('blob');
+  const pdfUrl = URL.createObjectURL(pdfOutput);
+  window.open(pdfUrl, '_blank');
+
+  // Clean up
+  setTimeout(() => URL.revokeObjectURL(pdfUrl), 1000);
+};
+
+/**
+ * Generate a credit note PDF in the company letterhead
+ * Credit notes against a tax invoice show the company VAT number and reverse the tax lines
+ */
+export const generateCreditNote = (creditNote: CreditNote, settings: DocumentSettings): void => {
+  try {
+    const doc = createTemplateDocument(settings.template);
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const margin = 15;
+    const rowHeight = 12;
+    const hasTax = (creditNote.taxLines || []).length > 0;
+
+    doc.setFont('helvetica');
+    let yPosition = drawLetterhead(doc, 20, margin, hasTax, settings.profile);
+
+    doc.setFontSize(20);
+    doc.setFont('helvetica', 'bold');
+    doc.text('CREDIT NOTE', pageWidth / 2, yPosition, { align: 'center' });
+    yPosition += 15;
+
+    // Customer on the left, credit note and original invoice on the right
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'normal');
+    const rightInfoX = pageWidth - 100;
+    doc.text(`Customer: ${creditNote.customerName}`, margin, yPosition);
+    doc.text(`Credit Note No: ${creditNote.creditNoteNumber}`, rightInfoX, yPosition);
+    doc.text(`Date: ${new Date(creditNote.issueDate).toLocaleDateString()}`, margin, yPosition + 8);
+    doc.text(`Against Invoice No: ${creditNote.invoiceNumber}`, rightInfoX, yPosition + 8);
+    yPosition += 16;
+
+    const reasonLines: string[] = doc.splitTextToSize(`Reason: ${creditNote.reason}`, pageWidth - 2 * margin);
+    doc.text(reasonLines, margin, yPosition);
+    yPosition += reasonLines.length * 6 + 10;
+
+    const columns = [
+      { header: 'Order No.', width: 25, x: 0 },
+      { header: 'Item', width: 30, x: 0 },
+      { header: 'Description', width: 55, x: 0 },
+      { header: 'Qty', width: 15, x: 0 },
+      { header: 'Unit Price', width: 25, x: 0 },
+      { header: 'Amount', width: 30, x: 0 }
+    ];
+    let currentX = margin;
+    columns.forEach(col => {
+      col.x = currentX;
+      currentX += col.width;
+    });
+    const tableWidth = currentX - margin;
+    const amountColumn = columns[columns.length - 1];
+
+    // Header row
+    doc.setLineWidth(0.3);
+    doc.setDrawColor(0, 0, 0);
+    doc.setFillColor(230, 230, 230);
+    doc.rect(margin, yPosition, tableWidth, rowHeight, 'F');
+    doc.rect(margin, yPosition, tableWidth, rowHeight);
+    doc.setTextColor(0, 0, 0);
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'bold');
+    columns.forEach((col, index) => {
+      const textWidth = doc.getTextWidth(col.header);
+      doc.text(col.header, col.x + (col.width / 2) - (textWidth / 2), yPosition + 8);
+      if (index < columns.length - 1) {
+        doc.line(col.x + col.width, yPosition, col.x + col.width, yPosition + rowHeight);
+      }
+    });
+    yPosition += rowHeight;
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    creditNote.lines.forEach(line => {
+      if (yPosition > pageHeight - 60) {
+        doc.addPage();
+        yPosition = 20;
+      }
+
+      const rowData = [
+        line.orderId.toString(),
+        line.itemName,
+        line.description,
+        line.quantity.toString(),
+        line.unitPrice.toFixed(2),
+        line.amount.toFixed(2)
+      ];
+
+      doc.setLineWidth(0.3);
+      doc.rect(margin, yPosition, tableWidth, rowHeight);
+      columns.forEach((col, index) => {
+        if (col === amountColumn) {
+          const textWidth = doc.getTextWidth(rowData[index]);
+          doc.text(rowData[index], col.x + col.width - textWidth - 2, yPosition + 8);
+        } else {
+          const cellText = doc.splitTextToSize(rowData[index], col.width - 4)[0] || '';
+          const textWidth = doc.getTextWidth(cellText);
+          doc.text(cellText, col.x + (col.width / 2) - (textWidth / 2), yPosition + 8);
+        }
+        if (index < columns.length - 1) {
+          doc.line(col.x + col.width, yPosition, col.x + col.width, yPosition + rowHeight);
+        }
+      });
+      yPosition += rowHeight;
+    });
+
+    // Subtotal, reversed taxes and total credit, right-aligned under Amount
+    const drawTotalRow = (label: string, amount: number) => {
+      doc.setLineWidth(0.2);
+      doc.rect(margin, yPosition, tableWidth, rowHeight);
+      doc.text(label, margin + 5, yPosition + 8);
+      const amountText = amount.toFixed(2);
+      doc.text(amountText, amountColumn.x + amountColumn.width - doc.getTextWidth(amountText) - 2, yPosition + 8);
+      yPosition += rowHeight;
+    };
+
+    const currencyLabel = getCurrencyLabel(creditNote.currency);
+    doc.setFont('helvetica', 'bold');
+    drawTotalRow(`Subtotal (${currencyLabel})`, creditNote.subtotal);
+    (creditNote.taxLines || []).forEach(line => {
+      drawTotalRow(`${formatTaxLineLabel(line)} on ${line.taxableAmount.toFixed(2)} (${currencyLabel})`, line.amount);
+    });
+    drawTotalRow(`Total Credit (${currencyLabel})`, creditNote.total);
+    yPosition += 15;
+
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.text(`This amount has been credited to your account against invoice ${creditNote.invoiceNumber}.`, margin, yPosition);
+
+    const signatureY = pageHeight - 40;
+    drawSignatureBlock(doc, margin, signatureY, settings.profile);
+    drawFooterText(doc, settings.template);
+
+    openPdf(doc, `AMSRAL_Credit_Note_${creditNote.creditNoteNumber}.pdf`);
+  } catch (error) {
+    console.error('Error generating credit note:', error);
+    throw new Error('Failed to generate credit note');
+  }
+};
+
+const formatStatementDate = (date: string): string => {
+  return new Date(`${date.split('T')[0]}T00:00:00`).toLocaleDateString();
+};
+
+/**
+ * Draws one customer statement of account, starting on the current page
+ */
+const drawCustomerStatement = (doc: jsPDF, statement: CustomerStatement, profile: CompanyProfile): void => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 15;
+  const rowHeight = 10;
+  let yPosition = drawLetterhead(doc, 20, margin, false, profile);
+
+  doc.setFontSize(20);
+  doc.setFont('helvetica', 'bold');
+  doc.text('STATEMENT OF ACCOUNT', pageWidth / 2, yPosition, { align: 'center' });
+  yPosition += 15;
+
+  // Customer on the left, period on the right
+  doc.setFontSize(11);
+  doc.setFont('helvetica', 'normal');
+  const rightInfoX = pageWidth - 100;
+  doc.text(`Customer: ${statement.customer.name}`, margin, yPosition);
+  doc.text(`Period: ${formatStatementDate(statement.dateFrom)} - ${formatStatementDate(statement.dateTo)}`, rightInfoX, yPosition);
+  yPosition += 8;
+  doc.text(`Customer Code: ${statement.customer.code || '-'}`, margin, yPosition);
+  doc.text(`Statement Date: ${new Date().toLocaleDateString()}`, rightInfoX, yPosition);
+  if (statement.customer.address) {
+    yPosition += 8;
+    doc.text(`Address: ${statement.customer.address}`, margin, yPosition);
+  }
+  yPosition += 15;
+
+  const columns = [
+    { header: 'Date', width: 22, x: 0 },
+    { header: 'Reference', width: 30, x: 0 },
+    { header: 'Description', width: 58, x: 0 },
+    { header: 'Debit', width: 23, x: 0 },
+    { header: 'Credit', width: 23, x: 0 },
+    { header: 'Balance', width: 24, x: 0 }
+  ];
+  let currentX = margin;
+  columns.forEach(col => {
+    col.x = currentX;
+    currentX += col.width;
+  });
+  const tableWidth = currentX - margin;
+
+  const drawHeaderRow = () => {
+    doc.setLineWidth(0.3);
+    doc.setDrawColor(0, 0, 0);
+    doc.setFillColor(230, 230, 230);
+    doc.rect(margin, yPosition, tableWidth, rowHeight, 'F');
+    doc.rect(margin, yPosition, tableWidth, rowHeight);
+    doc.setTextColor(0, 0, 0);
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'bold');
+    columns.forEach((col, index) => {
+      const textWidth = doc.getTextWidth(col.header);
+      doc.text(col.header, col.x + (col.width / 2) - (textWidth / 2), yPosition + 7);
+      if (index < columns.length - 1) {
+        doc.line(col.x + col.width, yPosition, col.x + col.width, yPosition + rowHeight);
+      }
+    });
+    yPosition += rowHeight;
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+  };
+
+  // Money columns are right-aligned, the rest left-aligned
+  const drawRow = (cells: string[], bold = false) => {
+    if (yPosition > pageHeight - 60) {
+      doc.addPage();
+      yPosition = 20;
+      drawHeaderRow();
+    }
+    doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    doc.setLineWidth(0.2);
+    doc.rect(margin, yPosition, tableWidth, rowHeight);
+    columns.forEach((col, index) => {
+      const cellText = cells[index] || '';
+      if (index >= 3) {
+        const textWidth = doc.getTextWidth(cellText);
+        doc.text(cellText, col.x + col.width - textWidth - 2, yPosition + 7);
+      } else {
+        const fitted = doc.splitTextToSize(cellText, col.width - 4)[0] || '';
+        doc.text(fitted, col.x + 2, yPosition + 7);
+      }
+      if (index < columns.length - 1) {
+        doc.line(col.x + col.width, yPosition, col.x + col.width, yPosition + rowHeight);
+      }
+    });
+    yPosition += rowHeight;
+  };
+
+  drawHeaderRow();
+  drawRow([formatStatementDate(statement.dateFrom), '', 'Opening Balance', '', '', statement.openingBalance.toFixed(2)], true);
+  statement.lines.forEach(line => {
+    drawRow([
+      formatStatementDate(line.date),
+      line.reference,
+      line.description,
+      line.debit ? line.debit.toFixed(2) : '',
+      line.credit ? line.credit.toFixed(2) : '',
+      line.balance.toFixed(2)
+    ]);
+  });
+  drawRow([
+    formatStatementDate(statement.dateTo),
+    '',
+    `Closing Balance (${getCurrencyLabel(statement.customer.currency)})`,
+    statement.totalInvoiced.toFixed(2),
+    (statement.totalPaid + statement.totalCredited).toFixed(2),
+    statement.closingBalance.toFixed(2)
+  ], true);
+
+  // Aging summary as at the end of the period
+  yPosition += 10;
+  if (yPosition > pageHeight - 80) {
+    doc.addPage();
+    yPosition = 20;
+  }
+  doc.setFontSize(11);
+  doc.setFont('helvetica', 'bold');
+  doc.text(`Aging Summary (${getCurrencyLabel(statement.customer.currency)})`, margin, yPosition);
+  yPosition += 5;
+
+  const agingHeaders = [...AGING_BUCKETS.map(bucket => bucket.label), 'Total Due'];
+  const agingValues = [
+    ...AGING_BUCKETS.map(bucket => statement.aging[bucket.key]),
+    AGING_BUCKETS.reduce((sum, bucket) => sum + statement.aging[bucket.key], 0)
+  ];
+  const agingWidth = tableWidth / agingHeaders.length;
+  doc.setFontSize(10);
+  doc.setLineWidth(0.3);
+  doc.setFillColor(230, 230, 230);
+  doc.rect(margin, yPosition, tableWidth, rowHeight, 'F');
+  doc.rect(margin, yPosition, tableWidth, rowHeight * 2);
+  doc.line(margin, yPosition + rowHeight, margin + tableWidth, yPosition + rowHeight);
+  agingHeaders.forEach((header, index) => {
+    const cellX = margin + agingWidth * index;
+    if (index > 0) {
+      doc.line(cellX, yPosition, cellX, yPosition + rowHeight * 2);
+    }
+    doc.setFont('helvetica', 'bold');
+    doc.text(header, cellX + agingWidth / 2, yPosition + 7, { align: 'center' });
+    doc.setFont('helvetica', index === agingHeaders.length - 1 ? 'bold' : 'normal');
+    doc.text(agingValues[index].toFixed(2), cellX + agingWidth / 2, yPosition + rowHeight + 7, { align: 'center' });
+  });
+  yPosition += rowHeight * 2 + 15;
+
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  doc.text('Please inform us within 7 days if you have any questions or concerns regarding this statement.', margin, yPosition);
+
+  // Signature at the bottom of the last page
+  drawSignatureBlock(doc, margin, pageHeight - 40, profile);
+};
+
+/**
+ * Generate a customer statement of account in the company letterhead
+ */
+export const generateCustomerStatement = (statement: CustomerStatement, settings: DocumentSettings): void => {
+  try {
+    const doc = createTemplateDocument(settings.template);
+    doc.setFont('helvetica');
+    drawCustomerStatement(doc, statement, settings.profile);
+
+    const customerLabel = (statement.customer.code || statement.customer.name).replace(/\s+/g, '_');
+    drawFooterText(doc, settings.template);
+    openPdf(doc, `AMSRAL_Statement_${customerLabel}_${statement.dateTo}.pdf`);
+  } catch (error) {
+    console.error('Error generating customer statement:', error);
+    throw new Error('Failed to generate customer statement');
+  }
+};
+
+/**
+ * Generate statements for several customers in one PDF, each starting on a new page
+ */
+export const generateCustomerStatements = (statements: CustomerStatement[], settings: DocumentSettings): void => {
+  if (statements.length === 0) return;
+
+  try {
+    const doc = createTemplateDocument(settings.template);
+    doc.setFont('helvetica');
+    statements.forEach((statement, index) => {
+      if (index > 0) {
+        doc.addPage();
+      }
+      drawCustomerStatement(doc, statement, settings.profile);
+    });
+
+    drawFooterText(doc, settings.template);
+    openPdf(doc, `AMSRAL_Statements_${statements[0].dateTo}.pdf`);
+  } catch (error) {
+    console.error('Error generating customer statements:', error);
+    throw new Error('Failed to generate customer statements');
+  }
+};
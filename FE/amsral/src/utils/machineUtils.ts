@@ -0,0 +1,149 @@
+/**
+ * Utility functions for machines - availability, capacity and the scheduling board
+ */
+import type { Machine, MachineStatus, CapacityUnit } from '../services/machineService';
+import type { MachineAssignment } from '../services/recordService';
+import { isCompletedStatus } from './statusUtils';
+
+export type MachineKind = Machine['type'];
+
+// Machines are referenced by id or name depending on which endpoint they came from
+interface MachineRef {
+  id: string | number;
+  name: string;
+}
+
+export interface MachineLane {
+  machine: Machine;
+  current: MachineAssignment | null; // Load running on the machine now
+  queued: MachineAssignment[]; // Loads waiting for the machine, oldest first
+  totalQuantity: number;
+}
+
+// How a load compares with a machine's capacity; kg-rated machines can only be checked against a weighed load
+export type CapacityCheck = 'within' | 'over' | 'unknownWeight';
+
+export interface MachineBoard {
+  lanes: MachineLane[];
+  unscheduled: MachineAssignment[]; // Open assignments with no (or an unknown) machine of this kind
+}
+
+/**
+ * Checks whether an assignment still needs its machine
+ * @param assignment - The machine assignment
+ * @returns True unless the assignment is completed
+ */
+export const isOpenAssignment = (assignment: MachineAssignment): boolean => {
+  return !isCompletedStatus(assignment.status);
+};
+
+/**
+ * Gets the machine an assignment is booked on for the given machine kind
+ * @param assignment - The machine assignment
+ * @param kind - Washing or Drying
+ * @returns The stored machine reference (id, or name on older assignments)
+ */
+export const getAssignmentMachineRef = (assignment: MachineAssignment, kind: MachineKind): string => {
+  return (kind === 'Washing' ? assignment.washingMachine : assignment.dryingMachine) || '';
+};
+
+// Whether a machine id or name stored on an assignment refers to the given machine
+const matchesMachineRef = (machine: MachineRef, machineRef: string): boolean => {
+  const normalized = machineRef.trim().toLowerCase();
+  return !!normalized && (machine.id.toString() === normalized || machine.name.toLowerCase() === normalized);
+};
+
+/**
+ * Finds the machine an assignment reference points to
+ * @param machines - Machines of the same kind
+ * @param machineRef - Machine id or name stored on the assignment
+ * @returns The matching machine, if any
+ */
+export const findMachine = (machines: Machine[], machineRef: string): Machine | undefined => {
+  return machines.find(machine => matchesMachineRef(machine, machineRef));
+};
+
+/**
+ * Checks whether a machine can take new assignments
+ * @param machine - The machine
+ * @returns False while the machine is under maintenance or retired
+ */
+export const isMachineAvailable = (machine: { status?: MachineStatus }): boolean => {
+  return !machine.status || machine.status === 'Active';
+};
+
+/**
+ * Checks whether a load is more than a machine can take in one go
+ * Piece capacities are checked against the quantity, kg capacities against the load weight
+ * @param machine - The machine
+ * @param load - The assignment's quantity and, when weighed, its weight
+ * @returns 'over' when the load exceeds the capacity, 'unknownWeight' for an unweighed load on a kg-rated machine
+ *
+ * @example
+ * checkCapacity({ capacity: 100, capacityUnit: 'pcs', ... }, { quantity: 120 }) => 'over'
+ * checkCapacity({ capacity: 25, capacityUnit: 'kg', ... }, { quantity: 120 }) => 'unknownWeight'
+ */
+export const checkCapacity = (machine: Machine, load: { quantity: number; weightKg?: number | null }): CapacityCheck => {
+  if (!machine.capacity) return 'within';
+
+  if (machine.capacityUnit === 'kg') {
+    if (!load.weightKg) return 'unknownWeight';
+    return load.weightKg > machine.capacity ? 'over' : 'within';
+  }
+
+  return (Number(load.quantity) || 0) > machine.capacity ? 'over' : 'within';
+};
+
+/**
+ * Formats a machine's capacity for display
+ * @param machine - The machine
+ * @returns e.g. '120 pcs', '25 kg' or '-' when not set
+ */
+export const formatMachineCapacity = (machine: { capacity?: number | null; capacityUnit?: CapacityUnit }): string => {
+  return machine.capacity ? `${machine.capacity} ${machine.capacityUnit || 'pcs'}` : '-';
+};
+
+/**
+ * Groups open assignments into one lane per machine, in the order they were assigned
+ * @param machines - All machines
+ * @param assignments - Machine assignments (completed ones are ignored)
+ * @param kind - Which machines to build lanes for
+ * @returns Lanes for each machine of the kind that is not retired, plus assignments not booked on any of them
+ */
+export const buildMachineBoard = (
+  machines: Machine[],
+  assignments: MachineAssignment[],
+  kind: MachineKind
+): MachineBoard => {
+  const kindMachines = machines
+    .filter(machine => machine.type === kind && machine.status !== 'Retired')
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const openAssignments = assignments
+    .filter(isOpenAssignment)
+    .sort((a, b) => new Date(a.assignedAt).getTime() - new Date(b.assignedAt).getTime());
+
+  const byMachine = new Map<number, MachineAssignment[]>();
+  const unscheduled: MachineAssignment[] = [];
+
+  openAssignments.forEach(assignment => {
+    const machine = findMachine(kindMachines, getAssignmentMachineRef(assignment, kind));
+    if (!machine) {
+      unscheduled.push(assignment);
+      return;
+    }
+    byMachine.set(machine.id, [...(byMachine.get(machine.id) || []), assignment]);
+  });
+
+  const lanes = kindMachines.map(machine => {
+    const [current = null, ...queued] = byMachine.get(machine.id) || [];
+    return {
+      machine,
+      current,
+      queued,
+      totalQuantity: [current, ...queued].reduce((sum, assignment) => sum + (Number(assignment?.quantity) || 0), 0),
+    };
+  });
+
+  return { lanes, unscheduled };
+};
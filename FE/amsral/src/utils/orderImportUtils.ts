@@ -0,0 +1,359 @@
+/**
+ * Utility functions for importing orders from a customer's dispatch sheet (Excel workbook, CSV, or cells pasted from Excel)
+ */
+import type { CreateOrderRequest, CreateOrderRecordRequest, ProcessType, WashType } from '../services/orderService';
+
+export type ImportField =
+  | 'orderRef'
+  | 'customer'
+  | 'item'
+  | 'quantity'
+  | 'washType'
+  | 'processTypes'
+  | 'date'
+  | 'deliveryDate'
+  | 'gpNo'
+  | 'poNumber'
+  | 'style'
+  | 'colour'
+  | 'notes';
+
+export interface ImportFieldDefinition {
+  field: ImportField;
+  label: string;
+  required: boolean;
+  aliases: string[]; // Header names buyers commonly use for this column
+}
+
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { field: 'orderRef', label: 'Dispatch Ref', required: false, aliases: ['dispatch no', 'dispatch ref', 'order ref', 'order no', 'ref no', 'reference'] },
+  { field: 'customer', label: 'Customer', required: true, aliases: ['buyer', 'customer name', 'customer code', 'client'] },
+  { field: 'item', label: 'Item', required: true, aliases: ['item name', 'garment', 'product', 'description'] },
+  { field: 'quantity', label: 'Quantity', required: true, aliases: ['qty', 'pcs', 'pieces', 'quantity pcs'] },
+  { field: 'washType', label: 'Wash Type', required: true, aliases: ['wash', 'required wash', 'washing type'] },
+  { field: 'processTypes', label: 'Process Types', required: false, aliases: ['process', 'processes', 'process type'] },
+  { field: 'date', label: 'Order Date', required: false, aliases: ['date', 'dispatch date', 'sent date'] },
+  { field: 'deliveryDate', label: 'Delivery Date', required: false, aliases: ['delivery', 'required date', 'due date', 'return date'] },
+  { field: 'gpNo', label: 'GP No', required: false, aliases: ['gp', 'gate pass', 'gatepass no', 'gp number'] },
+  { field: 'poNumber', label: 'PO No', required: false, aliases: ['po', 'po number', 'purchase order', 'customer po'] },
+  { field: 'style', label: 'Style', required: false, aliases: ['style no', 'style number'] },
+  { field: 'colour', label: 'Colour', required: false, aliases: ['color', 'shade'] },
+  { field: 'notes', label: 'Notes', required: false, aliases: ['remarks', 'comments', 'instructions'] },
+];
+
+// Sheet column index for each field, when the field is mapped
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+// A system data entry a sheet value can be matched against, by any of its names
+export interface ImportLookupOption {
+  value: string;
+  names: string[];
+}
+
+export interface ImportLookups {
+  customers: ImportLookupOption[];
+  items: ImportLookupOption[];
+  washTypes: ImportLookupOption[];
+  processTypes: ImportLookupOption[];
+}
+
+export interface ImportPreviewRow {
+  rowNumber: number; // Line number in the sheet, counting the header as 1
+  orderKey: string;
+  customer: string;
+  item: string;
+  quantity: number;
+  washType: string;
+  processTypes: string[];
+  errors: string[];
+}
+
+export interface ImportPreview {
+  rows: ImportPreviewRow[];
+  orders: CreateOrderRequest[]; // Orders whose rows are all valid, ready to import
+  skippedOrderCount: number;
+}
+
+// Large sheets are better split than sent in one request
+export const MAX_IMPORT_ROWS = 500;
+
+/**
+ * Normalises a header or name for loose matching
+ * @param value - Raw text
+ * @returns Lowercase text with only letters and digits
+ *
+ * @example
+ * normalizeImportText('Style No.') => 'styleno'
+ */
+const normalizeImportText = (value: string): string => {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+};
+
+/**
+ * Splits CSV or tab-separated text into rows of cells
+ * Tabs are used when the first line has one (cells pasted from Excel), otherwise commas or semicolons
+ * @param text - The sheet text
+ * @returns Non-blank rows of trimmed cells
+ *
+ * @example
+ * parseDelimitedText('Buyer,Qty\n"Smith, J",120') => [['Buyer', 'Qty'], ['Smith, J', '120']]
+ */
+export const parseDelimitedText = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/)[0] || '';
+  const delimiter = firstLine.includes('\t')
+    ? '\t'
+    : (firstLine.split(';').length > firstLine.split(',').length ? ';' : ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell.trim());
+  rows.push(row);
+
+  return rows.filter(cells => cells.some(value => value !== ''));
+};
+
+/**
+ * Joins rows of cells into tab-separated text that parseDelimitedText reads back
+ * Cells holding a tab, line break or quote are quoted
+ * @param rows - Rows of cells, such as those read from a workbook
+ * @returns The sheet text
+ *
+ * @example
+ * formatDelimitedText([['Buyer', 'Qty'], ['Smith', '120']]) => 'Buyer\tQty\nSmith\t120'
+ */
+export const formatDelimitedText = (rows: string[][]): string => {
+  return rows
+    .map(cells => cells.map(cell => (/[\t\r\n"]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell)).join('\t'))
+    .join('\n');
+};
+
+/**
+ * Matches sheet headers to import fields by label or a common alias
+ * @param headers - The sheet's header row
+ * @returns Column index for each field that was recognised
+ */
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const normalizedHeaders = headers.map(normalizeImportText);
+
+  IMPORT_FIELDS.forEach(definition => {
+    const names = [definition.label, definition.field, ...definition.aliases].map(normalizeImportText);
+    const index = normalizedHeaders.findIndex(header => names.includes(header));
+    if (index !== -1 && !Object.values(mapping).includes(index)) {
+      mapping[definition.field] = index;
+    }
+  });
+
+  return mapping;
+};
+
+/**
+ * Finds the system data entry a sheet value names
+ * @param text - The sheet value
+ * @param options - Entries to match against
+ * @returns The entry's value, or undefined when nothing matches
+ */
+export const resolveImportOption = (text: string, options: ImportLookupOption[]): string | undefined => {
+  const normalized = normalizeImportText(text);
+  if (!normalized) return undefined;
+
+  return options.find(option => option.names.some(name => normalizeImportText(name) === normalized))?.value;
+};
+
+/**
+ * Reads a date the way buyers write them in dispatch sheets
+ * Accepts YYYY-MM-DD, DD/MM/YYYY (also with - or .) and Excel serial day numbers
+ * @param text - The sheet value
+ * @returns Date as YYYY-MM-DD, or null when it is not a valid date
+ *
+ * @example
+ * parseSheetDate('05/03/2025') => '2025-03-05'
+ */
+export const parseSheetDate = (text: string): string | null => {
+  const value = text.trim();
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const isoMatch = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const dayFirstMatch = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+
+  if (isoMatch) {
+    [year, month, day] = [Number(isoMatch[1]), Number(isoMatch[2]), Number(isoMatch[3])];
+  } else if (dayFirstMatch) {
+    [day, month, year] = [Number(dayFirstMatch[1]), Number(dayFirstMatch[2]), Number(dayFirstMatch[3])];
+    if (year < 100) year += 2000;
+  } else if (/^\d{5}$/.test(value)) {
+    // Excel counts days from 30 Dec 1899
+    const date = new Date(Date.UTC(1899, 11, 30) + Number(value) * 24 * 60 * 60 * 1000);
+    return date.toISOString().split('T')[0];
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().split('T')[0];
+};
+
+/**
+ * Checks the sheet rows and groups them into orders, one record per row
+ * Rows with the same dispatch ref, customer, item, dates, GP No and PO No become one order
+ * An order is skipped if any of its rows has an error, so no order is created short
+ * @param dataRows - Sheet rows below the header
+ * @param mapping - Column index for each field
+ * @param lookups - System data to resolve names against
+ * @param defaults - Dates used when the sheet has no date columns
+ * @returns Per-row results and the orders ready to import
+ */
+export const buildImportPreview = (
+  dataRows: string[][],
+  mapping: ColumnMapping,
+  lookups: ImportLookups,
+  defaults: { date: string; deliveryDate: string }
+): ImportPreview => {
+  const getCell = (cells: string[], field: ImportField): string => {
+    const index = mapping[field];
+    return index === undefined ? '' : (cells[index] || '').trim();
+  };
+
+  const groups = new Map<string, { order: CreateOrderRequest; noteParts: string[]; rows: ImportPreviewRow[] }>();
+
+  const rows = dataRows.map((cells, index) => {
+    const errors: string[] = [];
+    const customer = getCell(cells, 'customer');
+    const item = getCell(cells, 'item');
+    const washType = getCell(cells, 'washType');
+    const quantityText = getCell(cells, 'quantity').replace(/,/g, '');
+    const processTypes = getCell(cells, 'processTypes').split(/[,/+;&]/).map(name => name.trim()).filter(Boolean);
+
+    const customerId = resolveImportOption(customer, lookups.customers);
+    const itemId = resolveImportOption(item, lookups.items);
+    const washTypeId = resolveImportOption(washType, lookups.washTypes);
+    const processTypeIds = processTypes.map(name => resolveImportOption(name, lookups.processTypes));
+    const quantity = Number(quantityText);
+
+    if (!customer) errors.push('Customer is missing');
+    else if (!customerId) errors.push(`Unknown customer "${customer}"`);
+    if (!item) errors.push('Item is missing');
+    else if (!itemId) errors.push(`Unknown item "${item}"`);
+    if (!washType) errors.push('Wash type is missing');
+    else if (!washTypeId) errors.push(`Unknown wash type "${washType}"`);
+    processTypes.forEach((name, processIndex) => {
+      if (!processTypeIds[processIndex]) errors.push(`Unknown process type "${name}"`);
+    });
+    if (!quantityText || !Number.isInteger(quantity) || quantity <= 0) {
+      errors.push('Quantity must be a whole number greater than 0');
+    }
+
+    const dateText = getCell(cells, 'date');
+    const deliveryDateText = getCell(cells, 'deliveryDate');
+    const date = dateText ? parseSheetDate(dateText) : defaults.date;
+    const deliveryDate = deliveryDateText ? parseSheetDate(deliveryDateText) : defaults.deliveryDate;
+    if (!date) errors.push(`Order date "${dateText}" is not a date`);
+    if (!deliveryDate) errors.push(`Delivery date "${deliveryDateText}" is not a date`);
+    if (date && deliveryDate && deliveryDate < date) errors.push('Delivery date is before the order date');
+
+    const gpNo = getCell(cells, 'gpNo');
+    const poNumber = getCell(cells, 'poNumber');
+    const orderKey = [getCell(cells, 'orderRef'), customerId || customer, itemId || item, date, deliveryDate, gpNo, poNumber].join('|');
+
+    const row: ImportPreviewRow = {
+      rowNumber: index + 2,
+      orderKey,
+      customer,
+      item,
+      quantity: quantity || 0,
+      washType,
+      processTypes,
+      errors,
+    };
+
+    if (!groups.has(orderKey)) {
+      groups.set(orderKey, {
+        order: {
+          date: date || '',
+          customerId: customerId || '',
+          itemId: itemId || '',
+          gpNo: gpNo || undefined,
+          poNumber: poNumber || undefined,
+          deliveryDate: deliveryDate || '',
+          records: [],
+        },
+        noteParts: [],
+        rows: [],
+      });
+    }
+
+    const group = groups.get(orderKey)!;
+    group.rows.push(row);
+
+    const record: CreateOrderRecordRequest = {
+      quantity,
+      washType: washTypeId as WashType, // Type assertion for API compatibility
+      processTypes: processTypeIds as ProcessType[], // Type assertion for API compatibility
+      styleNo: getCell(cells, 'style') || undefined,
+      colour: getCell(cells, 'colour') || undefined,
+    };
+    group.order.records.push(record);
+
+    const notes = getCell(cells, 'notes');
+    if (notes && !group.noteParts.includes(notes)) group.noteParts.push(notes);
+
+    return row;
+  });
+
+  const orders: CreateOrderRequest[] = [];
+  let skippedOrderCount = 0;
+
+  groups.forEach(group => {
+    if (group.rows.some(row => row.errors.length > 0)) {
+      skippedOrderCount++;
+      group.rows
+        .filter(row => row.errors.length === 0)
+        .forEach(row => row.errors.push('Another row of this order has errors'));
+      return;
+    }
+
+    orders.push({
+      ...group.order,
+      quantity: group.order.records.reduce((total, record) => total + record.quantity, 0),
+      notes: group.noteParts.join('; ') || undefined,
+    });
+  });
+
+  return { rows, orders, skippedOrderCount };
+};
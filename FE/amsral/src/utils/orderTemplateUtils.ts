@@ -0,0 +1,62 @@
+/**
+ * Utility functions for order templates and repeating a past order
+ */
+import type { CreateOrderRecordRequest, ProcessType, WashType } from '../services/orderService';
+import type { OrderTemplateRecord } from '../services/orderTemplateService';
+import { isReworkRecord } from './reworkUtils';
+import { generateNextTrackingNumber } from './trackingNumberUtils';
+
+interface SourceRecord {
+  quantity: number;
+  washType: string;
+  processTypes: string[];
+  isRework?: boolean;
+}
+
+/**
+ * Takes the record breakdown of an existing order for a template or a repeat order
+ * Orders return wash and process names, so they are resolved back to ids; rework records are left out
+ * @param records - The existing order's records
+ * @param washTypeOptions - Washing types to resolve names against
+ * @param processTypeOptions - Process types to resolve names against
+ * @returns One template record per original record
+ */
+export const getTemplateRecordsFromOrder = (
+  records: SourceRecord[],
+  washTypeOptions: { value: string; name: string }[],
+  processTypeOptions: { value: string; label: string }[]
+): OrderTemplateRecord[] => {
+  return records
+    .filter(record => !isReworkRecord(record))
+    .map(record => ({
+      quantity: record.quantity,
+      washType: washTypeOptions.find(option => option.name === record.washType || option.value === record.washType)?.value || record.washType,
+      processTypes: record.processTypes.map(processType =>
+        processTypeOptions.find(option => option.label === processType || option.value === processType)?.value || processType
+      ),
+    }));
+};
+
+/**
+ * Gives each record of a new order its own tracking number
+ * @param orderId - The id the order is created with
+ * @param records - Records to create on the order
+ * @returns Record requests with tracking numbers A, B, C... for the order
+ *
+ * @example
+ * assignTrackingNumbers(42, [{ ... }, { ... }]) => [{ ..., trackingNumber: '42A' }, { ..., trackingNumber: '42B' }]
+ */
+export const assignTrackingNumbers = (orderId: number, records: OrderTemplateRecord[]): CreateOrderRecordRequest[] => {
+  const assigned: CreateOrderRecordRequest[] = [];
+
+  records.forEach(record => {
+    assigned.push({
+      quantity: record.quantity,
+      washType: record.washType as WashType, // Type assertion for API compatibility
+      processTypes: record.processTypes as ProcessType[], // Type assertion for API compatibility
+      trackingNumber: generateNextTrackingNumber(orderId, assigned),
+    });
+  });
+
+  return assigned;
+};
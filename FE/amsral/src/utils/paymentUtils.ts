@@ -0,0 +1,54 @@
+/**
+ * Utility functions for the per-invoice payment ledger
+ */
+import type { PaymentEntry, PaymentMethod } from '../services/billingService';
+
+export const PAYMENT_METHOD_OPTIONS: { value: PaymentMethod; label: string }[] = [
+  { value: 'cash', label: 'Cash' },
+  { value: 'cheque', label: 'Cheque' },
+  { value: 'bank_transfer', label: 'Bank Transfer' },
+];
+
+/**
+ * Gets the display label for a payment method
+ * @param method - Payment method
+ * @returns Label such as "Bank Transfer"
+ */
+export const getPaymentMethodLabel = (method: PaymentMethod | string): string => {
+  return PAYMENT_METHOD_OPTIONS.find(option => option.value === method)?.label || method;
+};
+
+/**
+ * Totals the payments recorded against an invoice
+ * @param payments - Payment ledger entries
+ * @returns Amount paid so far
+ */
+export const getPaidAmount = (payments: Pick<PaymentEntry, 'amount'>[]): number => {
+  return Math.round(payments.reduce((sum, payment) => sum + payment.amount, 0) * 100) / 100;
+};
+
+/**
+ * Works out what is still owed on an invoice from its payments
+ * @param invoiceTotal - Invoice total
+ * @param payments - Payment ledger entries
+ * @returns Balance due, never below 0
+ *
+ * @example
+ * getBalanceDue(1000, [{ amount: 400 }, { amount: 250 }]) => 350
+ */
+export const getBalanceDue = (invoiceTotal: number, payments: Pick<PaymentEntry, 'amount'>[]): number => {
+  return Math.max(0, Math.round((invoiceTotal - getPaidAmount(payments)) * 100) / 100);
+};
+
+/**
+ * Describes how a payment was made, including cheque details
+ * @param payment - Payment ledger entry
+ * @returns Description such as "Cheque 004512 - BOC"
+ */
+export const describePaymentMethod = (payment: Pick<PaymentEntry, 'method' | 'chequeNumber' | 'bank'>): string => {
+  const label = getPaymentMethodLabel(payment.method);
+  if (payment.method !== 'cheque') return label;
+
+  const details = [payment.chequeNumber, payment.bank].filter(Boolean).join(' - ');
+  return details ? `${label} ${details}` : label;
+};
@@ -1,6 +1,13 @@
-/* eslint-disable @typescript-eslint/no-unused-vars */
 import jsPDF from 'jspdf';
-import AL2Logo from '../assets/Images/AL2.jpg';
+import { drawCode128 } from './barcodeUtils';
+import { formatRecipeStep, type RecipeSection } from './recipeUtils';
+import { formatCurrency } from './currencyUtils';
+import {
+  createTemplateDocument,
+  drawFooterText,
+  drawLetterhead,
+  type DocumentSettings
+} from './documentTemplateUtils';
 
 export interface OrderReceiptData {
   orderId: number;
@@ -10,6 +17,16 @@ export interface OrderReceiptData {
   notes?: string;
   referenceNo?: string;
   deliveryDate?: string;
+  poNumber?: string; // Customer purchase order number
+  goodsReceipt?: GoodsReceiptPrintData; // Prints the receipt as a GRN for the customer's driver
+}
+
+// What was counted in when the customer's garments arrived
+export interface GoodsReceiptPrintData {
+  bagsReceived: number;
+  piecesCounted: number;
+  countedBy: string; // Employee name
+  deliveryNoteNo?: string; // Customer's delivery note number
 }
 
 export interface AssignmentReceiptData {
@@ -19,16 +36,19 @@ export interface AssignmentReceiptData {
   processTypes: string[];
   assignedTo: string;
   quantity: number;
+  recipe?: RecipeSection[];
 }
 
 export interface GatepassData {
   id: number;
+  gpNo: string;
   customerName: string;
   orderDate: string;
   totalQuantity: number;
   createdDate: string;
   referenceNo: string;
   deliveryDate: string;
+  vehicleNote?: string;
   status: string;
   notes: string | null;
   records: {
@@ -40,6 +60,7 @@ export interface GatepassData {
     itemId: string;
     status: string;
     trackingNumber: string;
+    deliveredQuantity: number;
     createdAt: string;
     updatedAt: string;
   }[];
@@ -53,7 +74,26 @@ export interface BagLabelData {
   quantity?: string;
 }
 
-export const generateOrderReceipt = (orderData: OrderReceiptData): void => {
+export interface PaymentReceiptData {
+  receiptNumber: string;
+  invoiceNumber: string;
+  customerName: string;
+  paymentDate: string;
+  amount: number;
+  method: string; // Already described, e.g. "Cheque 004512 - BOC"
+  reference?: string;
+  invoiceTotal: number;
+  paidToDate: number;
+  balanceDue: number;
+  currency?: string; // Invoice currency, LKR when not set
+}
+
+/**
+ * Generate a quarter A4 order receipt, or a goods receipt note when the intake counts are given
+ * @param orderData - Order to print
+ * @param settings - Company profile to name the receipt with
+ */
+export const generateOrderReceipt = (orderData: OrderReceiptData, settings: DocumentSettings): void => {
   // Create a new PDF document
   // A4 size: 210 x 297 mm, 1/4 size: 105 x 148.5 mm
   const doc = new jsPDF({
@@ -69,19 +109,23 @@ export const generateOrderReceipt = (orderData: OrderReceiptData): void => {
   const primaryColor = '#1e293b'; 
   const textColor = '#64748b';
   const lightGray = '#94a3b8'; 
+  const goodsReceipt = orderData.goodsReceipt;
 
-  // Header (no logo for internal use)
-  doc.setFontSize(16);
+  // Header - company name only, no logo on the small receipt
+  doc.setFontSize(10);
   doc.setFont('helvetica', 'bold');
   doc.setTextColor(primaryColor);
-  doc.text('ORDER RECEIPT', 52.5, 20, { align: 'center' });
+  doc.text(settings.profile.name, 52.5, 11, { align: 'center' });
+  doc.setFontSize(16);
+  doc.text(goodsReceipt ? 'GOODS RECEIPT NOTE' : 'ORDER RECEIPT', 52.5, 20, { align: 'center' });
 
   // Line separator
   doc.setDrawColor(lightGray);
   doc.line(10, 25, 95, 25);
 
-  // Order details with better spacing
+  // Order details with better spacing, tighter on a GRN so the signatures fit
   let yPosition = 35;
+  const rowSpacing = goodsReceipt ? 7 : 8;
 
   // Helper function to add a detail row with proper spacing
   const addDetailRow = (label: string, value: string, isBold = false) => {
@@ -92,13 +136,16 @@ export const generateOrderReceipt = (orderData: OrderReceiptData): void => {
     
     doc.setFont('helvetica', isBold ? 'bold' : 'normal');
     doc.text(value, 40, yPosition);
-    yPosition += 8; // Increased spacing between rows
+    yPosition += rowSpacing;
   };
 
   // Order details
   addDetailRow('Order ID', orderData.orderId.toString());
   addDetailRow('Customer', orderData.customerName);
-  addDetailRow('Quantity', orderData.totalQuantity.toString());
+  addDetailRow(goodsReceipt ? 'Declared' : 'Quantity', orderData.totalQuantity.toString());
+  if (orderData.poNumber) {
+    addDetailRow('PO No', orderData.poNumber);
+  }
   
   // Order Date
   const orderDate = new Date(orderData.orderDate).toLocaleDateString('en-US', {
@@ -108,8 +155,17 @@ export const generateOrderReceipt = (orderData: OrderReceiptData): void => {
   });
   addDetailRow('Order Date', orderDate);
 
-  // Notes (if provided)
-  if (orderData.notes && orderData.notes.trim()) {
+  if (goodsReceipt) {
+    if (goodsReceipt.deliveryNoteNo) {
+      addDetailRow('DN No', goodsReceipt.deliveryNoteNo);
+    }
+    addDetailRow('Bags', goodsReceipt.bagsReceived.toString());
+    addDetailRow('Pcs Counted', goodsReceipt.piecesCounted.toString(), true);
+    addDetailRow('Counted By', goodsReceipt.countedBy);
+  }
+
+  // Notes (if provided) - internal instructions, so left off the customer's GRN copy
+  if (!goodsReceipt && orderData.notes && orderData.notes.trim()) {
     yPosition += 3; // Extra space before notes
     doc.setFontSize(12);
     doc.setFont('helvetica', 'bold');
@@ -126,8 +182,25 @@ export const generateOrderReceipt = (orderData: OrderReceiptData): void => {
     yPosition += 6 + (notesLines.length * 4); // Adjust position based on number of lines
   }
 
+  // Order reference barcode for scanning at the station
+  yPosition = drawCode128(doc, orderData.orderId.toString(), 52.5, yPosition + 4, 70, goodsReceipt ? 8 : 10);
+
+  // Signatures for whoever counted the pieces and the customer's driver
+  if (goodsReceipt) {
+    const signatureY = yPosition + 9;
+    doc.setDrawColor(lightGray);
+    doc.line(10, signatureY, 45, signatureY);
+    doc.line(60, signatureY, 95, signatureY);
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(textColor);
+    doc.text('Counted By', 27.5, signatureY + 4, { align: 'center' });
+    doc.text('Delivered By (Driver)', 77.5, signatureY + 4, { align: 'center' });
+    yPosition = signatureY + 4;
+  }
+
   // Footer (no thank you message for internal use)
-  const footerY = Math.max(120, yPosition + 15); // Dynamic footer position
+  const footerY = goodsReceipt ? yPosition + 4 : Math.max(120, yPosition + 15); // Dynamic footer position
   doc.setDrawColor(lightGray);
   doc.line(10, footerY, 95, footerY);
   
@@ -145,15 +218,21 @@ export const generateOrderReceipt = (orderData: OrderReceiptData): void => {
   doc.text(`Printed: ${printTime}`, 52.5, footerY + 8, { align: 'center' });
 
   // Generate filename
-  const filename = `Order_${orderData.orderId}_Receipt.pdf`;
+  const filename = goodsReceipt ? `Order_${orderData.orderId}_GRN.pdf` : `Order_${orderData.orderId}_Receipt.pdf`;
 
   // Save the PDF
   doc.save(filename);
 };
 
-// Alternative function for regular A4 size (if needed)
-export const generateOrderReceiptA4 = (orderData: OrderReceiptData): void => {
-  const doc = new jsPDF();
+/**
+ * Generate a full page order receipt, or a goods receipt note when the intake counts are given
+ * @param orderData - Order to print
+ * @param settings - Company profile for the letterhead and template for the paper size and footer
+ */
+export const generateOrderReceiptA4 = (orderData: OrderReceiptData, settings: DocumentSettings): void => {
+  const goodsReceipt = orderData.goodsReceipt;
+  const doc = createTemplateDocument(settings.template);
+  const pageWidth = doc.internal.pageSize.getWidth();
   
   // Set font
   doc.setFont('helvetica');
@@ -163,38 +242,23 @@ export const generateOrderReceiptA4 = (orderData: OrderReceiptData): void => {
   const textColor = '#374151';
   const lightGray = '#9ca3af';
 
-  // Add company logo
-  try {
-    // Add logo at the top (80mm width, 60mm height) - increased size
-    doc.addImage(AL2Logo, 'JPEG', 65, 10, 80, 60); // Center the logo with larger size
-  } catch (error) {
-    console.warn('Could not load logo, using text fallback');
-    // Fallback to text if logo fails to load
-    doc.setFontSize(16);
-    doc.setFont('helvetica', 'bold');
-    doc.setTextColor(primaryColor);
-    doc.text('Amsral Laundry Service', 105, 30, { align: 'center' });
-  }
-
-  // Header
+  // Company letterhead, then the title
+  const headerY = drawLetterhead(doc, 20, 20, false, settings.profile);
   doc.setFontSize(20);
   doc.setFont('helvetica', 'bold');
   doc.setTextColor(primaryColor);
-  doc.text('ORDER RECEIPT', 105, 80, { align: 'center' });
+  doc.text(goodsReceipt ? 'GOODS RECEIPT NOTE' : 'ORDER RECEIPT', pageWidth / 2, headerY, { align: 'center' });
 
-  // Line separator
-  doc.setDrawColor(lightGray);
-  doc.line(20, 90, 190, 90);
-
-  // Order details with better spacing
-  const yPosition = 110;
+  // Order details with better spacing, tighter on a GRN so the signatures fit
+  const yPosition = headerY + (goodsReceipt ? 12 : 16);
+  const rowSpacing = goodsReceipt ? 10 : 14;
 
   // Order details in a more spacious layout
   const details = [
     { label: 'Order ID', value: orderData.orderId.toString() },
     { label: 'Reference Number', value: orderData.referenceNo || 'N/A' },
     { label: 'Customer Name', value: orderData.customerName },
-    { label: 'Total Quantity', value: orderData.totalQuantity.toString() },
+    { label: goodsReceipt ? 'Declared Quantity' : 'Total Quantity', value: orderData.totalQuantity.toString() },
     { label: 'Order Date', value: new Date(orderData.orderDate).toLocaleDateString('en-US', {
       year: 'numeric',
       month: 'long',
@@ -202,6 +266,10 @@ export const generateOrderReceiptA4 = (orderData: OrderReceiptData): void => {
     }) },
   ];
 
+  if (orderData.poNumber) {
+    details.push({ label: 'PO Number', value: orderData.poNumber });
+  }
+
   if (orderData.deliveryDate) {
     details.push({
       label: 'Delivery Date',
@@ -213,19 +281,48 @@ export const generateOrderReceiptA4 = (orderData: OrderReceiptData): void => {
     });
   }
 
+  if (goodsReceipt) {
+    if (goodsReceipt.deliveryNoteNo) {
+      details.push({ label: 'Delivery Note No', value: goodsReceipt.deliveryNoteNo });
+    }
+    details.push(
+      { label: 'Bags Received', value: goodsReceipt.bagsReceived.toString() },
+      { label: 'Pieces Counted', value: goodsReceipt.piecesCounted.toString() },
+      { label: 'Counted By', value: goodsReceipt.countedBy }
+    );
+  }
+
   details.forEach((detail, index) => {
     doc.setFontSize(12);
     doc.setFont('helvetica', 'bold');
     doc.setTextColor(textColor);
-    doc.text(`${detail.label}:`, 30, yPosition + (index * 18));
+    doc.text(`${detail.label}:`, 30, yPosition + (index * rowSpacing));
     
     doc.setFont('helvetica', 'normal');
-    doc.text(detail.value, 80, yPosition + (index * 18));
+    doc.text(detail.value, 80, yPosition + (index * rowSpacing));
   });
 
-  // Notes section
-  if (orderData.notes && orderData.notes.trim()) {
-    const notesY = yPosition + (details.length * 18) + 20;
+  // Content below the details flows from the last row, so a long GRN cannot run into the signatures
+  const lastRowY = yPosition + (details.length - 1) * rowSpacing;
+  let contentY = lastRowY;
+
+  // Signatures for whoever counted the pieces and the customer's driver
+  if (goodsReceipt) {
+    const signatureY = Math.max(215, lastRowY + 15);
+    doc.setDrawColor(lightGray);
+    doc.line(30, signatureY, 80, signatureY);
+    doc.line(130, signatureY, 180, signatureY);
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(textColor);
+    doc.text('Counted By', 55, signatureY + 6, { align: 'center' });
+    doc.text('Delivered By (Driver)', 155, signatureY + 6, { align: 'center' });
+    contentY = signatureY + 2;
+  }
+
+  // Notes section - internal instructions, so left off the customer's GRN copy
+  if (!goodsReceipt && orderData.notes && orderData.notes.trim()) {
+    const notesY = lastRowY + rowSpacing + 20;
     doc.setFontSize(12);
     doc.setFont('helvetica', 'bold');
     doc.text('Notes:', 30, notesY);
@@ -234,16 +331,27 @@ export const generateOrderReceiptA4 = (orderData: OrderReceiptData): void => {
     doc.setFontSize(10);
     const notesLines = doc.splitTextToSize(orderData.notes, 150);
     doc.text(notesLines, 30, notesY + 10);
+    contentY = notesY + 10 + notesLines.length * 4;
   }
 
+  // Order reference barcode above the footer
+  const barcodeBottom = drawCode128(
+    doc,
+    orderData.orderId.toString(),
+    pageWidth / 2,
+    Math.max(goodsReceipt ? 227 : 225, contentY + 10),
+    80,
+    goodsReceipt ? 10 : 12
+  );
+
   // Footer
-  const footerY = 250;
+  const footerY = Math.max(250, barcodeBottom + 8);
   doc.setDrawColor(lightGray);
-  doc.line(20, footerY, 190, footerY);
+  doc.line(20, footerY, pageWidth - 20, footerY);
   
   doc.setFontSize(10);
   doc.setTextColor(lightGray);
-  doc.text('Thank you!', 105, footerY + 10, { align: 'center' });
+  doc.text('Thank you!', pageWidth / 2, footerY + 8, { align: 'center' });
   
   const now = new Date();
   const printTime = now.toLocaleString('en-US', {
@@ -253,16 +361,23 @@ export const generateOrderReceiptA4 = (orderData: OrderReceiptData): void => {
     hour: '2-digit',
     minute: '2-digit'
   });
-  doc.text(`Printed: ${printTime}`, 105, footerY + 20, { align: 'center' });
+  // Kept clear of the template footer text, which sits 8 mm from the bottom of a Letter page too
+  doc.text(`Printed: ${printTime}`, pageWidth / 2, footerY + 15, { align: 'center' });
+  drawFooterText(doc, settings.template);
 
   // Generate filename
-  const filename = `Order_${orderData.referenceNo || orderData.orderId}_Receipt_A4.pdf`;
+  const filename = `Order_${orderData.referenceNo || orderData.orderId}_${goodsReceipt ? 'GRN' : 'Receipt'}_A4.pdf`;
 
   // Save the PDF
   doc.save(filename);
 };
 
-export const generateAssignmentReceipt = (assignmentData: AssignmentReceiptData): void => {
+/**
+ * Generate the machine assignment receipt, with the recipe on the following pages
+ * @param assignmentData - Assignment to print
+ * @param settings - Company profile to name the receipt with
+ */
+export const generateAssignmentReceipt = (assignmentData: AssignmentReceiptData, settings: DocumentSettings): void => {
   // Create a new PDF document - Use smaller format for larger text
   const doc = new jsPDF({
     orientation: 'landscape',
@@ -291,8 +406,11 @@ export const generateAssignmentReceipt = (assignmentData: AssignmentReceiptData)
   doc.setLineWidth(1);
   doc.line(10, 25, pageWidth - 10, 25);
 
+  // Tracking number barcode
+  drawCode128(doc, assignmentData.trackingNumber, pageWidth / 2, 28, 90);
+
   // Assignment details with LARGE text and better spacing
-  let yPosition = 40;
+  let yPosition = 50;
 
   // Helper function to add a detail row with LARGE fonts
   const addDetailRow = (label: string, value: string | number | undefined | null, isBold = false) => {
@@ -344,7 +462,47 @@ export const generateAssignmentReceipt = (assignmentData: AssignmentReceiptData)
   });
   doc.setFontSize(10);
   doc.setTextColor(lightGray);
-  doc.text(`Printed: ${printTime}`, pageWidth / 2, footerY, { align: 'center' });
+  doc.text(`${settings.profile.name} - Printed: ${printTime}`, pageWidth / 2, footerY, { align: 'center' });
+
+  // Recipe on its own page so the operator has the full machine instructions
+  if (assignmentData.recipe && assignmentData.recipe.length > 0) {
+    doc.addPage();
+    let recipeY = 15;
+
+    doc.setFontSize(16);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(primaryColor);
+    doc.text(`RECIPE - ${assignmentData.trackingNumber}`, pageWidth / 2, recipeY, { align: 'center' });
+    recipeY += 10;
+
+    assignmentData.recipe.forEach(section => {
+      if (recipeY > pageHeight - 15) {
+        doc.addPage();
+        recipeY = 15;
+      }
+      doc.setFontSize(13);
+      doc.setFont('helvetica', 'bold');
+      doc.text(section.title, 10, recipeY);
+      recipeY += 7;
+
+      doc.setFontSize(11);
+      doc.setFont('helvetica', 'normal');
+      section.steps.forEach((step, index) => {
+        // Long steps wrap onto as many lines as they need, breaking the page between lines
+        const stepLines: string[] = doc.splitTextToSize(formatRecipeStep(step, index), pageWidth - 24);
+        stepLines.forEach(line => {
+          if (recipeY > pageHeight - 10) {
+            doc.addPage();
+            recipeY = 15;
+          }
+          doc.text(line, 14, recipeY);
+          recipeY += 5;
+        });
+        recipeY += 1;
+      });
+      recipeY += 4;
+    });
+  }
 
   // Generate filename with timestamp to avoid caching
   const timestamp = new Date().getTime();
@@ -366,14 +524,13 @@ export const generateAssignmentReceipt = (assignmentData: AssignmentReceiptData)
   setTimeout(() => URL.revokeObjectURL(pdfUrl), 1000);
 };
 
-export const generateGatepass = (gatepassData: GatepassData): void => {
-  // Create a new PDF document
-  // A4 size: 210 x 297 mm
-  const doc = new jsPDF({
-    orientation: 'portrait',
-    unit: 'mm',
-    format: 'a4'
-  });
+export const generateGatepass = (gatepassData: GatepassData, settings: DocumentSettings): void => {
+  // Create a new PDF document on the template paper size, laid out from its page size
+  const doc = createTemplateDocument(settings.template);
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 30;
+  const contentWidth = pageWidth - 2 * margin;
 
   // Set font
   doc.setFont('helvetica');
@@ -384,32 +541,30 @@ export const generateGatepass = (gatepassData: GatepassData): void => {
   const lightGray = '#94a3b8'; 
   const borderColor = '#e2e8f0';
 
-  // Header
+  // Company letterhead, then the title
+  const headerY = drawLetterhead(doc, 20, 20, false, settings.profile);
   doc.setFontSize(20);
   doc.setFont('helvetica', 'bold');
   doc.setTextColor(primaryColor);
-  doc.text('GATEPASS', 105, 30, { align: 'center' });
-
-  // Line separator
-  doc.setDrawColor(lightGray);
-  doc.line(20, 40, 190, 40);
+  doc.text('GATEPASS', pageWidth / 2, headerY, { align: 'center' });
 
   // Order details section
-  let yPosition = 60;
+  let yPosition = headerY + 15;
 
   // Helper function to add a detail row
   const addDetailRow = (label: string, value: string, isBold = false) => {
     doc.setFontSize(12);
     doc.setFont('helvetica', 'bold');
     doc.setTextColor(textColor);
-    doc.text(`${label}:`, 30, yPosition);
+    doc.text(`${label}:`, margin, yPosition);
     
     doc.setFont('helvetica', isBold ? 'bold' : 'normal');
-    doc.text(value, 80, yPosition);
+    doc.text(value, margin + 50, yPosition);
     yPosition += 8;
   };
 
   // Order basic details
+  addDetailRow('Gate Pass No', gatepassData.gpNo, true);
   addDetailRow('Reference No', gatepassData.id.toString(), true);
   addDetailRow('Customer Name', gatepassData.customerName, true);
   addDetailRow('Order Date', new Date(gatepassData.createdDate).toLocaleDateString('en-US', {
@@ -417,7 +572,19 @@ export const generateGatepass = (gatepassData: GatepassData): void => {
     month: 'long',
     day: 'numeric'
   }));
+  if (gatepassData.deliveryDate) {
+    addDetailRow('Delivery Date', new Date(gatepassData.deliveryDate).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    }));
+  }
+  if (gatepassData.vehicleNote) {
+    addDetailRow('Vehicle / Driver', gatepassData.vehicleNote);
+  }
   addDetailRow('Total Quantity', gatepassData.totalQuantity.toString(), true);
+  const totalDelivered = gatepassData.records.reduce((sum, record) => sum + record.deliveredQuantity, 0);
+  addDetailRow('Delivered Quantity', totalDelivered.toString(), true);
 
   // Add some space before records section
   yPosition += 15;
@@ -426,25 +593,26 @@ export const generateGatepass = (gatepassData: GatepassData): void => {
   doc.setFontSize(14);
   doc.setFont('helvetica', 'bold');
   doc.setTextColor(primaryColor);
-  doc.text('ORDER RECORDS', 30, yPosition);
+  doc.text('DELIVERED RECORDS', margin, yPosition);
   yPosition += 10;
 
   // Table headers
   const tableStartY = yPosition;
-  const tableWidth = 160;
-  const colWidths = [20, 30, 25, 35, 25, 25]; // Quantity, Wash Type, Process Types, Item Name, Item ID, Tracking
-  let currentX = 30;
+  const tableWidth = contentWidth;
+  // Tracking, Item Name, Wash Type, Process Types, Quantity, Delivered; scaled to the page width
+  const colWidths = [25, 35, 25, 35, 20, 20].map(width => width * tableWidth / 160);
+  let currentX = margin;
 
   // Draw table header background
   doc.setFillColor(240, 240, 240);
-  doc.rect(30, tableStartY - 5, tableWidth, 10, 'F');
+  doc.rect(margin, tableStartY - 5, tableWidth, 10, 'F');
 
   // Table headers
   doc.setFontSize(10);
   doc.setFont('helvetica', 'bold');
   doc.setTextColor(primaryColor);
   
-  const headers = ['Qty', 'Wash Type', 'Process Types', 'Item', 'Item ID', 'Tracking'];
+  const headers = ['Tracking', 'Item', 'Wash Type', 'Process Types', 'Qty', 'Delivered'];
   headers.forEach((header, index) => {
     doc.text(header, currentX + 2, tableStartY + 2);
     currentX += colWidths[index];
@@ -452,7 +620,7 @@ export const generateGatepass = (gatepassData: GatepassData): void => {
 
   // Draw header border
   doc.setDrawColor(borderColor);
-  doc.rect(30, tableStartY - 5, tableWidth, 10);
+  doc.rect(margin, tableStartY - 5, tableWidth, 10);
 
   yPosition = tableStartY + 10;
 
@@ -463,26 +631,26 @@ export const generateGatepass = (gatepassData: GatepassData): void => {
     // Alternate row background
     if (index % 2 === 0) {
       doc.setFillColor(250, 250, 250);
-      doc.rect(30, rowY - 2, tableWidth, 12, 'F');
+      doc.rect(margin, rowY - 2, tableWidth, 12, 'F');
     }
 
     // Draw row border
     doc.setDrawColor(borderColor);
-    doc.rect(30, rowY - 2, tableWidth, 12);
+    doc.rect(margin, rowY - 2, tableWidth, 12);
 
     // Record data
     doc.setFontSize(9);
     doc.setFont('helvetica', 'normal');
     doc.setTextColor(textColor);
 
-    currentX = 30;
+    currentX = margin;
     const rowData = [
-      record.quantity.toString(),
+      record.trackingNumber,
+      record.itemName,
       record.washType,
       record.processTypes ? record.processTypes.join(', ') : 'None',
-      record.itemName,
-      record.itemId,
-      record.trackingNumber
+      record.quantity.toString(),
+      record.deliveredQuantity.toString()
     ];
 
     rowData.forEach((data, colIndex) => {
@@ -502,19 +670,38 @@ export const generateGatepass = (gatepassData: GatepassData): void => {
     doc.setFontSize(12);
     doc.setFont('helvetica', 'bold');
     doc.setTextColor(textColor);
-    doc.text('Notes:', 30, yPosition);
+    doc.text('Notes:', margin, yPosition);
     
     doc.setFont('helvetica', 'normal');
     doc.setFontSize(10);
-    const notesLines = doc.splitTextToSize(gatepassData.notes, 150);
-    doc.text(notesLines, 30, yPosition + 8);
+    const notesLines = doc.splitTextToSize(gatepassData.notes, contentWidth - 10);
+    doc.text(notesLines, margin, yPosition + 8);
     yPosition += 8 + (notesLines.length * 4);
   }
 
+  // Signatures for the driver and the security gate, near the foot of the page or on a new one
+  const signatureTop = pageHeight - 72;
+  if (yPosition + 10 > signatureTop) {
+    doc.addPage();
+    yPosition = 20;
+  }
+  const signatureY = Math.max(signatureTop, yPosition + 10);
+  const signatureWidth = 50;
+  const rightSignatureX = pageWidth - margin - signatureWidth;
+  doc.setDrawColor(lightGray);
+  doc.line(margin, signatureY, margin + signatureWidth, signatureY);
+  doc.line(rightSignatureX, signatureY, rightSignatureX + signatureWidth, signatureY);
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(textColor);
+  doc.text('Issued By', margin + signatureWidth / 2, signatureY + 6, { align: 'center' });
+  doc.text('Received By (Driver)', rightSignatureX + signatureWidth / 2, signatureY + 6, { align: 'center' });
+  yPosition = signatureY + 6;
+
   // Footer
-  const footerY = Math.max(250, yPosition + 30);
+  const footerY = Math.max(pageHeight - 47, yPosition + 15);
   doc.setDrawColor(lightGray);
-  doc.line(20, footerY, 190, footerY);
+  doc.line(20, footerY, pageWidth - 20, footerY);
   
   // Print date and time
   const now = new Date();
@@ -527,16 +714,22 @@ export const generateGatepass = (gatepassData: GatepassData): void => {
   });
   doc.setFontSize(10);
   doc.setTextColor(lightGray);
-  doc.text(`Printed: ${printTime}`, 105, footerY + 10, { align: 'center' });
+  doc.text(`Printed: ${printTime}`, pageWidth / 2, footerY + 10, { align: 'center' });
+  drawFooterText(doc, settings.template);
 
   // Generate filename
-  const filename = `Gatepass_${gatepassData.referenceNo}.pdf`;
+  const filename = `Gatepass_${gatepassData.gpNo}_${gatepassData.id}.pdf`;
 
   // Save the PDF
   doc.save(filename);
 };
 
-export const generateBagLabel = (bagData: BagLabelData): void => {
+/**
+ * Generate a bag label and open it for printing
+ * @param bagData - Bag to label
+ * @param settings - Company profile to name the label with
+ */
+export const generateBagLabel = (bagData: BagLabelData, settings: DocumentSettings): void => {
   // Create a new PDF document - Use even smaller format to force larger text
   const doc = new jsPDF({
     orientation: 'portrait', // Changed to portrait for better text scaling
@@ -566,8 +759,11 @@ export const generateBagLabel = (bagData: BagLabelData): void => {
   doc.setLineWidth(0.8);
   doc.line(5, 20, pageWidth - 5, 20);
 
+  // Order reference barcode
+  drawCode128(doc, bagData.orderId.toString(), pageWidth / 2, 23, 60, 9);
+
   // Bag details with MASSIVE text
-  let yPosition = 30;
+  let yPosition = 42;
 
   // Helper function with EXTREME font size differences
   const addDetailRow = (label: string, value: string) => {
@@ -606,7 +802,12 @@ export const generateBagLabel = (bagData: BagLabelData): void => {
     hour: '2-digit',
     minute: '2-digit'
   });
+  doc.setFontSize(7);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(textColor);
+  doc.text(settings.profile.name, pageWidth / 2, footerY - 4, { align: 'center' });
   doc.setFontSize(6);
+  doc.setFont('helvetica', 'normal');
   doc.setTextColor(lightGray);
   doc.text(`Printed: ${printTime}`, pageWidth / 2, footerY, { align: 'center' });
 
@@ -633,13 +834,17 @@ export const generateBagLabel = (bagData: BagLabelData): void => {
   setTimeout(() => URL.revokeObjectURL(pdfUrl), 1000);
 };
 
-// Alternative version with even larger text for thermal printers
-export const generateBagLabelThermal = (bagData: BagLabelData): void => {
+/**
+ * Generate a bag label with larger text for thermal printers
+ * @param bagData - Bag to label
+ * @param settings - Company profile to name the label with
+ */
+export const generateBagLabelThermal = (bagData: BagLabelData, settings: DocumentSettings): void => {
   // Create thermal printer format (80mm width)
   const doc = new jsPDF({
     orientation: 'portrait',
     unit: 'mm',
-    format: [80, 120] // Thermal printer size
+    format: [80, 135] // Thermal printer size
   });
 
   doc.setFont('helvetica');
@@ -654,7 +859,10 @@ export const generateBagLabelThermal = (bagData: BagLabelData): void => {
   doc.setLineWidth(0.5);
   doc.line(5, 20, pageWidth - 5, 20);
 
-  let yPosition = 30;
+  // Order reference barcode
+  drawCode128(doc, bagData.orderId.toString(), pageWidth / 2, 23, 60, 9);
+
+  let yPosition = 42;
 
   // Very large text for thermal printing
   const addThermalRow = (label: string, value: string) => {
@@ -675,6 +883,9 @@ export const generateBagLabelThermal = (bagData: BagLabelData): void => {
   addThermalRow('Quantity:', bagData.quantity || '');
 
   // Footer
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'bold');
+  doc.text(settings.profile.name, pageWidth / 2, yPosition + 4, { align: 'center' });
   doc.setFontSize(8);
   doc.setFont('helvetica', 'normal');
   const now = new Date();
@@ -686,3 +897,82 @@ export const generateBagLabelThermal = (bagData: BagLabelData): void => {
   const filename = `Thermal_Bag_${bagData.orderId}_${timestamp}.pdf`;
   doc.save(filename);
 };
+
+// Payment receipt handed to the customer, 1/4 A4 like the order receipt
+export const generatePaymentReceipt = (receiptData: PaymentReceiptData, settings: DocumentSettings): void => {
+  const doc = new jsPDF({
+    orientation: 'portrait',
+    unit: 'mm',
+    format: [105, 148.5] // 1/4 A4 size
+  });
+
+  doc.setFont('helvetica');
+
+  const primaryColor = '#1e293b';
+  const textColor = '#64748b';
+  const lightGray = '#94a3b8';
+
+  // Header
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(primaryColor);
+  doc.text(settings.profile.name, 52.5, 14, { align: 'center' });
+  doc.setFontSize(16);
+  doc.text('PAYMENT RECEIPT', 52.5, 23, { align: 'center' });
+
+  doc.setDrawColor(lightGray);
+  doc.line(10, 28, 95, 28);
+
+  let yPosition = 37;
+
+  const addDetailRow = (label: string, value: string, isBold = false) => {
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(textColor);
+    doc.text(`${label}:`, 10, yPosition);
+
+    doc.setFont('helvetica', isBold ? 'bold' : 'normal');
+    doc.setTextColor(isBold ? primaryColor : textColor);
+    const lines = doc.splitTextToSize(value, 53);
+    doc.text(lines, 42, yPosition);
+    yPosition += 7 + (lines.length - 1) * 4;
+  };
+
+  addDetailRow('Receipt No', receiptData.receiptNumber);
+  addDetailRow('Date', new Date(receiptData.paymentDate).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  }));
+  addDetailRow('Customer', receiptData.customerName);
+  addDetailRow('Invoice No', receiptData.invoiceNumber);
+  addDetailRow('Method', receiptData.method);
+  if (receiptData.reference) {
+    addDetailRow('Reference', receiptData.reference);
+  }
+
+  yPosition += 2;
+  doc.setDrawColor(lightGray);
+  doc.line(10, yPosition - 4, 95, yPosition - 4);
+  yPosition += 2;
+
+  addDetailRow('Amount Paid', formatCurrency(receiptData.amount, receiptData.currency), true);
+  addDetailRow('Invoice Total', formatCurrency(receiptData.invoiceTotal, receiptData.currency));
+  addDetailRow('Paid To Date', formatCurrency(receiptData.paidToDate, receiptData.currency));
+  addDetailRow('Balance Due', formatCurrency(receiptData.balanceDue, receiptData.currency), true);
+
+  // Footer
+  const footerY = Math.max(125, yPosition + 10);
+  doc.setDrawColor(lightGray);
+  doc.line(10, footerY - 12, 40, footerY - 12);
+  doc.setFontSize(8);
+  doc.setTextColor(textColor);
+  doc.text('Received by', 10, footerY - 8);
+
+  doc.line(10, footerY, 95, footerY);
+  doc.setTextColor(lightGray);
+  doc.text(`Printed: ${new Date().toLocaleString()}`, 52.5, footerY + 6, { align: 'center' });
+  drawFooterText(doc, settings.template);
+
+  doc.save(`Payment_Receipt_${receiptData.receiptNumber}.pdf`);
+};
@@ -0,0 +1,158 @@
+/**
+ * Utility functions for customer and default price lists
+ */
+import type { PriceListEntry } from '../services/priceListService';
+import { BASE_CURRENCY, isForeignCurrency } from './currencyUtils';
+
+export type PriceSource = 'last' | 'customer' | 'default';
+
+export interface PricedRecord {
+  itemId?: string;
+  itemName?: string;
+  washType: string;
+  processTypes: string[];
+}
+
+export interface ResolvedPrice {
+  unitPrice: number;
+  source: PriceSource;
+  currency: string; // Currency the price is in
+}
+
+const normalize = (value: string | number | undefined | null): string => {
+  return (value ?? '').toString().trim().toLowerCase();
+};
+
+// Records carry ids or names depending on the endpoint, so entries match on either
+const matchesValue = (recordValue: string | undefined, id: string, name?: string): boolean => {
+  const value = normalize(recordValue);
+  return !!value && (value === normalize(id) || value === normalize(name));
+};
+
+const matchesProcessTypes = (record: PricedRecord, entry: PriceListEntry): boolean => {
+  const recordProcesses = record.processTypes || [];
+  if (recordProcesses.length !== entry.processTypeIds.length) return false;
+
+  return entry.processTypeIds.every((id, index) =>
+    recordProcesses.some(process => matchesValue(process, id, entry.processTypeNames?.[index]))
+  );
+};
+
+/**
+ * Finds the price list entry for a record's item, wash type and process types
+ * Process types match regardless of order
+ * @param record - The record to price
+ * @param entries - Price list entries
+ * @returns The matching entry, or undefined
+ *
+ * @example
+ * findPriceListEntry({ itemId: '3', washType: 'Enzyme', processTypes: ['Tint'] }, entries)
+ */
+export const findPriceListEntry = (record: PricedRecord, entries: PriceListEntry[]): PriceListEntry | undefined => {
+  return entries.find(entry =>
+    (matchesValue(record.itemId, entry.itemId) || matchesValue(record.itemName, entry.itemId, entry.itemName)) &&
+    matchesValue(record.washType, entry.washTypeId, entry.washTypeName) &&
+    matchesProcessTypes(record, entry)
+  );
+};
+
+/**
+ * Resolves a record's unit price from the customer's price list, falling back to the default list
+ * @param record - The record to price
+ * @param customerEntries - The customer's price list entries
+ * @param defaultEntries - The default price list entries
+ * @returns The price and which list it came from, or null when neither list has one
+ *
+ * @example
+ * resolveUnitPrice(record, [], [{ ...entry, unitPrice: 45 }]) => { unitPrice: 45, source: 'default', currency: 'LKR' }
+ */
+export const resolveUnitPrice = (
+  record: PricedRecord,
+  customerEntries: PriceListEntry[],
+  defaultEntries: PriceListEntry[]
+): ResolvedPrice | null => {
+  const customerEntry = findPriceListEntry(record, customerEntries);
+  if (customerEntry) return { unitPrice: customerEntry.unitPrice, source: 'customer', currency: customerEntry.currency || BASE_CURRENCY };
+
+  const defaultEntry = findPriceListEntry(record, defaultEntries);
+  if (defaultEntry) return { unitPrice: defaultEntry.unitPrice, source: 'default', currency: defaultEntry.currency || BASE_CURRENCY };
+
+  return null;
+};
+
+/**
+ * Resolves a record's unit price from what the customer was last invoiced, falling back to the price lists
+ * @param record - The record to price
+ * @param lastUsedEntries - The customer's last invoiced prices
+ * @param customerEntries - The customer's price list entries
+ * @param defaultEntries - The default price list entries
+ * @returns The price and where it came from, or null when nothing matches
+ *
+ * @example
+ * resolveLastUsedPrice(record, [{ ...entry, unitPrice: 42 }], [], []) => { unitPrice: 42, source: 'last', currency: 'LKR' }
+ */
+export const resolveLastUsedPrice = (
+  record: PricedRecord,
+  lastUsedEntries: PriceListEntry[],
+  customerEntries: PriceListEntry[],
+  defaultEntries: PriceListEntry[]
+): ResolvedPrice | null => {
+  const lastUsedEntry = findPriceListEntry(record, lastUsedEntries);
+  if (lastUsedEntry) return { unitPrice: lastUsedEntry.unitPrice, source: 'last', currency: lastUsedEntry.currency || BASE_CURRENCY };
+
+  return resolveUnitPrice(record, customerEntries, defaultEntries);
+};
+
+/**
+ * Converts a resolved price into the currency of the invoice it is filling in
+ * LKR prices are converted at the invoice's exchange rate; prices in another foreign currency are not used
+ * @param price - The resolved price
+ * @param currency - Invoice currency
+ * @param exchangeRate - LKR per unit of the invoice currency, 0 when not known yet
+ * @returns The price in the invoice currency, or null when it can't be converted
+ *
+ * @example
+ * toInvoiceCurrency({ unitPrice: 300, source: 'default', currency: 'LKR' }, 'USD', 300) => { unitPrice: 1, source: 'default', currency: 'USD' }
+ */
+export const toInvoiceCurrency = (price: ResolvedPrice | null, currency: string, exchangeRate: number): ResolvedPrice | null => {
+  if (!price || price.currency === currency) return price;
+  if (isForeignCurrency(price.currency) || exchangeRate <= 0) return null;
+
+  return { ...price, unitPrice: Math.round((price.unitPrice / exchangeRate) * 100) / 100, currency };
+};
+
+/**
+ * Gets the display label for where a price came from
+ * @param source - Price source
+ * @returns Label such as "Customer price"
+ */
+export const getPriceSourceLabel = (source: PriceSource): string => {
+  switch (source) {
+    case 'last':
+      return 'Last used price';
+    case 'customer':
+      return 'Customer price';
+    default:
+      return 'Default price';
+  }
+};
+
+/**
+ * Checks whether an operator changed a price that came from a price list
+ * @param unitPrice - The price on the invoice
+ * @param listPrice - The price list price, if there was one
+ * @returns True when the invoice price differs from the list price
+ */
+export const isPriceOverridden = (unitPrice: number, listPrice?: ResolvedPrice | null): boolean => {
+  return !!listPrice && Math.abs(unitPrice - listPrice.unitPrice) > 0.001;
+};
+
+/**
+ * Builds a key that identifies an item, wash type and process type combination
+ * Used to stop the same combination being priced twice in one list
+ * @param entry - Price list entry
+ * @returns The combination key
+ */
+export const getPriceListEntryKey = (entry: Pick<PriceListEntry, 'itemId' | 'washTypeId' | 'processTypeIds'>): string => {
+  return [entry.itemId, entry.washTypeId, [...entry.processTypeIds].sort().join('+')].join('|');
+};
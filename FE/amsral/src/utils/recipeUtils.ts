@@ -0,0 +1,93 @@
+/**
+ * Utility functions for wash recipes on washing/process types and assignment receipts
+ */
+import type { WashRecipeStep } from '../services/washingTypeService';
+
+export interface RecipeSection {
+  title: string; // Washing or process type name
+  steps: WashRecipeStep[];
+}
+
+interface RecipeType {
+  id: string | number;
+  name: string;
+  code: string;
+  recipe?: WashRecipeStep[];
+}
+
+// Records may reference a type by id, code or name depending on where they were created
+const matchesType = (value: string, type: RecipeType): boolean => {
+  const normalized = value.trim().toLowerCase();
+  return [type.id, type.code, type.name].some(candidate => String(candidate).toLowerCase() === normalized);
+};
+
+/**
+ * Creates a blank recipe step for the recipe editor
+ * @returns Recipe step with no chemical and zeroed settings
+ */
+export const emptyRecipeStep = (): WashRecipeStep => ({
+  chemical: '',
+  dosagePerKg: 0,
+  temperature: 0,
+  durationMinutes: 0,
+  rpm: 0,
+});
+
+/**
+ * Validates recipe steps, keyed so errors can be shown next to the field
+ * @param steps - The recipe steps being edited
+ * @returns Errors keyed by step and field
+ *
+ * @example
+ * validateRecipeSteps([{ chemical: '', dosagePerKg: 5, temperature: 45, durationMinutes: 30, rpm: 35 }])
+ * => { step_0_chemical: 'Chemical is required' }
+ */
+export const validateRecipeSteps = (steps: WashRecipeStep[]): { [key: string]: string } => {
+  const errors: { [key: string]: string } = {};
+  steps.forEach((step, index) => {
+    if (!step.chemical.trim()) errors[`step_${index}_chemical`] = 'Chemical is required';
+    if (step.dosagePerKg < 0) errors[`step_${index}_dosagePerKg`] = 'Cannot be negative';
+    if (step.temperature < 0 || step.temperature > 100) errors[`step_${index}_temperature`] = '0-100 °C';
+    if (step.durationMinutes <= 0) errors[`step_${index}_durationMinutes`] = 'Required';
+    if (step.rpm < 0) errors[`step_${index}_rpm`] = 'Cannot be negative';
+  });
+  return errors;
+};
+
+/**
+ * Collects the recipes for a record's wash type followed by each of its process types
+ * @param washType - The record's wash type
+ * @param processTypes - The record's process types
+ * @param washingTypes - All washing types with their recipes
+ * @param processTypeList - All process types with their recipes
+ * @returns One section per type that has a recipe, in the order they are run
+ */
+export const getRecordRecipe = (
+  washType: string | undefined,
+  processTypes: string[] | undefined,
+  washingTypes: RecipeType[],
+  processTypeList: RecipeType[]
+): RecipeSection[] => {
+  const types = [
+    washType ? washingTypes.find(type => matchesType(washType, type)) : undefined,
+    ...(processTypes || []).map(processType => processTypeList.find(type => matchesType(processType, type))),
+  ];
+
+  return types
+    .filter((type): type is RecipeType => !!type && !!type.recipe?.length)
+    .map(type => ({ title: type.name, steps: type.recipe! }));
+};
+
+/**
+ * Formats a recipe step as a single line (ASCII only, so it prints on any thermal code page)
+ * @param step - The recipe step
+ * @param index - Zero-based step index
+ * @returns Step text
+ *
+ * @example
+ * formatRecipeStep({ chemical: 'Enzyme', dosagePerKg: 5, temperature: 45, durationMinutes: 30, rpm: 35 }, 0)
+ * => '1. Enzyme 5 g/kg, 45C, 30 min, 35 rpm'
+ */
+export const formatRecipeStep = (step: WashRecipeStep, index: number): string => {
+  return `${index + 1}. ${step.chemical} ${step.dosagePerKg} g/kg, ${step.temperature}C, ${step.durationMinutes} min, ${step.rpm} rpm`;
+};
@@ -0,0 +1,226 @@
+/**
+ * Utility functions for reconciling an order's quantities from intake through to delivery
+ * Pieces move received → assigned → returned → damaged → delivered; anything that drops out between stages is missing,
+ * except pieces short on return that QC recorded as damaged or sent to re-wash
+ */
+import { isReworkRecord } from './reworkUtils';
+import { normalizeStatus } from './statusUtils';
+import { getDeliveredQuantitiesByRecord } from './deliveryUtils';
+import type { DeliveryEntry, QuantityOverride } from '../services/orderService';
+
+// Pieces counted at each stage, in the order they move through the plant
+export interface QuantityFlow {
+  received: number;
+  assigned: number;
+  returned: number;
+  damaged: number;
+  delivered: number;
+}
+
+export interface ReconciliationIssue {
+  recordId?: number; // Not set for issues with the order as a whole
+  trackingNumber?: string;
+  missingQuantity: number; // Pieces unaccounted for, 0 when the numbers are off the other way
+  message: string;
+}
+
+export interface RecordReconciliation extends QuantityFlow {
+  recordId: number;
+  trackingNumber: string;
+  itemName?: string;
+  reworked: number; // Sent back for re-wash, they go out under this record when they come back
+  passedQC: number; // Returned, less damaged and re-wash pieces still out; all that can ever be delivered
+  inProduction: number; // Not yet assigned, or still on the machines
+  awaitingDelivery: number; // Passed QC and not delivered yet
+  issues: ReconciliationIssue[];
+}
+
+export interface OrderReconciliation extends QuantityFlow {
+  orderId: number;
+  declared: number; // Pieces the customer said they sent
+  recorded: number; // Pieces split into records
+  records: RecordReconciliation[];
+  issues: ReconciliationIssue[]; // Order issues first, then every record's issues
+  missingQuantity: number;
+  override: QuantityOverride | null;
+}
+
+export interface ReconciliationRecordInput {
+  id: number;
+  trackingNumber: string;
+  itemName?: string;
+  quantity: number;
+  isRework?: boolean;
+  parentRecordId?: number | null;
+  damageCount?: number | null;
+  assignments: { quantity: number; returnQuantity?: number | null; status: string }[];
+}
+
+export interface ReconciliationInput {
+  order: { id: number; quantity: number; quantityOverride?: QuantityOverride | null };
+  records: ReconciliationRecordInput[];
+  deliveries: DeliveryEntry[];
+  piecesReceived?: number; // Counted on the goods receipt, the declared quantity is used when not counted
+}
+
+/**
+ * Totals what went onto the machines and what came back for one record
+ * Assignments finished without a return quantity are taken to have returned everything
+ */
+const getAssignmentTotals = (record: ReconciliationRecordInput) => {
+  const active = record.assignments.filter(assignment => assignment.status?.toLowerCase() !== 'cancelled');
+  const completed = active.filter(assignment => normalizeStatus(assignment.status, 'assignment') === 'Complete');
+
+  return {
+    assigned: active.reduce((sum, assignment) => sum + assignment.quantity, 0),
+    completedAssigned: completed.reduce((sum, assignment) => sum + assignment.quantity, 0),
+    returned: completed.reduce((sum, assignment) => sum + (assignment.returnQuantity ?? assignment.quantity), 0),
+  };
+};
+
+/**
+ * Works out how much of a return shortfall the damage recorded at QC explains
+ * Operators often leave damaged and re-wash pieces out of the return quantity, so recorded damage
+ * first accounts for pieces that didn't come back and only the rest comes out of what did
+ * @param completedAssigned - Pieces on completed assignments
+ * @param returned - Pieces returned from them
+ * @param damaged - Pieces QC recorded as damaged or sent to re-wash
+ * @returns Pieces missing with no damage to explain them, and damaged pieces that were among those returned
+ *
+ * @example
+ * // 100 pcs assigned, 97 returned, 3 damaged
+ * explainShortfall(100, 97, 3) => { missing: 0, damagedFromReturned: 0 }
+ */
+const explainShortfall = (completedAssigned: number, returned: number, damaged: number) => {
+  const shortfall = Math.max(0, completedAssigned - returned);
+  const explained = Math.min(shortfall, damaged);
+
+  return {
+    missing: shortfall - explained,
+    damagedFromReturned: damaged - explained,
+  };
+};
+
+/**
+ * Follows one record, and the re-wash records raised from it, from the machines to delivery
+ * @param record - The original record
+ * @param reworkRecords - Re-wash records whose pieces came from this record
+ * @param delivered - Pieces delivered under this record
+ * @returns The record's quantities at each stage and anything that doesn't add up
+ */
+const reconcileRecord = (
+  record: ReconciliationRecordInput,
+  reworkRecords: ReconciliationRecordInput[],
+  delivered: number
+): RecordReconciliation => {
+  const own = getAssignmentTotals(record);
+  const rework = reworkRecords.map(getAssignmentTotals);
+  const ownDamaged = record.damageCount || 0;
+  const reworked = reworkRecords.reduce((sum, reworkRecord) => sum + reworkRecord.quantity, 0);
+  const reworkDamaged = reworkRecords.reduce((sum, reworkRecord) => sum + (reworkRecord.damageCount || 0), 0);
+  const reworkReturned = rework.reduce((sum, totals) => sum + totals.returned, 0);
+  const reworkCompleted = rework.reduce((sum, totals) => sum + totals.completedAssigned, 0);
+
+  // Re-wash pieces left out of the return are explained the same way as damaged ones
+  const ownShortfall = explainShortfall(own.completedAssigned, own.returned, ownDamaged + reworked);
+  const reworkShortfalls = reworkRecords.map((reworkRecord, index) =>
+    explainShortfall(rework[index].completedAssigned, rework[index].returned, reworkRecord.damageCount || 0)
+  );
+  const notReturned = ownShortfall.missing + reworkShortfalls.reduce((sum, shortfall) => sum + shortfall.missing, 0);
+  const passedQC = own.returned - ownShortfall.damagedFromReturned
+    + reworkReturned - reworkShortfalls.reduce((sum, shortfall) => sum + shortfall.damagedFromReturned, 0);
+
+  const issues: ReconciliationIssue[] = [];
+  const addIssue = (message: string, missingQuantity = 0) => {
+    issues.push({ recordId: record.id, trackingNumber: record.trackingNumber, missingQuantity, message });
+  };
+
+  if (own.assigned > record.quantity) {
+    addIssue(`${own.assigned - record.quantity} pcs more assigned than the ${record.quantity} pcs on the record`);
+  }
+  if (notReturned > 0) {
+    addIssue(`${notReturned} pcs went onto the machines and were not returned or recorded as damaged`, notReturned);
+  }
+  if (ownDamaged + reworked > own.completedAssigned) {
+    addIssue(`${ownDamaged + reworked} pcs damaged or sent to re-wash, but only ${own.completedAssigned} pcs came off the machines`);
+  }
+  if (delivered > Math.max(0, passedQC)) {
+    addIssue(`${delivered - Math.max(0, passedQC)} pcs more delivered than passed QC`);
+  }
+
+  return {
+    recordId: record.id,
+    trackingNumber: record.trackingNumber,
+    itemName: record.itemName,
+    received: record.quantity,
+    assigned: own.assigned,
+    returned: own.returned,
+    damaged: ownDamaged + reworkDamaged,
+    delivered,
+    reworked,
+    passedQC: Math.max(0, passedQC),
+    inProduction: Math.max(0, record.quantity - own.completedAssigned) + Math.max(0, reworked - reworkCompleted),
+    awaitingDelivery: Math.max(0, passedQC - delivered),
+    issues,
+  };
+};
+
+/**
+ * Reconciles an order's quantities per record and for the order as a whole
+ * Re-wash records are folded into the record they came from, as that is what they are delivered under
+ * @param input - The order, its records with their assignments, the delivery ledger and the goods receipt count
+ * @returns Quantities at each stage, the issues found and how many pieces are missing
+ *
+ * @example
+ * // 100 pcs received and recorded, 100 assigned, 97 returned
+ * reconcileOrder(input).missingQuantity => 3
+ * // ... and QC recorded the 3 as damaged
+ * reconcileOrder(input).missingQuantity => 0
+ */
+export const reconcileOrder = (input: ReconciliationInput): OrderReconciliation => {
+  const { order, deliveries } = input;
+  const delivered = getDeliveredQuantitiesByRecord(deliveries);
+  const originals = input.records.filter(record => !isReworkRecord(record) || !input.records.some(parent => parent.id === record.parentRecordId));
+
+  const records = originals.map(record => reconcileRecord(
+    record,
+    input.records.filter(reworkRecord => isReworkRecord(reworkRecord) && reworkRecord.parentRecordId === record.id),
+    delivered[record.id] || 0
+  ));
+
+  const received = input.piecesReceived ?? order.quantity;
+  const recorded = records.reduce((sum, record) => sum + record.received, 0);
+  const orderIssues: ReconciliationIssue[] = [];
+  if (received > 0 && recorded < received) {
+    orderIssues.push({ missingQuantity: received - recorded, message: `${received - recorded} pcs received are not on any record` });
+  } else if (received > 0 && recorded > received) {
+    orderIssues.push({ missingQuantity: 0, message: `Records total ${recorded - received} pcs more than the ${received} pcs received` });
+  }
+
+  const issues = [...orderIssues, ...records.flatMap(record => record.issues)];
+  const sum = (stage: keyof QuantityFlow) => records.reduce((total, record) => total + record[stage], 0);
+
+  return {
+    orderId: order.id,
+    declared: order.quantity,
+    recorded,
+    received,
+    assigned: sum('assigned'),
+    returned: sum('returned'),
+    damaged: sum('damaged'),
+    delivered: sum('delivered'),
+    records,
+    issues,
+    missingQuantity: issues.reduce((total, issue) => total + issue.missingQuantity, 0),
+    override: order.quantityOverride || null,
+  };
+};
+
+/**
+ * Checks whether an order must stop before delivery or billing
+ * @param reconciliation - The order's reconciliation
+ * @returns true when the quantities don't add up and no manager has overridden the check
+ */
+export const isQuantityCheckBlocked = (reconciliation: OrderReconciliation): boolean => {
+  return reconciliation.issues.length > 0 && !reconciliation.override;
+};
@@ -0,0 +1,30 @@
+/**
+ * Utility functions for rework records - pieces QC sent back into production
+ */
+
+interface ReworkAware {
+  isRework?: boolean;
+}
+
+/**
+ * Checks whether a record holds rework pieces rather than pieces the customer sent in
+ * @param record - An order record
+ * @returns True for rework records
+ */
+export const isReworkRecord = (record: ReworkAware): boolean => {
+  return !!record.isRework;
+};
+
+/**
+ * Filters order records down to the ones that should be billed
+ * Rework pieces are already counted in the original record's quantity
+ * @param records - The order records
+ * @param includeRework - Whether rework records are billed as well (VITE_BILL_REWORK_PIECES)
+ * @returns Records to put on the invoice
+ *
+ * @example
+ * getBillableRecords([{ id: 1 }, { id: 2, isRework: true }], false) => [{ id: 1 }]
+ */
+export const getBillableRecords = <T extends ReworkAware>(records: T[], includeRework: boolean): T[] => {
+  return includeRework ? records : records.filter(record => !isReworkRecord(record));
+};
@@ -23,11 +23,13 @@ export interface RolePermissions {
   canViewManagement: boolean;
   canViewQC: boolean;
   canViewBilling: boolean;
+  canViewReports: boolean;
   canViewPrinter: boolean;
   canViewIntegrations: boolean;
   canEdit: boolean;
   canDelete: boolean;
   canMarkDelivered: boolean;
+  canOverrideQuantities: boolean; // Deliver and bill orders whose quantities don't reconcile
 }
 
 /**
@@ -85,11 +87,13 @@ export const getRolePermissions = (user: User | null): RolePermissions => {
         canViewManagement: true,
         canViewQC: true,
         canViewBilling: true,
+        canViewReports: true,
         canViewPrinter: true,
         canViewIntegrations: true,
         canEdit: true,
         canDelete: true,
         canMarkDelivered: true,
+        canOverrideQuantities: true,
       };
     
     case 'manager':
@@ -104,11 +108,13 @@ export const getRolePermissions = (user: User | null): RolePermissions => {
         canViewManagement: true,
         canViewQC: true,
         canViewBilling: false,
+        canViewReports: false,
         canViewPrinter: true,
         canViewIntegrations: false,
         canEdit: false,
         canDelete: false,
         canMarkDelivered: true,
+        canOverrideQuantities: true,
       };
     
     case 'user':
@@ -124,11 +130,13 @@ export const getRolePermissions = (user: User | null): RolePermissions => {
         canViewManagement: false,
         canViewQC: false,
         canViewBilling: false,
+        canViewReports: false,
         canViewPrinter: true,
         canViewIntegrations: false,
         canEdit: false,
         canDelete: false,
         canMarkDelivered: false,
+        canOverrideQuantities: false,
       };
   }
 };
@@ -0,0 +1,200 @@
+/**
+ * Utility functions for building customer statements of account
+ */
+import type { CreditNote, Invoice, PaymentEntry } from '../services/billingService';
+import { describePaymentMethod } from './paymentUtils';
+
+export interface StatementLine {
+  date: string;
+  type: 'invoice' | 'credit_note' | 'payment';
+  reference: string;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number; // running balance after this line
+}
+
+export interface AgingBuckets {
+  current: number; // 0-30 days
+  days31To60: number;
+  days61To90: number;
+  over90: number;
+}
+
+export interface StatementCustomer {
+  id: string;
+  name: string;
+  code?: string;
+  address?: string;
+  currency?: string; // Statement amounts are in the customer's invoice currency
+}
+
+export interface CustomerStatement {
+  customer: StatementCustomer;
+  dateFrom: string;
+  dateTo: string;
+  openingBalance: number;
+  lines: StatementLine[];
+  totalInvoiced: number;
+  totalPaid: number;
+  totalCredited: number;
+  closingBalance: number;
+  aging: AgingBuckets;
+}
+
+export const AGING_BUCKETS: { key: keyof AgingBuckets; label: string }[] = [
+  { key: 'current', label: '0-30 Days' },
+  { key: 'days31To60', label: '31-60 Days' },
+  { key: 'days61To90', label: '61-90 Days' },
+  { key: 'over90', label: '90+ Days' },
+];
+
+const roundCurrency = (value: number): number => {
+  return Math.round(value * 100) / 100;
+};
+
+const toDateKey = (date: string): string => {
+  return date.split('T')[0];
+};
+
+const daysBetween = (from: string, to: string): number => {
+  const start = new Date(`${toDateKey(from)}T00:00:00Z`).getTime();
+  const end = new Date(`${toDateKey(to)}T00:00:00Z`).getTime();
+  return Math.floor((end - start) / (24 * 60 * 60 * 1000));
+};
+
+/**
+ * Puts an outstanding amount into its aging bucket
+ * @param aging - Buckets to add to
+ * @param days - Days since the invoice date
+ * @param amount - Amount still owed on the invoice
+ */
+const addToAgingBucket = (aging: AgingBuckets, days: number, amount: number): void => {
+  if (days <= 30) aging.current = roundCurrency(aging.current + amount);
+  else if (days <= 60) aging.days31To60 = roundCurrency(aging.days31To60 + amount);
+  else if (days <= 90) aging.days61To90 = roundCurrency(aging.days61To90 + amount);
+  else aging.over90 = roundCurrency(aging.over90 + amount);
+};
+
+/**
+ * Builds a statement of account for a date range
+ * Invoices, credit notes and payments before the range make up the opening balance. Aging is
+ * worked out per invoice as at the end of the range, from the invoice date.
+ * @param customer - Customer the statement is for
+ * @param invoices - Customer invoices up to the end of the range
+ * @param payments - Customer payments up to the end of the range
+ * @param creditNotes - Customer credit notes up to the end of the range
+ * @param dateFrom - First day of the statement (YYYY-MM-DD)
+ * @param dateTo - Last day of the statement (YYYY-MM-DD)
+ * @returns Statement with running balance and aging buckets
+ *
+ * @example
+ * // Rs. 1000 invoiced on 1 Jan, Rs. 400 paid on 10 Feb
+ * buildCustomerStatement(customer, invoices, payments, [], '2024-02-01', '2024-02-29')
+ *   => { openingBalance: 1000, closingBalance: 600, aging: { days31To60: 600, ... } }
+ */
+export const buildCustomerStatement = (
+  customer: StatementCustomer,
+  invoices: Pick<Invoice, 'id' | 'invoiceNumber' | 'total' | 'status' | 'createdAt'>[],
+  payments: Pick<PaymentEntry, 'id' | 'invoiceId' | 'receiptNumber' | 'paymentDate' | 'amount' | 'method' | 'chequeNumber' | 'bank'>[],
+  creditNotes: Pick<CreditNote, 'invoiceId' | 'invoiceNumber' | 'creditNoteNumber' | 'issueDate' | 'reason' | 'total'>[],
+  dateFrom: string,
+  dateTo: string
+): CustomerStatement => {
+  // Drafts have not been issued to the customer yet and void invoices are no longer owed
+  const issuedInvoices = invoices.filter(invoice =>
+    invoice.status !== 'draft' && invoice.status !== 'void' && toDateKey(invoice.createdAt) <= dateTo
+  );
+  const receivedPayments = payments.filter(payment => toDateKey(payment.paymentDate) <= dateTo);
+  const issuedCreditNotes = creditNotes.filter(creditNote => toDateKey(creditNote.issueDate) <= dateTo);
+  const invoiceNumbers = new Map(issuedInvoices.map(invoice => [invoice.id, invoice.invoiceNumber]));
+
+  let openingBalance = 0;
+  const entries: Omit<StatementLine, 'balance'>[] = [];
+
+  issuedInvoices.forEach(invoice => {
+    const date = toDateKey(invoice.createdAt);
+    if (date < dateFrom) {
+      openingBalance += invoice.total;
+      return;
+    }
+    entries.push({
+      date,
+      type: 'invoice',
+      reference: invoice.invoiceNumber,
+      description: 'Invoice',
+      debit: invoice.total,
+      credit: 0,
+    });
+  });
+
+  issuedCreditNotes.forEach(creditNote => {
+    const date = toDateKey(creditNote.issueDate);
+    if (date < dateFrom) {
+      openingBalance -= creditNote.total;
+      return;
+    }
+    entries.push({
+      date,
+      type: 'credit_note',
+      reference: creditNote.creditNoteNumber,
+      description: `Credit Note (${creditNote.invoiceNumber}) - ${creditNote.reason}`,
+      debit: 0,
+      credit: creditNote.total,
+    });
+  });
+
+  receivedPayments.forEach(payment => {
+    const date = toDateKey(payment.paymentDate);
+    if (date < dateFrom) {
+      openingBalance -= payment.amount;
+      return;
+    }
+    const invoiceNumber = invoiceNumbers.get(payment.invoiceId);
+    entries.push({
+      date,
+      type: 'payment',
+      reference: payment.receiptNumber || `RCPT-${payment.id}`,
+      description: `Payment - ${describePaymentMethod(payment)}${invoiceNumber ? ` (${invoiceNumber})` : ''}`,
+      debit: 0,
+      credit: payment.amount,
+    });
+  });
+
+  // Same-day invoices come before the credit notes and payments against them
+  const typeOrder = { invoice: 0, credit_note: 1, payment: 2 };
+  entries.sort((a, b) => a.date.localeCompare(b.date) || typeOrder[a.type] - typeOrder[b.type]);
+
+  let balance = roundCurrency(openingBalance);
+  const lines = entries.map(entry => {
+    balance = roundCurrency(balance + entry.debit - entry.credit);
+    return { ...entry, balance };
+  });
+
+  const aging: AgingBuckets = { current: 0, days31To60: 0, days61To90: 0, over90: 0 };
+  issuedInvoices.forEach(invoice => {
+    const paid = receivedPayments
+      .filter(payment => payment.invoiceId === invoice.id)
+      .reduce((sum, payment) => sum + payment.amount, 0);
+    const credited = issuedCreditNotes
+      .filter(creditNote => creditNote.invoiceId === invoice.id)
+      .reduce((sum, creditNote) => sum + creditNote.total, 0);
+    const outstanding = roundCurrency(invoice.total - paid - credited);
+    if (outstanding > 0) {
+      addToAgingBucket(aging, daysBetween(invoice.createdAt, dateTo), outstanding);
+    }
+  });
+
+  return {
+    customer,
+    dateFrom,
+    dateTo,
+    openingBalance: roundCurrency(openingBalance),
+    lines,
+    totalInvoiced: roundCurrency(lines.reduce((sum, line) => sum + line.debit, 0)),
+    totalPaid: roundCurrency(lines.filter(line => line.type === 'payment').reduce((sum, line) => sum + line.credit, 0)),
+    totalCredited: roundCurrency(lines.filter(line => line.type === 'credit_note').reduce((sum, line) => sum + line.credit, 0)),
+    closingBalance: balance,
+    aging,
+  };
+};
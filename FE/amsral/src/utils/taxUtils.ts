@@ -0,0 +1,92 @@
+/**
+ * Utility functions for computing invoice taxes from configured tax components
+ */
+import type { TaxComponent, TaxLine } from '../services/taxService';
+
+export interface TaxBreakdown {
+  lines: TaxLine[];
+  taxAmount: number;
+  effectiveRate: number; // fraction of the subtotal, e.g. 0.2095
+}
+
+const roundCurrency = (value: number): number => {
+  return Math.round(value * 100) / 100;
+};
+
+const toDateKey = (date: string | Date): string => {
+  return (typeof date === 'string' ? date : date.toISOString()).split('T')[0];
+};
+
+/**
+ * Picks the tax components in force on a date
+ * When a code has several rates in force, the one that started latest wins
+ * @param components - All configured tax components
+ * @param date - Invoice date
+ * @returns Components in force, in charging order
+ *
+ * @example
+ * getEffectiveTaxComponents([vat15From2022, vat18From2024], '2024-03-01') => [vat18From2024]
+ */
+export const getEffectiveTaxComponents = (components: TaxComponent[], date: string | Date): TaxComponent[] => {
+  const day = toDateKey(date);
+  const byCode = new Map<string, TaxComponent>();
+
+  components
+    .filter(component =>
+      toDateKey(component.effectiveFrom) <= day &&
+      (!component.effectiveTo || day <= toDateKey(component.effectiveTo))
+    )
+    .forEach(component => {
+      const current = byCode.get(component.code);
+      if (!current || toDateKey(current.effectiveFrom) < toDateKey(component.effectiveFrom)) {
+        byCode.set(component.code, component);
+      }
+    });
+
+  return Array.from(byCode.values()).sort((a, b) => a.sortOrder - b.sortOrder);
+};
+
+/**
+ * Computes the tax lines for an invoice subtotal
+ * Compound components are charged on the subtotal plus the taxes charged before them
+ * @param subtotal - Invoice subtotal before tax
+ * @param components - All configured tax components
+ * @param date - Invoice date, used to pick the rates in force
+ * @returns Tax lines, total tax and the effective rate
+ *
+ * @example
+ * // SSCL 2.5% then VAT 18% compound on 1000
+ * calculateTaxes(1000, components, '2024-03-01') => { taxAmount: 209.5, effectiveRate: 0.2095, lines: [...] }
+ */
+export const calculateTaxes = (subtotal: number, components: TaxComponent[], date: string | Date): TaxBreakdown => {
+  const lines: TaxLine[] = [];
+  let taxAmount = 0;
+
+  getEffectiveTaxComponents(components, date).forEach(component => {
+    const taxableAmount = roundCurrency(component.compound ? subtotal + taxAmount : subtotal);
+    const amount = roundCurrency(taxableAmount * component.rate / 100);
+    lines.push({
+      code: component.code,
+      name: component.name,
+      rate: component.rate,
+      taxableAmount,
+      amount,
+    });
+    taxAmount = roundCurrency(taxAmount + amount);
+  });
+
+  return {
+    lines,
+    taxAmount,
+    effectiveRate: subtotal > 0 ? Math.round(taxAmount / subtotal * 10000) / 10000 : 0,
+  };
+};
+
+/**
+ * Formats a tax line label for invoices
+ * @param line - Tax line
+ * @returns Label such as "VAT (18%)"
+ */
+export const formatTaxLineLabel = (line: Pick<TaxLine, 'name' | 'rate'>): string => {
+  return `${line.name} (${Number(line.rate.toFixed(2))}%)`;
+};
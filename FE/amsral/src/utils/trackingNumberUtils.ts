@@ -1,41 +1,78 @@
 /**
  * Utility functions for generating and managing tracking numbers
- * Format: <order_id><alphabetical_letter> (e.g., 6A, 6B, 6C, etc.)
+ * Format: <order_id><letters> (e.g., 6A, 6B, ... 6Z, 6AA, 6AB, etc.)
  */
 
+// Digits for the order id followed by an uppercase letter suffix. Since the id is all
+// digits and the suffix all letters, the split between them is never ambiguous.
+const TRACKING_NUMBER_PATTERN = /^(\d+)([A-Z]+)$/;
+
+/**
+ * Converts a zero-based index to a spreadsheet-style letter suffix
+ * @param index - Zero-based record index
+ * @returns The suffix (0 => "A", 25 => "Z", 26 => "AA", 27 => "AB")
+ */
+export function indexToTrackingSuffix(index: number): string {
+  let suffix = '';
+  let remaining = index + 1;
+
+  while (remaining > 0) {
+    const letterIndex = (remaining - 1) % 26;
+    suffix = String.fromCharCode(65 + letterIndex) + suffix;
+    remaining = Math.floor((remaining - 1) / 26);
+  }
+
+  return suffix;
+}
+
+/**
+ * Converts a spreadsheet-style letter suffix back to its zero-based index
+ * @param suffix - The letter suffix (e.g., "A", "Z", "AA")
+ * @returns The zero-based index ("A" => 0, "AA" => 26)
+ */
+export function trackingSuffixToIndex(suffix: string): number {
+  return suffix
+    .split('')
+    .reduce((total, letter) => total * 26 + (letter.charCodeAt(0) - 64), 0) - 1;
+}
+
+/**
+ * Splits a tracking number into its order ID and letter suffix
+ * @param trackingNumber - The tracking number (e.g., "6AB")
+ * @returns The order ID and suffix, or null if the format is invalid
+ */
+function parseTrackingNumber(trackingNumber: string): { orderId: number; suffix: string } | null {
+  const match = TRACKING_NUMBER_PATTERN.exec(trackingNumber);
+  if (!match) return null;
+
+  return { orderId: parseInt(match[1], 10), suffix: match[2] };
+}
+
 /**
  * Generates the next tracking number for a given order ID based on existing records
  * @param orderId - The order ID
  * @param existingRecords - Array of existing order records for this order
- * @returns The next tracking number (e.g., "6A", "6B", "6C")
+ * @returns The next tracking number (e.g., "6A", "6B", ... "6Z", "6AA", "6AB")
  */
 export function generateNextTrackingNumber(
   orderId: number, 
   existingRecords: Array<{ trackingNumber?: string }>
 ): string {
-  // Extract existing tracking numbers for this order
-  const existingTrackingNumbers = existingRecords
-    .map(record => record.trackingNumber)
-    .filter(trackingNumber => trackingNumber && trackingNumber.startsWith(orderId.toString()))
-    .map(trackingNumber => trackingNumber!.substring(orderId.toString().length))
-    .filter(suffix => suffix.length === 1 && /^[A-Z]$/.test(suffix));
+  // Collect the suffixes already used by this order
+  const usedIndexes = new Set(
+    existingRecords
+      .map(record => record.trackingNumber && parseTrackingNumber(record.trackingNumber))
+      .filter((parsed): parsed is { orderId: number; suffix: string } => !!parsed && parsed.orderId === orderId)
+      .map(parsed => trackingSuffixToIndex(parsed.suffix))
+  );
 
-  // Find the next available letter
-  const usedLetters = new Set(existingTrackingNumbers);
-  let nextLetter = 'A';
-  
-  // Find the first unused letter
-  while (usedLetters.has(nextLetter)) {
-    nextLetter = String.fromCharCode(nextLetter.charCodeAt(0) + 1);
-    
-    // If we reach beyond Z, we could extend to AA, AB, etc. if needed
-    // For now, we'll limit to single letters (A-Z)
-    if (nextLetter > 'Z') {
-      throw new Error(`Maximum tracking numbers reached for order ${orderId}. Cannot generate more than 26 records per order.`);
-    }
+  // Find the first unused suffix
+  let nextIndex = 0;
+  while (usedIndexes.has(nextIndex)) {
+    nextIndex++;
   }
 
-  return `${orderId}${nextLetter}`;
+  return `${orderId}${indexToTrackingSuffix(nextIndex)}`;
 }
 
 /**
@@ -44,36 +81,45 @@ export function generateNextTrackingNumber(
  * @returns true if valid, false otherwise
  */
 export function isValidTrackingNumber(trackingNumber: string): boolean {
-  // Format: <order_id><single_letter>
-  const pattern = /^\d+[A-Z]$/;
-  return pattern.test(trackingNumber);
+  // Format: <order_id><letters>
+  return TRACKING_NUMBER_PATTERN.test(trackingNumber);
+}
+
+/**
+ * Checks whether a scanned value is a bare order reference, as printed on bag labels
+ * @param value - The scanned value (e.g., "6")
+ * @returns true for an order ID with no record suffix
+ */
+export function isOrderReference(value: string): boolean {
+  return /^\d+$/.test(value);
 }
 
 /**
  * Extracts the order ID from a tracking number
- * @param trackingNumber - The tracking number (e.g., "6A")
+ * @param trackingNumber - The tracking number (e.g., "6A" or "6AB")
  * @returns The order ID (e.g., 6)
  */
 export function extractOrderIdFromTrackingNumber(trackingNumber: string): number {
-  if (!isValidTrackingNumber(trackingNumber)) {
+  const parsed = parseTrackingNumber(trackingNumber);
+  if (!parsed) {
     throw new Error(`Invalid tracking number format: ${trackingNumber}`);
   }
   
-  const orderId = trackingNumber.slice(0, -1);
-  return parseInt(orderId, 10);
+  return parsed.orderId;
 }
 
 /**
  * Extracts the letter suffix from a tracking number
- * @param trackingNumber - The tracking number (e.g., "6A")
- * @returns The letter suffix (e.g., "A")
+ * @param trackingNumber - The tracking number (e.g., "6A" or "6AB")
+ * @returns The letter suffix (e.g., "A" or "AB")
  */
 export function extractLetterFromTrackingNumber(trackingNumber: string): string {
-  if (!isValidTrackingNumber(trackingNumber)) {
+  const parsed = parseTrackingNumber(trackingNumber);
+  if (!parsed) {
     throw new Error(`Invalid tracking number format: ${trackingNumber}`);
   }
   
-  return trackingNumber.slice(-1);
+  return parsed.suffix;
 }
 
 /**
@@ -88,8 +134,9 @@ export function getTrackingNumbersForOrder(
 ): string[] {
   return allRecords
     .map(record => record.trackingNumber)
-    .filter(trackingNumber => trackingNumber && trackingNumber.startsWith(orderId.toString()))
-    .map(trackingNumber => trackingNumber!) as string[];
+    .filter((trackingNumber): trackingNumber is string =>
+      !!trackingNumber && parseTrackingNumber(trackingNumber)?.orderId === orderId
+    );
 }
 
 /**
@@ -102,5 +149,6 @@ export function isTrackingNumberInUse(
   trackingNumber: string, 
   existingRecords: Array<{ trackingNumber?: string }>
 ): boolean {
-  return existingRecords.some(record => record.trackingNumber === trackingNumber);
+  const normalized = trackingNumber.trim().toUpperCase();
+  return existingRecords.some(record => record.trackingNumber?.trim().toUpperCase() === normalized);
 }
@@ -0,0 +1,176 @@
+/**
+ * Utility functions for reading the first worksheet of an Excel (.xlsx) workbook in the browser
+ * An .xlsx file is a zip of XML parts; entries are inflated with the built-in DecompressionStream
+ */
+
+interface ZipEntry {
+  method: number; // 0 stored, 8 deflated
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+/**
+ * Lists the files in a zip archive from its central directory
+ * @param bytes - The whole archive
+ * @returns Entries by path
+ */
+const readZipDirectory = (bytes: Uint8Array): Map<string, ZipEntry> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // The end of central directory record sits in the last 22 bytes plus an optional comment
+  let endOffset = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset === -1) {
+    throw new Error('The file is not an Excel workbook');
+  }
+
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) {
+      throw new Error('The workbook is damaged');
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+/**
+ * Extracts one file from a zip archive as text
+ * @param bytes - The whole archive
+ * @param entries - The archive's directory
+ * @param path - Path of the file inside the archive
+ * @returns The file's text, or null when the archive has no such file
+ */
+const readZipText = async (bytes: Uint8Array, entries: Map<string, ZipEntry>, path: string): Promise<string | null> => {
+  const entry = entries.get(path);
+  if (!entry) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const headerOffset = entry.localHeaderOffset;
+  const dataOffset = headerOffset + 30 + view.getUint16(headerOffset + 26, true) + view.getUint16(headerOffset + 28, true);
+  const data = bytes.slice(dataOffset, dataOffset + entry.compressedSize);
+
+  if (entry.method === 0) {
+    return new TextDecoder().decode(data);
+  }
+  if (entry.method !== 8) {
+    throw new Error('The workbook uses an unsupported compression method');
+  }
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+};
+
+const parseXml = (text: string): Document => {
+  return new DOMParser().parseFromString(text, 'application/xml');
+};
+
+/**
+ * Joins the text runs of a shared or inline string, leaving out phonetic guides
+ */
+const getStringText = (element: Element): string => {
+  return Array.from(element.getElementsByTagNameNS(SPREADSHEET_NS, 't'))
+    .filter(textElement => textElement.parentElement?.localName !== 'rPh')
+    .map(textElement => textElement.textContent || '')
+    .join('');
+};
+
+/**
+ * Converts a cell's column letters to a zero-based index
+ * @example
+ * getColumnIndex('AB12') => 27
+ */
+const getColumnIndex = (cellReference: string): number => {
+  const letters = cellReference.replace(/[^A-Z]/gi, '').toUpperCase();
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+/**
+ * Finds the path of the first worksheet in the workbook
+ */
+const getFirstSheetPath = async (bytes: Uint8Array, entries: Map<string, ZipEntry>): Promise<string> => {
+  const fallback = 'xl/worksheets/sheet1.xml';
+  const workbookText = await readZipText(bytes, entries, 'xl/workbook.xml');
+  const relsText = await readZipText(bytes, entries, 'xl/_rels/workbook.xml.rels');
+  if (!workbookText || !relsText) return fallback;
+
+  const firstSheet = parseXml(workbookText).getElementsByTagNameNS(SPREADSHEET_NS, 'sheet')[0];
+  const relationId = firstSheet?.getAttributeNS(RELATIONSHIP_NS, 'id');
+  const relation = Array.from(parseXml(relsText).getElementsByTagName('Relationship'))
+    .find(element => element.getAttribute('Id') === relationId);
+  const target = relation?.getAttribute('Target');
+  if (!target) return fallback;
+
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+};
+
+/**
+ * Reads the cells of the first worksheet in an .xlsx workbook
+ * Cells are returned as Excel stores them, so dates come back as serial day numbers
+ * @param file - The workbook the user picked
+ * @returns Non-blank rows of trimmed cells
+ */
+export const readXlsxRows = async (file: Blob): Promise<string[][]> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const entries = readZipDirectory(bytes);
+
+  const sharedStringsText = await readZipText(bytes, entries, 'xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsText
+    ? Array.from(parseXml(sharedStringsText).getElementsByTagNameNS(SPREADSHEET_NS, 'si')).map(getStringText)
+    : [];
+
+  const sheetText = await readZipText(bytes, entries, await getFirstSheetPath(bytes, entries));
+  if (!sheetText) {
+    throw new Error('The workbook has no worksheets');
+  }
+
+  const rows: string[][] = [];
+  Array.from(parseXml(sheetText).getElementsByTagNameNS(SPREADSHEET_NS, 'row')).forEach(rowElement => {
+    const row: string[] = [];
+    Array.from(rowElement.getElementsByTagNameNS(SPREADSHEET_NS, 'c')).forEach(cell => {
+      const reference = cell.getAttribute('r');
+      const index = reference ? getColumnIndex(reference) : row.length;
+      const type = cell.getAttribute('t');
+      const value = cell.getElementsByTagNameNS(SPREADSHEET_NS, 'v')[0]?.textContent || '';
+
+      let text = value;
+      if (type === 's') {
+        text = sharedStrings[Number(value)] || '';
+      } else if (type === 'inlineStr') {
+        const inlineString = cell.getElementsByTagNameNS(SPREADSHEET_NS, 'is')[0];
+        text = inlineString ? getStringText(inlineString) : '';
+      } else if (type === 'b') {
+        text = value === '1' ? 'TRUE' : 'FALSE';
+      }
+
+      while (row.length < index) row.push('');
+      row[index] = text.trim();
+    });
+    rows.push(row);
+  });
+
+  return rows.filter(cells => cells.some(value => value !== ''));
+};